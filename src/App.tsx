@@ -17,6 +17,7 @@ import { SignupPage } from '@/components/pages/auth/signup';
 import { DashboardPage } from '@/components/pages/dashboard';
 import { EditorPage } from '@/components/pages/editor';
 import { SettingsPage } from '@/components/pages/settings';
+import { PublicViewPage } from '@/components/pages/view';
 
 // Layout components
 import { GuestLayout } from '@/components/layout/guest-layout';
@@ -68,6 +69,9 @@ function App() {
       {/* Home page - available to everyone */}
       <Route path="/" element={<HomePage />} />
       
+      {/* Public player view - no account needed */}
+      <Route path="/view/:documentId" element={<PublicViewPage />} />
+      
       {/* Authentication routes - redirect authenticated users to dashboard */}
       <Route path="/login" element={
         user && !user.isGuest ? <Navigate to="/dashboard" replace /> : <LoginPage />
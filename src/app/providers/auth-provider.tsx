@@ -19,6 +19,16 @@ import type {
   UserProfile 
 } from '@/types/auth';
 import * as authService from '@/services/auth';
+import { migrateGuestDocuments, migrateSortKeys } from '@/services/documents';
+import { migrateGuestBinders, removeMigratedGuestBinders } from '@/services/binders';
+import { migrateGuestTemplates } from '@/services/templates';
+import { isOnline, subscribeToNetworkStatus } from '@/services/offline/network-status';
+import {
+  getPendingGuestMigration,
+  getStoredGuestId,
+  setPendingGuestMigration,
+  setStoredGuestId
+} from '@/services/guest-documents';
 
 /**
  * Initial authentication state
@@ -31,6 +41,70 @@ const initialAuthState: AuthState = {
   isEmailVerified: false,
 };
 
+/**
+ * Migration currently running, so overlapping auth and network events don't start another
+ */
+let guestMigration: Promise<void> | null = null;
+
+/**
+ * Remember that the guest is signing in, so their work moves to the account they sign in to
+ */
+const startGuestSignIn = (user: UserProfile | null): void => {
+  if (user?.isGuest) {
+    setPendingGuestMigration({ guestId: user.id, userId: null });
+  }
+};
+
+/**
+ * Forget a guest sign-in that failed before an account was chosen
+ */
+const cancelGuestSignIn = (): void => {
+  if (getPendingGuestMigration()?.userId === null) {
+    setPendingGuestMigration(null);
+  }
+};
+
+/**
+ * Move binders, documents (with their history and comments) and templates written as a guest in this
+ * browser into the account the guest signed in to.
+ * Runs in the background once the profile has loaded, and only online. The pending migration is kept
+ * until everything has moved, so failures retry on the next load or reconnect with that account.
+ */
+const migrateGuestSession = (userId: string): void => {
+  const migration = getPendingGuestMigration();
+  if (guestMigration || !migration || !isOnline()) return;
+  // Work from a guest who signed in to another account stays put
+  if (migration.userId && migration.userId !== userId) return;
+
+  setPendingGuestMigration({ guestId: migration.guestId, userId });
+  guestMigration = runGuestMigration(migration.guestId, userId).finally(() => {
+    guestMigration = null;
+  });
+};
+
+/**
+ * Move one guest's work into an account
+ */
+const runGuestMigration = async (guestId: string, userId: string): Promise<void> => {
+  try {
+    const binders = await migrateGuestBinders(guestId, userId);
+    const { failedCount } = await migrateGuestDocuments(guestId, userId, binders.binderIds);
+    // Guest binders map retried documents to their account binders until every document has moved
+    if (failedCount === 0) {
+      await removeMigratedGuestBinders(guestId);
+    }
+    const failedTemplates = await migrateGuestTemplates(guestId, userId);
+    if (failedCount === 0 && binders.failedCount === 0 && failedTemplates === 0) {
+      setPendingGuestMigration(null);
+      if (getStoredGuestId() === guestId) {
+        setStoredGuestId(null);
+      }
+    }
+  } catch (error) {
+    console.error('Error migrating guest documents:', error);
+  }
+};
+
 /**
  * Authentication context
  */
@@ -94,6 +168,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
               isEmailVerified: firebaseUser.emailVerified
             });
           }
+
+          // Sign-up or login after working as a guest; never holds up sign-in
+          migrateGuestSession(firebaseUser.uid);
+          migrateSortKeys(firebaseUser.uid);
         } catch (error) {
           console.error('Error loading user profile:', error);
           setAuthState({
@@ -118,12 +196,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => unsubscribe();
   }, []);
 
+  /**
+   * Finish moving guest work and adding sort keys that waited for the network
+   */
+  useEffect(() => subscribeToNetworkStatus(online => {
+    const currentUser = authService.getCurrentUser();
+    if (online && currentUser) {
+      migrateGuestSession(currentUser.uid);
+      migrateSortKeys(currentUser.uid);
+    }
+  }), []);
+
   /**
    * Sign in with email and password
    */
   const signIn = async (credentials: LoginCredentials): Promise<void> => {
     setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
     
+    startGuestSignIn(authState.user);
     try {
       const { user, firebaseUser } = await authService.signInWithEmail(credentials);
       
@@ -135,6 +225,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         isEmailVerified: firebaseUser.emailVerified
       });
     } catch (error) {
+      cancelGuestSignIn();
       setAuthState(prev => ({
         ...prev,
         isLoading: false,
@@ -151,6 +242,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     console.log('📝 Auth Provider: Starting signup for:', credentials.email);
     setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
     
+    startGuestSignIn(authState.user);
     try {
       const { user, firebaseUser } = await authService.signUpWithEmail(credentials);
       console.log('✅ Auth Provider: Signup successful for:', user.email);
@@ -163,6 +255,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         isEmailVerified: firebaseUser.emailVerified
       });
     } catch (error) {
+      cancelGuestSignIn();
       setAuthState(prev => ({
         ...prev,
         isLoading: false,
@@ -178,6 +271,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const signInWithOAuth = async (provider: OAuthProvider): Promise<void> => {
     setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
     
+    startGuestSignIn(authState.user);
     try {
       const { user, firebaseUser } = await authService.signInWithOAuth(provider);
       
@@ -189,6 +283,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         isEmailVerified: firebaseUser.emailVerified
       });
     } catch (error) {
+      cancelGuestSignIn();
       setAuthState(prev => ({
         ...prev,
         isLoading: false,
@@ -199,15 +294,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   /**
-   * Continue as guest user (no data persistence)
+   * Continue as guest user (documents stay in this browser until sign-up)
    */
   const continueAsGuest = async (): Promise<void> => {
     setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
     
     try {
       // Create a temporary guest user profile
+      // Reuse this browser's guest ID so earlier guest documents show up again
+      const guestId = getStoredGuestId() || `guest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      setStoredGuestId(guestId);
+
       const guestUser: UserProfile = {
-        id: `guest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: guestId,
         email: 'guest@dungeonsanddrafting.ai',
         displayName: 'Guest User',
         photoURL: null,
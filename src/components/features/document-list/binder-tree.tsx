@@ -0,0 +1,367 @@
+/**
+ * @fileoverview Campaign binder tree
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Sidebar tree of the user's binders and the documents in each. Documents are
+ * dragged onto a binder to file them at the end, onto another document to
+ * place them above it, or onto "Unfiled" to take them out of their binder.
+ */
+
+import React, { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileText,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Inbox,
+  Library,
+  Pencil,
+  Trash2
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { BinderTree as BinderTreeData, BinderTreeNode } from '@/lib/binder-tree';
+import type { Document } from '@/types/document';
+
+/**
+ * Drag data type carrying a document ID, shared with the document grid
+ */
+export const DOCUMENT_DRAG_TYPE = 'application/x-dnd-document-id';
+
+interface BinderTreeProps {
+  tree: BinderTreeData;
+  selectedBinderId: string | null; // null shows all documents
+  onSelectBinder: (binderId: string | null) => void;
+  onOpenDocument: (document: Document) => void;
+  onCreateBinder: (name: string) => Promise<unknown>;
+  onRenameBinder: (binderId: string, name: string) => Promise<void>;
+  onDeleteBinder: (binderId: string) => Promise<void>;
+  onExportBinder: (node: BinderTreeNode) => void;
+  onMoveDocument: (documentId: string, binderId: string | null, beforeDocumentId?: string | null) => void;
+  error?: string | null;
+  className?: string;
+}
+
+/**
+ * Drop target handlers for a document drag
+ */
+function documentDropTarget(
+  onDrop: (documentId: string) => void,
+  setIsOver: (isOver: boolean) => void
+) {
+  return {
+    onDragOver: (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes(DOCUMENT_DRAG_TYPE)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      event.dataTransfer.dropEffect = 'move';
+      setIsOver(true);
+    },
+    onDragLeave: () => setIsOver(false),
+    onDrop: (event: React.DragEvent) => {
+      const documentId = event.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+      setIsOver(false);
+      if (!documentId) return;
+      event.preventDefault();
+      event.stopPropagation();
+      onDrop(documentId);
+    }
+  };
+}
+
+/**
+ * Start dragging a document
+ */
+export function startDocumentDrag(event: React.DragEvent, documentId: string): void {
+  event.dataTransfer.setData(DOCUMENT_DRAG_TYPE, documentId);
+  event.dataTransfer.effectAllowed = 'move';
+}
+
+/**
+ * Draggable document row; dropping another document here places it above
+ */
+const DocumentRow: React.FC<{
+  document: Document;
+  onOpen: (document: Document) => void;
+  onDropAbove: (documentId: string) => void;
+}> = ({ document, onOpen, onDropAbove }) => {
+  const [isOver, setIsOver] = useState(false);
+
+  return (
+    <li
+      draggable
+      onDragStart={(event) => startDocumentDrag(event, document.id)}
+      {...documentDropTarget(documentId => {
+        if (documentId !== document.id) onDropAbove(documentId);
+      }, setIsOver)}
+      className={cn('border-t-2', isOver ? 'border-blue-500' : 'border-transparent')}
+    >
+      <button
+        onClick={() => onOpen(document)}
+        className="w-full flex items-center gap-2 px-2 py-1 text-sm text-slate-700 rounded hover:bg-slate-100 text-left"
+      >
+        <FileText className="w-3.5 h-3.5 text-slate-500 shrink-0" />
+        <span className="truncate">{document.title}</span>
+      </button>
+    </li>
+  );
+};
+
+/**
+ * Binder with its documents, collapsible, renamable and a drop target
+ */
+const BinderRow: React.FC<{
+  node: BinderTreeNode;
+  isSelected: boolean;
+  onSelect: () => void;
+  onOpenDocument: (document: Document) => void;
+  onRename: (name: string) => Promise<void>;
+  onDelete: () => void;
+  onExport: () => void;
+  onMoveDocument: (documentId: string, beforeDocumentId?: string | null) => void;
+}> = ({ node, isSelected, onSelect, onOpenDocument, onRename, onDelete, onExport, onMoveDocument }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isOver, setIsOver] = useState(false);
+  const [editName, setEditName] = useState<string | null>(null);
+
+  const saveName = async () => {
+    if (editName === null) return;
+    const name = editName.trim();
+    setEditName(null);
+    if (name && name !== node.binder.name) {
+      try {
+        await onRename(name);
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to rename binder');
+      }
+    }
+  };
+
+  const FolderIcon = isExpanded ? FolderOpen : Folder;
+
+  return (
+    <li>
+      <div
+        {...documentDropTarget(documentId => {
+          onMoveDocument(documentId);
+          setIsExpanded(true);
+        }, setIsOver)}
+        className={cn(
+          'group flex items-center gap-1 px-1 py-1 rounded',
+          isSelected ? 'bg-slate-100' : 'hover:bg-slate-50',
+          isOver && 'ring-2 ring-blue-500'
+        )}
+      >
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-0.5 text-slate-500 hover:text-slate-900"
+          aria-label={isExpanded ? 'Collapse binder' : 'Expand binder'}
+        >
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        {editName !== null ? (
+          <input
+            autoFocus
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            onBlur={saveName}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveName();
+              if (e.key === 'Escape') setEditName(null);
+            }}
+            className="flex-1 min-w-0 px-1 py-0.5 text-sm border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <button onClick={onSelect} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+            <FolderIcon className="w-4 h-4 text-amber-600 shrink-0" />
+            <span className="truncate text-sm font-medium text-slate-900">{node.binder.name}</span>
+            <span className="text-xs text-slate-500">{node.documents.length}</span>
+          </button>
+        )}
+        <div className="hidden group-hover:flex items-center">
+          <button
+            onClick={() => setEditName(node.binder.name)}
+            className="p-1 text-slate-500 hover:text-slate-900"
+            title="Rename binder"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onExport}
+            disabled={node.documents.length === 0}
+            className="p-1 text-slate-500 hover:text-slate-900 disabled:opacity-40"
+            title="Export binder"
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-1 text-slate-500 hover:text-red-600"
+            title="Delete binder"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <ul className="ml-6 mt-1 space-y-0.5">
+          {node.documents.map(document => (
+            <DocumentRow
+              key={document.id}
+              document={document}
+              onOpen={onOpenDocument}
+              onDropAbove={(documentId) => onMoveDocument(documentId, document.id)}
+            />
+          ))}
+          {node.documents.length === 0 && (
+            <li className="px-2 py-1 text-xs text-slate-500">Drag documents here</li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const BinderTree: React.FC<BinderTreeProps> = ({
+  tree,
+  selectedBinderId,
+  onSelectBinder,
+  onOpenDocument,
+  onCreateBinder,
+  onRenameBinder,
+  onDeleteBinder,
+  onExportBinder,
+  onMoveDocument,
+  error,
+  className
+}) => {
+  const [newBinderName, setNewBinderName] = useState<string | null>(null);
+  const [isUnfiledExpanded, setIsUnfiledExpanded] = useState(false);
+  const [isOverUnfiled, setIsOverUnfiled] = useState(false);
+
+  const handleCreate = async () => {
+    const name = newBinderName?.trim();
+    setNewBinderName(null);
+    if (!name) return;
+    try {
+      await onCreateBinder(name);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create binder');
+    }
+  };
+
+  const handleDelete = async (node: BinderTreeNode) => {
+    if (!confirm(`Delete the binder "${node.binder.name}"? Its ${node.documents.length} documents will be kept as unfiled.`)) {
+      return;
+    }
+    try {
+      await onDeleteBinder(node.binder.id);
+      if (selectedBinderId === node.binder.id) onSelectBinder(null);
+    } catch (err) {
+      console.error('Error deleting binder:', err);
+      alert('Failed to delete binder');
+    }
+  };
+
+  return (
+    <div className={cn('bg-white border border-slate-200 rounded-xl p-4 shadow-sm', className)}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-slate-900">Binders</h3>
+        <button
+          onClick={() => setNewBinderName('')}
+          className="p-1.5 text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded"
+          title="New binder"
+        >
+          <FolderPlus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {newBinderName !== null && (
+        <input
+          autoFocus
+          value={newBinderName}
+          placeholder="Binder name"
+          onChange={(e) => setNewBinderName(e.target.value)}
+          onBlur={handleCreate}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate();
+            if (e.key === 'Escape') setNewBinderName(null);
+          }}
+          className="w-full mb-2 px-2 py-1 text-sm border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+
+      {error && <p className="mb-2 text-xs text-destructive">{error}</p>}
+
+      <ul className="space-y-0.5">
+        <li>
+          <button
+            onClick={() => onSelectBinder(null)}
+            className={cn(
+              'w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-left',
+              selectedBinderId === null ? 'bg-slate-100 font-medium text-slate-900' : 'text-slate-700 hover:bg-slate-50'
+            )}
+          >
+            <Library className="w-4 h-4 text-slate-600" />
+            All documents
+          </button>
+        </li>
+
+        {tree.binders.map(node => (
+          <BinderRow
+            key={node.binder.id}
+            node={node}
+            isSelected={selectedBinderId === node.binder.id}
+            onSelect={() => onSelectBinder(node.binder.id)}
+            onOpenDocument={onOpenDocument}
+            onRename={(name) => onRenameBinder(node.binder.id, name)}
+            onDelete={() => handleDelete(node)}
+            onExport={() => onExportBinder(node)}
+            onMoveDocument={(documentId, beforeDocumentId) => onMoveDocument(documentId, node.binder.id, beforeDocumentId)}
+          />
+        ))}
+
+        <li>
+          <div
+            {...documentDropTarget(documentId => onMoveDocument(documentId, null), setIsOverUnfiled)}
+            className={cn('flex items-center gap-1 px-1 py-1 rounded hover:bg-slate-50', isOverUnfiled && 'ring-2 ring-blue-500')}
+          >
+            <button
+              onClick={() => setIsUnfiledExpanded(!isUnfiledExpanded)}
+              className="flex-1 flex items-center gap-1 text-left"
+            >
+              {isUnfiledExpanded ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+              <Inbox className="w-4 h-4 text-slate-500 ml-0.5" />
+              <span className="ml-1 text-sm text-slate-700">Unfiled</span>
+              <span className="ml-1 text-xs text-slate-500">{tree.unfiled.length}</span>
+            </button>
+          </div>
+          {isUnfiledExpanded && (
+            <ul className="ml-6 mt-1 space-y-0.5">
+              {tree.unfiled.map(document => (
+                <DocumentRow
+                  key={document.id}
+                  document={document}
+                  onOpen={onOpenDocument}
+                  onDropAbove={(documentId) => onMoveDocument(documentId, null)}
+                />
+              ))}
+            </ul>
+          )}
+        </li>
+      </ul>
+
+      {tree.binders.length === 0 && (
+        <p className="mt-3 text-xs text-slate-500">
+          Group session notes, NPCs and monsters into a binder per campaign.
+        </p>
+      )}
+    </div>
+  );
+};
+
+BinderTree.displayName = 'BinderTree';
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Bulk action toolbar
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Shown above the document list while documents are selected. Runs one action
+ * on every selected document and lists any that failed.
+ */
+
+import React, { useState } from 'react';
+import { Archive, Copy, Loader2, Tag, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { parseTagList } from '@/lib/document-tags';
+import type { ExportOptions } from '@/services/export';
+import type { BulkOperationResult, DocumentType } from '@/types/document';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number; // Documents loaded in the list
+  isBusy: boolean;
+  canPublish: boolean;
+  failures: Array<BulkOperationResult['failures'][number] & { title: string }>;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onMoveToTrash: () => void;
+  onArchive: () => void;
+  onChangeType: (type: DocumentType) => void;
+  onAddTags: (tags: string[]) => void;
+  onRemoveTags: (tags: string[]) => void;
+  onSetPublic: (enabled: boolean) => void;
+  onDuplicate: () => void;
+  onExportZip: (format: ExportOptions['format']) => void;
+  className?: string;
+}
+
+const selectClassName = 'px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+const buttonClassName = 'flex items-center gap-1.5 px-3 py-1.5 text-sm bg-white border border-slate-200 hover:bg-slate-50 text-slate-900 rounded-lg transition-colors disabled:opacity-50';
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  totalCount,
+  isBusy,
+  canPublish,
+  failures,
+  onSelectAll,
+  onClearSelection,
+  onMoveToTrash,
+  onArchive,
+  onChangeType,
+  onAddTags,
+  onRemoveTags,
+  onSetPublic,
+  onDuplicate,
+  onExportZip,
+  className
+}) => {
+  const [tagInput, setTagInput] = useState('');
+  const tags = parseTagList(tagInput);
+
+  const handleTags = (action: (tags: string[]) => void) => {
+    action(tags);
+    setTagInput('');
+  };
+
+  return (
+    <div className={cn('p-3 space-y-3 bg-blue-50 border border-blue-200 rounded-lg', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-2 text-sm font-medium text-slate-900 mr-2">
+          {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+          {selectedCount} selected
+        </span>
+        {selectedCount < totalCount && (
+          <button onClick={onSelectAll} disabled={isBusy} className="text-sm text-blue-700 hover:underline disabled:opacity-50">
+            Select all {totalCount}
+          </button>
+        )}
+        <button
+          onClick={onClearSelection}
+          disabled={isBusy}
+          aria-label="Clear selection"
+          className="p-1 ml-auto text-slate-600 hover:bg-blue-100 rounded disabled:opacity-50"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onMoveToTrash} disabled={isBusy} className={cn(buttonClassName, 'text-red-600')}>
+          <Trash2 className="w-4 h-4" />
+          Move to Trash
+        </button>
+        <button onClick={onArchive} disabled={isBusy} className={buttonClassName}>
+          <Archive className="w-4 h-4" />
+          Archive
+        </button>
+        <button onClick={onDuplicate} disabled={isBusy} className={buttonClassName}>
+          <Copy className="w-4 h-4" />
+          Duplicate
+        </button>
+
+        <select
+          value=""
+          disabled={isBusy}
+          onChange={(e) => onChangeType(e.target.value as DocumentType)}
+          className={selectClassName}
+        >
+          <option value="" disabled>Change type…</option>
+          <option value="campaign">Campaign</option>
+          <option value="names">Names</option>
+          <option value="monsters">Monsters</option>
+          <option value="backgrounds">Backgrounds</option>
+          <option value="other">Other</option>
+        </select>
+
+        <select
+          value=""
+          disabled={isBusy}
+          onChange={(e) => onSetPublic(e.target.value === 'public')}
+          className={selectClassName}
+        >
+          <option value="" disabled>Privacy…</option>
+          <option value="private">Private</option>
+          {canPublish && <option value="public">Public player link</option>}
+        </select>
+
+        <select
+          value=""
+          disabled={isBusy}
+          onChange={(e) => onExportZip(e.target.value as ExportOptions['format'])}
+          className={selectClassName}
+        >
+          <option value="" disabled>Export ZIP…</option>
+          <option value="pdf">PDF files</option>
+          <option value="txt">Text files</option>
+          <option value="md">Markdown files</option>
+          <option value="docx">Word files</option>
+          <option value="homebrewery">Homebrewery brews</option>
+          <option value="epub">EPUB books</option>
+          <option value="dm-screen">DM screens</option>
+        </select>
+
+        <div className="flex items-center gap-1">
+          <Tag className="w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="tags, comma separated"
+            className="w-44 px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white text-slate-900 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button onClick={() => handleTags(onAddTags)} disabled={isBusy || tags.length === 0} className={buttonClassName}>
+            Add
+          </button>
+          <button onClick={() => handleTags(onRemoveTags)} disabled={isBusy || tags.length === 0} className={buttonClassName}>
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="text-sm text-red-700">
+          <p className="font-medium">
+            {failures.length} document{failures.length !== 1 ? 's' : ''} failed and {failures.length !== 1 ? 'are' : 'is'} still selected:
+          </p>
+          <ul className="mt-1 list-disc list-inside">
+            {failures.map(failure => (
+              <li key={failure.documentId}>{failure.title}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+BulkActionBar.displayName = 'BulkActionBar';
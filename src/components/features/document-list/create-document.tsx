@@ -3,16 +3,23 @@
  * @author WordWise AI Team
  * @version 1.0.0
  * 
- * Modal component for creating new documents with customizable options.
+ * Modal component for creating new documents with customizable options,
+ * blank, from a template whose fields are filled in here, or from an
+ * imported Markdown or Word file.
  */
 
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { X, FileText, Loader2 } from 'lucide-react';
+import { X, FileText, Loader2, Trash2, FileUp } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { useTemplates } from '@/hooks/use-templates';
 import { cn } from '@/lib/utils';
-import type { DocumentType, CreateDocumentData } from '@/types/document';
+import { findTemplateFields } from '@/lib/template-fields';
+import { parseMarkdownDocument } from '@/lib/markdown';
+import type { DocumentType, CreateDocumentData, DocumentTemplate } from '@/types/document';
 import * as documentService from '@/services/documents';
+import * as templateService from '@/services/templates';
+import { importDocx } from '@/services/docx';
 
 /**
  * Props for CreateDocumentModal component
@@ -68,6 +75,7 @@ const documentTypes: Array<{
  * Create document modal component
  * 
  * Modal for creating new documents with type selection and basic metadata.
+ * Picking a template sets the type and asks for the template's fields.
  * 
  * @component
  */
@@ -91,6 +99,29 @@ export const CreateDocumentModal: React.FC<CreateDocumentModalProps> = ({
     tags: ''
   });
   
+  const { templates, deleteTemplate } = useTemplates(isOpen);
+  const [templateId, setTemplateId] = useState('');
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  const selectedTemplate = templates.find(template => template.id === templateId) ?? null;
+  const templateFields = useMemo(
+    () => selectedTemplate ? findTemplateFields(selectedTemplate.content) : [],
+    [selectedTemplate]
+  );
+
+  /**
+   * Templates grouped by category, built-ins first
+   */
+  const templateGroups = useMemo(() => {
+    const groups = new Map<string, DocumentTemplate[]>();
+    for (const template of templates) {
+      groups.set(template.category, [...(groups.get(template.category) ?? []), template]);
+    }
+    return [...groups.entries()];
+  }, [templates]);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importedFile, setImportedFile] = useState<{ fileName: string; content: string } | null>(null);
+
   const [isCreating, setIsCreating] = useState(false);
   const [errors, setErrors] = useState<{
     title?: string;
@@ -144,7 +175,12 @@ export const CreateDocumentModal: React.FC<CreateDocumentModalProps> = ({
         createData.description = formData.description.trim();
       }
 
-      const document = await documentService.createDocument(user.id, createData);
+      const document = selectedTemplate
+        ? await templateService.createDocumentFromTemplate(user.id, selectedTemplate, fieldValues, createData)
+        : await documentService.createDocument(user.id, {
+            ...createData,
+            ...(importedFile && { content: importedFile.content })
+          });
       
       // Success callback
       if (onSuccess) {
@@ -164,6 +200,62 @@ export const CreateDocumentModal: React.FC<CreateDocumentModalProps> = ({
     }
   };
 
+  /**
+   * Start from a template, or blank when cleared
+   */
+  const handleTemplateChange = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setTemplateId(id);
+    setFieldValues({});
+    if (template) {
+      setImportedFile(null);
+      setFormData(prev => ({ ...prev, type: template.type }));
+    }
+  };
+
+  /**
+   * Start from a Markdown or Word file; its title and tags fill in the form
+   */
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const fileName = file.name.replace(/\.(md|markdown|docx)$/i, '');
+      const imported = /\.docx$/i.test(file.name)
+        ? await importDocx(await file.arrayBuffer(), fileName)
+        : parseMarkdownDocument(await file.text(), fileName);
+      setImportedFile({ fileName: file.name, content: imported.content });
+      setTemplateId('');
+      setFieldValues({});
+      setFormData(prev => ({
+        ...prev,
+        title: imported.title.slice(0, 100),
+        tags: imported.tags.length ? imported.tags.join(', ') : prev.tags
+      }));
+    } catch (error) {
+      console.error('Error importing file:', error);
+      alert('Failed to import file');
+    }
+  };
+
+  /**
+   * Delete the selected user template
+   */
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate || selectedTemplate.isDefault) return;
+    if (!confirm(`Delete the template "${selectedTemplate.name}"?`)) return;
+
+    try {
+      await deleteTemplate(selectedTemplate.id);
+      handleTemplateChange('');
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      alert('Failed to delete template');
+    }
+  };
+
   /**
    * Handle modal close
    */
@@ -176,6 +268,9 @@ export const CreateDocumentModal: React.FC<CreateDocumentModalProps> = ({
       type: 'other',
       tags: ''
     });
+    setTemplateId('');
+    setFieldValues({});
+    setImportedFile(null);
     setErrors({});
     onClose();
   };
@@ -235,6 +330,95 @@ export const CreateDocumentModal: React.FC<CreateDocumentModalProps> = ({
             )}
           </div>
 
+          {/* Template */}
+          <div>
+            <label className="block text-sm font-medium text-slate-900 mb-2">
+              Start From
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                value={templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className="flex-1 px-3 py-2 border border-slate-200 rounded-md bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+                disabled={isCreating}
+              >
+                <option value="">Blank document</option>
+                {templateGroups.map(([category, groupTemplates]) => (
+                  <optgroup key={category} label={category}>
+                    {groupTemplates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              {selectedTemplate && !selectedTemplate.isDefault && (
+                <button
+                  type="button"
+                  onClick={handleDeleteTemplate}
+                  disabled={isCreating}
+                  title="Delete template"
+                  className="p-2 rounded-md text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isCreating}
+                className="flex items-center gap-2 px-3 py-2 border border-slate-200 rounded-md text-sm text-slate-900 hover:bg-slate-50 transition-colors disabled:opacity-50"
+              >
+                <FileUp className="w-4 h-4" />
+                Import File
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".md,.markdown,text/markdown,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+            </div>
+            {importedFile && (
+              <div className="flex items-center justify-between mt-2 px-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-md">
+                <span className="text-slate-700">Content from {importedFile.fileName}</span>
+                <button
+                  type="button"
+                  onClick={() => setImportedFile(null)}
+                  disabled={isCreating}
+                  aria-label="Remove imported file"
+                  className="p-1 text-slate-500 hover:bg-slate-100 rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            {selectedTemplate?.description && (
+              <p className="text-xs text-slate-600 mt-1">{selectedTemplate.description}</p>
+            )}
+
+            {/* Template fields */}
+            {templateFields.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3 p-3 bg-slate-50 border border-slate-200 rounded-md">
+                {templateFields.map(field => (
+                  <label key={field.key} className="block">
+                    <span className="block text-xs font-medium text-slate-700 mb-1">{field.label}</span>
+                    <input
+                      type="text"
+                      value={fieldValues[field.key] ?? ''}
+                      onChange={(e) => setFieldValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                      className="w-full px-2 py-1.5 text-sm border border-slate-200 rounded-md bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+                      disabled={isCreating}
+                    />
+                  </label>
+                ))}
+                <p className="sm:col-span-2 text-xs text-slate-600">
+                  Fields left blank stay in the document as {'{{field}}'} to fill in later.
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Document Type */}
           <div>
             <label className="block text-sm font-medium text-slate-900 mb-3">
@@ -18,10 +18,13 @@ import {
   Calendar,
   Eye,
   Clock,
-  Download
+  Download,
+  LayoutTemplate
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { TagColor } from '@/lib/document-tags';
 import type { Document, DocumentType } from '@/types/document';
+import { TagBadge } from './tag-badge';
 
 /**
  * Props for DocumentCard component
@@ -32,6 +35,10 @@ interface DocumentCardProps {
   onDelete?: (documentId: string) => void;
   onDuplicate?: (document: Document) => void;
   onExport?: (document: Document) => void;
+  onSaveAsTemplate?: (document: Document) => void;
+  tagColors?: Record<string, TagColor>; // Chosen colors by tag
+  isSelected?: boolean;
+  onToggleSelect?: (documentId: string) => void; // Shows a checkbox for bulk actions
   className?: string;
 }
 
@@ -89,6 +96,10 @@ export const DocumentCard: React.FC<DocumentCardProps> = ({
   onDelete,
   onDuplicate,
   onExport,
+  onSaveAsTemplate,
+  tagColors = {},
+  isSelected = false,
+  onToggleSelect,
   className
 }) => {
   const [showActions, setShowActions] = useState(false);
@@ -128,6 +139,7 @@ export const DocumentCard: React.FC<DocumentCardProps> = ({
         'group relative bg-white border border-slate-200 rounded-lg p-6',
         'hover:shadow-md hover:border-slate-300 transition-all duration-200',
         'cursor-pointer',
+        isSelected && 'border-blue-300 ring-2 ring-blue-500',
         className
       )}
       onClick={handleCardClick}
@@ -135,6 +147,19 @@ export const DocumentCard: React.FC<DocumentCardProps> = ({
       {/* Header */}
       <div className="flex items-start justify-between mb-4">
         <div className="flex items-center space-x-3 flex-1 min-w-0">
+          {onToggleSelect && (
+            <input
+              type="checkbox"
+              checked={isSelected}
+              aria-label={`Select ${document.title}`}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => onToggleSelect(document.id)}
+              className={cn(
+                'w-4 h-4 shrink-0 rounded border-slate-300 text-blue-600 focus:ring-blue-500',
+                !isSelected && 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+              )}
+            />
+          )}
           <div className={cn('p-2 rounded-lg border', typeColorClass)}>
             <Icon className="w-4 h-4" />
           </div>
@@ -204,13 +229,22 @@ export const DocumentCard: React.FC<DocumentCardProps> = ({
                     <span>Export</span>
                   </button>
                 )}
+                {onSaveAsTemplate && (
+                  <button
+                    className="flex items-center space-x-2 w-full px-3 py-2 text-sm hover:bg-slate-50 text-left text-slate-800"
+                    onClick={(e) => handleActionClick(e, () => onSaveAsTemplate(document))}
+                  >
+                    <LayoutTemplate className="w-4 h-4" />
+                    <span>Save as Template</span>
+                  </button>
+                )}
                 {onDelete && (
                   <button
                     className="flex items-center space-x-2 w-full px-3 py-2 text-sm hover:bg-red-50 text-red-600 text-left"
                     onClick={(e) => handleActionClick(e, () => onDelete(document.id))}
                   >
                     <Trash2 className="w-4 h-4" />
-                    <span>Delete</span>
+                    <span>Move to Trash</span>
                   </button>
                 )}
               </div>
@@ -249,12 +283,7 @@ export const DocumentCard: React.FC<DocumentCardProps> = ({
       {document.tags.length > 0 && (
         <div className="flex flex-wrap gap-1 mt-3">
           {document.tags.slice(0, 3).map((tag) => (
-            <span
-              key={tag}
-              className="text-xs px-2 py-1 bg-slate-100 text-slate-700 rounded-full"
-            >
-              {tag}
-            </span>
+            <TagBadge key={tag} tag={tag} {...(tagColors[tag] && { color: tagColors[tag] })} />
           ))}
           {document.tags.length > 3 && (
             <span className="text-xs px-2 py-1 bg-slate-100 text-slate-700 rounded-full">
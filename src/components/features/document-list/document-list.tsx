@@ -7,20 +7,52 @@
  * Handles filtering, sorting, pagination, and document actions.
  */
 
-import React, { useState, useEffect } from 'react';
-import { Search, Plus, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Search, Plus, Loader2, Trash2, ArrowLeft } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { useDocumentSearch } from '@/hooks/use-document-search';
+import { useBinders } from '@/hooks/use-binders';
+import { useTrash } from '@/hooks/use-trash';
+import { useTags } from '@/hooks/use-tags';
 import { DocumentCard } from './document-card';
+import { DocumentSearchResults } from './document-search-results';
+import { BinderTree, startDocumentDrag } from './binder-tree';
+import { TrashBin } from './trash-bin';
+import { BulkActionBar } from './bulk-action-bar';
+import { SaveTemplateModal } from './save-template-modal';
+import { TagCloud } from './tag-cloud';
+import { TagManager } from './tag-manager';
 import { ExportModal } from '../editor/export-modal';
 import { cn } from '@/lib/utils';
+import type { SearchHit } from '@/lib/search-index';
+import type { BinderTreeNode } from '@/lib/binder-tree';
+import type { TagSummary } from '@/lib/document-tags';
+import { combineBinderDocuments, exportDocumentsAsZip, type ExportOptions } from '@/services/export';
+import { bulkSetPublicLinkEnabled } from '@/services/public-view';
+import { saveDocumentAsTemplate } from '@/services/templates';
 import type { 
+  BulkDocumentChange,
+  BulkDocumentResult,
+  BulkOperationResult,
+  CreateTemplateData,
   Document, 
+  DocumentCursor,
   DocumentFilters, 
   DocumentSortOptions, 
   DocumentType
 } from '@/types/document';
 import * as documentService from '@/services/documents';
 
+/**
+ * Documents loaded per page
+ */
+const PAGE_SIZE = 24;
+
+/**
+ * Delay before a typed search is sent
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
 /**
  * Props for DocumentList component
  */
@@ -32,7 +64,13 @@ interface DocumentListProps {
 /**
  * Document list component
  * 
- * Displays a list of user documents with filtering and actions.
+ * Displays a list of user documents with filtering and actions. Filtering and
+ * sorting happen in Firestore; further pages load as the user scrolls. Typing a
+ * search switches to full-text results from document bodies. The binder tree
+ * beside the list narrows it to one binder, and documents can be dragged from
+ * the list into binders. Deleted documents go to the trash view first.
+ * Selecting cards opens a toolbar of bulk actions. The tag cloud filters by
+ * tag, in any of its spellings.
  * 
  * @component
  */
@@ -42,137 +80,172 @@ export const DocumentList: React.FC<DocumentListProps> = ({
 }) => {
   const { user } = useAuth();
   const [allDocuments, setAllDocuments] = useState<Document[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<DocumentCursor | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Filter and sort state
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [typeFilter, setTypeFilter] = useState<DocumentType | ''>('');
+  const [selectedBinderId, setSelectedBinderId] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<TagSummary | null>(null);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [sortBy, setSortBy] = useState<DocumentSortOptions>({
     field: 'updatedAt',
     direction: 'desc'
   });
 
+  // Bulk selection; documents that fail a bulk action stay selected
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [bulkFailures, setBulkFailures] = useState<BulkOperationResult['failures']>([]);
+
   // Export modal state
   const [showExportModal, setShowExportModal] = useState(false);
   const [documentToExport, setDocumentToExport] = useState<Document | null>(null);
+  const [documentToTemplate, setDocumentToTemplate] = useState<Document | null>(null);
+
+  // Bottom-of-list marker for infinite scroll, and the latest request so stale pages are dropped
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const requestIdRef = useRef(0);
 
   /**
-   * Load documents from Firebase
+   * Load a page of documents; without a cursor, start the list over
    */
-  const loadDocuments = async () => {
+  const loadDocuments = useCallback(async (cursor: DocumentCursor | null = null) => {
     if (!user) return;
 
-    setIsLoading(true);
+    const requestId = ++requestIdRef.current;
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
     setError(null);
 
     try {
       const filters: DocumentFilters = {};
       if (typeFilter) filters.type = typeFilter;
+      if (selectedBinderId) filters.binderId = selectedBinderId;
+      if (tagFilter) filters.tags = tagFilter.variants;
 
       const response = await documentService.getUserDocuments(user.id, {
         filters,
         sort: sortBy,
-        limit: 50 // Load more for better UX
+        limit: PAGE_SIZE,
+        cursor
       });
+      if (requestId !== requestIdRef.current) return;
 
-      setAllDocuments(response.documents);
+      setAllDocuments(prev => cursor ? [...prev, ...response.documents] : response.documents);
+      setTotal(response.total);
+      setNextCursor(response.nextCursor);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       console.error('Error loading documents:', err);
       setError('Failed to load documents');
     } finally {
-      setIsLoading(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
     }
-  };
+  }, [user, typeFilter, selectedBinderId, tagFilter, sortBy]);
+
+  const binders = useBinders();
+  const trash = useTrash();
+  const tags = useTags();
+  const tagColors = React.useMemo(
+    () => Object.fromEntries(tags.tags.flatMap(tag => tag.variants.map(variant => [variant, tag.color]))),
+    [tags.tags]
+  );
+  const selectedBinder = binders.tree.binders.find(node => node.binder.id === selectedBinderId)?.binder;
+  const hasFilters = !!typeFilter || !!selectedBinderId || !!tagFilter;
+  const isSearchActive = !!debouncedSearchQuery.trim();
+  const search = useDocumentSearch(debouncedSearchQuery);
 
   /**
-   * Filter and sort documents client-side
+   * Skip documents missing the fields the cards need
    */
-  const filteredDocuments = React.useMemo(() => {
-    // First filter out any invalid documents
-    let filtered = allDocuments.filter(doc => 
-      doc && 
-      doc.id && 
-      doc.title && 
-      doc.stats && 
-      typeof doc.stats.wordCount === 'number'
-    );
-
-    // Client-side search filtering
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter(doc => 
-        doc.title.toLowerCase().includes(query) ||
-        doc.description?.toLowerCase().includes(query) ||
-        doc.tags.some(tag => tag.toLowerCase().includes(query))
-      );
-    }
-
-    // Client-side sorting (since we removed it from Firebase query)
-    filtered.sort((a, b) => {
-      const { field, direction } = sortBy;
-      let aValue: any, bValue: any;
-
-      switch (field) {
-        case 'title':
-          aValue = a.title.toLowerCase();
-          bValue = b.title.toLowerCase();
-          break;
-        case 'createdAt':
-          aValue = new Date(a.createdAt).getTime();
-          bValue = new Date(b.createdAt).getTime();
-          break;
-        case 'updatedAt':
-          aValue = new Date(a.updatedAt).getTime();
-          bValue = new Date(b.updatedAt).getTime();
-          break;
-        case 'wordCount':
-          aValue = a.stats.wordCount;
-          bValue = b.stats.wordCount;
-          break;
-        default:
-          aValue = new Date(a.updatedAt).getTime();
-          bValue = new Date(b.updatedAt).getTime();
-      }
+  const filteredDocuments = React.useMemo(() => allDocuments.filter(doc => 
+    doc && 
+    doc.id && 
+    doc.title && 
+    doc.stats && 
+    typeof doc.stats.wordCount === 'number'
+  ), [allDocuments]);
 
-      if (direction === 'asc') {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-      }
-    });
+  /**
+   * Drop the selection when the list shows something else
+   */
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setBulkFailures([]);
+  }, [user, typeFilter, selectedBinderId, tagFilter, showTrash, isSearchActive]);
 
-    return filtered;
-  }, [allDocuments, searchQuery, sortBy]);
+  /**
+   * Send the search once typing pauses
+   */
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
   /**
-   * Effect to load documents when user or server-side filters change
-   * NOTE: searchQuery removed to prevent focus loss
+   * Start over when the user, filters or sort change
    */
   useEffect(() => {
     loadDocuments();
-  }, [user, typeFilter, sortBy]);
+  }, [loadDocuments]);
 
   /**
-   * Handle document deletion
+   * Load the next page when the end of the list scrolls into view
+   */
+  useEffect(() => {
+    const marker = loadMoreRef.current;
+    if (!marker || !nextCursor || isLoading || isLoadingMore || error) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadDocuments(nextCursor);
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(marker);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoading, isLoadingMore, error, loadDocuments]);
+
+  /**
+   * Handle document deletion - moves it to the trash, where it can be restored
    */
   const handleDelete = async (documentId: string) => {
     if (!user) return;
-    
-    if (!confirm('Are you sure you want to delete this document? This action cannot be undone.')) {
-      return;
-    }
 
     try {
-      await documentService.deleteDocument(documentId, user.id);
+      await trash.moveToTrash(documentId);
       // Remove from local state
       setAllDocuments(prev => prev.filter(doc => doc.id !== documentId));
+      setTotal(prev => Math.max(0, prev - 1));
+      binders.refresh();
     } catch (err) {
       console.error('Error deleting document:', err);
       alert('Failed to delete document');
     }
   };
 
+  /**
+   * Restore a document from the trash and show it in the list again
+   */
+  const handleRestore = async (documentId: string) => {
+    await trash.restore(documentId);
+    loadDocuments();
+    binders.refresh();
+  };
+
   /**
    * Handle document duplication
    */
@@ -187,6 +260,8 @@ export const DocumentList: React.FC<DocumentListProps> = ({
       );
       // Add to local state
       setAllDocuments(prev => [duplicatedDoc, ...prev]);
+      setTotal(prev => prev + 1);
+      binders.refresh();
     } catch (err) {
       console.error('Error duplicating document:', err);
       alert('Failed to duplicate document');
@@ -195,6 +270,114 @@ export const DocumentList: React.FC<DocumentListProps> = ({
 
 
 
+  /**
+   * Select or unselect a document for bulk actions
+   */
+  const handleToggleSelect = (documentId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(documentId)) next.add(documentId);
+      return next;
+    });
+  };
+
+  /**
+   * Run a bulk action on the selected documents, keeping failed ones selected
+   */
+  const runBulkAction = async <T extends BulkOperationResult>(
+    action: (documentIds: string[], userId: string) => Promise<T>,
+    onDone?: (result: T) => void
+  ) => {
+    if (!user || selectedIds.size === 0) return;
+
+    setIsBulkRunning(true);
+    setBulkFailures([]);
+    try {
+      const result = await action([...selectedIds], user.id);
+      onDone?.(result);
+      setBulkFailures(result.failures);
+      setSelectedIds(new Set(result.failures.map(failure => failure.documentId)));
+    } catch (err) {
+      console.error('Error running bulk action:', err);
+      alert(err instanceof Error ? err.message : 'Bulk action failed');
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  /**
+   * Swap updated documents into the list
+   */
+  const replaceDocuments = (result: BulkDocumentResult) => {
+    const updated = new Map(result.documents.map(document => [document.id, document]));
+    setAllDocuments(prev => prev.map(document => updated.get(document.id) ?? document));
+  };
+
+  const handleBulkUpdate = (change: BulkDocumentChange) => {
+    runBulkAction(
+      (documentIds, userId) => documentService.bulkUpdateDocuments(documentIds, userId, change),
+      result => {
+        replaceDocuments(result);
+        if (change.addTags || change.removeTags) tags.refresh();
+      }
+    );
+  };
+
+  const handleBulkTrash = () => {
+    if (!confirm(`Move ${selectedIds.size} document${selectedIds.size !== 1 ? 's' : ''} to the trash?`)) return;
+    runBulkAction(documentService.bulkMoveToTrash, result => {
+      const trashed = new Set(result.succeededIds);
+      setAllDocuments(prev => prev.filter(document => !trashed.has(document.id)));
+      setTotal(prev => Math.max(0, prev - trashed.size));
+      trash.refresh();
+      binders.refresh();
+    });
+  };
+
+  const handleBulkDuplicate = () => {
+    runBulkAction(documentService.bulkDuplicateDocuments, result => {
+      setAllDocuments(prev => [...result.documents, ...prev]);
+      setTotal(prev => prev + result.documents.length);
+      binders.refresh();
+    });
+  };
+
+  const handleBulkSetPublic = (enabled: boolean) => {
+    runBulkAction(
+      (documentIds, userId) => bulkSetPublicLinkEnabled(documentIds, userId, enabled),
+      replaceDocuments
+    );
+  };
+
+  const handleBulkExport = (format: ExportOptions['format']) => {
+    const documents = filteredDocuments.filter(document => selectedIds.has(document.id));
+    runBulkAction(() => exportDocumentsAsZip(documents, {
+      format,
+      includeCover: format === 'pdf',
+      author: 'Dungeon Master',
+      campaignType: 'campaign',
+      playerHandout: false
+    }, selectedBinder?.name ?? 'documents'));
+  };
+
+  /**
+   * Rename or merge tags, then show the documents with their new tags
+   */
+  const handleTagsChanged = async <T,>(change: Promise<T>): Promise<T> => {
+    const result = await change;
+    setTagFilter(null);
+    loadDocuments();
+    return result;
+  };
+
+  /**
+   * Save a document's content as a template for new documents
+   */
+  const handleSaveTemplate = async (document: Document, data: CreateTemplateData) => {
+    if (!user) return;
+    await saveDocumentAsTemplate(document, user.id, data);
+  };
+
   /**
    * Handle document editing (navigate to editor)
    */
@@ -202,6 +385,16 @@ export const DocumentList: React.FC<DocumentListProps> = ({
     window.location.href = `/editor/${document.id}`;
   };
 
+  /**
+   * Open a search result at its best matching paragraph
+   */
+  const handleOpenSearchHit = (hit: SearchHit) => {
+    const params = hit.paragraphIndex !== null
+      ? `?${new URLSearchParams({ block: String(hit.paragraphIndex), match: hit.matchedText })}`
+      : '';
+    window.location.href = `/editor/${hit.documentId}${params}`;
+  };
+
   /**
    * Handle document export
    */
@@ -210,143 +403,263 @@ export const DocumentList: React.FC<DocumentListProps> = ({
     setShowExportModal(true);
   };
 
-  if (isLoading) {
-    return (
-      <div className={cn('flex items-center justify-center py-12', className)}>
-        <div className="text-center">
-          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-muted-foreground" />
-          <p className="text-muted-foreground">Loading documents...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className={cn('text-center py-12', className)}>
-        <p className="text-destructive mb-4">{error}</p>
-        <button
-          onClick={loadDocuments}
-          className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
-        >
-          Try Again
-        </button>
-      </div>
-    );
-  }
-
-  return (
-    <div className={cn('space-y-6', className)}>
-      {/* Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h2 className="text-2xl font-bold text-slate-900">Your Documents</h2>
-          <p className="text-slate-600">
-            {filteredDocuments.length} of {allDocuments.length} document{allDocuments.length !== 1 ? 's' : ''}
-            {searchQuery && ` matching "${searchQuery}"`}
-          </p>
-        </div>
-        
-        {onCreateNew && (
-          <button
-            onClick={onCreateNew}
-            className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-900 rounded-lg transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            <span>New Document</span>
-          </button>
-        )}
-      </div>
-
-      {/* Filters and Search */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        {/* Search */}
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-500" />
-          <input
-            type="text"
-            placeholder="Search documents..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          />
-        </div>
+  /**
+   * Export a whole binder as one document, its documents in order
+   */
+  const handleExportBinder = (node: BinderTreeNode) => {
+    handleExport(combineBinderDocuments(node.binder, node.documents));
+  };
 
-        {/* Type Filter */}
-        <select
-          value={typeFilter}
-          onChange={(e) => setTypeFilter(e.target.value as DocumentType | '')}
-          className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="">All Types</option>
-          <option value="campaign">Campaign</option>
-          <option value="names">Names</option>
-          <option value="monsters">Monsters</option>
-          <option value="backgrounds">Backgrounds</option>
-          <option value="other">Other</option>
-        </select>
-
-
-
-        {/* Sort */}
-        <select
-          value={`${sortBy.field}-${sortBy.direction}`}
-          onChange={(e) => {
-            const [field, direction] = e.target.value.split('-');
-            setSortBy({
-              field: field as DocumentSortOptions['field'],
-              direction: direction as 'asc' | 'desc'
-            });
-          }}
-          className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        >
-          <option value="updatedAt-desc">Recently Updated</option>
-          <option value="createdAt-desc">Recently Created</option>
-          <option value="title-asc">Title A-Z</option>
-          <option value="title-desc">Title Z-A</option>
-          <option value="wordCount-desc">Most Words</option>
-        </select>
-      </div>
+  /**
+   * File a dragged document, then refresh the list if it shows one binder
+   */
+  const handleMoveDocument = async (documentId: string, binderId: string | null, beforeDocumentId?: string | null) => {
+    await binders.moveDocument(documentId, binderId, beforeDocumentId);
+    if (selectedBinderId) {
+      loadDocuments();
+    }
+  };
 
-      {/* Document Grid */}
-      {filteredDocuments.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredDocuments.map((document) => (
-            <DocumentCard
-              key={document.id}
-              document={document}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
-              onDuplicate={handleDuplicate}
-              onExport={handleExport}
-            />
-          ))}
-        </div>
-      ) : (
-        <div className="text-center py-12">
-          <div className="max-w-md mx-auto">
-            <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Plus className="w-8 h-8 text-slate-500" />
-            </div>
-            <h3 className="text-lg font-medium text-slate-900 mb-2">
-              {allDocuments.length === 0 ? 'No documents yet' : 'No documents found'}
-            </h3>
-            <p className="text-slate-600 mb-4">
-              {allDocuments.length === 0
-                ? 'Get started by creating your first document.'
-                : 'Try adjusting your search terms or filters.'}
+  return (
+    <div className={cn('grid grid-cols-1 lg:grid-cols-[16rem_minmax(0,1fr)] gap-6 items-start', className)}>
+      {/* Binders */}
+      <BinderTree
+        tree={binders.tree}
+        selectedBinderId={selectedBinderId}
+        onSelectBinder={setSelectedBinderId}
+        onOpenDocument={handleEdit}
+        onCreateBinder={binders.createBinder}
+        onRenameBinder={binders.renameBinder}
+        onDeleteBinder={binders.deleteBinder}
+        onExportBinder={handleExportBinder}
+        onMoveDocument={handleMoveDocument}
+        error={binders.error}
+      />
+
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">
+              {showTrash ? 'Trash' : selectedBinder?.name ?? 'Your Documents'}
+            </h2>
+            <p className="text-slate-600">
+              {showTrash
+                ? `${trash.documents.length} document${trash.documents.length !== 1 ? 's' : ''} in the trash`
+                : isSearchActive
+                  ? `${search.hits.length} document${search.hits.length !== 1 ? 's' : ''} matching "${debouncedSearchQuery.trim()}"`
+                  : `${filteredDocuments.length} of ${total} document${total !== 1 ? 's' : ''}`}
             </p>
-            {onCreateNew && allDocuments.length === 0 && (
+          </div>
+        
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowTrash(!showTrash)}
+              className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-900 rounded-lg transition-colors"
+            >
+              {showTrash ? <ArrowLeft className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+              <span>{showTrash ? 'Back to Documents' : `Trash${trash.documents.length ? ` (${trash.documents.length})` : ''}`}</span>
+            </button>
+            {onCreateNew && !showTrash && (
               <button
                 onClick={onCreateNew}
-                className="px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-900 rounded-lg transition-colors"
+                className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-900 rounded-lg transition-colors"
               >
-                Create Your First Document
+                <Plus className="w-4 h-4" />
+                <span>New Document</span>
               </button>
             )}
           </div>
         </div>
-      )}
+
+        {showTrash ? (
+          <TrashBin
+            documents={trash.documents}
+            isLoading={trash.isLoading}
+            error={trash.error}
+            retentionDays={trash.retentionDays}
+            canChangeRetention={trash.canChangeRetention}
+            onRestore={handleRestore}
+            onDeleteForever={trash.deleteForever}
+            onEmptyTrash={trash.emptyTrash}
+            onRetentionDaysChange={trash.setRetentionDays}
+          />
+        ) : (
+          <>
+            {/* Filters and Search */}
+            <div className="flex flex-col sm:flex-row gap-4">
+              {/* Search */}
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-500" />
+                <input
+                  type="text"
+                  placeholder='Search documents... ("exact phrase", prefix*)'
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-lg bg-white text-slate-900 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {/* Type Filter */}
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as DocumentType | '')}
+                className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All Types</option>
+                <option value="campaign">Campaign</option>
+                <option value="names">Names</option>
+                <option value="monsters">Monsters</option>
+                <option value="backgrounds">Backgrounds</option>
+                <option value="other">Other</option>
+              </select>
+
+
+
+              {/* Sort */}
+              <select
+                value={`${sortBy.field}-${sortBy.direction}`}
+                onChange={(e) => {
+                  const [field, direction] = e.target.value.split('-');
+                  setSortBy({
+                    field: field as DocumentSortOptions['field'],
+                    direction: direction as 'asc' | 'desc'
+                  });
+                }}
+                className="px-3 py-2 border border-slate-200 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="updatedAt-desc">Recently Updated</option>
+                <option value="createdAt-desc">Recently Created</option>
+                <option value="title-asc">Title A-Z</option>
+                <option value="title-desc">Title Z-A</option>
+                <option value="wordCount-desc">Most Words</option>
+              </select>
+            </div>
+
+            {/* Tag cloud */}
+            {!isSearchActive && (
+              <TagCloud
+                tags={tags.tags}
+                selectedKey={tagFilter?.key ?? null}
+                onSelect={setTagFilter}
+                onManage={() => setShowTagManager(true)}
+              />
+            )}
+
+            {/* Bulk actions */}
+            {!isSearchActive && selectedIds.size > 0 && (
+              <BulkActionBar
+                selectedCount={selectedIds.size}
+                totalCount={filteredDocuments.length}
+                isBusy={isBulkRunning}
+                canPublish={!user?.isGuest}
+                failures={bulkFailures.map(failure => ({
+                  ...failure,
+                  title: allDocuments.find(document => document.id === failure.documentId)?.title ?? failure.documentId
+                }))}
+                onSelectAll={() => setSelectedIds(new Set(filteredDocuments.map(document => document.id)))}
+                onClearSelection={() => {
+                  setSelectedIds(new Set());
+                  setBulkFailures([]);
+                }}
+                onMoveToTrash={handleBulkTrash}
+                onArchive={() => handleBulkUpdate({ status: 'archived' })}
+                onChangeType={(type) => handleBulkUpdate({ type })}
+                onAddTags={(tags) => handleBulkUpdate({ addTags: tags })}
+                onRemoveTags={(tags) => handleBulkUpdate({ removeTags: tags })}
+                onSetPublic={handleBulkSetPublic}
+                onDuplicate={handleBulkDuplicate}
+                onExportZip={handleBulkExport}
+              />
+            )}
+
+            {/* Document Grid */}
+            {isSearchActive ? (
+              <DocumentSearchResults
+                hits={search.hits}
+                isSearching={search.isSearching}
+                error={search.error}
+                onOpen={handleOpenSearchHit}
+              />
+            ) : isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="text-center">
+                  <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">Loading documents...</p>
+                </div>
+              </div>
+            ) : error && filteredDocuments.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-destructive mb-4">{error}</p>
+                <button
+                  onClick={() => loadDocuments()}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+                >
+                  Try Again
+                </button>
+              </div>
+            ) : filteredDocuments.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {filteredDocuments.map((document) => (
+                  <div
+                    key={document.id}
+                    draggable
+                    onDragStart={(event) => startDocumentDrag(event, document.id)}
+                  >
+                    <DocumentCard
+                      document={document}
+                      onEdit={handleEdit}
+                      onDelete={handleDelete}
+                      onDuplicate={handleDuplicate}
+                      onExport={handleExport}
+                      onSaveAsTemplate={setDocumentToTemplate}
+                      tagColors={tagColors}
+                      isSelected={selectedIds.has(document.id)}
+                      onToggleSelect={handleToggleSelect}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <div className="max-w-md mx-auto">
+                  <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Plus className="w-8 h-8 text-slate-500" />
+                  </div>
+                  <h3 className="text-lg font-medium text-slate-900 mb-2">
+                    {hasFilters ? 'No documents found' : 'No documents yet'}
+                  </h3>
+                  <p className="text-slate-600 mb-4">
+                    {hasFilters
+                      ? 'Try adjusting your search terms or filters.'
+                      : 'Get started by creating your first document.'}
+                  </p>
+                  {onCreateNew && !hasFilters && (
+                    <button
+                      onClick={onCreateNew}
+                      className="px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-900 rounded-lg transition-colors"
+                    >
+                      Create Your First Document
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Infinite scroll */}
+            {!isSearchActive && !isLoading && filteredDocuments.length > 0 && (
+              <div ref={loadMoreRef} className="flex items-center justify-center py-4 text-sm text-slate-600">
+                {isLoadingMore && <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />}
+                {!isLoadingMore && error && (
+                  <button onClick={() => loadDocuments(nextCursor)} className="text-destructive hover:underline">
+                    {error}. Try again
+                  </button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
 
       {/* Export Modal */}
       {documentToExport && (
@@ -359,6 +672,26 @@ export const DocumentList: React.FC<DocumentListProps> = ({
           document={documentToExport}
         />
       )}
+
+      {/* Tag manager */}
+      {showTagManager && (
+        <TagManager
+          tags={tags.tags}
+          onClose={() => setShowTagManager(false)}
+          onSetColor={tags.setColor}
+          onRename={(fromTag, toTag) => handleTagsChanged(tags.renameTag(fromTag, toTag))}
+          onMerge={(fromTags, toTag) => handleTagsChanged(tags.mergeTags(fromTags, toTag))}
+        />
+      )}
+
+      {/* Save as Template */}
+      {documentToTemplate && (
+        <SaveTemplateModal
+          document={documentToTemplate}
+          onClose={() => setDocumentToTemplate(null)}
+          onSave={handleSaveTemplate}
+        />
+      )}
     </div>
   );
 };
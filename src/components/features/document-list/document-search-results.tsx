@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Full-text search results
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Ranked matches from document bodies and titles, each with a snippet of the
+ * best matching paragraph. Opening a result jumps to that paragraph.
+ */
+
+import React from 'react';
+import { FileText, Loader2, SearchX } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SearchHit } from '@/lib/search-index';
+
+interface DocumentSearchResultsProps {
+  hits: SearchHit[];
+  isSearching: boolean;
+  error: string | null;
+  onOpen: (hit: SearchHit) => void;
+  className?: string;
+}
+
+export const DocumentSearchResults: React.FC<DocumentSearchResultsProps> = ({
+  hits,
+  isSearching,
+  error,
+  onOpen,
+  className
+}) => {
+  if (isSearching && hits.length === 0) {
+    return (
+      <div className={cn('flex items-center justify-center py-12', className)}>
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className={cn('text-center py-12 text-destructive', className)}>{error}</p>;
+  }
+
+  if (hits.length === 0) {
+    return (
+      <div className={cn('text-center py-12', className)}>
+        <SearchX className="w-8 h-8 mx-auto mb-4 text-slate-500" />
+        <h3 className="text-lg font-medium text-slate-900 mb-2">No matches</h3>
+        <p className="text-slate-600">
+          Use &ldquo;quotes&rdquo; for an exact phrase, or end a word with * to match its beginning.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className={cn('space-y-3', className)}>
+      {hits.map(hit => (
+        <li key={hit.documentId}>
+          <button
+            onClick={() => onOpen(hit)}
+            className="w-full text-left p-4 bg-white border border-slate-200 rounded-lg hover:border-slate-300 hover:shadow-sm transition-all"
+          >
+            <div className="flex items-center justify-between gap-3 mb-1">
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="w-4 h-4 text-slate-500 shrink-0" />
+                <span className="font-medium text-slate-900 truncate">{hit.title}</span>
+              </div>
+              {hit.matchCount > 0 && (
+                <span className="text-xs text-slate-500 shrink-0">
+                  {hit.matchCount} {hit.matchCount === 1 ? 'match' : 'matches'}
+                </span>
+              )}
+            </div>
+            {hit.snippet.length > 0 && (
+              <p className="text-sm text-slate-600 break-words">
+                {hit.snippet.map((segment, index) => segment.isMatch ? (
+                  <mark key={index} className="bg-yellow-100 text-slate-900 rounded-sm px-0.5">{segment.text}</mark>
+                ) : (
+                  <React.Fragment key={index}>{segment.text}</React.Fragment>
+                ))}
+              </p>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+DocumentSearchResults.displayName = 'DocumentSearchResults';
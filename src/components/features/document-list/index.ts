@@ -6,4 +6,13 @@
 
 export { DocumentCard } from './document-card';
 export { DocumentList } from './document-list';
-export { CreateDocumentModal } from './create-document'; 
\ No newline at end of file
+export { CreateDocumentModal } from './create-document';
+export { SharedDocuments } from './shared-documents';
+export { DocumentSearchResults } from './document-search-results';
+export { BinderTree } from './binder-tree';
+export { TrashBin } from './trash-bin';
+export { BulkActionBar } from './bulk-action-bar';
+export { SaveTemplateModal } from './save-template-modal';
+export { TagBadge } from './tag-badge';
+export { TagCloud } from './tag-cloud';
+export { TagManager } from './tag-manager';
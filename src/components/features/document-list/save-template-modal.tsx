@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Save as template modal
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Names a template saved from an existing document. Any `{{field}}`
+ * placeholders in the document are asked for when the template is used.
+ */
+
+import React, { useState } from 'react';
+import { X, LayoutTemplate, Loader2 } from 'lucide-react';
+import { findTemplateFields } from '@/lib/template-fields';
+import { MAX_TEMPLATE_NAME_LENGTH } from '@/services/templates';
+import type { CreateTemplateData, Document } from '@/types/document';
+
+interface SaveTemplateModalProps {
+  document: Document;
+  onClose: () => void;
+  onSave: (document: Document, data: CreateTemplateData) => Promise<unknown>;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-200 rounded-md bg-white text-slate-900 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent';
+
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
+  document,
+  onClose,
+  onSave
+}) => {
+  const [name, setName] = useState(document.title);
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fields = findTemplateFields(document.content || '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(document, {
+        name,
+        ...(description.trim() && { description }),
+        ...(category.trim() && { category })
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white border border-slate-200 rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <LayoutTemplate className="w-5 h-5 text-slate-700" />
+            <h2 className="text-lg font-semibold text-slate-900">Save as Template</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-900 mb-2">Template Name *</span>
+            <input
+              type="text"
+              value={name}
+              maxLength={MAX_TEMPLATE_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-900 mb-2">Description</span>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the template is for..."
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-900 mb-2">Category</span>
+            <input
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="My Templates"
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+
+          <p className="text-xs text-slate-600">
+            {fields.length > 0
+              ? `New documents will ask for: ${fields.map(field => field.label).join(', ')}.`
+              : 'Tip: write {{fieldName}} in the document, e.g. {{partyLevel}}, for values to fill in each time the template is used.'}
+          </p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 border border-slate-200 rounded-md text-slate-900 hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Template
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+SaveTemplateModal.displayName = 'SaveTemplateModal';
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Shared with me section
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Dashboard section listing documents other users have shared with the
+ * current user, with the role they were given.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Users, FileText } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import type { Document } from '@/types/document';
+import * as documentService from '@/services/documents';
+import * as sharingService from '@/services/sharing';
+
+interface SharedDocumentsProps {
+  className?: string;
+}
+
+const roleLabels = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  commenter: 'Can comment',
+  viewer: 'Can view'
+} as const;
+
+export const SharedDocuments: React.FC<SharedDocumentsProps> = ({ className }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [documents, setDocuments] = useState<Document[]>([]);
+
+  /**
+   * Load shared documents
+   */
+  useEffect(() => {
+    if (!user || user.isGuest) return;
+
+    const loadSharedDocuments = async () => {
+      try {
+        setDocuments(await sharingService.getSharedWithMe(user.id, user.email));
+      } catch (error) {
+        console.error('Error loading shared documents:', error);
+        setDocuments([]);
+      }
+    };
+
+    loadSharedDocuments();
+  }, [user]);
+
+  // Nothing to show until someone shares a document
+  if (!user || documents.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-2 bg-slate-50 rounded-lg">
+            <Users className="w-5 h-5 text-slate-700" />
+          </div>
+          <h2 className="text-xl font-semibold text-slate-900">Shared with me</h2>
+        </div>
+
+        <div className="space-y-3">
+          {documents.map(doc => {
+            const role = documentService.getDocumentRole(doc, user.id, user.email);
+            return (
+              <div
+                key={doc.id}
+                className="group flex items-center justify-between p-4 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 transition-all duration-200 cursor-pointer hover:shadow-sm"
+                onClick={() => navigate(`/editor/${doc.id}`)}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="p-2 bg-white rounded-lg">
+                    <FileText className="w-5 h-5 text-slate-700" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-slate-900">{doc.title}</p>
+                    <p className="text-sm text-slate-600">
+                      {doc.stats?.wordCount || 0} words • {doc.type}
+                    </p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-slate-600">{role ? roleLabels[role] : ''}</p>
+                  <p className="text-xs text-slate-500">{doc.updatedAt.toLocaleDateString()}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+SharedDocuments.displayName = 'SharedDocuments';
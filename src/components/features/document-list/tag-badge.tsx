@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Colored tag badge
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { defaultTagColor, type TagColor } from '@/lib/document-tags';
+
+/**
+ * Badge classes for each tag color
+ */
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  slate: 'bg-slate-100 text-slate-700 border-slate-200',
+  red: 'bg-red-50 text-red-700 border-red-200',
+  amber: 'bg-amber-50 text-amber-800 border-amber-200',
+  green: 'bg-green-50 text-green-700 border-green-200',
+  teal: 'bg-teal-50 text-teal-700 border-teal-200',
+  blue: 'bg-blue-50 text-blue-700 border-blue-200',
+  indigo: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  purple: 'bg-purple-50 text-purple-700 border-purple-200',
+  pink: 'bg-pink-50 text-pink-700 border-pink-200'
+};
+
+interface TagBadgeProps {
+  tag: string;
+  color?: TagColor; // Defaults to the tag's stable default color
+  count?: number;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export const TagBadge: React.FC<TagBadgeProps> = ({
+  tag,
+  color,
+  count,
+  onRemove,
+  className
+}) => (
+  <span
+    className={cn(
+      'inline-flex items-center gap-1 text-xs px-2 py-1 border rounded-full',
+      TAG_COLOR_CLASSES[color ?? defaultTagColor(tag)],
+      className
+    )}
+  >
+    {tag}
+    {count !== undefined && <span className="opacity-70">{count}</span>}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={`Remove ${tag}`}
+        className="hover:text-red-600 transition-colors"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
+
+TagBadge.displayName = 'TagBadge';
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Tag cloud filter
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * The user's tags sized by how many documents use them. Picking one narrows
+ * the document list to that tag.
+ */
+
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { TagSummary } from '@/lib/document-tags';
+import { TAG_COLOR_CLASSES } from './tag-badge';
+
+/**
+ * Text sizes from least to most used
+ */
+const SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg'];
+
+interface TagCloudProps {
+  tags: TagSummary[];
+  selectedKey: string | null;
+  onSelect: (tag: TagSummary | null) => void;
+  onManage?: () => void;
+  className?: string;
+}
+
+export const TagCloud: React.FC<TagCloudProps> = ({
+  tags,
+  selectedKey,
+  onSelect,
+  onManage,
+  className
+}) => {
+  if (tags.length === 0) return null;
+
+  const maxCount = Math.max(...tags.map(tag => tag.count));
+  const sorted = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      {sorted.map(tag => {
+        const size = SIZE_CLASSES[Math.round(((tag.count - 1) / Math.max(1, maxCount - 1)) * (SIZE_CLASSES.length - 1))];
+        const isSelected = tag.key === selectedKey;
+        return (
+          <button
+            key={tag.key}
+            onClick={() => onSelect(isSelected ? null : tag)}
+            title={`${tag.count} document${tag.count !== 1 ? 's' : ''}`}
+            className={cn(
+              'px-2 py-0.5 border rounded-full transition-opacity',
+              TAG_COLOR_CLASSES[tag.color],
+              size,
+              selectedKey && !isSelected ? 'opacity-50 hover:opacity-100' : '',
+              isSelected && 'ring-2 ring-blue-500'
+            )}
+          >
+            {tag.name}
+          </button>
+        );
+      })}
+      {onManage && (
+        <button
+          onClick={onManage}
+          className="flex items-center gap-1 px-2 py-0.5 text-xs text-slate-600 hover:text-slate-900"
+        >
+          <Settings2 className="w-3.5 h-3.5" />
+          Manage tags
+        </button>
+      )}
+    </div>
+  );
+};
+
+TagCloud.displayName = 'TagCloud';
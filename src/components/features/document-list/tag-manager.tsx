@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Tag manager modal
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Lists the user's tags with usage counts, and lets them pick colors, rename a
+ * tag across all documents, or merge duplicates ("npc" and "NPCs") into one.
+ */
+
+import React, { useState } from 'react';
+import { X, Tags, Loader2, Merge, Pencil, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TAG_COLORS, type TagColor, type TagSummary } from '@/lib/document-tags';
+import type { BulkOperationResult } from '@/types/document';
+import { TAG_COLOR_CLASSES, TagBadge } from './tag-badge';
+
+interface TagManagerProps {
+  tags: TagSummary[];
+  onClose: () => void;
+  onSetColor: (tag: string, color: TagColor) => Promise<void>;
+  onRename: (fromTag: string, toTag: string) => Promise<BulkOperationResult | null>;
+  onMerge: (fromTags: string[], toTag: string) => Promise<BulkOperationResult | null>;
+}
+
+const inputClassName = 'px-2 py-1 text-sm border border-slate-200 rounded-md bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent';
+
+export const TagManager: React.FC<TagManagerProps> = ({
+  tags,
+  onClose,
+  onSetColor,
+  onRename,
+  onMerge
+}) => {
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(() => new Set());
+  const [mergeName, setMergeName] = useState('');
+  const [renamingKey, setRenamingKey] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectedTags = tags.filter(tag => selectedKeys.has(tag.key));
+
+  /**
+   * Run a change, reporting documents that could not be updated
+   */
+  const run = async (action: () => Promise<BulkOperationResult | null | void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result && result.failures.length > 0) {
+        setMessage(`${result.failures.length} document${result.failures.length !== 1 ? 's' : ''} could not be updated`);
+      }
+    } catch (err) {
+      console.error('Error updating tags:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to update tags');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleSelected = (tag: TagSummary) => {
+    const next = new Set(selectedKeys);
+    if (!next.delete(tag.key)) next.add(tag.key);
+    setSelectedKeys(next);
+    // Suggest the most used of the selected tags
+    const mostUsed = tags.find(t => next.has(t.key));
+    setMergeName(mostUsed?.name ?? '');
+  };
+
+  const handleRename = (tag: TagSummary) => {
+    const toTag = renameValue.trim();
+    if (!toTag || toTag === tag.name) {
+      setRenamingKey(null);
+      return;
+    }
+    run(async () => {
+      const result = await onRename(tag.name, toTag);
+      setRenamingKey(null);
+      return result;
+    });
+  };
+
+  const handleMerge = () => {
+    run(async () => {
+      const result = await onMerge(selectedTags.flatMap(tag => tag.variants), mergeName);
+      setSelectedKeys(new Set());
+      setMergeName('');
+      return result;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white border border-slate-200 rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Tags className="w-5 h-5 text-slate-700" />
+            <h2 className="text-lg font-semibold text-slate-900">Manage Tags</h2>
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Merge */}
+        <div className="flex flex-wrap items-center gap-2 px-6 py-3 bg-slate-50 border-b border-slate-200 text-sm">
+          <Merge className="w-4 h-4 text-slate-600" />
+          {selectedTags.length < 2 ? (
+            <span className="text-slate-600">Select two or more tags to merge them into one.</span>
+          ) : (
+            <>
+              <span className="text-slate-700">Merge {selectedTags.length} tags into</span>
+              <input
+                type="text"
+                value={mergeName}
+                onChange={(e) => setMergeName(e.target.value)}
+                className={inputClassName}
+                disabled={isBusy}
+              />
+              <button
+                onClick={handleMerge}
+                disabled={isBusy || !mergeName.trim()}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Merge
+              </button>
+            </>
+          )}
+        </div>
+
+        {message && <p className="px-6 pt-3 text-sm text-red-600">{message}</p>}
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-100 px-6">
+          {tags.length === 0 && (
+            <li className="py-8 text-center text-slate-600">No tags yet. Add tags to documents in their settings.</li>
+          )}
+          {tags.map(tag => (
+            <li key={tag.key} className="flex items-center gap-3 py-3">
+              <input
+                type="checkbox"
+                checked={selectedKeys.has(tag.key)}
+                onChange={() => toggleSelected(tag)}
+                disabled={isBusy}
+                aria-label={`Select ${tag.name}`}
+                className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+
+              <div className="flex-1 min-w-0">
+                {renamingKey === tag.key ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename(tag);
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      autoFocus
+                      className={inputClassName}
+                      disabled={isBusy}
+                    />
+                    <button type="submit" disabled={isBusy} aria-label="Save name" className="p-1 text-green-700 hover:bg-green-50 rounded">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button type="button" onClick={() => setRenamingKey(null)} aria-label="Cancel rename" className="p-1 text-slate-500 hover:bg-slate-100 rounded">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <TagBadge tag={tag.name} color={tag.color} />
+                    <span className="text-xs text-slate-600">
+                      {tag.count} document{tag.count !== 1 ? 's' : ''}
+                      {tag.variants.length > 1 && ` • also spelled ${tag.variants.slice(1).join(', ')}`}
+                    </span>
+                    <button
+                      onClick={() => {
+                        setRenamingKey(tag.key);
+                        setRenameValue(tag.name);
+                      }}
+                      disabled={isBusy}
+                      aria-label={`Rename ${tag.name}`}
+                      className="p-1 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded disabled:opacity-50"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1">
+                {TAG_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => run(() => onSetColor(tag.name, color))}
+                    disabled={isBusy}
+                    aria-label={`Color ${tag.name} ${color}`}
+                    className={cn(
+                      'w-4 h-4 rounded-full border',
+                      TAG_COLOR_CLASSES[color],
+                      tag.color === color && 'ring-2 ring-offset-1 ring-slate-500'
+                    )}
+                  />
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+TagManager.displayName = 'TagManager';
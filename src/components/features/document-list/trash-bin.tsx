@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Trash view
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Documents moved to the trash, with restore and permanent delete, and the
+ * number of days they are kept before being deleted automatically.
+ */
+
+import React, { useState } from 'react';
+import { FileText, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getTrashPurgeDate } from '@/services/documents';
+import type { Document } from '@/types/document';
+
+/**
+ * Retention periods offered, in days
+ */
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+interface TrashBinProps {
+  documents: Document[];
+  isLoading: boolean;
+  error: string | null;
+  retentionDays: number;
+  canChangeRetention: boolean;
+  onRestore: (documentId: string) => Promise<void>;
+  onDeleteForever: (documentId: string) => Promise<void>;
+  onEmptyTrash: () => Promise<void>;
+  onRetentionDaysChange: (days: number) => Promise<void>;
+  className?: string;
+}
+
+/**
+ * Days left before a trashed document is deleted, at least 0
+ */
+function getDaysLeft(document: Document, retentionDays: number): number | null {
+  const purgeDate = getTrashPurgeDate(document, retentionDays);
+  if (!purgeDate) return null;
+  return Math.max(0, Math.ceil((purgeDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+export const TrashBin: React.FC<TrashBinProps> = ({
+  documents,
+  isLoading,
+  error,
+  retentionDays,
+  canChangeRetention,
+  onRestore,
+  onDeleteForever,
+  onEmptyTrash,
+  onRetentionDaysChange,
+  className
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const retentionOptions = RETENTION_OPTIONS.includes(retentionDays)
+    ? RETENTION_OPTIONS
+    : [...RETENTION_OPTIONS, retentionDays].sort((a, b) => a - b);
+
+  /**
+   * Run an action for one document, or the whole trash
+   */
+  const runAction = async (id: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      alert(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteForever = (document: Document) => {
+    if (!confirm(`Delete "${document.title}" forever? This action cannot be undone.`)) return;
+    runAction(document.id, () => onDeleteForever(document.id), 'Failed to delete document');
+  };
+
+  const handleEmptyTrash = () => {
+    if (!confirm(`Delete all ${documents.length} documents in the trash forever? This action cannot be undone.`)) return;
+    runAction('all', onEmptyTrash, 'Failed to empty trash');
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Delete documents in the trash after
+          <select
+            value={retentionDays}
+            disabled={!canChangeRetention}
+            onChange={(e) => runAction('retention', () => onRetentionDaysChange(Number(e.target.value)), 'Failed to save setting')}
+            className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+          >
+            {retentionOptions.map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={handleEmptyTrash}
+          disabled={documents.length === 0 || busyId !== null}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-red-600 bg-white border border-red-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {busyId === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+          Empty Trash
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="text-center py-12 text-destructive">{error}</p>
+      ) : documents.length === 0 ? (
+        <div className="text-center py-12">
+          <Trash2 className="w-8 h-8 mx-auto mb-4 text-slate-500" />
+          <h3 className="text-lg font-medium text-slate-900 mb-2">Trash is empty</h3>
+          <p className="text-slate-600">Deleted documents stay here for {retentionDays} days.</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {documents.map(document => {
+            const daysLeft = getDaysLeft(document, retentionDays);
+            return (
+              <li
+                key={document.id}
+                className="flex items-center justify-between gap-4 p-4 bg-white border border-slate-200 rounded-lg"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="w-5 h-5 text-slate-500 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 truncate">{document.title}</p>
+                    <p className="text-sm text-slate-600">
+                      {document.trashedAt && `Deleted ${document.trashedAt.toLocaleDateString()}`}
+                      {daysLeft !== null && ` • ${daysLeft === 0 ? 'Deleted soon' : `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => runAction(document.id, () => onRestore(document.id), 'Failed to restore document')}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-slate-900 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg disabled:opacity-50"
+                  >
+                    {busyId === document.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDeleteForever(document)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+TrashBin.displayName = 'TrashBin';
@@ -25,9 +25,13 @@ import {
   Loader2,
   Download,
   RefreshCw,
-  ScrollText
+  ScrollText,
+  Share2,
+  Printer
 } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
+import { exportCampaign, type CampaignExportFormat } from '@/services/export';
+import { campaignToIndexCards } from '@/services/pdf/index-card-content';
 import { 
   generateCampaign, 
   refineCampaign,
@@ -36,6 +40,7 @@ import {
   type RefinementRequest,
   type RefinementResponse 
 } from '@/services/ai/campaign-generator';
+import { IndexCardExport } from './index-card-export';
 
 interface CampaignGeneratorWidgetProps {
   onCampaignGenerated: (campaign: string) => void;
@@ -217,6 +222,17 @@ export function CampaignGeneratorWidget({
     setChatMessages([]);
   };
 
+  const handleExportCampaign = async (format: CampaignExportFormat) => {
+    if (!generatedCampaign) return;
+
+    try {
+      await exportCampaign(generatedCampaign, format);
+    } catch (error) {
+      console.error('🎲 Campaign export failed:', error);
+      alert('Campaign export failed. Please try again.');
+    }
+  };
+
   const formatCampaignForEditor = (campaign: GeneratedCampaign): string => {
     console.log('🎲 formatCampaignForEditor called with campaign:', campaign?.title);
     
@@ -598,6 +614,40 @@ export function CampaignGeneratorWidget({
             </Button>
           </div>
 
+          <div className="flex gap-3">
+            <Button
+              onClick={() => handleExportCampaign('foundry')}
+              variant="outline"
+              size="sm"
+              className="flex-1"
+            >
+              <Share2 className="w-4 h-4 mr-2" />
+              Export to Foundry VTT
+            </Button>
+
+            <Button
+              onClick={() => handleExportCampaign('roll20')}
+              variant="outline"
+              size="sm"
+              className="flex-1"
+            >
+              <Share2 className="w-4 h-4 mr-2" />
+              Export to Roll20
+            </Button>
+
+            <Button
+              onClick={() => handleExportCampaign('dm-screen')}
+              variant="outline"
+              size="sm"
+              className="flex-1"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              DM Screen
+            </Button>
+          </div>
+
+          <IndexCardExport title={generatedCampaign.title} cards={campaignToIndexCards(generatedCampaign)} />
+
           <div className="text-xs text-slate-500 text-center">
             Click "Use This Campaign" to insert into your document, or "Refine Campaign" to make adjustments.
           </div>
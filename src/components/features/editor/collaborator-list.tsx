@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Collaborator list
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Shows the live collaboration connection state and the other editors
+ * currently in the document, using their cursor colors.
+ */
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { CollaborationStatus } from '@/services/collaboration/providers';
+import type { CollaborationPeer } from '@/services/collaboration/real-time';
+
+interface CollaboratorListProps {
+  status: CollaborationStatus;
+  peers: CollaborationPeer[];
+  className?: string;
+}
+
+const statusLabels: Record<CollaborationStatus, string> = {
+  connecting: 'Connecting...',
+  connected: 'Live',
+  disconnected: 'Offline'
+};
+
+const statusDotClasses: Record<CollaborationStatus, string> = {
+  connecting: 'bg-amber-500 animate-pulse',
+  connected: 'bg-green-500',
+  disconnected: 'bg-slate-400'
+};
+
+/**
+ * Initials for a collaborator avatar
+ */
+function getInitials(name: string): string {
+  const parts = name.split(/[\s@.]+/).filter(Boolean);
+  return (parts[0]?.[0] || '?').toUpperCase() + (parts[1]?.[0] || '').toUpperCase();
+}
+
+export const CollaboratorList: React.FC<CollaboratorListProps> = ({
+  status,
+  peers,
+  className
+}) => {
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <span className="flex items-center gap-1 text-xs text-slate-600">
+        <span className={cn('w-2 h-2 rounded-full', statusDotClasses[status])} />
+        {statusLabels[status]}
+      </span>
+      {peers.length > 0 && (
+        <div className="flex -space-x-2">
+          {peers.map(peer => (
+            <div
+              key={peer.clientId}
+              className="w-6 h-6 rounded-full border-2 border-white flex items-center justify-center text-[10px] font-semibold text-white"
+              style={{ backgroundColor: peer.color }}
+              title={peer.name}
+            >
+              {getInitials(peer.name)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+CollaboratorList.displayName = 'CollaboratorList';
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Custom TipTap extension for inline comment highlights
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Highlights commented ranges with decorations (`data-comment-id`) instead of
+ * marks, so comments never change document content - commenters can't edit,
+ * and highlights must not be saved or broadcast to co-editors. Decorations are
+ * mapped through every edit, which keeps anchors on the right text as it moves.
+ */
+
+import { Extension, type Editor } from '@tiptap/core';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { createTextAnchor, resolveTextAnchor, type TextAnchor } from '@/lib/text-anchor';
+
+/**
+ * Comment to highlight
+ */
+export interface HighlightedComment {
+  id: string;
+  anchor: TextAnchor;
+}
+
+export interface CommentHighlightOptions {
+  /**
+   * Called when a highlighted range is clicked
+   */
+  onCommentClick: (commentId: string) => void;
+  /**
+   * Called with fresh anchors whenever highlights move or are reset.
+   * Comments missing from the map could not be found in the text.
+   */
+  onAnchorsChange: (anchors: Record<string, TextAnchor>) => void;
+}
+
+interface CommentHighlightMeta {
+  comments: HighlightedComment[];
+  activeCommentId: string | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    commentHighlight: {
+      /**
+       * Replace the highlighted comments
+       */
+      setCommentHighlights: (comments: HighlightedComment[], activeCommentId?: string | null) => ReturnType;
+    };
+  }
+}
+
+export const commentHighlightKey = new PluginKey<DecorationSet>('commentHighlight');
+
+/**
+ * Plain text of a document with the position of every text node.
+ * Blocks are separated by newlines, matching editor.getText().
+ */
+interface TextIndex {
+  text: string;
+  segments: Array<{ offset: number; pos: number; length: number }>;
+}
+
+function buildTextIndex(doc: ProseMirrorNode): TextIndex {
+  let text = '';
+  let hasBlock = false;
+  const segments: TextIndex['segments'] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.isTextblock) {
+      if (hasBlock) text += '\n';
+      hasBlock = true;
+    } else if (node.isText) {
+      segments.push({ offset: text.length, pos, length: node.text!.length });
+      text += node.text;
+    } else if (node.type.name === 'hardBreak') {
+      text += '\n';
+    }
+    return true;
+  });
+
+  return { text, segments };
+}
+
+/**
+ * Map a plain-text offset to a document position
+ */
+function offsetToPos(index: TextIndex, offset: number): number | null {
+  for (const segment of index.segments) {
+    if (offset >= segment.offset && offset <= segment.offset + segment.length) {
+      return segment.pos + (offset - segment.offset);
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a document position to a plain-text offset, snapping to the nearest text
+ *
+ * @param side - Whether pos starts ('start') or ends ('end') a range
+ */
+function posToOffset(index: TextIndex, pos: number, side: 'start' | 'end'): number | null {
+  const { segments } = index;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]!;
+    if (pos >= segment.pos && pos <= segment.pos + segment.length) {
+      return segment.offset + (pos - segment.pos);
+    }
+    if (pos < segment.pos) {
+      if (side === 'start') return segment.offset;
+      const previous = segments[i - 1];
+      return previous ? previous.offset + previous.length : null;
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  return side === 'end' && last ? last.offset + last.length : null;
+}
+
+/**
+ * Build highlight decorations by resolving each comment's anchor
+ */
+function buildDecorations(doc: ProseMirrorNode, meta: CommentHighlightMeta): DecorationSet {
+  const index = buildTextIndex(doc);
+  const decorations: Decoration[] = [];
+
+  for (const comment of meta.comments) {
+    const range = resolveTextAnchor(index.text, comment.anchor);
+    if (!range) continue;
+
+    const from = offsetToPos(index, range.start);
+    const to = offsetToPos(index, range.end);
+    if (from === null || to === null || from >= to) continue;
+
+    decorations.push(Decoration.inline(from, to, {
+      class: comment.id === meta.activeCommentId
+        ? 'comment-highlight comment-highlight-active'
+        : 'comment-highlight',
+      'data-comment-id': comment.id
+    }, { commentId: comment.id }));
+  }
+
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Current anchors of all highlighted comments, keyed by comment ID
+ */
+export function getCommentAnchors(state: EditorState): Record<string, TextAnchor> {
+  const decorations = commentHighlightKey.getState(state);
+  if (!decorations) return {};
+
+  const index = buildTextIndex(state.doc);
+  const ranges = new Map<string, { from: number; to: number }>();
+
+  // Inline decorations are split at block boundaries; merge them per comment
+  for (const decoration of decorations.find()) {
+    const commentId = decoration.spec.commentId as string;
+    const range = ranges.get(commentId);
+    ranges.set(commentId, range
+      ? { from: Math.min(range.from, decoration.from), to: Math.max(range.to, decoration.to) }
+      : { from: decoration.from, to: decoration.to });
+  }
+
+  const anchors: Record<string, TextAnchor> = {};
+  ranges.forEach(({ from, to }, commentId) => {
+    const start = posToOffset(index, from, 'start');
+    const end = posToOffset(index, to, 'end');
+    if (start !== null && end !== null && start < end) {
+      anchors[commentId] = createTextAnchor(index.text, start, end);
+    }
+  });
+  return anchors;
+}
+
+/**
+ * Anchor for the current selection, or null when nothing is selected
+ */
+export function getSelectionAnchor(editor: Editor): TextAnchor | null {
+  const { from, to, empty } = editor.state.selection;
+  if (empty) return null;
+
+  const index = buildTextIndex(editor.state.doc);
+  const start = posToOffset(index, from, 'start');
+  const end = posToOffset(index, to, 'end');
+  if (start === null || end === null || start >= end) return null;
+
+  const anchor = createTextAnchor(index.text, start, end);
+  return anchor.quote.trim() ? anchor : null;
+}
+
+/**
+ * TipTap extension that highlights commented text
+ */
+export const CommentHighlight = Extension.create<CommentHighlightOptions>({
+  name: 'commentHighlight',
+
+  addOptions() {
+    return {
+      onCommentClick: () => {},
+      onAnchorsChange: () => {},
+    };
+  },
+
+  addCommands() {
+    return {
+      setCommentHighlights:
+        (comments, activeCommentId = null) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            const meta: CommentHighlightMeta = { comments, activeCommentId };
+            tr.setMeta(commentHighlightKey, meta);
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onCommentClick, onAnchorsChange } = this.options;
+
+    return [
+      new Plugin<DecorationSet>({
+        key: commentHighlightKey,
+
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, decorations) => {
+            const meta = tr.getMeta(commentHighlightKey) as CommentHighlightMeta | undefined;
+            if (meta) {
+              return buildDecorations(tr.doc, meta);
+            }
+            return tr.docChanged ? decorations.map(tr.mapping, tr.doc) : decorations;
+          },
+        },
+
+        props: {
+          decorations: state => commentHighlightKey.getState(state),
+
+          handleClick: (view, pos) => {
+            const [decoration] = commentHighlightKey.getState(view.state)?.find(pos, pos) || [];
+            if (decoration) {
+              onCommentClick(decoration.spec.commentId);
+            }
+            return false;
+          },
+        },
+
+        view: () => ({
+          update: (view, previousState) => {
+            if (commentHighlightKey.getState(view.state) !== commentHighlightKey.getState(previousState)) {
+              onAnchorsChange(getCommentAnchors(view.state));
+            }
+          },
+        }),
+      }),
+    ];
+  },
+});
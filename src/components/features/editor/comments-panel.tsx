@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Inline comments sidebar
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Review threads anchored to document text, with replies and resolve/reopen.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, X, Check, RotateCcw, Trash2, Loader2, Unlink } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { TextAnchor } from '@/lib/text-anchor';
+import type { DocumentComment } from '@/types/document';
+
+interface CommentsPanelProps {
+  comments: DocumentComment[];
+  detachedCommentIds: Set<string>;
+  isLoading: boolean;
+  error: string | null;
+  activeCommentId: string | null;
+  onSelectComment: (commentId: string | null) => void;
+  pendingAnchor: TextAnchor | null;
+  onSubmitComment: (body: string) => Promise<unknown>;
+  onCancelComment: () => void;
+  onReply: (commentId: string, body: string) => Promise<unknown>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<unknown>;
+  onDelete: (commentId: string) => Promise<unknown>;
+  currentUserId: string | undefined;
+  isDocumentOwner: boolean;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Format a comment timestamp
+ */
+const formatCommentTime = (date: Date): string => {
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  if (diffMinutes < 60 * 24) return `${Math.floor(diffMinutes / 60)}h ago`;
+  return date.toLocaleDateString();
+};
+
+/**
+ * Textarea with submit/cancel, used for new comments and replies
+ */
+const CommentForm: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}> = ({ placeholder, submitLabel, onSubmit, onCancel, autoFocus = false }) => {
+  const [body, setBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !body.trim()}>
+          {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Quoted text a thread is attached to
+ */
+const CommentQuote: React.FC<{ quote: string; isDetached?: boolean }> = ({ quote, isDetached = false }) => (
+  <blockquote className={cn(
+    'pl-2 border-l-2 text-xs italic line-clamp-2',
+    isDetached ? 'border-slate-300 text-slate-400 line-through' : 'border-amber-400 text-slate-600'
+  )}>
+    {quote}
+  </blockquote>
+);
+
+/**
+ * Comments sidebar component
+ *
+ * @component
+ */
+export const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  comments,
+  detachedCommentIds,
+  isLoading,
+  error,
+  activeCommentId,
+  onSelectComment,
+  pendingAnchor,
+  onSubmitComment,
+  onCancelComment,
+  onReply,
+  onResolve,
+  onDelete,
+  currentUserId,
+  isDocumentOwner,
+  onClose,
+  className
+}) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const threadRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const openComments = comments.filter(comment => !comment.resolved);
+  const resolvedComments = comments.filter(comment => comment.resolved);
+  const visibleComments = showResolved ? resolvedComments : openComments;
+
+  /**
+   * Bring the active thread into view (e.g. after clicking a highlight)
+   */
+  useEffect(() => {
+    if (!activeCommentId) return;
+    const active = comments.find(comment => comment.id === activeCommentId);
+    if (active && active.resolved !== showResolved) {
+      setShowResolved(active.resolved);
+    }
+    threadRefs.current.get(activeCommentId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    // Only when the selection changes - switching tabs by hand must stick
+  }, [activeCommentId]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col bg-white', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-slate-700" />
+          <h2 className="text-sm font-semibold text-slate-900">Comments</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          title="Close comments"
+        >
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {/* Open / resolved filter */}
+      <div className="flex items-center gap-1 m-3 p-1 bg-slate-100 rounded-lg">
+        {[false, true].map(resolved => (
+          <button
+            key={String(resolved)}
+            onClick={() => setShowResolved(resolved)}
+            className={cn(
+              'flex-1 px-3 py-1 rounded-md text-xs font-medium transition-colors',
+              showResolved === resolved ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'
+            )}
+          >
+            {resolved ? `Resolved (${resolvedComments.length})` : `Open (${openComments.length})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-3">
+        {/* New thread */}
+        {pendingAnchor && (
+          <div className="p-3 border border-blue-300 bg-blue-50 rounded-lg space-y-2">
+            <CommentQuote quote={pendingAnchor.quote} />
+            <CommentForm
+              placeholder="Add a comment..."
+              submitLabel="Comment"
+              onSubmit={onSubmitComment}
+              onCancel={onCancelComment}
+              autoFocus
+            />
+          </div>
+        )}
+
+        {(error || actionError) && (
+          <p className="text-xs text-red-600">{error || actionError}</p>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-500" />
+          </div>
+        ) : visibleComments.length === 0 && !pendingAnchor ? (
+          <p className="py-8 text-center text-sm text-slate-600">
+            {showResolved
+              ? 'No resolved comments.'
+              : 'No comments yet. Select some text and use the comment button in the toolbar.'}
+          </p>
+        ) : (
+          visibleComments.map(comment => {
+            const isActive = comment.id === activeCommentId;
+            const isDetached = !comment.resolved && detachedCommentIds.has(comment.id);
+            const canDelete = comment.authorId === currentUserId || isDocumentOwner;
+
+            return (
+              <div
+                key={comment.id}
+                ref={(element) => {
+                  if (element) threadRefs.current.set(comment.id, element);
+                  else threadRefs.current.delete(comment.id);
+                }}
+                onClick={() => onSelectComment(comment.id)}
+                className={cn(
+                  'p-3 border rounded-lg space-y-2 cursor-pointer transition-colors',
+                  isActive ? 'border-amber-400 bg-amber-50/50 shadow-sm' : 'border-slate-200 hover:bg-slate-50'
+                )}
+              >
+                <CommentQuote quote={comment.anchor.quote} isDetached={isDetached} />
+                {isDetached && (
+                  <p className="flex items-center gap-1 text-xs text-slate-500">
+                    <Unlink className="w-3 h-3" />
+                    The commented text was removed
+                  </p>
+                )}
+
+                {/* Thread */}
+                {[comment, ...comment.replies].map((entry, index) => (
+                  <div key={entry.id} className={cn(index > 0 && 'pl-3 border-l border-slate-200')}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-semibold text-slate-900 truncate">{entry.authorName}</span>
+                      <span className="text-xs text-slate-500 shrink-0">{formatCommentTime(entry.createdAt)}</span>
+                    </div>
+                    <p className="text-sm text-slate-800 whitespace-pre-wrap break-words">{entry.body}</p>
+                  </div>
+                ))}
+
+                {/* Actions */}
+                <div className="flex items-center justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => runAction(() => onResolve(comment.id, !comment.resolved))}
+                    className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 hover:text-slate-900 transition-colors"
+                    title={comment.resolved ? 'Reopen' : 'Resolve'}
+                  >
+                    {comment.resolved ? <RotateCcw className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                  </button>
+                  {canDelete && (
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Delete this comment thread?')) {
+                          runAction(() => onDelete(comment.id));
+                        }
+                      }}
+                      className="p-1.5 rounded-md text-slate-600 hover:bg-red-50 hover:text-red-600 transition-colors"
+                      title="Delete thread"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {isActive && !comment.resolved && (
+                  <div onClick={(e) => e.stopPropagation()}>
+                    <CommentForm
+                      placeholder="Reply..."
+                      submitLabel="Reply"
+                      onSubmit={(body) => onReply(comment.id, body)}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+CommentsPanel.displayName = 'CommentsPanel';
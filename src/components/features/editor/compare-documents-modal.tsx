@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Compare documents modal
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Modal for comparing the current document with another document (e.g. a
+ * duplicate made before a prep session), a saved version, or pasted text.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { X, GitCompare, Columns, AlignLeft, ArrowLeftRight, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { cn } from '@/lib/utils';
+import { plainTextToHTML } from '@/lib/html-diff';
+import { DocumentDiffViewer, type DiffViewMode } from './document-diff-viewer';
+import type { Document, DocumentVersion } from '@/types/document';
+import * as documentService from '@/services/documents';
+import * as versionService from '@/services/document-versions';
+
+interface CompareDocumentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: Document;
+  currentContent: string;
+}
+
+type CompareSource = 'document' | 'version' | 'paste';
+
+const sourceLabels: Record<CompareSource, string> = {
+  document: 'Another document',
+  version: 'Saved version',
+  paste: 'Pasted text'
+};
+
+export const CompareDocumentsModal: React.FC<CompareDocumentsModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  currentContent
+}) => {
+  const { user } = useAuth();
+  const [source, setSource] = useState<CompareSource>('document');
+  const [mode, setMode] = useState<DiffViewMode>('side-by-side');
+  const [hideUnchanged, setHideUnchanged] = useState(false);
+  const [isSwapped, setIsSwapped] = useState(false);
+
+  const [otherDocuments, setOtherDocuments] = useState<Document[]>([]);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [selectedDocumentId, setSelectedDocumentId] = useState('');
+  const [selectedVersionId, setSelectedVersionId] = useState('');
+  const [pastedText, setPastedText] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Load comparison candidates when the modal opens
+   */
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const loadCandidates = async () => {
+      setIsLoading(true);
+      try {
+        const [documentsResponse, versionList] = await Promise.all([
+          documentService.getUserDocuments(user.id, { limit: 100 }),
+          versionService.getDocumentVersions(document.id, user.id)
+        ]);
+
+        const others = documentsResponse.documents.filter(doc => doc.id !== document.id);
+        setOtherDocuments(others);
+        setVersions(versionList);
+
+        // Preselect a likely duplicate of this document
+        const duplicate = others.find(doc => doc.title.startsWith(document.title));
+        setSelectedDocumentId(duplicate?.id || others[0]?.id || '');
+        setSelectedVersionId(versionList[0]?.id || '');
+      } catch (err) {
+        console.error('Error loading comparison candidates:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadCandidates();
+  }, [isOpen, user, document.id, document.title]);
+
+  if (!isOpen) return null;
+
+  /**
+   * Resolve the HTML and label for the selected comparison source
+   */
+  const getComparison = (): { html: string; label: string } | null => {
+    if (source === 'document') {
+      const other = otherDocuments.find(doc => doc.id === selectedDocumentId);
+      return other ? { html: other.content || '', label: other.title } : null;
+    }
+    if (source === 'version') {
+      const version = versions.find(v => v.id === selectedVersionId);
+      return version ? { html: version.content, label: version.createdAt.toLocaleString() } : null;
+    }
+    return pastedText.trim() ? { html: plainTextToHTML(pastedText), label: 'Pasted text' } : null;
+  };
+
+  const comparison = getComparison();
+  const current = { html: currentContent, label: `${document.title} (current)` };
+  const [left, right] = comparison
+    ? (isSwapped ? [current, comparison] : [comparison, current])
+    : [null, null];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full mx-4 h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <GitCompare className="w-5 h-5 text-slate-700" />
+            <h2 className="text-lg font-semibold text-slate-900">Compare</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Source selection */}
+        <div className="p-6 border-b border-slate-200 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-lg">
+              {(Object.keys(sourceLabels) as CompareSource[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setSource(option)}
+                  className={cn(
+                    'px-3 py-1 rounded-md text-sm transition-colors',
+                    source === option ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'
+                  )}
+                >
+                  {sourceLabels[option]}
+                </button>
+              ))}
+            </div>
+
+            {source === 'document' && (
+              <select
+                value={selectedDocumentId}
+                onChange={(e) => setSelectedDocumentId(e.target.value)}
+                className="px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {otherDocuments.length === 0 && <option value="">No other documents</option>}
+                {otherDocuments.map(doc => (
+                  <option key={doc.id} value={doc.id}>{doc.title}</option>
+                ))}
+              </select>
+            )}
+
+            {source === 'version' && (
+              <select
+                value={selectedVersionId}
+                onChange={(e) => setSelectedVersionId(e.target.value)}
+                className="px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {versions.length === 0 && <option value="">No saved versions</option>}
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>
+                    {version.createdAt.toLocaleString()} ({version.wordCount} words)
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {isLoading && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+
+            <div className="ml-auto flex items-center gap-2">
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={hideUnchanged}
+                  onChange={(e) => setHideUnchanged(e.target.checked)}
+                  className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                Only changes
+              </label>
+              <button
+                onClick={() => setIsSwapped(!isSwapped)}
+                className="p-2 rounded-lg hover:bg-slate-100 text-slate-600"
+                title="Swap sides"
+              >
+                <ArrowLeftRight className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setMode(mode === 'side-by-side' ? 'inline' : 'side-by-side')}
+                className="p-2 rounded-lg hover:bg-slate-100 text-slate-600"
+                title={mode === 'side-by-side' ? 'Show inline' : 'Show side by side'}
+              >
+                {mode === 'side-by-side' ? <AlignLeft className="w-4 h-4" /> : <Columns className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+
+          {source === 'paste' && (
+            <textarea
+              rows={4}
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              placeholder="Paste text to compare against this document..."
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+          )}
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {left && right ? (
+            <DocumentDiffViewer
+              oldHtml={left.html}
+              newHtml={right.html}
+              oldLabel={left.label}
+              newLabel={right.label}
+              mode={mode}
+              hideUnchanged={hideUnchanged}
+            />
+          ) : (
+            <p className="text-sm text-slate-600">Choose something to compare with this document.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+CompareDocumentsModal.displayName = 'CompareDocumentsModal';
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Custom TipTap extension for DM-only secret blocks
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import { DM_SECRET_ATTRIBUTE } from '@/lib/dm-secrets';
+
+export interface DmSecretOptions {
+  HTMLAttributes: Record<string, any>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    dmSecret: {
+      /**
+       * Wrap the selected blocks in a DM secret
+       */
+      setDmSecret: () => ReturnType;
+      /**
+       * Toggle a DM secret around the selected blocks
+       */
+      toggleDmSecret: () => ReturnType;
+      /**
+       * Lift the selected blocks out of a DM secret
+       */
+      unsetDmSecret: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * Block node for content only the DM should see.
+ * Stripped from the public view, viewer player copies and player handout exports.
+ */
+export const DmSecret = Node.create<DmSecretOptions>({
+  name: 'dmSecret',
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: `div[${DM_SECRET_ATTRIBUTE}]`,
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        [DM_SECRET_ATTRIBUTE]: 'true',
+        class: 'dm-secret',
+      }),
+      0,
+    ];
+  },
+
+  addCommands() {
+    return {
+      setDmSecret: () => ({ commands }) => {
+        return commands.wrapIn(this.name);
+      },
+      toggleDmSecret: () => ({ commands }) => {
+        return commands.toggleWrap(this.name);
+      },
+      unsetDmSecret: () => ({ commands }) => {
+        return commands.lift(this.name);
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-Alt-d': () => this.editor.commands.toggleDmSecret(),
+    };
+  },
+});
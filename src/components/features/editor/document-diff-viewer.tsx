@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Document diff viewer
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Renders a block and word level comparison of two document HTML bodies,
+ * either side by side or inline.
+ */
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { sanitizeHTML } from '@/lib/sanitize-html';
+import { diffHTMLBlocks, countBlockChanges, type BlockDiff, type DiffBlock } from '@/lib/html-diff';
+import type { DiffSegment } from '@/lib/text-diff';
+
+export type DiffViewMode = 'side-by-side' | 'inline';
+
+interface DocumentDiffViewerProps {
+  oldHtml: string;
+  newHtml: string;
+  oldLabel?: string;
+  newLabel?: string;
+  mode?: DiffViewMode;
+  hideUnchanged?: boolean;
+  className?: string;
+}
+
+/**
+ * Row styling by diff status
+ */
+const statusClasses: Record<BlockDiff['status'], string> = {
+  unchanged: 'border-l-4 border-transparent',
+  added: 'border-l-4 border-green-400 bg-green-50',
+  removed: 'border-l-4 border-red-400 bg-red-50',
+  modified: 'border-l-4 border-amber-400 bg-amber-50/60'
+};
+
+/**
+ * Typography for block kinds when rendering word-level segments
+ */
+const headingClasses: Record<string, string> = {
+  h1: 'text-2xl font-bold',
+  h2: 'text-xl font-bold',
+  h3: 'text-lg font-semibold',
+  h4: 'text-base font-semibold',
+  h5: 'text-sm font-semibold',
+  h6: 'text-sm font-semibold'
+};
+
+/**
+ * Render word segments, keeping only the side that belongs to this column
+ */
+function renderSegments(segments: DiffSegment[], side: 'old' | 'new' | 'both') {
+  return segments
+    .filter(segment =>
+      side === 'both' ||
+      segment.op === 'equal' ||
+      (side === 'old' ? segment.op === 'delete' : segment.op === 'insert')
+    )
+    .map((segment, index) => (
+      <span
+        key={index}
+        className={cn(
+          segment.op === 'insert' && 'bg-green-200 text-green-900 rounded-sm',
+          segment.op === 'delete' && 'bg-red-200 text-red-900 line-through rounded-sm'
+        )}
+      >
+        {segment.text}
+      </span>
+    ));
+}
+
+/**
+ * Render a block's content, either as its sanitized HTML or as highlighted
+ * word segments; either side may come from a snapshot any editor wrote
+ */
+function renderBlock(block: DiffBlock, segments?: React.ReactNode) {
+  if (!segments) {
+    const html = sanitizeHTML(block.html);
+    if (block.kind === 'listItem') {
+      return <ul className="list-disc pl-6" dangerouslySetInnerHTML={{ __html: html }} />;
+    }
+    return <div dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+
+  if (block.kind === 'statBlock') {
+    return <div className="stat-block"><p>{segments}</p></div>;
+  }
+  if (block.kind === 'heading') {
+    return React.createElement(block.tag, { className: headingClasses[block.tag] }, segments);
+  }
+  if (block.kind === 'listItem') {
+    return <ul className="list-disc pl-6"><li>{segments}</li></ul>;
+  }
+  if (block.kind === 'quote') {
+    return <blockquote className="border-l-2 border-slate-300 pl-3 italic">{segments}</blockquote>;
+  }
+  return <p>{segments}</p>;
+}
+
+export const DocumentDiffViewer: React.FC<DocumentDiffViewerProps> = ({
+  oldHtml,
+  newHtml,
+  oldLabel = 'Before',
+  newLabel = 'After',
+  mode = 'side-by-side',
+  hideUnchanged = false,
+  className
+}) => {
+  const rows = useMemo(() => diffHTMLBlocks(oldHtml, newHtml), [oldHtml, newHtml]);
+  const counts = useMemo(() => countBlockChanges(rows), [rows]);
+  const visibleRows = hideUnchanged ? rows.filter(row => row.status !== 'unchanged') : rows;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Summary */}
+      <div className="flex items-center gap-4 text-xs text-slate-600">
+        <span className="text-amber-700">{counts.modified} changed</span>
+        <span className="text-green-700">{counts.added} added</span>
+        <span className="text-red-700">{counts.removed} removed</span>
+        <span>{counts.unchanged} unchanged</span>
+      </div>
+
+      {visibleRows.length === 0 && (
+        <p className="text-sm text-slate-600">No differences found.</p>
+      )}
+
+      {mode === 'side-by-side' ? (
+        <div className="prose prose-sm max-w-none">
+          <div className="grid grid-cols-2 gap-4 not-prose text-xs font-medium text-slate-600 uppercase tracking-wide mb-2">
+            <div>{oldLabel}</div>
+            <div>{newLabel}</div>
+          </div>
+          {visibleRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2 gap-4">
+              <div className={cn('px-3 py-1 rounded-sm', row.oldBlock && statusClasses[row.status])}>
+                {row.oldBlock && renderBlock(
+                  row.oldBlock,
+                  row.words ? renderSegments(row.words, 'old') : undefined
+                )}
+              </div>
+              <div className={cn('px-3 py-1 rounded-sm', row.newBlock && statusClasses[row.status])}>
+                {row.newBlock && renderBlock(
+                  row.newBlock,
+                  row.words ? renderSegments(row.words, 'new') : undefined
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="prose prose-sm max-w-none">
+          {visibleRows.map((row, index) => {
+            const block = (row.newBlock || row.oldBlock)!;
+            return (
+              <div
+                key={index}
+                className={cn(
+                  'px-3 py-1 rounded-sm',
+                  statusClasses[row.status],
+                  row.status === 'removed' && 'line-through text-red-900'
+                )}
+              >
+                {renderBlock(block, row.words ? renderSegments(row.words, 'both') : undefined)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+DocumentDiffViewer.displayName = 'DocumentDiffViewer';
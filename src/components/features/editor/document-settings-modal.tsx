@@ -4,14 +4,23 @@
  * @version 1.0.0
  * 
  * Modal component for editing document settings like title, type, description, and tags.
+ * Tags autocomplete from the user's existing tags, most used first.
  */
 
-import React, { useState, useEffect } from 'react';
-import { X, Save, Tag, Type, FileText, Hash, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Save, Type, FileText, Hash, AlertCircle, Share2, Globe, Copy, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import type { Document, DocumentType } from '@/types/document';
+import { getPublicViewUrl } from '@/services/public-view';
+import { tagKey, type TagSummary } from '@/lib/document-tags';
+import { TagBadge } from '@/components/features/document-list/tag-badge';
+
+/**
+ * Most autocomplete suggestions shown at once
+ */
+const MAX_TAG_SUGGESTIONS = 6;
 
 interface DocumentSettingsModalProps {
   isOpen: boolean;
@@ -23,6 +32,9 @@ interface DocumentSettingsModalProps {
     description: string;
     tags: string[];
   }) => Promise<void>;
+  onShare?: () => void; // Opens the share dialog
+  onTogglePublicLink?: (enabled: boolean) => Promise<unknown>; // Owner only
+  tagSuggestions?: TagSummary[]; // The user's tags, for autocomplete and colors
 }
 
 interface FormData {
@@ -51,7 +63,10 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
   isOpen,
   document,
   onClose,
-  onSave
+  onSave,
+  onShare,
+  onTogglePublicLink,
+  tagSuggestions = []
 }) => {
   const [formData, setFormData] = useState<FormData>({
     title: '',
@@ -62,6 +77,21 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
   const [errors, setErrors] = useState<FormErrors>({});
   const [isLoading, setIsLoading] = useState(false);
   const [tagInput, setTagInput] = useState('');
+  const [isUpdatingLink, setIsUpdatingLink] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [isTagInputFocused, setIsTagInputFocused] = useState(false);
+
+  // Existing tags matching what is typed, not already on the document
+  const matchingTags = useMemo(() => {
+    const typed = tagKey(tagInput);
+    if (!typed) return [];
+    const current = new Set(formData.tags.map(tagKey));
+    return tagSuggestions
+      .filter(tag => !current.has(tag.key) && tag.key.includes(typed))
+      .sort((a, b) => Number(b.key.startsWith(typed)) - Number(a.key.startsWith(typed)) || b.count - a.count)
+      .slice(0, MAX_TAG_SUGGESTIONS);
+  }, [tagInput, formData.tags, tagSuggestions]);
 
   // Initialize form data when document changes
   useEffect(() => {
@@ -103,7 +133,7 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
     if (!tag.trim()) return;
     
     const trimmedTag = tag.trim().toLowerCase();
-    if (formData.tags.includes(trimmedTag)) return;
+    if (formData.tags.some(existing => tagKey(existing) === trimmedTag)) return;
     
     if (formData.tags.length >= 10) {
       setErrors(prev => ({ ...prev, tags: 'Maximum 10 tags allowed' }));
@@ -183,6 +213,35 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
     }
   };
 
+  // Turn the player view link on or off
+  const handleTogglePublicLink = async () => {
+    if (!document || !onTogglePublicLink) return;
+
+    const enable = document.privacy !== 'public';
+    if (!enable) {
+      const confirmRevoke = window.confirm('Revoke the player link? Anyone with the link will lose access.');
+      if (!confirmRevoke) return;
+    }
+
+    setIsUpdatingLink(true);
+    setLinkError(null);
+    try {
+      await onTogglePublicLink(enable);
+    } catch (error) {
+      setLinkError(enable ? 'Failed to create player link' : 'Failed to revoke player link');
+    } finally {
+      setIsUpdatingLink(false);
+    }
+  };
+
+  // Copy the player view link
+  const handleCopyLink = async () => {
+    if (!document) return;
+    await navigator.clipboard.writeText(getPublicViewUrl(document.id));
+    setIsLinkCopied(true);
+    setTimeout(() => setIsLinkCopied(false), 2000);
+  };
+
   // Handle close with unsaved changes warning
   const handleClose = () => {
     if (!document) {
@@ -313,14 +372,38 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
               <div className="space-y-3">
                 {/* Tag Input */}
                 <div className="flex gap-2">
-                  <Input
-                    type="text"
-                    value={tagInput}
-                    onChange={(e) => handleTagInputChange(e.target.value)}
-                    onKeyDown={handleTagKeyPress}
-                    placeholder="Add tags (press Enter or comma to add)"
-                    className={errors.tags ? 'border-red-500' : ''}
-                  />
+                  <div className="relative flex-1">
+                    <Input
+                      type="text"
+                      value={tagInput}
+                      onChange={(e) => handleTagInputChange(e.target.value)}
+                      onKeyDown={handleTagKeyPress}
+                      onFocus={() => setIsTagInputFocused(true)}
+                      onBlur={() => setIsTagInputFocused(false)}
+                      placeholder="Add tags (press Enter or comma to add)"
+                      className={errors.tags ? 'border-red-500' : ''}
+                    />
+                    {isTagInputFocused && matchingTags.length > 0 && (
+                      <ul className="absolute left-0 right-0 top-full mt-1 py-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+                        {matchingTags.map(tag => (
+                          <li key={tag.key}>
+                            <button
+                              type="button"
+                              // Keep focus in the input so the list doesn't close first
+                              onMouseDown={(e) => e.preventDefault()}
+                              onClick={() => addTag(tag.name)}
+                              className="flex items-center justify-between w-full px-3 py-1.5 text-left hover:bg-gray-50"
+                            >
+                              <TagBadge tag={tag.name} color={tag.color} />
+                              <span className="text-xs text-gray-500">
+                                {tag.count} document{tag.count !== 1 ? 's' : ''}
+                              </span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                   <Button
                     type="button"
                     onClick={() => addTag(tagInput)}
@@ -335,22 +418,18 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
                 {/* Tag List */}
                 {formData.tags.length > 0 && (
                   <div className="flex flex-wrap gap-2">
-                    {formData.tags.map((tag, index) => (
-                      <span
-                        key={index}
-                        className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-700 rounded-md text-sm"
-                      >
-                        <Tag className="w-3 h-3" />
-                        {tag}
-                        <button
-                          type="button"
-                          onClick={() => removeTag(tag)}
-                          className="ml-1 hover:text-red-600 transition-colors"
-                        >
-                          <X className="w-3 h-3" />
-                        </button>
-                      </span>
-                    ))}
+                    {formData.tags.map((tag) => {
+                      const color = tagSuggestions.find(t => t.key === tagKey(tag))?.color;
+                      return (
+                        <TagBadge
+                          key={tag}
+                          tag={tag}
+                          {...(color && { color })}
+                          onRemove={() => removeTag(tag)}
+                          className="text-sm"
+                        />
+                      );
+                    })}
                   </div>
                 )}
 
@@ -368,6 +447,68 @@ export const DocumentSettingsModal: React.FC<DocumentSettingsModalProps> = ({
             </div>
           </div>
 
+          {/* Sharing */}
+          {onShare && document && (
+            <div className="flex items-center justify-between px-6 pb-6">
+              <div>
+                <div className="text-sm font-medium text-gray-700">Sharing</div>
+                <div className="text-xs text-gray-500">
+                  {document.sharedWith?.length
+                    ? `Shared with ${document.sharedWith.length} ${document.sharedWith.length === 1 ? 'person' : 'people'}`
+                    : 'Only you have access'}
+                </div>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={onShare}>
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </Button>
+            </div>
+          )}
+
+          {/* Player view link */}
+          {onTogglePublicLink && document && (
+            <div className="px-6 pb-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <Globe className="w-4 h-4" />
+                    Player link
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {document.privacy === 'public'
+                      ? 'Anyone with the link can read a clean, read-only copy'
+                      : 'Share a read-only handout with players - no account needed'}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTogglePublicLink}
+                  disabled={isUpdatingLink}
+                >
+                  {document.privacy === 'public' ? 'Revoke link' : 'Create link'}
+                </Button>
+              </div>
+
+              {document.privacy === 'public' && (
+                <div className="flex gap-2">
+                  <Input readOnly value={getPublicViewUrl(document.id)} className="text-xs" />
+                  <Button type="button" variant="outline" size="sm" onClick={handleCopyLink}>
+                    {isLinkCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </Button>
+                </div>
+              )}
+
+              {linkError && (
+                <div className="flex items-center space-x-2 text-red-600">
+                  <AlertCircle className="w-4 h-4" />
+                  <span className="text-sm">{linkError}</span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Footer */}
           <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50">
             <Button
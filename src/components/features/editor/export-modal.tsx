@@ -8,6 +8,7 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { X, FileText, Download } from 'lucide-react';
 import { exportDocument, type ExportOptions } from '@/services/export';
+import { hasDmSecrets } from '@/lib/dm-secrets';
 import type { Document } from '@/types/document';
 import type { AIGrammarStatistics } from '@/services/ai/grammar-ai-service';
 
@@ -24,22 +25,25 @@ export const ExportModal: React.FC<ExportModalProps> = ({
   document,
   statistics
 }) => {
-  const [format, setFormat] = useState<'pdf' | 'txt'>('pdf');
+  const [format, setFormat] = useState<ExportOptions['format']>('pdf');
   const [includeCover, setIncludeCover] = useState(true);
   const [customTitle, setCustomTitle] = useState(document.title);
   const [customAuthor, setCustomAuthor] = useState('Dungeon Master');
   const [campaignType, setCampaignType] = useState<'one-shot' | 'campaign' | 'adventure' | 'module'>('campaign');
+  const [playerHandout, setPlayerHandout] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const supportsCover = format === 'pdf' || format === 'homebrewery' || format === 'epub';
 
   const handleExport = async () => {
     setIsExporting(true);
     try {
       const options: ExportOptions = {
         format,
-        includeCover: format === 'pdf' ? includeCover : false, // Cover only for PDF
+        includeCover: supportsCover && includeCover,
         title: customTitle,
         author: customAuthor,
-        campaignType
+        campaignType,
+        playerHandout
       };
 
       await exportDocument(document, options, statistics);
@@ -92,7 +96,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   <span className="font-medium">PDF</span>
                 </div>
                 <p className="text-xs text-slate-600">
-                  Professional format with cover page and formatting
+                  Two-column PHB layout with contents and stat blocks
                 </p>
               </button>
               
@@ -112,6 +116,91 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   Plain text format for easy sharing
                 </p>
               </button>
+
+              <button
+                onClick={() => setFormat('md')}
+                className={`p-4 border-2 rounded-lg text-left transition-all ${
+                  format === 'md'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <FileText className="w-4 h-4" />
+                  <span className="font-medium">Markdown</span>
+                </div>
+                <p className="text-xs text-slate-600">
+                  For Obsidian vaults and other notes apps
+                </p>
+              </button>
+
+              <button
+                onClick={() => setFormat('docx')}
+                className={`p-4 border-2 rounded-lg text-left transition-all ${
+                  format === 'docx'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <FileText className="w-4 h-4" />
+                  <span className="font-medium">Word</span>
+                </div>
+                <p className="text-xs text-slate-600">
+                  Editable .docx for publishers and editors
+                </p>
+              </button>
+
+              <button
+                onClick={() => setFormat('homebrewery')}
+                className={`p-4 border-2 rounded-lg text-left transition-all ${
+                  format === 'homebrewery'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <FileText className="w-4 h-4" />
+                  <span className="font-medium">Homebrewery</span>
+                </div>
+                <p className="text-xs text-slate-600">
+                  V3 markup with monster frames, notes and page breaks
+                </p>
+              </button>
+
+              <button
+                onClick={() => setFormat('epub')}
+                className={`p-4 border-2 rounded-lg text-left transition-all ${
+                  format === 'epub'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <FileText className="w-4 h-4" />
+                  <span className="font-medium">EPUB</span>
+                </div>
+                <p className="text-xs text-slate-600">
+                  E-book with a table of contents for e-readers
+                </p>
+              </button>
+
+              <button
+                onClick={() => setFormat('dm-screen')}
+                className={`p-4 border-2 rounded-lg text-left transition-all ${
+                  format === 'dm-screen'
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <FileText className="w-4 h-4" />
+                  <span className="font-medium">DM Screen</span>
+                </div>
+                <p className="text-xs text-slate-600">
+                  Landscape panels with NPCs, encounters, stat blocks and locations
+                </p>
+              </button>
             </div>
           </div>
 
@@ -162,11 +251,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({
             </div>
           </div>
 
-          {/* Export Options - Only show for PDF format */}
-          {format === 'pdf' && (
-            <div className="space-y-3">
-              <h3 className="text-sm font-medium text-slate-700">Export Options</h3>
-              
+          {/* Export Options */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-slate-700">Export Options</h3>
+
+            {/* Cover page - PDF, Homebrewery and EPUB only */}
+            {supportsCover && (
               <label className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -176,8 +266,25 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                 />
                 <span className="text-sm text-slate-700">Include cover page</span>
               </label>
-            </div>
-          )}
+            )}
+
+            <label className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={playerHandout}
+                onChange={(e) => setPlayerHandout(e.target.checked)}
+                className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-slate-700">
+                Player handout
+                <span className="block text-xs text-slate-500">
+                  {hasDmSecrets(document.content)
+                    ? 'Leaves out DM secret blocks'
+                    : 'This document has no DM secret blocks'}
+                </span>
+              </span>
+            </label>
+          </div>
 
         </div>
 
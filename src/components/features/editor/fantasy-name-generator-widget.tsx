@@ -7,6 +7,8 @@ import {
   type DNDProfession, 
   type GeneratedName 
 } from '@/services/ai/fantasy-name-generator';
+import { generatedNameToIndexCard } from '@/services/pdf/index-card-content';
+import { IndexCardExport } from './index-card-export';
 
 interface FantasyNameGeneratorWidgetProps {
   onInsert?: (name: string) => void;
@@ -260,8 +262,12 @@ export default function FantasyNameGeneratorWidget({
             ))}
           </div>
 
-          {/* Clear Results Button */}
-          <div className="mt-4 pt-4 border-t border-gray-200">
+          {/* Print and Clear Results */}
+          <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+            <IndexCardExport
+              title={`${selectedRace} names`}
+              cards={generatedNames.map(generatedNameToIndexCard)}
+            />
             <Button
               variant="outline"
               onClick={() => setGeneratedNames([])}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Index card export controls
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Card size and paper pickers with a print button, shared by the widgets
+ * that produce NPCs, monsters and names.
+ */
+
+import React, { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { exportIndexCards } from '@/services/export';
+import type { IndexCard } from '@/services/pdf/index-card-content';
+import type { IndexCardSize, PaperSize } from '@/services/pdf/index-cards';
+
+interface IndexCardExportProps {
+  title: string;
+  cards: IndexCard[];
+  className?: string;
+}
+
+const selectClassName = 'px-2 py-1 border border-slate-200 rounded-md text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const IndexCardExport: React.FC<IndexCardExportProps> = ({ title, cards, className }) => {
+  const [cardSize, setCardSize] = useState<IndexCardSize>('3x5');
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportIndexCards(title, cards, { cardSize, paperSize });
+    } catch (error) {
+      console.error('Index card export failed:', error);
+      alert('Index card export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <select
+        value={cardSize}
+        onChange={(e) => setCardSize(e.target.value as IndexCardSize)}
+        className={selectClassName}
+        aria-label="Card size"
+      >
+        <option value="3x5">3×5 cards</option>
+        <option value="poker">Poker cards</option>
+      </select>
+      <select
+        value={paperSize}
+        onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+        className={selectClassName}
+        aria-label="Paper size"
+      >
+        <option value="a4">A4</option>
+        <option value="letter">Letter</option>
+      </select>
+      <Button
+        onClick={handleExport}
+        disabled={isExporting || cards.length === 0}
+        variant="outline"
+        size="sm"
+        className="flex-1"
+      >
+        <Printer className="w-4 h-4 mr-2" />
+        {isExporting ? 'Preparing...' : `Print ${cards.length} Card${cards.length === 1 ? '' : 's'}`}
+      </Button>
+    </div>
+  );
+};
+
+IndexCardExport.displayName = 'IndexCardExport';
@@ -19,4 +19,13 @@ export { CampaignGeneratorWidget } from './campaign-generator-widget';
 export { default as CharacterBackgroundGeneratorWidget } from './character-background-generator-widget';
 export { default as FantasyNameGeneratorWidget } from './fantasy-name-generator-widget';
 export { MonsterReSkinWidget } from './monster-reskin-widget';
-export { DocumentSettingsModal } from './document-settings-modal'; 
\ No newline at end of file
+export { IndexCardExport } from './index-card-export';
+export { DocumentSettingsModal } from './document-settings-modal'; 
+export { VersionHistoryPanel } from './version-history-panel';
+export { DocumentDiffViewer } from './document-diff-viewer';
+export { CompareDocumentsModal } from './compare-documents-modal';
+export { CollaboratorList } from './collaborator-list';
+export { ShareDocumentModal } from './share-document-modal';
+export { CommentsPanel } from './comments-panel';
+export { TrackedChangesPanel } from './tracked-changes-panel';
+export { SyncConflictDialog } from './sync-conflict-dialog';
@@ -5,6 +5,8 @@ import { Card } from '@/components/ui/card';
 import type { Open5eMonster, MonsterReSkin, MonsterSearchFilters } from '@/types/monster';
 import { open5eApi } from '@/services/ai/open5e-api';
 import { monsterReSkinService } from '@/services/ai/monster-reskin-service';
+import { reSkinToIndexCard } from '@/services/pdf/index-card-content';
+import { IndexCardExport } from './index-card-export';
 
 interface MonsterReSkinWidgetProps {
   onInsertContent: (content: string) => void;
@@ -305,6 +307,11 @@ export const MonsterReSkinWidget: React.FC<MonsterReSkinWidgetProps> = ({
             </Card>
           ))}
         </div>
+
+        <IndexCardExport
+          title={`${selectedMonster?.name ?? 'Monster'} re-skins`}
+          cards={generatedReSkins.map(reSkinToIndexCard)}
+        />
         
         <div className="flex gap-2">
           <Button variant="outline" onClick={() => setStep('customize')}>
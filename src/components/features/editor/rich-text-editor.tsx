@@ -7,16 +7,85 @@
  */
 
 import React from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEditor, EditorContent, type Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Underline from '@tiptap/extension-underline';
 import TextAlign from '@tiptap/extension-text-align';
 import TextStyle from '@tiptap/extension-text-style';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor';
 import { EditorToolbar } from './toolbar';
 import { GrammarHighlight, applyGrammarHighlights, clearGrammarHighlights } from './grammar-highlight-extension';
+import { DmSecret } from './dm-secret-extension';
+import { CommentHighlight, getSelectionAnchor, type HighlightedComment } from './comment-highlight-extension';
+import { TrackChanges, TrackedInsertion, TrackedDeletion } from './track-changes-extension';
+import type { TextAnchor } from '@/lib/text-anchor';
+import type { TrackedChangeAuthor } from '@/lib/tracked-changes';
 import type { AnalyzedError } from '@/services/ai/language-tool';
+import {
+  COLLABORATION_FIELD,
+  claimSharedDocumentSeed,
+  isSharedDocumentEmpty,
+  type CollaborationSession
+} from '@/services/collaboration/real-time';
 import { cn } from '@/lib/utils';
 
+const NO_COMMENTS: HighlightedComment[] = [];
+
+/**
+ * Place to jump to when the editor opens, e.g. from a search result
+ */
+export interface EditorScrollTarget {
+  blockIndex: number; // Top-level block
+  text: string; // Text to select within it
+}
+
+/**
+ * Range of text within part of the document, ignoring case
+ */
+function findTextRange(editor: Editor, from: number, to: number, text: string) {
+  let chars = '';
+  const positions: number[] = [];
+
+  editor.state.doc.nodesBetween(from, to, (node, pos) => {
+    if (node.isText && node.text) {
+      for (let i = 0; i < node.text.length; i++) positions.push(pos + i);
+      chars += node.text;
+    } else if (node.isBlock && chars) {
+      positions.push(pos);
+      chars += ' ';
+    }
+  });
+
+  const index = text ? chars.toLowerCase().indexOf(text.toLowerCase()) : -1;
+  if (index < 0) return null;
+  return { from: positions[index]!, to: positions[index + text.length - 1]! + 1 };
+}
+
+/**
+ * Selection for a scroll target: the text within its block, anywhere in the
+ * document if the blocks have shifted, or else the start of the block
+ */
+function resolveScrollTarget(editor: Editor, target: EditorScrollTarget) {
+  const { doc } = editor.state;
+  const hasBlock = target.blockIndex >= 0 && target.blockIndex < doc.childCount;
+  let blockStart = 0;
+  for (let i = 0; hasBlock && i < target.blockIndex; i++) {
+    blockStart += doc.child(i).nodeSize;
+  }
+
+  if (hasBlock) {
+    const blockEnd = blockStart + doc.child(target.blockIndex).nodeSize;
+    const range = findTextRange(editor, blockStart, blockEnd, target.text);
+    if (range) return range;
+  }
+  const range = findTextRange(editor, 0, doc.content.size, target.text);
+  if (range) return range;
+  if (!hasBlock) return null;
+  const start = Math.min(blockStart + 1, doc.content.size);
+  return { from: start, to: start };
+}
+
 interface RichTextEditorProps {
   content: string;
   onUpdate: (content: string) => void;
@@ -26,6 +95,15 @@ interface RichTextEditorProps {
   enableGrammarCheck?: boolean;
   onGrammarAnalysis?: (errors: AnalyzedError[], statistics: any) => void;
   currentErrors?: AnalyzedError[]; // Current errors from parent (after user actions)
+  collaboration?: CollaborationSession | null; // Live co-editing session, if any
+  isCollaborationSynced?: boolean; // Whether the shared document has caught up with peers
+  comments?: HighlightedComment[]; // Open comment threads to highlight
+  activeCommentId?: string | null;
+  onCommentClick?: (commentId: string) => void;
+  onCommentAnchorsChange?: (anchors: Record<string, TextAnchor>) => void;
+  onAddComment?: (anchor: TextAnchor) => void; // Enables the toolbar comment button
+  suggestingAs?: TrackedChangeAuthor | null; // Record edits as suggestions by this author
+  scrollTarget?: EditorScrollTarget | null; // Select and scroll to this text once loaded
 }
 
 export const RichTextEditor: React.FC<RichTextEditorProps> = ({
@@ -36,13 +114,34 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   editable = true,
   enableGrammarCheck = false,
   onGrammarAnalysis,
-  currentErrors = []
+  currentErrors = [],
+  collaboration = null,
+  isCollaborationSynced = false,
+  comments = NO_COMMENTS,
+  activeCommentId = null,
+  onCommentClick,
+  onCommentAnchorsChange,
+  onAddComment,
+  suggestingAs = null,
+  scrollTarget = null
 }) => {
   // Track when we're applying highlights to prevent triggering grammar analysis
   const isApplyingHighlightsRef = React.useRef(false);
   // Track when user is actively typing to prevent cursor interference
   const isUserTypingRef = React.useRef(false);
   const typingTimeoutRef = React.useRef<NodeJS.Timeout>();
+  // Last HTML reported to the parent, so echoes of our own edits aren't re-applied
+  const lastEmittedHtmlRef = React.useRef<string | null>(null);
+  const previousContentRef = React.useRef<string | null>(null);
+  // Latest content and update callback, read when seeding a shared document
+  const latestRef = React.useRef({ content, onUpdate });
+  latestRef.current = { content, onUpdate };
+  // Latest comment props, read by the editor extension and after content resets
+  const commentsRef = React.useRef({ comments, activeCommentId, onCommentClick, onCommentAnchorsChange });
+  commentsRef.current = { comments, activeCommentId, onCommentClick, onCommentAnchorsChange };
+
+  // Grammar marks are document changes and would be broadcast to other editors
+  const isGrammarCheckActive = enableGrammarCheck && !collaboration;
 
   const editor = useEditor({
     extensions: [
@@ -54,7 +153,8 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         // - Blockquote
         // - History (undo/redo)
         // - HardBreak, HorizontalRule
-        history: {
+        // Yjs keeps its own undo history when collaborating
+        history: collaboration ? false : {
           depth: 50,
         },
       }),
@@ -65,8 +165,30 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       }),
       // Add grammar highlighting extension
       GrammarHighlight,
+      // DM-only blocks, hidden from players
+      DmSecret,
+      // Inline comment highlights (decorations, never saved)
+      CommentHighlight.configure({
+        onCommentClick: (commentId) => commentsRef.current.onCommentClick?.(commentId),
+        onAnchorsChange: (anchors) => commentsRef.current.onCommentAnchorsChange?.(anchors),
+      }),
+      // Suggest mode: proposed insertions/deletions
+      TrackedInsertion,
+      TrackedDeletion,
+      TrackChanges,
+      ...(collaboration ? [
+        Collaboration.configure({
+          document: collaboration.doc,
+          field: COLLABORATION_FIELD,
+        }),
+        CollaborationCursor.configure({
+          provider: collaboration.provider,
+          user: collaboration.user,
+        }),
+      ] : []),
     ],
-    content,
+    // Shared content comes from the Yjs document when collaborating
+    content: collaboration ? null : content,
     editable,
     onUpdate: ({ editor }) => {
       const html = editor.getHTML();
@@ -82,6 +204,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       
       // Only trigger onUpdate if we're not currently applying highlights
       if (!isApplyingHighlightsRef.current) {
+        lastEmittedHtmlRef.current = html;
         onUpdate(html);
       } else {
         console.log('🔧 Skipping onUpdate - applying highlights');
@@ -113,7 +236,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         }
       }
     },
-  });
+  }, [collaboration]);
 
   // Cleanup on unmount
   React.useEffect(() => {
@@ -127,17 +250,77 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     };
   }, [editor]);
 
+  // Keep editability in sync (e.g. when the user's role on a shared document is known)
+  React.useEffect(() => {
+    if (editor && editor.isEditable !== editable) {
+      editor.setEditable(editable);
+    }
+  }, [editor, editable]);
+
+  // Start or stop recording edits as suggestions
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setTrackChanges(suggestingAs);
+  }, [editor, suggestingAs]);
+
+  // Seed an empty shared document with the saved content once synced with
+  // peers; only on joining - later content changes are handled below
+  React.useEffect(() => {
+    if (!editor || !collaboration || !isCollaborationSynced) return;
+    let cancelled = false;
+
+    const adoptSharedContent = () => {
+      lastEmittedHtmlRef.current = editor.getHTML();
+      latestRef.current.onUpdate(lastEmittedHtmlRef.current);
+    };
+
+    if (isSharedDocumentEmpty(collaboration) && latestRef.current.content) {
+      // Only one of the editors joining an empty room seeds it; the others
+      // receive the seeded content from it
+      claimSharedDocumentSeed(collaboration).then(claimed => {
+        if (cancelled || editor.isDestroyed) return;
+        if (claimed) {
+          editor.commands.setContent(latestRef.current.content, false);
+        } else if (!isSharedDocumentEmpty(collaboration)) {
+          // Still empty means the seed is on its way and arrives as an update
+          adoptSharedContent();
+        }
+      });
+    } else {
+      adoptSharedContent();
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editor, collaboration, isCollaborationSynced]);
+
   // Update content when prop changes
   React.useEffect(() => {
+    const previousContent = previousContentRef.current;
+    previousContentRef.current = content;
+
+    if (collaboration) {
+      // Only apply deliberate replacements (e.g. accepted AI suggestions) - echoes
+      // of our own edits may be stale and would overwrite peers' changes
+      if (
+        !isCollaborationSynced ||
+        content === previousContent ||
+        content === lastEmittedHtmlRef.current
+      ) return;
+    }
+
     if (editor && content !== editor.getHTML()) {
       isApplyingHighlightsRef.current = true;
       editor.commands.setContent(content, false);
+      // Replacing the document drops highlights; re-resolve them against the new text
+      editor.commands.setCommentHighlights(commentsRef.current.comments, commentsRef.current.activeCommentId);
       // Reset the flag after a brief delay to allow the editor to settle
       setTimeout(() => {
         isApplyingHighlightsRef.current = false;
       }, 10);
     }
-  }, [editor, content]);
+  }, [editor, content, collaboration, isCollaborationSynced]);
 
   // Apply grammar highlights when errors change
   React.useEffect(() => {
@@ -150,7 +333,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     }
 
     console.log('🔧 HIGHLIGHT EFFECT TRIGGERED:', {
-      enableGrammarCheck,
+      enableGrammarCheck: isGrammarCheckActive,
       currentErrorsLength: currentErrors.length,
       currentErrorIds: currentErrors.map(e => e.id),
       editorExists: !!editor
@@ -169,14 +352,14 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     // Async function to handle highlight operations
     const applyHighlights = async () => {
       try {
-        if (enableGrammarCheck && currentErrors.length > 0) {
+        if (isGrammarCheckActive && currentErrors.length > 0) {
           console.log('🔧 Applying highlights:', currentErrors.length, 'current errors');
           const plainText = editor.getText();
           console.log('🔧 Current editor text:', plainText);
           await applyGrammarHighlights(editor, currentErrors, plainText);
         } else {
           // Clear highlights when disabled or no errors
-          console.log('🔧 Clearing highlights -', !enableGrammarCheck ? 'grammar disabled' : 'no current errors');
+          console.log('🔧 Clearing highlights -', !isGrammarCheckActive ? 'grammar disabled' : 'no current errors');
           await clearGrammarHighlights(editor);
         }
       } catch (err) {
@@ -192,11 +375,34 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
     // Execute the async highlight operations
     applyHighlights();
-  }, [editor, currentErrors, enableGrammarCheck]);
+  }, [editor, currentErrors, isGrammarCheckActive]);
+
+  // Highlight comment threads when they change
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setCommentHighlights(comments, activeCommentId);
+  }, [editor, comments, activeCommentId]);
+
+  // Jump to the requested text
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed || !scrollTarget) return;
+    const range = resolveScrollTarget(editor, scrollTarget);
+    if (range) {
+      editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+    }
+  }, [editor, scrollTarget]);
+
+  const handleAddComment = React.useCallback(() => {
+    if (!editor || !onAddComment) return;
+    const anchor = getSelectionAnchor(editor);
+    if (anchor) {
+      onAddComment(anchor);
+    }
+  }, [editor, onAddComment]);
 
   return (
     <div className={cn('border border-slate-200 rounded-lg overflow-hidden bg-white', className)}>
-      <EditorToolbar editor={editor} />
+      <EditorToolbar editor={editor} {...(onAddComment && { onAddComment: handleAddComment })} />
       <div className="relative">
         <EditorContent 
           editor={editor}
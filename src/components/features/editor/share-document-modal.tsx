@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Share document modal
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Lets the owner invite people by email as viewers, commenters or editors,
+ * change their roles and revoke access.
+ */
+
+import React, { useState } from 'react';
+import { X, Share2, UserPlus, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/use-auth';
+import type { Document, DocumentRole } from '@/types/document';
+import * as sharingService from '@/services/sharing';
+
+interface ShareDocumentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: Document;
+  onDocumentChange: (document: Document) => void;
+}
+
+const ROLE_OPTIONS: { value: DocumentRole; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Can read' },
+  { value: 'commenter', label: 'Commenter', description: 'Can read and comment' },
+  { value: 'editor', label: 'Editor', description: 'Can edit content' }
+];
+
+export const ShareDocumentModal: React.FC<ShareDocumentModalProps> = ({
+  isOpen,
+  onClose,
+  document,
+  onDocumentChange
+}) => {
+  const { user } = useAuth();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<DocumentRole>('viewer');
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const shares = sharingService.getDocumentShares(document);
+  const isOwner = user?.id === document.userId;
+
+  /**
+   * Run a sharing change and report the updated document
+   */
+  const runShareChange = async (targetEmail: string, change: () => Promise<Document>) => {
+    setPendingEmail(targetEmail);
+    setError(null);
+    try {
+      onDocumentChange(await change());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update sharing');
+    } finally {
+      setPendingEmail(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!sharingService.isValidEmail(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+    if (user.email && sharingService.normalizeEmail(email) === sharingService.normalizeEmail(user.email)) {
+      setError('You already own this document');
+      return;
+    }
+
+    await runShareChange(email, () =>
+      sharingService.shareDocument(document.id, user.id, email, role)
+    );
+    setEmail('');
+  };
+
+  const handleRoleChange = (shareEmail: string, newRole: DocumentRole) => {
+    if (!user) return;
+    runShareChange(shareEmail, () =>
+      sharingService.shareDocument(document.id, user.id, shareEmail, newRole)
+    );
+  };
+
+  const handleRemove = (shareEmail: string) => {
+    if (!user) return;
+    runShareChange(shareEmail, () =>
+      sharingService.removeDocumentShare(document.id, user.id, shareEmail)
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <Share2 className="w-5 h-5 text-slate-700" />
+            <h2 className="text-lg font-semibold text-slate-900">Share "{document.title}"</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {user?.isGuest ? (
+            <p className="text-sm text-slate-600">
+              Sign in to share documents with your co-DMs and players.
+            </p>
+          ) : !isOwner ? (
+            <p className="text-sm text-slate-600">
+              Only the document owner can change who has access.
+            </p>
+          ) : (
+            <form onSubmit={handleInvite} className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Invite by email"
+                className="flex-1"
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as DocumentRole)}
+                className="px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {ROLE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <Button type="submit" disabled={!email.trim() || pendingEmail !== null}>
+                <UserPlus className="w-4 h-4" />
+              </Button>
+            </form>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {/* People with access */}
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-3">People with access</h3>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
+                <span className="text-sm text-slate-900">
+                  {isOwner ? `${user?.email || 'You'} (you)` : 'Owner'}
+                </span>
+                <span className="text-xs text-slate-600">Owner</span>
+              </div>
+
+              {shares.length === 0 && (
+                <p className="text-sm text-slate-600">Not shared with anyone yet.</p>
+              )}
+
+              {shares.map(share => (
+                <div key={share.email} className="flex items-center justify-between gap-3 p-3 border border-slate-200 rounded-lg">
+                  <span className="text-sm text-slate-900 truncate">{share.email}</span>
+                  <div className="flex items-center gap-2">
+                    {pendingEmail === share.email && (
+                      <Loader2 className="w-4 h-4 animate-spin text-slate-500" />
+                    )}
+                    {isOwner ? (
+                      <>
+                        <select
+                          value={share.role}
+                          onChange={(e) => handleRoleChange(share.email, e.target.value as DocumentRole)}
+                          disabled={pendingEmail !== null}
+                          className="px-2 py-1 border border-slate-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {ROLE_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleRemove(share.email)}
+                          disabled={pendingEmail !== null}
+                          className="p-1 text-slate-500 hover:text-red-600 transition-colors"
+                          title="Remove access"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <span className="text-xs text-slate-600 capitalize">{share.role}</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="text-xs text-slate-500 space-y-1">
+            {ROLE_OPTIONS.map(option => (
+              <p key={option.value}><strong>{option.label}:</strong> {option.description}</p>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+ShareDocumentModal.displayName = 'ShareDocumentModal';
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Offline sync conflict dialog
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Shown when edits made offline reach a document whose server copy changed
+ * in the meantime. The user keeps their copy, keeps the server copy, or
+ * merges both paragraph by paragraph.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { GitMerge, Columns, AlignLeft, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { mergeHTMLBlocks } from '@/lib/html-diff';
+import { DocumentDiffViewer, type DiffViewMode } from './document-diff-viewer';
+import type { ConflictResolution, SyncConflict } from '@/services/offline/sync-queue';
+
+interface SyncConflictDialogProps {
+  conflict: SyncConflict;
+  documentTitle: string;
+  onResolve: (resolution: ConflictResolution) => Promise<void>;
+}
+
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+  conflict,
+  documentTitle,
+  onResolve
+}) => {
+  const [mode, setMode] = useState<DiffViewMode>('side-by-side');
+  const [pendingResolution, setPendingResolution] = useState<ConflictResolution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const merge = useMemo(
+    () => mergeHTMLBlocks(conflict.baseContent, conflict.localContent, conflict.serverContent),
+    [conflict]
+  );
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setPendingResolution(resolution);
+    setError(null);
+    try {
+      await onResolve(resolution);
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      setError('Failed to save your choice. Check your connection and try again.');
+    } finally {
+      setPendingResolution(null);
+    }
+  };
+
+  const renderAction = (resolution: ConflictResolution, label: string, variant: 'default' | 'outline') => (
+    <Button
+      variant={variant}
+      size="sm"
+      disabled={pendingResolution !== null}
+      onClick={() => handleResolve(resolution)}
+    >
+      {pendingResolution === resolution && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full mx-4 h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <GitMerge className="w-5 h-5 text-slate-700" />
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">Sync conflict</h2>
+              <p className="text-sm text-slate-600">
+                &ldquo;{documentTitle}&rdquo; was changed elsewhere while you were offline.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => setMode(mode === 'side-by-side' ? 'inline' : 'side-by-side')}
+            className="p-2 rounded-lg hover:bg-slate-100 text-slate-600"
+            title={mode === 'side-by-side' ? 'Show inline' : 'Show side by side'}
+          >
+            {mode === 'side-by-side' ? <AlignLeft className="w-4 h-4" /> : <Columns className="w-4 h-4" />}
+          </button>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <DocumentDiffViewer
+            oldHtml={conflict.serverContent}
+            newHtml={conflict.localContent}
+            oldLabel="Saved elsewhere"
+            newLabel="Your offline edits"
+            mode={mode}
+            hideUnchanged
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center justify-between gap-3 p-6 border-t border-slate-200">
+          <p className="text-sm text-slate-600">
+            {merge.conflictCount === 0
+              ? 'The changes don’t overlap and can be merged cleanly.'
+              : `${merge.conflictCount} ${merge.conflictCount === 1 ? 'passage was' : 'passages were'} edited on both sides; merging keeps both versions.`}
+          </p>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex items-center gap-2">
+            {renderAction('server', 'Keep saved version', 'outline')}
+            {renderAction('local', 'Keep my version', 'outline')}
+            {renderAction('merge', 'Merge both', 'default')}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+SyncConflictDialog.displayName = 'SyncConflictDialog';
@@ -22,13 +22,16 @@ import {
   Type,
   AlignLeft,
   AlignCenter,
-  AlignRight
+  AlignRight,
+  EyeOff,
+  MessageSquarePlus
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ToolbarProps {
   editor: Editor | null;
   className?: string;
+  onAddComment?: () => void; // Comment on the selected text
 }
 
 interface ToolbarButtonProps {
@@ -67,7 +70,7 @@ const ToolbarSeparator: React.FC = () => (
   <div className="w-px h-6 bg-slate-200 mx-1" />
 );
 
-export const EditorToolbar: React.FC<ToolbarProps> = ({ editor, className }) => {
+export const EditorToolbar: React.FC<ToolbarProps> = ({ editor, className, onAddComment }) => {
   if (!editor) {
     return null;
   }
@@ -181,6 +184,14 @@ export const EditorToolbar: React.FC<ToolbarProps> = ({ editor, className }) =>
         <Quote className="w-4 h-4" />
       </ToolbarButton>
 
+      <ToolbarButton
+        onClick={() => editor.chain().focus().toggleDmSecret().run()}
+        isActive={editor.isActive('dmSecret')}
+        title="DM Secret - hidden from players (Ctrl+Alt+D)"
+      >
+        <EyeOff className="w-4 h-4" />
+      </ToolbarButton>
+
       <ToolbarSeparator />
 
       {/* Alignment */}
@@ -210,6 +221,21 @@ export const EditorToolbar: React.FC<ToolbarProps> = ({ editor, className }) =>
 
       <ToolbarSeparator />
 
+      {/* Review */}
+      {onAddComment && (
+        <>
+          <ToolbarButton
+            onClick={onAddComment}
+            disabled={editor.state.selection.empty}
+            title="Comment on selection"
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+          </ToolbarButton>
+
+          <ToolbarSeparator />
+        </>
+      )}
+
       {/* History */}
       <ToolbarButton
         onClick={() => editor.chain().focus().undo().run()}
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Custom TipTap extension for suggest (track changes) mode
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * While suggesting, typed text is marked as a tracked insertion and deleted
+ * text is kept, marked as a tracked deletion, until the owner accepts or
+ * rejects it. Marks serialize to the `<ins>` / `<del>` elements understood by
+ * the tracked-changes helpers, so proposals save and sync like any content.
+ */
+
+import { Extension, Mark, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Mapping, ReplaceStep } from '@tiptap/pm/transform';
+import { Fragment, Slice, type Mark as ProseMirrorMark, type MarkType, type Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ySyncPluginKey } from 'y-prosemirror';
+import {
+  TRACKED_CHANGE_CLASSES,
+  TRACKED_CHANGE_DATA_ATTRIBUTES,
+  createTrackedChangeAttributes,
+  type TrackedChangeAttributes,
+  type TrackedChangeAuthor,
+  type TrackedChangeType
+} from '@/lib/tracked-changes';
+
+export interface TrackChangesStorage {
+  author: TrackedChangeAuthor | null; // Suggesting as this author; null when off
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    trackChanges: {
+      /**
+       * Start suggesting as an author, or stop with null
+       */
+      setTrackChanges: (author: TrackedChangeAuthor | null) => ReturnType;
+    };
+  }
+}
+
+export const trackChangesKey = new PluginKey('trackChanges');
+
+/**
+ * Mark attributes shared by insertions and deletions
+ */
+function trackedChangeAttributes() {
+  return Object.fromEntries(
+    Object.entries(TRACKED_CHANGE_DATA_ATTRIBUTES).map(([key, attribute]) => [key, {
+      default: '',
+      parseHTML: (element: HTMLElement) => element.getAttribute(attribute) || '',
+      renderHTML: (attributes: Record<string, string>) => ({ [attribute]: attributes[key] }),
+    }])
+  );
+}
+
+/**
+ * Build a tracked change mark
+ */
+function createTrackedChangeMark(type: TrackedChangeType, tag: 'ins' | 'del') {
+  return Mark.create({
+    name: type === 'insertion' ? 'trackedInsertion' : 'trackedDeletion',
+
+    // Typing next to a change starts a new run rather than extending it
+    inclusive: false,
+
+    addAttributes() {
+      return trackedChangeAttributes();
+    },
+
+    parseHTML() {
+      return [
+        {
+          tag: `${tag}[${TRACKED_CHANGE_DATA_ATTRIBUTES.changeId}]`,
+          // Ahead of Strike, which also claims <del>
+          priority: 60,
+        },
+      ];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+      return [tag, mergeAttributes(HTMLAttributes, { class: TRACKED_CHANGE_CLASSES[type] }), 0];
+    },
+  });
+}
+
+export const TrackedInsertion = createTrackedChangeMark('insertion', 'ins');
+export const TrackedDeletion = createTrackedChangeMark('deletion', 'del');
+
+/**
+ * Whether a transaction should pass through untracked
+ */
+function isUntracked(tr: Transaction): boolean {
+  return Boolean(
+    tr.getMeta(trackChangesKey) ||
+    tr.getMeta('preventUpdate') || // setContent from props (saved or resolved content)
+    tr.getMeta('history$') || // Undo/redo of already tracked edits
+    tr.getMeta(ySyncPluginKey)?.isChangeOrigin // Co-editors track their own edits
+  );
+}
+
+/**
+ * Attributes of an adjacent change by the same author, so a run of typing or
+ * backspacing stays one change
+ */
+function adjacentAttributes(
+  nodes: Array<ProseMirrorNode | null | undefined>,
+  markType: MarkType,
+  authorId: string
+): TrackedChangeAttributes | null {
+  for (const node of nodes) {
+    const mark = node?.marks.find(m => m.type === markType && m.attrs.authorId === authorId);
+    if (mark) return mark.attrs as TrackedChangeAttributes;
+  }
+  return null;
+}
+
+/**
+ * Turn deleted content into content to put back as a tracked deletion.
+ * Pending insertions are dropped - deleting a proposal just withdraws it.
+ */
+function markDeletedContent(fragment: Fragment, deletion: ProseMirrorMark, insertionType: MarkType): Fragment {
+  const nodes: ProseMirrorNode[] = [];
+  fragment.forEach(node => {
+    if (node.isText) {
+      if (insertionType.isInSet(node.marks)) return;
+      nodes.push(deletion.type.isInSet(node.marks) ? node : node.mark(deletion.addToSet(node.marks)));
+    } else {
+      nodes.push(node.copy(markDeletedContent(node.content, deletion, insertionType)));
+    }
+  });
+  return Fragment.from(nodes);
+}
+
+/**
+ * Record the edits of a batch of transactions as tracked changes
+ */
+function trackTransactions(
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  author: TrackedChangeAuthor
+): Transaction | null {
+  const { trackedInsertion: insertionType, trackedDeletion: deletionType } = newState.schema.marks;
+  if (!insertionType || !deletionType) return null;
+
+  const insertions: Array<{ from: number; to: number }> = [];
+  const deletions: Array<{ pos: number; slice: Slice; isBackspace: boolean }> = [];
+  const { selection } = oldState;
+
+  transactions.forEach((transaction, index) => {
+    if (!transaction.docChanged || isUntracked(transaction)) return;
+
+    transaction.steps.forEach((step, stepIndex) => {
+      if (!(step instanceof ReplaceStep)) return;
+
+      // Positions after this step, mapped to the final document
+      const toEnd = new Mapping(transaction.mapping.maps.slice(stepIndex + 1));
+      transactions.slice(index + 1).forEach(later => toEnd.appendMapping(later.mapping));
+
+      const { from, to, slice } = step;
+      if (slice.size > 0) {
+        const start = toEnd.map(from, 1);
+        const end = toEnd.map(from + slice.size, -1);
+        if (end > start) insertions.push({ from: start, to: end });
+      }
+      if (to > from) {
+        const deleted = transaction.docs[stepIndex]!.slice(from, to);
+        let hasText = false;
+        deleted.content.descendants(node => {
+          if (node.isText && !insertionType.isInSet(node.marks)) hasText = true;
+          return !hasText;
+        });
+        // Structure-only edits (e.g. joining paragraphs) pass through untracked
+        if (hasText) {
+          deletions.push({
+            pos: toEnd.map(from, -1),
+            slice: deleted,
+            // Deleted backwards from a collapsed cursor
+            isBackspace: index === 0 && stepIndex === 0 && selection.empty && selection.from === to
+          });
+        }
+      }
+    });
+  });
+
+  if (insertions.length === 0 && deletions.length === 0) return null;
+
+  const tr = newState.tr;
+  const attrs = createTrackedChangeAttributes(author);
+
+  // Marks first - they don't move positions
+  for (const { from, to } of insertions) {
+    const $from = newState.doc.resolve(from);
+    const insertion = insertionType.create(
+      adjacentAttributes([$from.nodeBefore], insertionType, author.id) ?? attrs
+    );
+    tr.removeMark(from, to, deletionType);
+    tr.addMark(from, to, insertion);
+  }
+
+  // Put deleted text back, last first so earlier positions stay valid
+  let cursor: number | null = null;
+
+  for (const { pos, slice, isBackspace } of [...deletions].sort((a, b) => b.pos - a.pos)) {
+    const $pos = newState.doc.resolve(pos);
+    const deletion = deletionType.create(
+      adjacentAttributes([$pos.nodeAfter, $pos.nodeBefore], deletionType, author.id) ?? attrs
+    );
+    tr.replace(pos, pos, new Slice(markDeletedContent(slice.content, deletion, insertionType), slice.openStart, slice.openEnd));
+
+    // Backspace leaves the cursor before the struck text so it can keep going
+    if (isBackspace && newState.selection.empty && newState.selection.from === pos) {
+      cursor = pos;
+    }
+  }
+
+  if (cursor !== null) {
+    tr.setSelection(TextSelection.create(tr.doc, cursor));
+  }
+
+  return tr.setMeta(trackChangesKey, true);
+}
+
+/**
+ * TipTap extension that records edits as suggestions while enabled.
+ * Requires the TrackedInsertion and TrackedDeletion marks.
+ */
+export const TrackChanges = Extension.create<Record<string, never>, TrackChangesStorage>({
+  name: 'trackChanges',
+
+  addStorage() {
+    return {
+      author: null,
+    };
+  },
+
+  addCommands() {
+    return {
+      setTrackChanges: (author) => () => {
+        this.storage.author = author;
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+
+    return [
+      new Plugin({
+        key: trackChangesKey,
+
+        appendTransaction: (transactions, oldState, newState) => {
+          if (!storage.author) return null;
+          return trackTransactions(transactions, oldState, newState, storage.author);
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Suggested changes sidebar
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Lists pending tracked insertions/deletions for review. The document owner
+ * can accept or reject each proposal, or all of them at once.
+ */
+
+import React from 'react';
+import { FileDiff, X, Check, CheckCheck, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { TrackedChange } from '@/lib/tracked-changes';
+
+interface TrackedChangesPanelProps {
+  changes: TrackedChange[];
+  canResolve: boolean; // Only the owner accepts or rejects
+  onAccept: (changeIds?: string[]) => void; // All changes when omitted
+  onReject: (changeIds?: string[]) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Format a change timestamp
+ */
+const formatChangeTime = (createdAt: string): string => {
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime())) return '';
+
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  if (diffMinutes < 60 * 24) return `${Math.floor(diffMinutes / 60)}h ago`;
+  return date.toLocaleDateString();
+};
+
+/**
+ * Suggested changes sidebar component
+ *
+ * @component
+ */
+export const TrackedChangesPanel: React.FC<TrackedChangesPanelProps> = ({
+  changes,
+  canResolve,
+  onAccept,
+  onReject,
+  onClose,
+  className
+}) => {
+  return (
+    <div className={cn('flex flex-col bg-white', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+        <div className="flex items-center gap-2">
+          <FileDiff className="w-4 h-4 text-slate-700" />
+          <h2 className="text-sm font-semibold text-slate-900">Suggested Changes</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          title="Close suggested changes"
+        >
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {/* Bulk actions */}
+      {canResolve && changes.length > 0 && (
+        <div className="flex items-center gap-2 m-3">
+          <Button size="sm" className="flex-1" onClick={() => onAccept()}>
+            <CheckCheck className="w-4 h-4 mr-1" />
+            Accept all
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => onReject()}>
+            <Ban className="w-4 h-4 mr-1" />
+            Reject all
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-3 py-3 space-y-3">
+        {!canResolve && changes.length > 0 && (
+          <p className="text-xs text-slate-500">Only the document owner can accept or reject suggestions.</p>
+        )}
+
+        {changes.length === 0 ? (
+          <p className="py-8 text-center text-sm text-slate-600">
+            No pending suggestions. Turn on suggest mode to propose edits for review.
+          </p>
+        ) : (
+          changes.map(change => (
+            <div key={change.changeId} className="p-3 border border-slate-200 rounded-lg space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-semibold text-slate-900 truncate">{change.authorName}</span>
+                <span className="text-xs text-slate-500 shrink-0">{formatChangeTime(change.createdAt)}</span>
+              </div>
+
+              {change.deletedText && (
+                <p className="text-sm text-red-700 line-through decoration-red-500 break-words line-clamp-3">
+                  {change.deletedText}
+                </p>
+              )}
+              {change.insertedText && (
+                <p className="text-sm text-green-700 underline decoration-green-500 break-words line-clamp-3">
+                  {change.insertedText}
+                </p>
+              )}
+
+              {canResolve && (
+                <div className="flex items-center justify-end gap-1">
+                  <button
+                    onClick={() => onAccept([change.changeId])}
+                    className="p-1.5 rounded-md text-slate-600 hover:bg-green-50 hover:text-green-700 transition-colors"
+                    title="Accept"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onReject([change.changeId])}
+                    className="p-1.5 rounded-md text-slate-600 hover:bg-red-50 hover:text-red-600 transition-colors"
+                    title="Reject"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+TrackedChangesPanel.displayName = 'TrackedChangesPanel';
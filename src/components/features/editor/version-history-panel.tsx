@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Version history panel
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Modal for browsing earlier snapshots of a document, comparing them with the
+ * current content and restoring them.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { X, History, RotateCcw, Loader2, Eye, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { cn } from '@/lib/utils';
+import { sanitizeHTML } from '@/lib/sanitize-html';
+import { DocumentDiffViewer } from './document-diff-viewer';
+import type { Document, DocumentVersion, DocumentVersionReason } from '@/types/document';
+import * as versionService from '@/services/document-versions';
+
+interface VersionHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  document: Document;
+  currentContent: string;
+  onRestore: (versionId: string) => Promise<unknown>;
+}
+
+/**
+ * Labels for snapshot reasons
+ */
+const reasonLabels: Record<DocumentVersionReason, string> = {
+  manual: 'Saved',
+  autosave: 'Auto-saved',
+  checkpoint: 'Before bulk change',
+  restore: 'Before restore'
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  isOpen,
+  onClose,
+  document,
+  currentContent,
+  onRestore
+}) => {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'diff' | 'preview'>('diff');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load snapshots whenever the panel opens
+   */
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const loadVersions = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const result = await versionService.getDocumentVersions(document.id, user.id);
+        setVersions(result);
+        setSelectedVersionId(result[0]?.id ?? null);
+      } catch (err) {
+        console.error('Error loading versions:', err);
+        setError('Failed to load version history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [isOpen, user, document.id]);
+
+  const selectedVersion = versions.find(v => v.id === selectedVersionId) || null;
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+
+    const confirmRestore = window.confirm(
+      `Restore the version from ${selectedVersion.createdAt.toLocaleString()}? Your current content will be kept in the history.`
+    );
+    if (!confirmRestore) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestore(selectedVersion.id);
+      onClose();
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      setError('Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-slate-700" />
+            <h2 className="text-lg font-semibold text-slate-900">Version History</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 flex min-h-0">
+          {/* Version list */}
+          <div className="w-72 border-r border-slate-200 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="p-6 text-sm text-slate-600">
+                No versions yet. Snapshots are recorded when you save.
+              </p>
+            ) : (
+              <ul className="py-2">
+                {versions.map(version => (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => setSelectedVersionId(version.id)}
+                      className={cn(
+                        'w-full text-left px-4 py-3 transition-colors',
+                        version.id === selectedVersionId
+                          ? 'bg-blue-50 border-l-2 border-blue-500'
+                          : 'hover:bg-slate-50 border-l-2 border-transparent'
+                      )}
+                    >
+                      <div className="text-sm font-medium text-slate-900">
+                        {version.createdAt.toLocaleString()}
+                      </div>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-slate-600">
+                        <span className="px-2 py-0.5 bg-slate-100 rounded-full">
+                          {reasonLabels[version.reason] || version.reason}
+                        </span>
+                        <span>{version.wordCount} words</span>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Selected version */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selectedVersion ? (
+              <>
+                <div className="flex items-center justify-between px-6 py-3 border-b border-slate-200">
+                  <div className="flex items-center gap-1 p-1 bg-slate-100 rounded-lg">
+                    <button
+                      onClick={() => setViewMode('diff')}
+                      className={cn(
+                        'flex items-center gap-1 px-3 py-1 rounded-md text-sm transition-colors',
+                        viewMode === 'diff' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'
+                      )}
+                    >
+                      <GitCompare className="w-4 h-4" />
+                      Changes
+                    </button>
+                    <button
+                      onClick={() => setViewMode('preview')}
+                      className={cn(
+                        'flex items-center gap-1 px-3 py-1 rounded-md text-sm transition-colors',
+                        viewMode === 'preview' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-600'
+                      )}
+                    >
+                      <Eye className="w-4 h-4" />
+                      Preview
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6">
+                  {viewMode === 'diff' ? (
+                    <DocumentDiffViewer
+                      oldHtml={selectedVersion.content}
+                      newHtml={currentContent}
+                      oldLabel="This version"
+                      newLabel="Current"
+                      mode="inline"
+                    />
+                  ) : (
+                    // Snapshots can be written by any editor, so never render them raw
+                    <div
+                      className="prose prose-sm max-w-none"
+                      dangerouslySetInnerHTML={{ __html: sanitizeHTML(selectedVersion.content) }}
+                    />
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-slate-600">
+                Select a version to compare
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-slate-200">
+          <div className="text-sm text-red-600">{error}</div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-600 hover:text-slate-900 transition-colors"
+            >
+              Close
+            </button>
+            <Button
+              onClick={handleRestore}
+              disabled={!selectedVersion || isRestoring}
+              className="flex items-center gap-2"
+            >
+              {isRestoring ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4" />
+              )}
+              Restore This Version
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+VersionHistoryPanel.displayName = 'VersionHistoryPanel';
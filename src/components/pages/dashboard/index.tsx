@@ -10,7 +10,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Plus, FileText, Clock, TrendingUp, Zap, Calendar, Target } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
-import { DocumentList, CreateDocumentModal } from '@/components/features/document-list';
+import { DocumentList, CreateDocumentModal, SharedDocuments } from '@/components/features/document-list';
 import type { RecentDocument } from '@/types/document';
 import * as documentService from '@/services/documents';
 
@@ -299,6 +299,9 @@ export const DashboardPage: React.FC = () => {
               </div>
             )}
 
+            {/* Documents shared by other DMs */}
+            <SharedDocuments />
+
             {/* Main Document List */}
             <DocumentList onCreateNew={handleCreateNew} />
           </div>
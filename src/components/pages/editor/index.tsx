@@ -6,15 +6,43 @@
  * Complete document editor with rich text editing, auto-save, and modern UI design.
  */
 
-import React, { useState } from 'react';
-import { ArrowLeft, Save, Download, Settings, Loader2, Sparkles, BarChart, Bot } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Save, Download, Settings, Loader2, Sparkles, BarChart, Bot, History, GitCompare, Users, MessageSquare, PenLine, FileDiff, CloudOff, Wifi, WifiOff } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
 import { useDocumentEditor } from '@/hooks/use-document-editor';
+import { useDocumentComments } from '@/hooks/use-document-comments';
 import { useGrammarAnalysis } from '@/hooks/use-grammar-analysis';
-import { RichTextEditor } from '@/components/features/editor/rich-text-editor';
+import { useCollaboration } from '@/hooks/use-collaboration';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { useTags } from '@/hooks/use-tags';
+import { stripDmSecrets } from '@/lib/dm-secrets';
+import {
+  getTrackedChanges,
+  acceptTrackedChanges,
+  rejectTrackedChanges,
+  withoutTrackedChanges,
+  createTrackedChangeAttributes,
+  proposeTextChangeToHTML,
+  markHTMLAsInsertion,
+  trackHTMLChanges,
+  type TrackedChangeAuthor
+} from '@/lib/tracked-changes';
+import { toPlayerHandout } from '@/services/export';
+import { isGuestUser, canCommentOnDocument } from '@/services/documents';
+import { RichTextEditor, type EditorScrollTarget } from '@/components/features/editor/rich-text-editor';
 import { StatsSidebar } from '@/components/features/editor/stats-sidebar';
 import { ExportModal } from '@/components/features/editor/export-modal';
 import { DocumentSettingsModal } from '@/components/features/editor/document-settings-modal';
 import { UnifiedAIAssistant } from '@/components/features/editor/unified-ai-assistant';
+import { VersionHistoryPanel } from '@/components/features/editor/version-history-panel';
+import { CompareDocumentsModal } from '@/components/features/editor/compare-documents-modal';
+import { CollaboratorList } from '@/components/features/editor/collaborator-list';
+import { ShareDocumentModal } from '@/components/features/editor/share-document-modal';
+import { CommentsPanel } from '@/components/features/editor/comments-panel';
+import { TrackedChangesPanel } from '@/components/features/editor/tracked-changes-panel';
+import { SyncConflictDialog } from '@/components/features/editor/sync-conflict-dialog';
+import type { ConflictResolution } from '@/services/offline/sync-queue';
 import type { AnalyzedError } from '@/services/ai/language-tool';
 import type { WritingSuggestion } from '@/services/ai/openai-service';
 import type { AIGrammarError } from '@/services/ai/grammar-ai-service';
@@ -27,6 +55,11 @@ interface AIGrammarSuggestion extends WritingSuggestion {
   originalError: AIGrammarError;
 }
 
+/**
+ * Author recorded on AI edits made in suggest mode
+ */
+const AI_AUTHOR: TrackedChangeAuthor = { id: 'ai-assistant', name: 'AI Assistant' };
+
 /**
  * Editor page component
  * 
@@ -48,6 +81,13 @@ export const EditorPage: React.FC = () => {
     updateContent,
     saveDocument,
     updateDocumentMetadata,
+    createCheckpoint,
+    restoreVersion,
+    applyDocumentChanges,
+    replaceDocument,
+    setPublicLink,
+    role,
+    canEdit,
     goBack
   } = useDocumentEditor();
 
@@ -57,6 +97,102 @@ export const EditorPage: React.FC = () => {
   const [showAISuggestions, setShowAISuggestions] = useState(true);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showDocumentSettings, setShowDocumentSettings] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [isCollaborating, setIsCollaborating] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
+  const [scrollTarget, setScrollTarget] = useState<EditorScrollTarget | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+
+  // Jump to a search match passed as ?block=&match=, then drop it from the URL
+  useEffect(() => {
+    const block = searchParams.get('block');
+    if (!isReady || block === null) return;
+    setScrollTarget({ blockIndex: Number(block), text: searchParams.get('match') ?? '' });
+    setSearchParams({}, { replace: true });
+  }, [isReady, searchParams, setSearchParams]);
+
+  // Viewers are players: they only ever load the player copy, which has no DM secrets or
+  // pending suggestions. Strip again here in case an older client wrote the copy.
+  const isPlayerView = role === 'viewer';
+  const visibleContent = isPlayerView ? stripDmSecrets(withoutTrackedChanges(content)) : content;
+
+  // Suggest mode: edits become tracked proposals the owner accepts or rejects
+  const suggestingAs = useMemo<TrackedChangeAuthor | null>(() => isSuggesting && user ? {
+    id: user.id,
+    name: user.displayName || user.email || 'Dungeon Master'
+  } : null, [isSuggesting, user]);
+  const trackedChanges = useMemo(() => getTrackedChanges(content), [content]);
+
+  // Offline edits: queued while disconnected, replayed on reconnect
+  const navigate = useNavigate();
+  const {
+    isOnline,
+    pendingCount,
+    conflicts,
+    createdIds,
+    resolveConflict,
+    refreshPendingCount,
+    setNetworkEnabled
+  } = useOfflineSync();
+  const activeConflict = conflicts[0];
+  const syncedDocumentId = document ? createdIds[document.id] : undefined;
+
+  useEffect(() => {
+    refreshPendingCount();
+  }, [lastSaved, refreshPendingCount]);
+
+  // A document created offline gets its real ID on first sync
+  useEffect(() => {
+    if (syncedDocumentId) {
+      navigate(`/editor/${syncedDocumentId}`, { replace: true });
+    }
+  }, [syncedDocumentId, navigate]);
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!activeConflict) return;
+
+    const resolvedDocument = await resolveConflict(activeConflict, resolution);
+    if (resolvedDocument && resolvedDocument.id === document?.id) {
+      replaceDocument(resolvedDocument);
+    }
+  };
+
+  // Live co-editing session
+  const {
+    session: collaborationSession,
+    status: collaborationStatus,
+    isSynced: isCollaborationSynced,
+    peers: collaborators
+  } = useCollaboration({ documentId: document?.id, enabled: isCollaborating });
+
+  // The user's tags, for autocomplete while the settings are open
+  const tags = useTags(showDocumentSettings);
+
+  // Inline comment threads (owners, commenters and editors)
+  const canComment = canCommentOnDocument(role);
+  const {
+    comments,
+    highlightedComments,
+    detachedCommentIds,
+    isLoading: isCommentsLoading,
+    error: commentsError,
+    activeCommentId,
+    setActiveCommentId,
+    pendingAnchor,
+    startComment,
+    cancelComment,
+    addComment,
+    reply: replyToComment,
+    setResolved: setCommentResolved,
+    deleteComment,
+    trackAnchors
+  } = useDocumentComments({ documentId: document?.id, enabled: canComment, canEdit });
+  const openCommentCount = comments.filter(comment => !comment.resolved).length;
 
   // Grammar analysis hook
   const {
@@ -85,6 +221,15 @@ export const EditorPage: React.FC = () => {
     // This handler is kept for potential future use or debugging
   };
 
+  /**
+   * Apply a plain-text change from the assistant - as a reviewable proposal while suggesting
+   */
+  const applyAITextChange = (html: string, start: number, end: number, replacement: string): string => {
+    return isSuggesting
+      ? proposeTextChangeToHTML(html, start, end, replacement, createTrackedChangeAttributes(AI_AUTHOR))
+      : applyTextChangeToHTML(html, start, end, replacement);
+  };
+
   const handleAcceptSuggestion = (errorId: string, suggestion: string) => {
     console.log('🔧 INDIVIDUAL APPLY - Starting application:', { errorId, suggestion, currentErrors: grammarErrors.length });
     
@@ -133,7 +278,7 @@ export const EditorPage: React.FC = () => {
       }
 
       // Apply change to HTML content while preserving formatting
-      const updatedHTML = applyTextChangeToHTML(
+      const updatedHTML = applyAITextChange(
         content,
         error.position.start,
         error.position.end,
@@ -221,7 +366,7 @@ export const EditorPage: React.FC = () => {
     dismissError(errorId);
   };
 
-  const handleAcceptAll = (type?: 'grammar' | 'spelling' | 'style') => {
+  const handleAcceptAll = async (type?: 'grammar' | 'spelling' | 'style') => {
     console.log('🔧 ACCEPT ALL - Starting batch application:', { 
       type, 
       totalErrors: grammarErrors.length,
@@ -306,7 +451,7 @@ export const EditorPage: React.FC = () => {
       }
 
       // Apply all changes using the batch function
-      const result = applyMultipleTextChangesToHTML(content, changes);
+      const result = applyMultipleTextChangesToHTML(content, changes, applyAITextChange);
       
       console.log('🔧 ACCEPT ALL - Batch replacement result:', {
         originalHTMLLength: content.length,
@@ -321,6 +466,12 @@ export const EditorPage: React.FC = () => {
         return;
       }
 
+      // Keep the pre-change content in the version history so it can be restored.
+      // Proposals can simply be rejected, so suggest mode doesn't need one.
+      if (!isSuggesting) {
+        await createCheckpoint();
+      }
+
       // Update content with all changes applied
       updateContent(result.updatedHTML);
 
@@ -362,7 +513,7 @@ export const EditorPage: React.FC = () => {
         const originalIndex = currentPlainText.indexOf(writingSuggestion.originalText);
         if (originalIndex !== -1) {
           // Apply the replacement in HTML context
-          const updatedHTML = applyTextChangeToHTML(
+          const updatedHTML = applyAITextChange(
             content,
             originalIndex,
             originalIndex + writingSuggestion.originalText.length,
@@ -377,7 +528,10 @@ export const EditorPage: React.FC = () => {
 
       // If we can't do a specific replacement, append the suggestion
       // This might not be ideal for all cases, but it's a fallback
-      const updatedContent = content + '\n\n' + writingSuggestion.suggestedText;
+      const appendedText = '\n\n' + writingSuggestion.suggestedText;
+      const updatedContent = content + (isSuggesting
+        ? markHTMLAsInsertion(appendedText, createTrackedChangeAttributes(AI_AUTHOR))
+        : appendedText);
       updateContent(updatedContent);
       console.log('🤖 AI suggestion appended to content');
 
@@ -434,6 +588,10 @@ export const EditorPage: React.FC = () => {
           .join('');
       }
 
+      if (isSuggesting) {
+        processedContent = markHTMLAsInsertion(processedContent, createTrackedChangeAttributes(AI_AUTHOR));
+      }
+
       // Insert at the end of current content
       const updatedContent = content ? content + '\n\n' + processedContent : processedContent;
       updateContent(updatedContent);
@@ -447,11 +605,24 @@ export const EditorPage: React.FC = () => {
     }
   };
 
-  const handleReplaceContent = (newContent: string) => {
+  const handleReplaceContent = async (newContent: string) => {
     console.log('🤖 Replacing entire content with corrected version');
+    if (isSuggesting) {
+      updateContent(trackHTMLChanges(content, newContent, createTrackedChangeAttributes(AI_AUTHOR)));
+      return;
+    }
+    await createCheckpoint();
     updateContent(newContent);
   };
 
+  /**
+   * Accept or reject suggested changes (all when no IDs are given)
+   */
+  const handleResolveChanges = (accept: boolean, changeIds?: string[]) => {
+    const resolve = accept ? acceptTrackedChanges : rejectTrackedChanges;
+    updateContent(resolve(content, changeIds));
+  };
+
   /**
    * Handle document settings save
    */
@@ -549,6 +720,17 @@ export const EditorPage: React.FC = () => {
                 <h1 className="text-xl font-bold text-slate-900 truncate max-w-[300px]" title={document.title}>
                   {document.title}
                 </h1>
+                {role && role !== 'owner' && (
+                  <div className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium text-slate-700 capitalize">
+                    {canEdit ? 'Shared · Editor' : `View only · ${role}`}
+                  </div>
+                )}
+                {isSuggesting && (
+                  <div className="flex items-center gap-1 px-2 py-1 bg-emerald-50 border border-emerald-200 rounded-lg text-xs font-medium text-emerald-700">
+                    <PenLine className="w-3 h-3" />
+                    Suggesting
+                  </div>
+                )}
                 {isGrammarEnabled && (
                   <div className="flex items-center gap-1 px-2 py-1 bg-blue-50 border border-blue-200 rounded-lg text-xs font-medium text-blue-700">
                     <Sparkles className="w-3 h-3" />
@@ -574,6 +756,28 @@ export const EditorPage: React.FC = () => {
                     Saving...
                   </span>
                 )}
+                {!user?.isGuest && (!isOnline || pendingCount > 0) && (
+                  <span
+                    className="text-slate-600 flex items-center gap-1"
+                    title="Changes are kept on this device and sync when you reconnect"
+                  >
+                    <CloudOff className="w-3 h-3" />
+                    {isOnline ? `${pendingCount} waiting to sync` : 'Offline · saved locally'}
+                  </span>
+                )}
+                {import.meta.env.DEV && !user?.isGuest && (
+                  <button
+                    onClick={() => setNetworkEnabled(!isOnline)}
+                    className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-900 transition-colors"
+                    title="Development only: take Firestore offline or back online"
+                  >
+                    {isOnline ? <WifiOff className="w-3 h-3" /> : <Wifi className="w-3 h-3" />}
+                    {isOnline ? 'Go offline' : 'Go online'}
+                  </button>
+                )}
+                {isCollaborating && (
+                  <CollaboratorList status={collaborationStatus} peers={collaborators} />
+                )}
               </div>
             </div>
           </div>
@@ -631,6 +835,88 @@ export const EditorPage: React.FC = () => {
                   showStats ? "scale-110" : "group-hover:scale-110"
                 )} />
               </button>
+
+              {canComment && (
+                <button
+                  onClick={() => setShowComments(!showComments)}
+                  className={cn(
+                    'relative p-2 rounded-lg transition-all duration-200 group',
+                    showComments
+                      ? 'bg-amber-500 text-white shadow-sm'
+                      : 'hover:bg-slate-200 text-slate-600'
+                  )}
+                  title={showComments ? 'Hide Comments' : 'Show Comments'}
+                >
+                  <MessageSquare className={cn(
+                    "w-4 h-4 transition-transform duration-200",
+                    showComments ? "scale-110" : "group-hover:scale-110"
+                  )} />
+                  {openCommentCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-amber-600 text-white text-[10px] leading-4 text-center">
+                      {openCommentCount}
+                    </span>
+                  )}
+                </button>
+              )}
+
+              {canEdit && (
+                <button
+                  onClick={() => setIsSuggesting(!isSuggesting)}
+                  className={cn(
+                    'p-2 rounded-lg transition-all duration-200 group',
+                    isSuggesting
+                      ? 'bg-emerald-600 text-white shadow-sm'
+                      : 'hover:bg-slate-200 text-slate-600'
+                  )}
+                  title={isSuggesting ? 'Stop Suggesting' : 'Suggest Changes (edits and AI changes need approval)'}
+                >
+                  <PenLine className={cn(
+                    "w-4 h-4 transition-transform duration-200",
+                    isSuggesting ? "scale-110" : "group-hover:scale-110"
+                  )} />
+                </button>
+              )}
+
+              {!isPlayerView && (
+                <button
+                  onClick={() => setShowChanges(!showChanges)}
+                  className={cn(
+                    'relative p-2 rounded-lg transition-all duration-200 group',
+                    showChanges
+                      ? 'bg-emerald-600 text-white shadow-sm'
+                      : 'hover:bg-slate-200 text-slate-600'
+                  )}
+                  title={showChanges ? 'Hide Suggested Changes' : 'Show Suggested Changes'}
+                >
+                  <FileDiff className={cn(
+                    "w-4 h-4 transition-transform duration-200",
+                    showChanges ? "scale-110" : "group-hover:scale-110"
+                  )} />
+                  {trackedChanges.length > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-emerald-700 text-white text-[10px] leading-4 text-center">
+                      {trackedChanges.length}
+                    </span>
+                  )}
+                </button>
+              )}
+
+              {!isPlayerView && (
+                <button
+                  onClick={() => setIsCollaborating(!isCollaborating)}
+                  className={cn(
+                    'p-2 rounded-lg transition-all duration-200 group',
+                    isCollaborating
+                      ? 'bg-green-600 text-white shadow-sm'
+                      : 'hover:bg-slate-200 text-slate-600'
+                  )}
+                  title={isCollaborating ? 'Stop Live Editing' : 'Start Live Editing'}
+                >
+                  <Users className={cn(
+                    "w-4 h-4 transition-transform duration-200",
+                    isCollaborating ? "scale-110" : "group-hover:scale-110"
+                  )} />
+                </button>
+              )}
             </div>
             
             {/* Secondary Actions */}
@@ -643,6 +929,27 @@ export const EditorPage: React.FC = () => {
                 <Download className="w-4 h-4" />
               </button>
               
+              {/* Snapshots include DM secrets, so players don't get history */}
+              {!isPlayerView && (
+                <>
+                  <button
+                    onClick={() => setShowVersionHistory(true)}
+                    className="p-2 rounded-lg hover:bg-slate-100 transition-all duration-200 hover:-translate-y-0.5 text-slate-600 hover:text-slate-900"
+                    title="Version History"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+
+                  <button
+                    onClick={() => setShowCompare(true)}
+                    className="p-2 rounded-lg hover:bg-slate-100 transition-all duration-200 hover:-translate-y-0.5 text-slate-600 hover:text-slate-900"
+                    title="Compare"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+
               <button
                 onClick={() => setShowDocumentSettings(true)}
                 className="p-2 rounded-lg hover:bg-slate-100 transition-all duration-200 hover:-translate-y-0.5 text-slate-600 hover:text-slate-900"
@@ -684,7 +991,7 @@ export const EditorPage: React.FC = () => {
           <div className="h-full p-8">
             <div className="h-full bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
               <RichTextEditor
-                content={content}
+                content={visibleContent}
                 onUpdate={(newContent) => {
                   updateContent(newContent);
                   // Trigger grammar analysis on content change
@@ -697,11 +1004,67 @@ export const EditorPage: React.FC = () => {
                 enableGrammarCheck={isGrammarEnabled}
                 onGrammarAnalysis={handleGrammarAnalysis}
                 currentErrors={grammarErrors}
+                editable={canEdit}
+                collaboration={collaborationSession}
+                isCollaborationSynced={isCollaborationSynced}
+                comments={highlightedComments}
+                activeCommentId={activeCommentId}
+                scrollTarget={scrollTarget}
+                onCommentClick={(commentId) => {
+                  setActiveCommentId(commentId);
+                  setShowComments(true);
+                }}
+                onCommentAnchorsChange={trackAnchors}
+                suggestingAs={suggestingAs}
+                {...(canComment && {
+                  onAddComment: (anchor) => {
+                    startComment(anchor);
+                    setShowComments(true);
+                  }
+                })}
               />
             </div>
           </div>
         </main>
 
+        {/* Comments sidebar */}
+        {canComment && showComments && (
+          <div className="w-80 shrink-0 border-l border-slate-200 shadow-sm overflow-hidden animate-slide-in-right">
+            <CommentsPanel
+              comments={comments}
+              detachedCommentIds={detachedCommentIds}
+              isLoading={isCommentsLoading}
+              error={commentsError}
+              activeCommentId={activeCommentId}
+              onSelectComment={setActiveCommentId}
+              pendingAnchor={pendingAnchor}
+              onSubmitComment={addComment}
+              onCancelComment={cancelComment}
+              onReply={replyToComment}
+              onResolve={setCommentResolved}
+              onDelete={deleteComment}
+              currentUserId={user?.id}
+              isDocumentOwner={role === 'owner'}
+              onClose={() => setShowComments(false)}
+              className="h-full"
+            />
+          </div>
+        )}
+
+        {/* Suggested changes sidebar */}
+        {!isPlayerView && showChanges && (
+          <div className="w-80 shrink-0 border-l border-slate-200 shadow-sm overflow-hidden animate-slide-in-right">
+            <TrackedChangesPanel
+              changes={trackedChanges}
+              canResolve={role === 'owner'}
+              onAccept={(changeIds) => handleResolveChanges(true, changeIds)}
+              onReject={(changeIds) => handleResolveChanges(false, changeIds)}
+              onClose={() => setShowChanges(false)}
+              className="h-full"
+            />
+          </div>
+        )}
+
         {/* Gap between Editor and AI Assistant (5% width) */}
         {showAISuggestions && <div className="w-[5%]" />}
 
@@ -709,7 +1072,7 @@ export const EditorPage: React.FC = () => {
         {showAISuggestions && (
           <div className="w-[40%] bg-white border-l border-slate-200 shadow-sm overflow-hidden animate-slide-in-right">
             <UnifiedAIAssistant
-              content={content}
+              content={visibleContent}
               onApplySuggestion={handleApplyAISuggestion}
               onInsertContent={handleInsertAIContent}
               onReplaceContent={handleReplaceContent}
@@ -724,16 +1087,59 @@ export const EditorPage: React.FC = () => {
         <ExportModal
           isOpen={showExportModal}
           onClose={() => setShowExportModal(false)}
-          document={document}
+          document={isPlayerView ? toPlayerHandout(document) : document}
         />
       )}
 
+      {/* Version History */}
+      <VersionHistoryPanel
+        isOpen={showVersionHistory}
+        onClose={() => setShowVersionHistory(false)}
+        document={document}
+        currentContent={content}
+        onRestore={restoreVersion}
+      />
+
+      {/* Compare Documents */}
+      <CompareDocumentsModal
+        isOpen={showCompare}
+        onClose={() => setShowCompare(false)}
+        document={document}
+        currentContent={content}
+      />
+
       {/* Document Settings Modal */}
       <DocumentSettingsModal
         isOpen={showDocumentSettings}
         document={document}
         onClose={() => setShowDocumentSettings(false)}
         onSave={handleDocumentSettingsSave}
+        tagSuggestions={tags.tags}
+        {...(role === 'owner' && {
+          onShare: () => {
+            setShowDocumentSettings(false);
+            setShowShareModal(true);
+          },
+          ...(!isGuestUser(document.userId) && { onTogglePublicLink: setPublicLink })
+        })}
+      />
+
+      {/* Offline sync conflict */}
+      {activeConflict && (
+        <SyncConflictDialog
+          key={activeConflict.documentId}
+          conflict={activeConflict}
+          documentTitle={activeConflict.documentId === document.id ? document.title : 'Another document'}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
+      {/* Share Document */}
+      <ShareDocumentModal
+        isOpen={showShareModal}
+        onClose={() => setShowShareModal(false)}
+        document={document}
+        onDocumentChange={applyDocumentChanges}
       />
     </div>
   );
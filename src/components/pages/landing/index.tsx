@@ -372,7 +372,7 @@ export const LandingPage: React.FC = () => {
                       marginTop: '8px'
                     }}
                   >
-                    Your work won't be saved when you sign out
+                    Your work stays in this browser until you create an account
                   </p>
                 </div>
               </TabsContent>
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Public player view page
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Read-only, account-free view of a published document for players.
+ * No editor, grammar marks or AI panels - just the handout.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Loader2, ScrollText } from 'lucide-react';
+import { PublicLayout } from '@/components/layout/public-layout';
+import type { PublicDocument } from '@/types/document';
+import * as publicViewService from '@/services/public-view';
+
+/**
+ * Public view page component
+ *
+ * @component
+ */
+export const PublicViewPage: React.FC = () => {
+  const { documentId } = useParams<{ documentId: string }>();
+  const [document, setDocument] = useState<PublicDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the published copy
+   */
+  useEffect(() => {
+    if (!documentId) return;
+
+    const loadDocument = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const publicDocument = await publicViewService.getPublicDocument(documentId);
+        if (!publicDocument) {
+          setError('This link is no longer available. Ask your DM for a new one.');
+        }
+        setDocument(publicDocument);
+      } catch (err) {
+        console.error('Error loading public document:', err);
+        setError('Failed to load this document');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDocument();
+  }, [documentId]);
+
+  /**
+   * Use the document title for the browser tab
+   */
+  useEffect(() => {
+    if (document) {
+      window.document.title = `${document.title} - Dungeons & Drafting`;
+    }
+  }, [document]);
+
+  return (
+    <PublicLayout>
+      <div className="max-w-3xl mx-auto px-4 py-8 sm:py-12">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24 text-slate-600">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : error || !document ? (
+          <div className="text-center py-24 space-y-3">
+            <ScrollText className="w-10 h-10 mx-auto text-slate-400" />
+            <p className="text-slate-700">{error}</p>
+          </div>
+        ) : (
+          <article className="bg-white border border-slate-200 rounded-xl shadow-sm p-6 sm:p-10">
+            <h1 className="text-2xl sm:text-3xl font-bold text-slate-900 mb-6">{document.title}</h1>
+            <div
+              className="prose prose-sm sm:prose max-w-none prose-headings:text-slate-900 prose-p:text-slate-900"
+              dangerouslySetInnerHTML={{ __html: document.content }}
+            />
+          </article>
+        )}
+      </div>
+    </PublicLayout>
+  );
+};
+
+PublicViewPage.displayName = 'PublicViewPage';
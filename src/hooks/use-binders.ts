@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Campaign binders hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Loads the signed-in user's binders and documents as a tree, and exposes
+ * binder actions plus moving documents within and between binders.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './use-auth';
+import { buildBinderTree, getDropOrder } from '@/lib/binder-tree';
+import type { Binder, Document } from '@/types/document';
+import * as binderService from '@/services/binders';
+import * as documentService from '@/services/documents';
+
+export const useBinders = () => {
+  const { user } = useAuth();
+  const [binders, setBinders] = useState<Binder[]>([]);
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  /**
+   * Load binders and every document they may hold
+   */
+  const loadBinders = useCallback(async () => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [loadedBinders, loadedDocuments] = await Promise.all([
+        binderService.getUserBinders(userId),
+        documentService.getAllUserDocuments(userId)
+      ]);
+      setBinders(loadedBinders);
+      setDocuments(loadedDocuments);
+    } catch (err) {
+      console.error('Error loading binders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load binders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadBinders();
+  }, [loadBinders]);
+
+  const tree = useMemo(() => buildBinderTree(binders, documents), [binders, documents]);
+
+  const createBinder = useCallback(async (name: string) => {
+    if (!userId) return null;
+
+    const binder = await binderService.createBinder(userId, { name });
+    setBinders(current => [...current, binder]);
+    return binder;
+  }, [userId]);
+
+  const renameBinder = useCallback(async (binderId: string, name: string) => {
+    if (!userId) return;
+
+    const binder = await binderService.updateBinder(binderId, userId, { name });
+    setBinders(current => current.map(b => (b.id === binderId ? binder : b)));
+  }, [userId]);
+
+  const deleteBinder = useCallback(async (binderId: string) => {
+    if (!userId) return;
+
+    await binderService.deleteBinder(binderId, userId);
+    setBinders(current => current.filter(binder => binder.id !== binderId));
+    setDocuments(current => current.map(document => {
+      if (document.binderId !== binderId) return document;
+      const { binderId: _binderId, binderOrder: _binderOrder, ...rest } = document;
+      return rest;
+    }));
+  }, [userId]);
+
+  /**
+   * Move a document into a binder, above another document or at the end;
+   * a null binder takes it out of its binder
+   *
+   * The tree updates straight away and reloads if the move fails.
+   */
+  const moveDocument = useCallback(async (
+    documentId: string,
+    binderId: string | null,
+    beforeDocumentId?: string | null
+  ) => {
+    if (!userId) return;
+
+    const binderDocuments = tree.binders.find(node => node.binder.id === binderId)?.documents ?? [];
+    const binderOrder = getDropOrder(binderDocuments, documentId, beforeDocumentId);
+
+    setDocuments(current => current.map(document => {
+      if (document.id !== documentId) return document;
+      const { binderId: _binderId, binderOrder: _binderOrder, ...rest } = document;
+      return binderId ? { ...rest, binderId, binderOrder } : rest;
+    }));
+
+    try {
+      await binderService.moveDocumentToBinder(documentId, userId, binderId, binderOrder);
+    } catch (err) {
+      console.error('Error moving document:', err);
+      setError('Failed to move document');
+      loadBinders();
+    }
+  }, [userId, tree, loadBinders]);
+
+  return {
+    tree,
+    isLoading,
+    error,
+    refresh: loadBinders,
+    createBinder,
+    renameBinder,
+    deleteBinder,
+    moveDocument
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Real-time collaboration hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Manages the lifetime of a co-editing session for the open document and
+ * exposes connection status and the other editors present.
+ */
+
+import { useState, useEffect } from 'react';
+import { useAuth } from './use-auth';
+import type { CollaborationStatus } from '@/services/collaboration/providers';
+import * as collaborationService from '@/services/collaboration/real-time';
+
+interface UseCollaborationOptions {
+  documentId: string | undefined;
+  enabled: boolean;
+}
+
+export const useCollaboration = ({ documentId, enabled }: UseCollaborationOptions) => {
+  const { user } = useAuth();
+  const [session, setSession] = useState<collaborationService.CollaborationSession | null>(null);
+  const [status, setStatus] = useState<CollaborationStatus>('disconnected');
+  const [isSynced, setIsSynced] = useState(false);
+  const [peers, setPeers] = useState<collaborationService.CollaborationPeer[]>([]);
+
+  const userId = user?.id;
+  const userName = user?.displayName || user?.email || 'Dungeon Master';
+
+  useEffect(() => {
+    if (!enabled || !documentId || !userId) return;
+
+    const newSession = collaborationService.startCollaborationSession(documentId, {
+      id: userId,
+      name: userName,
+      color: collaborationService.getCollaboratorColor(userId)
+    });
+    const { provider } = newSession;
+
+    const handleStatus = (newStatus: CollaborationStatus) => setStatus(newStatus);
+    const handleSynced = (synced: boolean) => setIsSynced(synced);
+    const handlePresence = () => setPeers(collaborationService.getCollaborationPeers(newSession));
+
+    provider.on('status', handleStatus);
+    provider.on('synced', handleSynced);
+    provider.awareness.on('change', handlePresence);
+
+    setSession(newSession);
+    setStatus(provider.status);
+    setIsSynced(provider.synced);
+    handlePresence();
+
+    return () => {
+      provider.off('status', handleStatus);
+      provider.off('synced', handleSynced);
+      provider.awareness.off('change', handlePresence);
+      collaborationService.endCollaborationSession(newSession);
+
+      setSession(null);
+      setStatus('disconnected');
+      setIsSynced(false);
+      setPeers([]);
+    };
+  }, [enabled, documentId, userId, userName]);
+
+  return {
+    session,
+    status,
+    isSynced,
+    peers
+  };
+};
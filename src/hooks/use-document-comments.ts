@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Inline comments hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Loads comment threads for the open document, tracks their anchors as the
+ * text is edited and exposes thread actions for the comments sidebar.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAuth } from './use-auth';
+import type { DocumentComment } from '@/types/document';
+import type { TextAnchor } from '@/lib/text-anchor';
+import * as commentService from '@/services/document-comments';
+
+/**
+ * Delay before moved anchors are written back
+ */
+const ANCHOR_SAVE_DELAY_MS = 2000;
+
+interface UseDocumentCommentsOptions {
+  documentId: string | undefined;
+  enabled: boolean; // Whether the user may see comments
+  canEdit: boolean; // Whether the user's edits move anchors
+}
+
+/**
+ * Whether two anchors point at the same text
+ */
+function isSameAnchor(a: TextAnchor, b: TextAnchor): boolean {
+  return a.quote === b.quote && a.prefix === b.prefix && a.suffix === b.suffix && a.start === b.start;
+}
+
+export const useDocumentComments = ({ documentId, enabled, canEdit }: UseDocumentCommentsOptions) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<DocumentComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<TextAnchor | null>(null);
+  const [detachedCommentIds, setDetachedCommentIds] = useState<Set<string>>(new Set());
+
+  // Latest anchors reported by the editor, and the timer that persists them
+  const latestAnchorsRef = useRef<Record<string, TextAnchor>>({});
+  const anchorSaveTimeoutRef = useRef<NodeJS.Timeout>();
+
+  const userId = user?.id;
+  const author = useMemo(() => userId ? {
+    id: userId,
+    name: user?.displayName || user?.email || 'Dungeon Master'
+  } : null, [userId, user?.displayName, user?.email]);
+
+  /**
+   * Load threads for the document
+   */
+  const loadComments = useCallback(async () => {
+    if (!enabled || !documentId || !userId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setComments(await commentService.getDocumentComments(documentId, userId));
+    } catch (err) {
+      console.error('Error loading comments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled, documentId, userId]);
+
+  useEffect(() => {
+    latestAnchorsRef.current = {};
+    setComments([]);
+    setActiveCommentId(null);
+    setPendingAnchor(null);
+    loadComments();
+  }, [loadComments]);
+
+  useEffect(() => {
+    return () => {
+      if (anchorSaveTimeoutRef.current) {
+        clearTimeout(anchorSaveTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  /**
+   * Open threads to highlight in the editor, using the freshest known anchors
+   */
+  const highlightedComments = useMemo(
+    () => comments
+      .filter(comment => !comment.resolved)
+      .map(comment => ({ id: comment.id, anchor: latestAnchorsRef.current[comment.id] ?? comment.anchor })),
+    [comments]
+  );
+
+  /**
+   * Receive anchors from the editor after edits or highlight resets
+   *
+   * Open threads missing from `anchors` are detached - their text was deleted.
+   * Editors write moved anchors back so they resolve for everyone else.
+   */
+  const trackAnchors = useCallback((anchors: Record<string, TextAnchor>) => {
+    latestAnchorsRef.current = { ...latestAnchorsRef.current, ...anchors };
+
+    setDetachedCommentIds(previous => {
+      const detached = new Set(highlightedComments.filter(c => !anchors[c.id]).map(c => c.id));
+      const unchanged = detached.size === previous.size && [...detached].every(id => previous.has(id));
+      return unchanged ? previous : detached;
+    });
+
+    if (!canEdit || !documentId || !userId) return;
+
+    if (anchorSaveTimeoutRef.current) {
+      clearTimeout(anchorSaveTimeoutRef.current);
+    }
+    anchorSaveTimeoutRef.current = setTimeout(() => {
+      const moved: Record<string, TextAnchor> = {};
+      for (const comment of comments) {
+        const anchor = anchors[comment.id];
+        if (anchor && !isSameAnchor(anchor, comment.anchor)) {
+          moved[comment.id] = anchor;
+        }
+      }
+      if (Object.keys(moved).length === 0) return;
+
+      commentService.updateCommentAnchors(documentId, userId, moved);
+      setComments(current => current.map(comment =>
+        moved[comment.id] ? { ...comment, anchor: moved[comment.id]! } : comment
+      ));
+    }, ANCHOR_SAVE_DELAY_MS);
+  }, [highlightedComments, comments, canEdit, documentId, userId]);
+
+  /**
+   * Begin a new thread on the selected text
+   */
+  const startComment = useCallback((anchor: TextAnchor) => {
+    setPendingAnchor(anchor);
+    setActiveCommentId(null);
+  }, []);
+
+  const cancelComment = useCallback(() => {
+    setPendingAnchor(null);
+  }, []);
+
+  /**
+   * Post the pending thread
+   */
+  const addComment = useCallback(async (body: string) => {
+    if (!documentId || !author || !pendingAnchor) return;
+
+    const comment = await commentService.addDocumentComment(documentId, author, pendingAnchor, body);
+    setComments(current => [...current, comment]);
+    setPendingAnchor(null);
+    setActiveCommentId(comment.id);
+  }, [documentId, author, pendingAnchor]);
+
+  const reply = useCallback(async (commentId: string, body: string) => {
+    if (!documentId || !author) return;
+
+    const newReply = await commentService.replyToComment(documentId, commentId, author, body);
+    setComments(current => current.map(comment =>
+      comment.id === commentId
+        ? { ...comment, replies: [...comment.replies, newReply], updatedAt: newReply.createdAt }
+        : comment
+    ));
+  }, [documentId, author]);
+
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    if (!documentId || !userId) return;
+
+    await commentService.setCommentResolved(documentId, commentId, userId, resolved);
+    const now = new Date();
+    setComments(current => current.map(comment => {
+      if (comment.id !== commentId) return comment;
+      const { resolvedBy, resolvedAt, ...rest } = comment;
+      return { ...rest, resolved, ...(resolved && { resolvedBy: userId, resolvedAt: now }), updatedAt: now };
+    }));
+    if (resolved) {
+      setActiveCommentId(null);
+    }
+  }, [documentId, userId]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    if (!documentId || !userId) return;
+
+    await commentService.deleteDocumentComment(documentId, commentId, userId);
+    setComments(current => current.filter(comment => comment.id !== commentId));
+    setActiveCommentId(current => (current === commentId ? null : current));
+  }, [documentId, userId]);
+
+  return {
+    comments,
+    highlightedComments,
+    detachedCommentIds,
+    isLoading,
+    error,
+    activeCommentId,
+    setActiveCommentId,
+    pendingAnchor,
+    startComment,
+    cancelComment,
+    addComment,
+    reply,
+    setResolved,
+    deleteComment,
+    trackAnchors,
+    refresh: loadComments
+  };
+};
@@ -9,8 +9,15 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from './use-auth';
-import type { Document, DocumentType, UpdateDocumentData } from '@/types/document';
+import type { Document, DocumentType, DocumentVersionReason, UpdateDocumentData } from '@/types/document';
 import * as documentService from '@/services/documents';
+import * as versionService from '@/services/document-versions';
+import * as publicViewService from '@/services/public-view';
+
+/**
+ * Record a version snapshot on every Nth auto-save (manual saves always snapshot)
+ */
+const AUTOSAVE_SNAPSHOT_INTERVAL = 5;
 
 interface DocumentEditorState {
   document: Document | null;
@@ -54,6 +61,7 @@ export const useDocumentEditor = () => {
 
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout>();
   const lastContentRef = useRef('');
+  const autoSaveCountRef = useRef(0);
 
   /**
    * Calculate document statistics
@@ -144,12 +152,43 @@ export const useDocumentEditor = () => {
     }
   }, [documentId, user, calculateStats]);
 
+  /**
+   * Record a version snapshot without failing the calling operation
+   */
+  const recordVersion = useCallback(async (document: Document, reason: DocumentVersionReason) => {
+    if (!user) return;
+
+    try {
+      await versionService.createDocumentVersion(document, user.id, reason);
+    } catch (error) {
+      console.warn('Error recording document version:', error);
+    }
+  }, [user]);
+
+  /**
+   * Keep the player view copy of a public document up to date
+   */
+  const refreshPublicCopy = useCallback(async (document: Document) => {
+    if (document.privacy !== 'public') return;
+
+    try {
+      await publicViewService.publishDocument(document);
+    } catch (error) {
+      console.warn('Error refreshing public view:', error);
+    }
+  }, []);
+
   /**
    * Save document content
    */
-  const saveDocument = useCallback(async (newContent?: string) => {
+  const saveDocument = useCallback(async (newContent?: string, isAutoSave: boolean = false) => {
     if (!state.document || !user) return;
 
+    // Viewers and commenters can't write content
+    if (!documentService.canEditDocument(documentService.getDocumentRole(state.document, user.id, user.email))) {
+      return;
+    }
+
     const contentToSave = newContent ?? content;
     
     setState(prev => ({ ...prev, isSaving: true, error: null }));
@@ -157,7 +196,7 @@ export const useDocumentEditor = () => {
     try {
       const newStats = calculateStats(contentToSave);
       
-      await documentService.updateDocument(state.document.id, user.id, {
+      const savedDocument = await documentService.updateDocument(state.document.id, user.id, {
         content: contentToSave,
         stats: {
           wordCount: newStats.wordCount,
@@ -169,6 +208,15 @@ export const useDocumentEditor = () => {
       lastContentRef.current = contentToSave;
       setStats(newStats);
 
+      // Snapshot every manual save and every Nth auto-save
+      if (isAutoSave) {
+        autoSaveCountRef.current += 1;
+      }
+      if (!isAutoSave || autoSaveCountRef.current % AUTOSAVE_SNAPSHOT_INTERVAL === 0) {
+        recordVersion(savedDocument, isAutoSave ? 'autosave' : 'manual');
+      }
+      refreshPublicCopy(savedDocument);
+
       setState(prev => ({
         ...prev,
         isSaving: false,
@@ -194,7 +242,59 @@ export const useDocumentEditor = () => {
         error: 'Failed to save document'
       }));
     }
-  }, [state.document, user, content, calculateStats]);
+  }, [state.document, user, content, calculateStats, recordVersion, refreshPublicCopy]);
+
+  /**
+   * Snapshot the current (possibly unsaved) content before a risky bulk change
+   */
+  const createCheckpoint = useCallback(async () => {
+    if (!state.document) return;
+    await recordVersion({ ...state.document, content }, 'checkpoint');
+  }, [state.document, content, recordVersion]);
+
+  /**
+   * Restore the document to an earlier version snapshot
+   */
+  const restoreVersion = useCallback(async (versionId: string) => {
+    if (!state.document || !user) return;
+
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current);
+    }
+
+    setState(prev => ({ ...prev, isSaving: true, error: null }));
+
+    try {
+      const restoredDocument = await versionService.restoreDocumentVersion(
+        state.document.id,
+        versionId,
+        user.id
+      );
+
+      setContent(restoredDocument.content || '');
+      lastContentRef.current = restoredDocument.content || '';
+      setStats(calculateStats(restoredDocument.content || ''));
+
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        hasUnsavedChanges: false,
+        document: restoredDocument,
+        lastSaved: new Date()
+      }));
+      refreshPublicCopy(restoredDocument);
+
+      return restoredDocument;
+    } catch (error) {
+      console.error('Error restoring document version:', error);
+      setState(prev => ({
+        ...prev,
+        isSaving: false,
+        error: 'Failed to restore version'
+      }));
+      throw error;
+    }
+  }, [state.document, user, calculateStats, refreshPublicCopy]);
 
   /**
    * Update document metadata (title, type, description, tags)
@@ -222,6 +322,7 @@ export const useDocumentEditor = () => {
         user.id, 
         updateData
       );
+      refreshPublicCopy(updatedDocument);
 
       setState(prev => ({
         ...prev,
@@ -240,8 +341,52 @@ export const useDocumentEditor = () => {
       }));
       throw error;
     }
+  }, [state.document, user, refreshPublicCopy]);
+
+  /**
+   * Turn the public player view link on or off
+   */
+  const setPublicLink = useCallback(async (enabled: boolean) => {
+    if (!state.document || !user) return;
+
+    try {
+      const updatedDocument = await publicViewService.setPublicLinkEnabled(state.document, user.id, enabled);
+      setState(prev => ({ ...prev, document: updatedDocument }));
+      return updatedDocument;
+    } catch (error) {
+      console.error('Error updating player link:', error);
+      throw error;
+    }
   }, [state.document, user]);
 
+  /**
+   * Replace the loaded document after a change made elsewhere (e.g. sharing)
+   */
+  const applyDocumentChanges = useCallback((updatedDocument: Document) => {
+    setState(prev => ({ ...prev, document: updatedDocument }));
+  }, []);
+
+  /**
+   * Swap in a newer copy of the document and its content, e.g. once a sync
+   * conflict is resolved
+   */
+  const replaceDocument = useCallback((updatedDocument: Document) => {
+    if (autoSaveTimeoutRef.current) {
+      clearTimeout(autoSaveTimeoutRef.current);
+    }
+
+    setContent(updatedDocument.content || '');
+    lastContentRef.current = updatedDocument.content || '';
+    setStats(calculateStats(updatedDocument.content || ''));
+
+    setState(prev => ({
+      ...prev,
+      document: updatedDocument,
+      hasUnsavedChanges: false,
+      lastSaved: new Date(updatedDocument.updatedAt)
+    }));
+  }, [calculateStats]);
+
   /**
    * Update content and trigger auto-save
    */
@@ -259,7 +404,7 @@ export const useDocumentEditor = () => {
 
     if (hasChanges) {
       autoSaveTimeoutRef.current = setTimeout(() => {
-        saveDocument(newContent);
+        saveDocument(newContent, true);
       }, 2000);
     }
   }, [calculateStats, saveDocument]);
@@ -320,6 +465,10 @@ export const useDocumentEditor = () => {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [state.hasUnsavedChanges]);
 
+  const role = state.document && user
+    ? documentService.getDocumentRole(state.document, user.id, user.email)
+    : null;
+
   return {
     // State
     ...state,
@@ -330,9 +479,16 @@ export const useDocumentEditor = () => {
     updateContent,
     saveDocument: handleSave,
     updateDocumentMetadata,
+    createCheckpoint,
+    restoreVersion,
+    applyDocumentChanges,
+    replaceDocument,
+    setPublicLink,
     goBack: handleBack,
     
     // Computed
-    isReady: !state.isLoading && state.document && !state.error
+    isReady: !state.isLoading && state.document && !state.error,
+    role,
+    canEdit: documentService.canEditDocument(role)
   };
 }; 
\ No newline at end of file
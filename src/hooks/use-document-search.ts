@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Full-text document search hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Searches the signed-in user's documents, bringing the local search index up
+ * to date with their documents before the first query of a session.
+ */
+
+import { useState, useEffect } from 'react';
+import { useAuth } from './use-auth';
+import type { SearchHit } from '@/lib/search-index';
+import * as documentService from '@/services/documents';
+import * as searchService from '@/services/document-search';
+
+export const useDocumentSearch = (searchQuery: string) => {
+  const { user } = useAuth();
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!userId || !query) {
+      setHits([]);
+      setError(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    const search = async () => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        await searchService.syncSearchIndex(userId, () => documentService.getAllUserDocuments(userId));
+        const results = await searchService.searchDocuments(userId, query);
+        if (!isCancelled) setHits(results);
+      } catch (err) {
+        console.error('Error searching documents:', err);
+        if (!isCancelled) setError('Failed to search documents');
+      } finally {
+        if (!isCancelled) setIsSearching(false);
+      }
+    };
+
+    search();
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId, searchQuery]);
+
+  return { hits, isSearching, error };
+};
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Offline sync hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Tracks the network status, replays queued offline writes when the app
+ * comes back online and surfaces conflicts for the merge dialog.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './use-auth';
+import type { ConflictResolution, SyncConflict } from '@/services/offline/sync-queue';
+import * as documentService from '@/services/documents';
+import * as networkStatus from '@/services/offline/network-status';
+
+export const useOfflineSync = () => {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(networkStatus.isOnline());
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [createdIds, setCreatedIds] = useState<Record<string, string>>({});
+
+  // Guests never touch Firestore, so there is nothing to sync
+  const userId = user && !user.isGuest ? user.id : null;
+
+  /**
+   * Re-count documents with writes waiting to sync
+   */
+  const refreshPendingCount = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setPendingCount(await documentService.getPendingWriteCount(userId));
+    } catch (error) {
+      console.warn('Error counting pending offline writes:', error);
+    }
+  }, [userId]);
+
+  /**
+   * Replay queued writes
+   */
+  const sync = useCallback(async () => {
+    if (!userId || !networkStatus.isOnline()) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await documentService.syncOfflineChanges(userId);
+      setConflicts(result.conflicts);
+      if (Object.keys(result.createdIds).length > 0) {
+        setCreatedIds(prev => ({ ...prev, ...result.createdIds }));
+      }
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      setIsSyncing(false);
+      refreshPendingCount();
+    }
+  }, [userId, refreshPendingCount]);
+
+  /**
+   * Settle a conflict and return the document as now saved
+   */
+  const resolveConflict = useCallback(async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    const document = await documentService.resolveSyncConflict(conflict, resolution);
+    setConflicts(prev => prev.filter(c => c.documentId !== conflict.documentId));
+    refreshPendingCount();
+    return document;
+  }, [refreshPendingCount]);
+
+  /**
+   * Sync on mount and whenever the network comes back
+   */
+  useEffect(() => {
+    sync();
+    return networkStatus.subscribeToNetworkStatus(online => {
+      setIsOnline(online);
+      if (online) {
+        sync();
+      }
+    });
+  }, [sync]);
+
+  return {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    conflicts,
+    createdIds,
+    sync,
+    resolveConflict,
+    refreshPendingCount,
+    setNetworkEnabled: networkStatus.setNetworkEnabled
+  };
+};
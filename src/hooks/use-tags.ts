@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Tag registry hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Loads the signed-in user's tags with usage counts and colors, and exposes
+ * coloring, renaming and merging tags.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './use-auth';
+import { tagKey, type TagColor, type TagSummary } from '@/lib/document-tags';
+import * as tagService from '@/services/tags';
+
+export const useTags = (enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  const loadTags = useCallback(async () => {
+    if (!userId || !enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTags(await tagService.getUserTags(userId));
+    } catch (err) {
+      console.error('Error loading tags:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, enabled]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const setColor = useCallback(async (tag: string, color: TagColor) => {
+    if (!userId) return;
+
+    await tagService.setTagColor(userId, tag, color);
+    setTags(current => current.map(t => t.key === tagKey(tag) ? { ...t, color } : t));
+  }, [userId]);
+
+  const renameTag = useCallback(async (fromTag: string, toTag: string) => {
+    if (!userId) return null;
+
+    const result = await tagService.renameTag(userId, fromTag, toTag);
+    await loadTags();
+    return result;
+  }, [userId, loadTags]);
+
+  const mergeTags = useCallback(async (fromTags: string[], toTag: string) => {
+    if (!userId) return null;
+
+    const result = await tagService.mergeTags(userId, fromTags, toTag);
+    await loadTags();
+    return result;
+  }, [userId, loadTags]);
+
+  return {
+    tags,
+    isLoading,
+    error,
+    refresh: loadTags,
+    setColor,
+    renameTag,
+    mergeTags
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Document templates hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Loads the built-in templates plus the signed-in user's own, and exposes
+ * saving a document as a template and deleting user templates.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './use-auth';
+import type { CreateTemplateData, Document, DocumentTemplate } from '@/types/document';
+import * as templateService from '@/services/templates';
+
+export const useTemplates = (enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<DocumentTemplate[]>(templateService.BUILT_IN_TEMPLATES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  const loadTemplates = useCallback(async () => {
+    if (!userId || !enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTemplates(await templateService.getTemplates(userId));
+    } catch (err) {
+      console.error('Error loading templates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, enabled]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const saveAsTemplate = useCallback(async (document: Document, data: CreateTemplateData) => {
+    if (!userId) return null;
+
+    const template = await templateService.saveDocumentAsTemplate(document, userId, data);
+    setTemplates(current => [...current, template]);
+    return template;
+  }, [userId]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    if (!userId) return;
+
+    await templateService.deleteTemplate(templateId, userId);
+    setTemplates(current => current.filter(template => template.id !== templateId));
+  }, [userId]);
+
+  return {
+    templates,
+    isLoading,
+    error,
+    refresh: loadTemplates,
+    saveAsTemplate,
+    deleteTemplate
+  };
+};
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Trash hook
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Loads the signed-in user's trashed documents, purging any past the user's
+ * retention period first, and exposes restore and permanent delete actions.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './use-auth';
+import type { Document } from '@/types/document';
+import * as documentService from '@/services/documents';
+
+export const useTrash = () => {
+  const { user, updateProfile } = useAuth();
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+  const retentionDays = user?.preferences?.trashRetentionDays ?? documentService.DEFAULT_TRASH_RETENTION_DAYS;
+
+  /**
+   * Purge expired documents, then load what is left
+   */
+  const loadTrash = useCallback(async () => {
+    if (!userId) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await documentService.purgeExpiredTrash(userId, retentionDays);
+      setDocuments(await documentService.getTrashedDocuments(userId));
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, retentionDays]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const moveToTrash = useCallback(async (documentId: string) => {
+    if (!userId) return;
+
+    const document = await documentService.moveDocumentToTrash(documentId, userId);
+    setDocuments(current => [document, ...current.filter(d => d.id !== documentId)]);
+  }, [userId]);
+
+  const restore = useCallback(async (documentId: string) => {
+    if (!userId) return;
+
+    await documentService.restoreDocument(documentId, userId);
+    setDocuments(current => current.filter(document => document.id !== documentId));
+  }, [userId]);
+
+  const deleteForever = useCallback(async (documentId: string) => {
+    if (!userId) return;
+
+    await documentService.deleteDocument(documentId, userId);
+    setDocuments(current => current.filter(document => document.id !== documentId));
+  }, [userId]);
+
+  const emptyTrash = useCallback(async () => {
+    if (!userId) return;
+
+    await documentService.emptyTrash(userId);
+    setDocuments([]);
+  }, [userId]);
+
+  /**
+   * Change how long trashed documents are kept; guests keep the default
+   */
+  const setRetentionDays = useCallback(async (days: number) => {
+    if (!user || user.isGuest) return;
+
+    await updateProfile({ preferences: { ...user.preferences, trashRetentionDays: days } });
+  }, [user, updateProfile]);
+
+  return {
+    documents,
+    isLoading,
+    error,
+    retentionDays,
+    canChangeRetention: !!user && !user.isGuest,
+    refresh: loadTrash,
+    moveToTrash,
+    restore,
+    deleteForever,
+    emptyTrash,
+    setRetentionDays
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Vitest tests for binder tree helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BINDER_ORDER_STEP, buildBinderTree, getDropOrder, orderBetween } from './binder-tree';
+import type { Binder, Document } from '@/types/document';
+
+const makeBinder = (id: string, name: string, order: number): Binder => ({
+  id,
+  userId: 'dm-1',
+  name,
+  order,
+  createdAt: new Date('2024-05-01'),
+  updatedAt: new Date('2024-05-01')
+});
+
+const makeDocument = (id: string, title: string, binderId?: string, binderOrder?: number): Document => ({
+  id,
+  title,
+  content: '',
+  userId: 'dm-1',
+  type: 'campaign',
+  privacy: 'private',
+  status: 'draft',
+  tags: [],
+  ...(binderId && { binderId }),
+  ...(binderOrder !== undefined && { binderOrder }),
+  stats: {
+    wordCount: 0,
+    characterCount: 0,
+    characterCountNoSpaces: 0,
+    paragraphCount: 0,
+    sentenceCount: 0,
+    readingTime: 0,
+    lastEditedAt: new Date('2024-05-01')
+  },
+  createdAt: new Date('2024-05-01'),
+  updatedAt: new Date('2024-05-01'),
+  lastAccessedAt: new Date('2024-05-01'),
+  version: 1,
+  isAutoSaveEnabled: true
+});
+
+describe('Binder tree', () => {
+  const binders = [makeBinder('strahd', 'Curse of Strahd', 2), makeBinder('phandelver', 'Phandelver', 1)];
+  const documents = [
+    makeDocument('s2', 'Session 2', 'strahd', 2048),
+    makeDocument('s1', 'Session 1', 'strahd', 1024),
+    makeDocument('npcs', 'NPCs', 'phandelver', 1024),
+    makeDocument('ideas', 'Ideas'),
+    makeDocument('lost', 'Lost Notes', 'deleted-binder', 1024)
+  ];
+
+  it('should group documents under ordered binders', () => {
+    const tree = buildBinderTree(binders, documents);
+    expect(tree.binders.map(node => node.binder.id)).toEqual(['phandelver', 'strahd']);
+    expect(tree.binders[1]!.documents.map(document => document.id)).toEqual(['s1', 's2']);
+    expect(tree.unfiled.map(document => document.id)).toEqual(['ideas', 'lost']);
+  });
+
+  it('should place dropped documents between their neighbours', () => {
+    const strahd = buildBinderTree(binders, documents).binders[1]!.documents;
+    expect(getDropOrder(strahd, 'ideas', 's2')).toBe(1536);
+    expect(getDropOrder(strahd, 'ideas', 's1')).toBe(0);
+    expect(getDropOrder(strahd, 'ideas')).toBe(2048 + BINDER_ORDER_STEP);
+    expect(getDropOrder(strahd, 's2', 's1')).toBe(0);
+    expect(getDropOrder([], 'ideas')).toBe(BINDER_ORDER_STEP);
+  });
+
+  it('should order between missing neighbours', () => {
+    expect(orderBetween(undefined, 10)).toBe(10 - BINDER_ORDER_STEP);
+    expect(orderBetween(10, undefined)).toBe(10 + BINDER_ORDER_STEP);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Binder tree helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Groups documents under their binders and computes positions for documents
+ * dragged within or between binders. Positions are numbers with gaps between
+ * them, so moving a document only rewrites that one document.
+ */
+
+import type { Binder, Document } from '@/types/document';
+
+/**
+ * Gap left between positions of documents appended to a binder
+ */
+export const BINDER_ORDER_STEP = 1024;
+
+/**
+ * A binder and its documents, in order
+ */
+export interface BinderTreeNode {
+  binder: Binder;
+  documents: Document[];
+}
+
+/**
+ * Every binder of a user, plus documents not in any binder
+ */
+export interface BinderTree {
+  binders: BinderTreeNode[];
+  unfiled: Document[];
+}
+
+/**
+ * Position between two neighbours; either may be missing at the ends
+ */
+export function orderBetween(before?: number, after?: number): number {
+  if (before === undefined && after === undefined) return BINDER_ORDER_STEP;
+  if (before === undefined) return after! - BINDER_ORDER_STEP;
+  if (after === undefined) return before + BINDER_ORDER_STEP;
+  return (before + after) / 2;
+}
+
+/**
+ * Sort documents by their binder position, then title
+ */
+export function sortBinderDocuments(documents: Document[]): Document[] {
+  return [...documents].sort((a, b) =>
+    (a.binderOrder ?? 0) - (b.binderOrder ?? 0) || a.title.localeCompare(b.title)
+  );
+}
+
+/**
+ * Group documents under their binders
+ *
+ * Documents pointing at a binder that no longer exists count as unfiled.
+ */
+export function buildBinderTree(binders: Binder[], documents: Document[]): BinderTree {
+  const byBinder = new Map<string, Document[]>(binders.map(binder => [binder.id, []]));
+  const unfiled: Document[] = [];
+
+  documents.forEach(document => {
+    const group = document.binderId ? byBinder.get(document.binderId) : undefined;
+    (group ?? unfiled).push(document);
+  });
+
+  return {
+    binders: [...binders]
+      .sort((a, b) => a.order - b.order || a.name.localeCompare(b.name))
+      .map(binder => ({ binder, documents: sortBinderDocuments(byBinder.get(binder.id)!) })),
+    unfiled: [...unfiled].sort((a, b) => a.title.localeCompare(b.title))
+  };
+}
+
+/**
+ * Position for a document dropped into a binder
+ *
+ * @param documents - The binder's documents in order
+ * @param documentId - The document being moved
+ * @param beforeDocumentId - Drop above this document; appends when missing
+ */
+export function getDropOrder(
+  documents: Document[],
+  documentId: string,
+  beforeDocumentId?: string | null
+): number {
+  const others = documents.filter(document => document.id !== documentId);
+  const index = beforeDocumentId ? others.findIndex(document => document.id === beforeDocumentId) : -1;
+  const insertAt = index >= 0 ? index : others.length;
+
+  return orderBetween(others[insertAt - 1]?.binderOrder, others[insertAt]?.binderOrder);
+}
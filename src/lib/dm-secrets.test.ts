@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Vitest tests for DM secret helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { stripDmSecrets, hasDmSecrets, isDmSecretElement } from './dm-secrets';
+import { sanitizeHTML } from './sanitize-html';
+
+const ADVENTURE = '<h2>The Mill</h2><div data-dm-secret="true" class="dm-secret"><p>The miller is a wererat.</p></div><p>Flour dusts every surface.</p>';
+
+describe('DM secrets', () => {
+  it('should strip secret blocks and keep the rest', () => {
+    expect(stripDmSecrets(ADVENTURE)).toBe('<h2>The Mill</h2><p>Flour dusts every surface.</p>');
+  });
+
+  it('should strip nested secrets', () => {
+    const html = '<ul><li><p>Room 1</p><div data-dm-secret="true"><p>Trapdoor</p></div></li></ul>';
+    expect(stripDmSecrets(html)).toBe('<ul><li><p>Room 1</p></li></ul>');
+  });
+
+  it('should leave content without secrets untouched', () => {
+    const html = '<p>Tom &amp; Jerry&nbsp;</p>';
+    expect(stripDmSecrets(html)).toBe(html);
+    expect(hasDmSecrets(html)).toBe(false);
+  });
+
+  it('should detect secrets', () => {
+    expect(hasDmSecrets(ADVENTURE)).toBe(true);
+  });
+
+  it('should strip secrets whatever the case of the attribute', () => {
+    const html = '<p>Intro</p><DIV DATA-DM-SECRET="true"><p>The miller is a wererat.</p></DIV>';
+    expect(hasDmSecrets(html)).toBe(true);
+    expect(stripDmSecrets(html)).toBe('<p>Intro</p>');
+  });
+
+  it('should drop secrets when sanitizing for the public view', () => {
+    expect(sanitizeHTML(ADVENTURE, { removeElement: isDmSecretElement })).toBe(
+      '<h2>The Mill</h2><p>Flour dusts every surface.</p>'
+    );
+  });
+});
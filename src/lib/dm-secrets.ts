@@ -0,0 +1,96 @@
+/**
+ * @fileoverview DM secret block helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * DM secrets are editor blocks (`<div data-dm-secret="true">`) holding twists and
+ * notes players must not see. Every player-facing output - the public view, the
+ * player copies served to viewer shares and player handout exports - runs content
+ * through these helpers.
+ */
+
+import { parseHTML, serializeHTML, findElements, type HtmlNode, type HtmlElementNode } from './html-tree';
+import { sanitizeHTML } from './sanitize-html';
+import { withoutTrackedChanges } from './tracked-changes';
+
+/**
+ * Attribute marking a DM secret block in editor HTML
+ */
+export const DM_SECRET_ATTRIBUTE = 'data-dm-secret';
+
+/**
+ * Whether an element is a DM secret block
+ */
+export function isDmSecretElement(node: HtmlElementNode): boolean {
+  return DM_SECRET_ATTRIBUTE in node.attrs && node.attrs[DM_SECRET_ATTRIBUTE] !== 'false';
+}
+
+/**
+ * Quick check before parsing: whether HTML could hold a DM secret block
+ *
+ * Attribute names are case-insensitive (pasted or imported HTML may say
+ * `DATA-DM-SECRET`), so the search is too.
+ */
+function mayHaveDmSecrets(html: string): boolean {
+  return Boolean(html) && html.toLowerCase().includes(DM_SECRET_ATTRIBUTE);
+}
+
+/**
+ * Remove DM secret blocks from a node list
+ */
+function removeSecretNodes(nodes: HtmlNode[]): HtmlNode[] {
+  const result: HtmlNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'element') {
+      if (isDmSecretElement(node)) continue;
+      result.push({ ...node, children: removeSecretNodes(node.children) });
+    } else {
+      result.push(node);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Strip DM secrets from editor HTML, leaving everything else untouched
+ *
+ * @param html - Editor HTML
+ * @returns HTML safe to hand to players
+ */
+export function stripDmSecrets(html: string): string {
+  if (!mayHaveDmSecrets(html)) {
+    return html;
+  }
+  return serializeHTML(removeSecretNodes(parseHTML(html)));
+}
+
+/**
+ * Whether editor HTML contains any DM secret blocks
+ */
+export function hasDmSecrets(html: string): boolean {
+  if (!mayHaveDmSecrets(html)) {
+    return false;
+  }
+  return findElements(parseHTML(html), isDmSecretElement).length > 0;
+}
+
+/**
+ * Sanitize content for players, dropping DM secrets and pending suggestions
+ *
+ * Used for copies written where players can read them.
+ */
+export function toPlayerHTML(html: string): string {
+  return sanitizeHTML(withoutTrackedChanges(html), { removeElement: isDmSecretElement });
+}
+
+/**
+ * Player HTML read back from a stored copy (public view or player copy)
+ *
+ * Copies are sanitized again on read, in case an older client wrote them
+ * before the current rules for player content.
+ */
+export function readPlayerHTML(content: unknown): string {
+  return toPlayerHTML(typeof content === 'string' ? content : '');
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Vitest tests for document change planning
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PUBLIC_LINK_OFFLINE_ERROR, planMoveToTrash, toDuplicateData } from './document-changes';
+import type { Document } from '@/types/document';
+
+const makeDocument = (overrides: Partial<Document> = {}): Document => ({
+  id: 'doc-1',
+  title: 'Lost Mine',
+  content: '<p>Cragmaw hideout</p>',
+  userId: 'dm-1',
+  type: 'campaign',
+  privacy: 'private',
+  status: 'draft',
+  tags: ['phandalin'],
+  stats: {
+    wordCount: 2,
+    characterCount: 16,
+    characterCountNoSpaces: 15,
+    paragraphCount: 1,
+    sentenceCount: 1,
+    readingTime: 1,
+    lastEditedAt: new Date('2024-05-01')
+  },
+  createdAt: new Date('2024-05-01'),
+  updatedAt: new Date('2024-05-01'),
+  lastAccessedAt: new Date('2024-05-01'),
+  version: 1,
+  isAutoSaveEnabled: true,
+  ...overrides
+});
+
+describe('planMoveToTrash', () => {
+  it('refuses to trash a public document while offline', () => {
+    expect(() => planMoveToTrash(makeDocument({ privacy: 'public' }), 'dm-1', false))
+      .toThrow(PUBLIC_LINK_OFFLINE_ERROR);
+  });
+
+  it('revokes the player link when trashing a public document online', () => {
+    const plan = planMoveToTrash(makeDocument({ privacy: 'public', sharedWith: ['ana@example.com'] }), 'dm-1', true);
+
+    expect(plan?.revokePublicLink).toBe(true);
+    expect(plan?.updateData).toMatchObject({ status: 'trashed', statusBeforeTrash: 'draft', privacy: 'shared' });
+  });
+
+  it('trashes a private document offline without touching privacy', () => {
+    const plan = planMoveToTrash(makeDocument(), 'dm-1', false);
+
+    expect(plan?.revokePublicLink).toBe(false);
+    expect(plan?.updateData).not.toHaveProperty('privacy');
+  });
+
+  it('skips documents already in the trash and rejects other users', () => {
+    expect(planMoveToTrash(makeDocument({ status: 'trashed' }), 'dm-1', true)).toBeNull();
+    expect(() => planMoveToTrash(makeDocument(), 'player-1', true)).toThrow('Permission denied');
+  });
+});
+
+describe('toDuplicateData', () => {
+  it('starts copies of public and shared documents as private', () => {
+    expect(toDuplicateData(makeDocument({ privacy: 'public' })).privacy).toBe('private');
+    expect(toDuplicateData(makeDocument({ privacy: 'shared', sharedWith: ['ana@example.com'] }))).toEqual({
+      title: 'Lost Mine (Copy)',
+      content: '<p>Cragmaw hideout</p>',
+      type: 'campaign',
+      privacy: 'private',
+      tags: ['phandalin']
+    });
+  });
+});
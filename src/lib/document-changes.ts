@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Planning document changes
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Works out the fields a change writes, shared by the single and bulk
+ * actions in the document service. Nothing here touches storage.
+ */
+
+import type { CreateDocumentData, Document, UpdateDocumentData } from '@/types/document';
+
+/**
+ * Why a public document's change is refused offline. Its published player
+ * copy has to be deleted with the change, and that can't wait in the offline
+ * queue while the link stays readable.
+ */
+export const PUBLIC_LINK_OFFLINE_ERROR = 'Go online to revoke the player link first';
+
+/**
+ * Fields to write for a change, and whether the published player copy goes with it
+ */
+export interface DocumentChangePlan {
+  updateData: UpdateDocumentData;
+  revokePublicLink: boolean; // Delete the published player copy with the update
+}
+
+/**
+ * Plan moving a document to the trash
+ *
+ * A public player link is revoked, so public documents can only be trashed
+ * online.
+ *
+ * @returns The plan, or null when the document is already in the trash
+ */
+export function planMoveToTrash(
+  document: Document,
+  userId: string,
+  online: boolean
+): DocumentChangePlan | null {
+  if (document.userId !== userId) {
+    throw new Error('Permission denied - only document owner can delete');
+  }
+  if (document.status === 'trashed') {
+    return null;
+  }
+
+  const isPublic = document.privacy === 'public';
+  if (isPublic && !online) {
+    throw new Error(PUBLIC_LINK_OFFLINE_ERROR);
+  }
+
+  return {
+    updateData: {
+      status: 'trashed',
+      statusBeforeTrash: document.status,
+      trashedAt: new Date(),
+      ...(isPublic && {
+        privacy: document.sharedWith?.length ? 'shared' : 'private'
+      })
+    },
+    revokePublicLink: isPublic
+  };
+}
+
+/**
+ * Creation data for a copy of a document
+ *
+ * Copies start private: shares aren't copied, and a public link has to be
+ * turned on for the copy itself.
+ */
+export function toDuplicateData(original: Document, newTitle?: string): CreateDocumentData {
+  return {
+    title: newTitle || `${original.title} (Copy)`,
+    content: original.content,
+    type: original.type,
+    privacy: 'private',
+    ...(original.description && { description: original.description }),
+    tags: original.tags
+  };
+}
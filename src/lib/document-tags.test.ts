@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Vitest tests for document tag helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyTagChange, defaultTagColor, parseTagList, replaceTags, summarizeTags } from './document-tags';
+import type { Document } from '@/types/document';
+
+describe('applyTagChange', () => {
+  it('adds new tags after existing ones, ignoring case duplicates', () => {
+    expect(applyTagChange(['NPC', 'Waterdeep'], ['npc', 'tavern ', ''])).toEqual(['NPC', 'Waterdeep', 'tavern']);
+  });
+
+  it('removes tags in any case, even when also added', () => {
+    expect(applyTagChange(['NPC', 'Waterdeep'], ['Villain'], ['npc', 'villain'])).toEqual(['Waterdeep']);
+  });
+});
+
+describe('parseTagList', () => {
+  it('splits on commas and drops blanks', () => {
+    expect(parseTagList('boss, undead,, Boss ')).toEqual(['boss', 'undead']);
+  });
+});
+
+describe('replaceTags', () => {
+  it('merges several tags into one at the first position', () => {
+    expect(replaceTags(['Waterdeep', 'NPCs', 'villain', 'npc'], ['npc', 'NPCs'], 'NPC')).toEqual(['Waterdeep', 'NPC', 'villain']);
+  });
+});
+
+describe('summarizeTags', () => {
+  const makeDocument = (id: string, tags: string[]): Document => ({
+    id,
+    title: id,
+    content: '',
+    userId: 'dm-1',
+    type: 'other',
+    privacy: 'private',
+    status: 'draft',
+    tags,
+    stats: {
+      wordCount: 0,
+      characterCount: 0,
+      characterCountNoSpaces: 0,
+      paragraphCount: 0,
+      sentenceCount: 0,
+      readingTime: 0,
+      lastEditedAt: new Date('2024-05-01')
+    },
+    createdAt: new Date('2024-05-01'),
+    updatedAt: new Date('2024-05-01'),
+    lastAccessedAt: new Date('2024-05-01'),
+    version: 1,
+    isAutoSaveEnabled: true
+  });
+
+  it('counts documents per tag across spellings, most used first', () => {
+    const tags = summarizeTags([
+      makeDocument('a', ['npc', 'Waterdeep']),
+      makeDocument('b', ['NPC']),
+      makeDocument('c', ['npc'])
+    ], { npc: 'red' });
+
+    expect(tags.map(({ key, name, variants, count }) => ({ key, name, variants, count }))).toEqual([
+      { key: 'npc', name: 'npc', variants: ['npc', 'NPC'], count: 3 },
+      { key: 'waterdeep', name: 'Waterdeep', variants: ['Waterdeep'], count: 1 }
+    ]);
+    expect(tags[0]!.color).toBe('red');
+    expect(tags[1]!.color).toBe(defaultTagColor('waterdeep'));
+  });
+});
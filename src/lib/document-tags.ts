@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Document tag helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Tags are free-form strings compared without regard to case, so "NPC" and
+ * "npc" are the same tag and a document never holds both. The tag registry is
+ * built from the documents themselves: usage counts and spellings come from
+ * the tags in use, and only colors are stored separately.
+ */
+
+import type { Document } from '@/types/document';
+
+/**
+ * Colors a tag can be shown in
+ */
+export const TAG_COLORS = ['slate', 'red', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+
+export type TagColor = typeof TAG_COLORS[number];
+
+/**
+ * A tag in use, across all of a user's documents
+ */
+export interface TagSummary {
+  key: string; // Lowercased, for comparing and storing
+  name: string; // Most used spelling
+  variants: string[]; // Every spelling in use, for filtering documents
+  count: number; // Documents with the tag
+  color: TagColor;
+}
+
+/**
+ * Key used to compare tags
+ */
+export function tagKey(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Parse a comma separated list typed by the user into tags
+ */
+export function parseTagList(input: string): string[] {
+  return applyTagChange([], input.split(','));
+}
+
+/**
+ * Add and remove tags, keeping the existing order and spelling
+ *
+ * Added tags already present (in any case) are skipped; removals win over
+ * additions of the same tag.
+ */
+export function applyTagChange(tags: string[], addTags: string[] = [], removeTags: string[] = []): string[] {
+  const removed = new Set(removeTags.map(tagKey));
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const tag of [...tags, ...addTags]) {
+    const key = tagKey(tag);
+    if (!key || removed.has(key) || seen.has(key)) continue;
+    seen.add(key);
+    result.push(tag.trim());
+  }
+  return result;
+}
+
+/**
+ * Replace any of `fromTags` with `toTag`, in place of the first one found
+ *
+ * Renaming is a replacement from one tag; merging replaces several.
+ */
+export function replaceTags(tags: string[], fromTags: string[], toTag: string): string[] {
+  const from = new Set(fromTags.map(tagKey));
+  return applyTagChange(tags.map(tag => from.has(tagKey(tag)) ? toTag : tag));
+}
+
+/**
+ * Color for a tag nobody picked one for, stable across sessions
+ */
+export function defaultTagColor(tag: string): TagColor {
+  let hash = 0;
+  for (const char of tagKey(tag)) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length]!;
+}
+
+/**
+ * Count tag use across documents, most used first
+ *
+ * @param colors - Chosen colors by tag key
+ */
+export function summarizeTags(documents: Document[], colors: Record<string, TagColor> = {}): TagSummary[] {
+  const spellings = new Map<string, Map<string, number>>();
+  for (const document of documents) {
+    for (const tag of new Set(document.tags.map(t => t.trim()).filter(Boolean))) {
+      const key = tagKey(tag);
+      const counts = spellings.get(key) ?? new Map<string, number>();
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      spellings.set(key, counts);
+    }
+  }
+
+  return [...spellings.entries()]
+    .map(([key, counts]) => {
+      const variants = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+      return {
+        key,
+        name: variants[0]![0],
+        variants: variants.map(([spelling]) => spelling),
+        count: variants.reduce((sum, [, count]) => sum + count, 0),
+        color: colors[key] ?? defaultTagColor(key)
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
@@ -72,22 +72,21 @@ export { analytics };
 
 /**
  * Development emulator setup
- * Temporarily disabled to ensure connection to real Firebase
+ * Opt in with VITE_USE_FIREBASE_EMULATORS=true (see `firebase emulators:start`)
  */
-// Emulator connections disabled for testing
-// if (import.meta.env.DEV && typeof window !== 'undefined') {
-//   try {
-//     connectAuthEmulator(auth, 'http://localhost:9099');
-//   } catch (error) {
-//     console.log('Auth emulator connection skipped:', error);
-//   }
+if (import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true' && typeof window !== 'undefined') {
+  try {
+    connectAuthEmulator(auth, 'http://localhost:9099');
+  } catch (error) {
+    console.log('Auth emulator connection skipped:', error);
+  }
 
-//   try {
-//     connectFirestoreEmulator(db, 'localhost', 8080);
-//   } catch (error) {
-//     console.log('Firestore emulator connection skipped:', error);
-//   }
-// }
+  try {
+    connectFirestoreEmulator(db, 'localhost', 8080);
+  } catch (error) {
+    console.log('Firestore emulator connection skipped:', error);
+  }
+}
 
 /**
  * Export default app for other Firebase services
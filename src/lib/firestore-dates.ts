@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Date conversion for Firestore data
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Firestore returns Timestamps, but records written before a field was a
+ * Timestamp (or copied from local storage) may hold Dates, ISO strings or
+ * epoch milliseconds.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Convert a stored date to a Date, falling back to now when it is missing or unreadable
+ */
+export function toDate(value: unknown): Date {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return new Date();
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Vitest tests for Homebrewery conversion
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { htmlToHomebrewery, toHomebreweryDocument } from './homebrewery';
+
+const GOBLIN = `<div class="stat-block">
+<h3 class="stat-block-name">Goblin</h3>
+<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>
+<hr class="stat-block-divider">
+<p><strong>Armor Class</strong> 15 (leather armor, shield)</p>
+<p><strong>Hit Points</strong> 7 (2d6)</p>
+<table class="stat-block-abilities">
+<tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>
+<tr><td>8 (-1)</td><td>14 (+2)</td><td>10 (+0)</td><td>10 (+0)</td><td>8 (-1)</td><td>8 (-1)</td></tr>
+</table>
+<p><strong>Challenge</strong> 1/4 (50 XP)</p>
+<p><strong>Nimble Escape.</strong> Disengages as a bonus action.</p>
+<h4>Actions</h4>
+<p><strong>Scimitar.</strong> <em>Melee Weapon Attack:</em> +4 to hit.</p>
+<p><strong>Shortbow.</strong> <em>Ranged Weapon Attack:</em> +4 to hit.</p>
+</div>`;
+
+describe('htmlToHomebrewery', () => {
+  it('writes stat blocks as monster frames', () => {
+    expect(htmlToHomebrewery(GOBLIN)).toBe([
+      '{{monster,frame',
+      '## Goblin',
+      '*Small humanoid (goblinoid), neutral evil*',
+      '___',
+      '**Armor Class** :: 15 (leather armor, shield)',
+      '**Hit Points** :: 7 (2d6)',
+      '___',
+      '|STR|DEX|CON|INT|WIS|CHA|',
+      '|:---:|:---:|:---:|:---:|:---:|:---:|',
+      '|8 (-1)|14 (+2)|10 (+0)|10 (+0)|8 (-1)|8 (-1)|',
+      '___',
+      '**Challenge** :: 1/4 (50 XP)',
+      '___',
+      '***Nimble Escape.*** Disengages as a bonus action.',
+      '### Actions',
+      '***Scimitar.*** *Melee Weapon Attack:* +4 to hit.',
+      ':',
+      '***Shortbow.*** *Ranged Weapon Attack:* +4 to hit.',
+      '}}',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes re-skinned monsters inserted as paragraphs as monster frames', () => {
+    const markup = htmlToHomebrewery(
+      '<h2>Clockwork Hound</h2><p><em>Medium beast, unaligned</em></p>'
+      + '<p><strong>Armor Class</strong> 13</p><p><strong>Hit Points</strong> 11 (2d8+2)</p>'
+      + '<p><strong>STR</strong> 12 <strong>DEX</strong> 15 <strong>CON</strong> 12 '
+      + '<strong>INT</strong> 3 <strong>WIS</strong> 12 <strong>CHA</strong> 6</p>'
+      + '<p><strong>Challenge Rating</strong> 1/4</p>'
+      + '<h3>Appearance</h3><p>Brass plates and a ticking heart.</p>'
+    );
+    expect(markup).toContain('{{monster,frame\n## Clockwork Hound\n*Medium beast, unaligned*');
+    expect(markup).toContain('|12 (+1)|15 (+2)|12 (+1)|3 (-4)|12 (+1)|6 (-2)|');
+    expect(markup).toContain('**Challenge** :: 1/4 (50 XP)\n}}');
+    expect(markup).toContain('}}\n\n### Appearance\n\nBrass plates and a ticking heart.');
+  });
+
+  it('writes DM secrets as notes, quotes as read-aloud boxes and chapters on new pages', () => {
+    const markup = htmlToHomebrewery(
+      '<h1>Arrival</h1><blockquote><p>The gates creak open.</p></blockquote>'
+      + '<div data-dm-secret="true" class="dm-secret"><p>The mayor is a vampire.</p></div>'
+      + '<h1>The Crypt</h1><p>Beware {{traps}}.</p>'
+    );
+    expect(markup).toBe([
+      '# Arrival',
+      '{{descriptive\nThe gates creak open.\n}}',
+      '{{note\n##### DM Secret\nThe mayor is a vampire.\n}}',
+      '\\page',
+      '# The Crypt',
+      'Beware \\{{traps}}.\n'
+    ].join('\n\n'));
+  });
+});
+
+describe('toHomebreweryDocument', () => {
+  it('adds a front cover page', () => {
+    const brew = toHomebreweryDocument(
+      { title: 'The Sunken Keep', content: '<p>Salt and stone.</p>' },
+      { author: 'Dungeon Master', campaignType: 'one-shot' }
+    );
+    expect(brew).toMatch(/^\{\{frontCover\}\}\n\n# The Sunken Keep\n\n## A Dungeons & Dragons One-shot/);
+    expect(brew).toContain('Created by Dungeon Master');
+    expect(brew).toMatch(/\\page\n\nSalt and stone\.\n$/);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Homebrewery conversion
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Converts editor HTML to the Markdown dialect of Homebrewery's V3 renderer,
+ * for publishing in the PHB style. Stat blocks become `{{monster,frame}}`
+ * blocks, DM secrets become `{{note}}` blocks, blockquotes become read-aloud
+ * `{{descriptive}}` boxes and each chapter heading starts a new `\page`.
+ */
+
+import { parseHTML, type HtmlElementNode, type HtmlNode } from './html-tree';
+import { isDmSecretElement } from './dm-secrets';
+import { htmlToMarkdown, type MarkdownBlockRenderer } from './markdown';
+import {
+  ABILITY_NAMES,
+  formatAbilityScore,
+  isStatBlockElement,
+  parseLooseStatBlock,
+  parseStatBlock,
+  splitStatBlockProperties,
+  type StatBlock,
+  type StatBlockEntry
+} from './stat-block';
+
+/**
+ * Homebrewery page break
+ */
+const PAGE_BREAK = '\\page';
+
+/**
+ * Cover page details
+ */
+export interface HomebreweryCover {
+  author: string;
+  campaignType: string;
+}
+
+/**
+ * Convert editor HTML to Homebrewery V3 markup
+ */
+export function htmlToHomebrewery(html: string): string {
+  const markup = htmlToMarkdown(html, renderHomebreweryBlock);
+  // Only later chapters need a break before them
+  return markup.startsWith(PAGE_BREAK) ? markup.slice(PAGE_BREAK.length).trimStart() : markup;
+}
+
+/**
+ * Homebrewery brew for a document, with an optional front cover page
+ */
+export function toHomebreweryDocument(
+  document: { title: string; content: string },
+  cover?: HomebreweryCover
+): string {
+  const body = htmlToHomebrewery(document.content);
+  if (!cover) return `# ${document.title}\n\n${body}`;
+
+  const campaignType = cover.campaignType.charAt(0).toUpperCase() + cover.campaignType.slice(1);
+  return [
+    '{{frontCover}}',
+    `# ${document.title}`,
+    `## A Dungeons & Dragons ${campaignType}`,
+    '___',
+    `{{footnote\n  Created by ${cover.author}\n}}`,
+    PAGE_BREAK,
+    body
+  ].join('\n\n');
+}
+
+/**
+ * Block renderer for the Homebrewery dialect
+ */
+const renderHomebreweryBlock: MarkdownBlockRenderer = (nodes, index, render) => {
+  const node = nodes[index] as HtmlElementNode;
+
+  if (isStatBlockElement(node)) {
+    return { text: renderMonsterFrame(parseStatBlock(node), render.inline), consumed: 1 };
+  }
+
+  const loose = parseLooseStatBlock(nodes, index);
+  if (loose) {
+    return { text: renderMonsterFrame(loose.statBlock, render.inline), consumed: loose.end - index };
+  }
+
+  if (isDmSecretElement(node)) {
+    return { text: wrapBlock('note', `##### DM Secret\n${render.blocks(node.children)}`), consumed: 1 };
+  }
+  if (node.tag === 'blockquote') {
+    return { text: wrapBlock('descriptive', render.blocks(node.children)), consumed: 1 };
+  }
+  if (node.tag === 'h1') {
+    return { text: `${PAGE_BREAK}\n\n# ${render.inline(node.children).replace(/\n/g, ' ')}`, consumed: 1 };
+  }
+  if (node.tag === 'hr') {
+    return { text: '___', consumed: 1 };
+  }
+
+  return null;
+};
+
+/**
+ * Wrap content in a Homebrewery `{{name ...}}` block
+ */
+function wrapBlock(name: string, content: string): string {
+  return `{{${name}\n${content.trim()}\n}}`;
+}
+
+/**
+ * Render a stat block as a Homebrewery monster frame
+ */
+function renderMonsterFrame(statBlock: StatBlock, renderInline: (nodes: HtmlNode[]) => string): string {
+  const divider = '___';
+  const property = ({ label, value }: { label: string; value: string }) => `**${label}** :: ${value}`;
+  const entry = ({ name, description }: StatBlockEntry) => {
+    const text = renderInline(parseHTML(description));
+    return name ? `***${name}.*** ${text}` : text;
+  };
+  const entries = (list: StatBlockEntry[]) => list.map(entry).join('\n:\n');
+
+  const { before, after } = splitStatBlockProperties(statBlock);
+  const lines = [`## ${statBlock.name}`];
+  if (statBlock.meta) lines.push(`*${statBlock.meta}*`);
+
+  if (before.length) lines.push(divider, ...before.map(property));
+  if (statBlock.abilities) {
+    lines.push(
+      divider,
+      `|${ABILITY_NAMES.join('|')}|`,
+      `|${ABILITY_NAMES.map(() => ':---:').join('|')}|`,
+      `|${statBlock.abilities.map(formatAbilityScore).join('|')}|`
+    );
+  }
+  if (after.length) lines.push(divider, ...after.map(property));
+  if (statBlock.traits.length) lines.push(divider, entries(statBlock.traits));
+  for (const section of statBlock.sections) {
+    lines.push(`### ${section.title}`, entries(section.entries));
+  }
+
+  return wrapBlock('monster,frame', lines.join('\n'));
+}
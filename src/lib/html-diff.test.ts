@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Vitest tests for document diffing
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffWords, summarizeDiff } from './text-diff';
+import { diffHTMLBlocks, extractDiffBlocks, countBlockChanges, plainTextToHTML, mergeHTMLBlocks } from './html-diff';
+
+const statBlock = (hp: string) => `<div class="stat-block">
+<h3 class="stat-block-name">Goblin</h3>
+<p><strong>Hit Points</strong> ${hp}</p>
+</div>`;
+
+describe('Word diff', () => {
+  it('should mark replaced words as delete and insert', () => {
+    const segments = diffWords('the red dragon sleeps', 'the blue dragon sleeps');
+
+    expect(segments.map(s => s.op)).toEqual(['equal', 'delete', 'insert', 'equal']);
+    expect(segments[1].text.trim()).toBe('red');
+    expect(segments[2].text.trim()).toBe('blue');
+  });
+
+  it('should summarize word counts', () => {
+    const summary = summarizeDiff(diffWords('one two three', 'one three four five'));
+
+    expect(summary.insertedWords).toBe(2);
+    expect(summary.deletedWords).toBe(1);
+    expect(summary.unchangedWords).toBe(2);
+  });
+
+  it('should return a single equal segment for identical text', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ op: 'equal', text: 'same text' }]);
+  });
+});
+
+describe('Block diff', () => {
+  it('should keep headings, list items and stat blocks as separate blocks', () => {
+    const blocks = extractDiffBlocks(
+      `<h2>Encounters</h2><p>Intro</p><ul><li>Wolves</li><li>Bandits</li></ul>${statBlock('7 (2d6)')}`
+    );
+
+    expect(blocks.map(b => b.kind)).toEqual(['heading', 'paragraph', 'listItem', 'listItem', 'statBlock']);
+    expect(blocks[4].text).toContain('Hit Points 7 (2d6)');
+  });
+
+  it('should detect a modified paragraph with word-level changes', () => {
+    const rows = diffHTMLBlocks(
+      '<h2>The Tavern</h2><p>The innkeeper Bram greets the party warmly.</p>',
+      '<h2>The Tavern</h2><p>The innkeeper Bram greets the party coldly.</p>'
+    );
+
+    expect(rows.map(r => r.status)).toEqual(['unchanged', 'modified']);
+    expect(rows[1].words?.some(w => w.op === 'insert' && w.text.includes('coldly'))).toBe(true);
+  });
+
+  it('should report added and removed blocks', () => {
+    const rows = diffHTMLBlocks(
+      '<p>Session one recap.</p><p>The dragon attacks at dawn.</p>',
+      '<p>Session one recap.</p><h3>New NPC</h3>'
+    );
+    const counts = countBlockChanges(rows);
+
+    expect(counts.unchanged).toBe(1);
+    expect(counts.removed).toBe(1);
+    expect(counts.added).toBe(1);
+  });
+
+  it('should detect changes inside a stat block', () => {
+    const rows = diffHTMLBlocks(statBlock('7 (2d6)'), statBlock('12 (3d6 + 2)'));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].status).toBe('modified');
+    expect(rows[0].newBlock?.kind).toBe('statBlock');
+  });
+
+  it('should convert pasted text to paragraphs', () => {
+    expect(plainTextToHTML('First line\ncontinued\n\nSecond <b>')).toBe(
+      '<p>First line continued</p><p>Second &lt;b&gt;</p>'
+    );
+  });
+});
+
+describe('Three-way merge', () => {
+  const base = '<h2>Act I</h2><p>The party arrives.</p><p>A storm rolls in.</p>';
+
+  it('should combine edits to different blocks', () => {
+    const local = '<h2>Act I</h2><p>The party arrives at dusk.</p><p>A storm rolls in.</p>';
+    const server = '<h2>Act I</h2><p>The party arrives.</p><p>A storm rolls in.</p><p>Wolves howl.</p>';
+
+    expect(mergeHTMLBlocks(base, local, server)).toEqual({
+      html: '<h2>Act I</h2><p>The party arrives at dusk.</p><p>A storm rolls in.</p><p>Wolves howl.</p>',
+      conflictCount: 0
+    });
+  });
+
+  it('should keep both versions of a block changed on both sides', () => {
+    const local = '<h2>Act I</h2><p>The party arrives late.</p><p>A storm rolls in.</p>';
+    const server = '<h2>Act I</h2><p>The heroes arrive.</p><p>A storm rolls in.</p>';
+
+    expect(mergeHTMLBlocks(base, local, server)).toEqual({
+      html: '<h2>Act I</h2><p>The heroes arrive.</p><p>The party arrives late.</p><p>A storm rolls in.</p>',
+      conflictCount: 1
+    });
+  });
+
+  it('should apply deletions from either side', () => {
+    const local = '<h2>Act I</h2><p>The party arrives.</p>';
+
+    expect(mergeHTMLBlocks(base, local, base).html).toBe(local);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Block-level HTML diffing
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Compares two TipTap HTML bodies paragraph by paragraph, then word by word
+ * inside changed paragraphs. Headings, list items and stat blocks are kept as
+ * distinct blocks so a DM can see exactly which encounter or NPC changed.
+ */
+
+import { extractPlainTextFromHTML } from './utils';
+import { parseHTML, serializeHTML, hasClass, type HtmlNode } from './html-tree';
+import { diffSequences, diffWords, type DiffSegment } from './text-diff';
+
+/**
+ * Kind of content block
+ */
+export type DiffBlockKind = 'heading' | 'paragraph' | 'listItem' | 'quote' | 'statBlock' | 'code' | 'table' | 'rule';
+
+/**
+ * A top-level block extracted from document HTML
+ */
+export interface DiffBlock {
+  kind: DiffBlockKind;
+  tag: string;
+  html: string;
+  text: string; // Plain text from extractPlainTextFromHTML
+}
+
+/**
+ * Status of an aligned block pair
+ */
+export type BlockDiffStatus = 'unchanged' | 'added' | 'removed' | 'modified';
+
+/**
+ * One row of a block diff - the old block, the new block, or both
+ */
+export interface BlockDiff {
+  status: BlockDiffStatus;
+  oldBlock?: DiffBlock;
+  newBlock?: DiffBlock;
+  words?: DiffSegment[]; // Word diff for modified rows
+}
+
+/**
+ * Minimum share of words two blocks must have in common to be shown as
+ * "modified" rather than as a removal plus an addition
+ */
+const MODIFIED_SIMILARITY_THRESHOLD = 0.4;
+
+const BLOCK_KINDS: Record<string, DiffBlockKind> = {
+  h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+  p: 'paragraph',
+  li: 'listItem',
+  blockquote: 'quote',
+  pre: 'code',
+  table: 'table',
+  hr: 'rule'
+};
+
+/**
+ * Split document HTML into comparable blocks
+ *
+ * Lists are flattened into their items and stat blocks are kept whole.
+ */
+export function extractDiffBlocks(html: string): DiffBlock[] {
+  const blocks: DiffBlock[] = [];
+  let pendingInline: HtmlNode[] = [];
+
+  const pushBlock = (kind: DiffBlockKind, tag: string, nodes: HtmlNode[]) => {
+    const blockHtml = serializeHTML(nodes);
+    const text = extractPlainTextFromHTML(blockHtml);
+    if (!text && kind !== 'rule') return;
+    blocks.push({ kind, tag, html: blockHtml, text });
+  };
+
+  const flushInline = () => {
+    if (pendingInline.length > 0) {
+      pushBlock('paragraph', 'p', [{ type: 'element', tag: 'p', attrs: {}, children: pendingInline }]);
+      pendingInline = [];
+    }
+  };
+
+  const visit = (nodes: HtmlNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        if (node.text.trim()) pendingInline.push(node);
+        continue;
+      }
+
+      if (hasClass(node, 'stat-block')) {
+        flushInline();
+        pushBlock('statBlock', 'div', [node]);
+      } else if (node.tag === 'ul' || node.tag === 'ol') {
+        flushInline();
+        visit(node.children.filter(child => child.type === 'element' && child.tag === 'li'));
+      } else if (BLOCK_KINDS[node.tag]) {
+        flushInline();
+        pushBlock(BLOCK_KINDS[node.tag], node.tag, [node]);
+      } else if (node.tag === 'div' || node.tag === 'section') {
+        flushInline();
+        visit(node.children);
+      } else {
+        // Inline content outside a paragraph
+        pendingInline.push(node);
+      }
+    }
+  };
+
+  visit(parseHTML(html));
+  flushInline();
+  return blocks;
+}
+
+/**
+ * Share of words two texts have in common (0-1)
+ */
+function similarity(words: DiffSegment[]): number {
+  // Dice coefficient: shared words count once per side
+  let shared = 0;
+  let total = 0;
+  for (const segment of words) {
+    const count = segment.text.split(/\s+/).filter(Boolean).length;
+    if (segment.op === 'equal') {
+      shared += count * 2;
+      total += count * 2;
+    } else {
+      total += count;
+    }
+  }
+  return total === 0 ? 1 : shared / total;
+}
+
+/**
+ * Diff two HTML bodies at block and word granularity
+ *
+ * @param oldHtml - Original document HTML
+ * @param newHtml - Changed document HTML
+ * @returns Aligned block rows in document order
+ */
+export function diffHTMLBlocks(oldHtml: string, newHtml: string): BlockDiff[] {
+  const oldBlocks = extractDiffBlocks(oldHtml);
+  const newBlocks = extractDiffBlocks(newHtml);
+
+  const operations = diffSequences(
+    oldBlocks,
+    newBlocks,
+    (a, b) => a.kind === b.kind && a.text === b.text
+  );
+
+  const rows: BlockDiff[] = [];
+  let removed: DiffBlock[] = [];
+  let added: DiffBlock[] = [];
+
+  // Pair up runs of removed and added blocks as modifications where they are similar
+  const flushChanges = () => {
+    let addedIndex = 0;
+    for (const oldBlock of removed) {
+      const candidate = added[addedIndex];
+      if (candidate && candidate.kind === oldBlock.kind) {
+        const words = diffWords(oldBlock.text, candidate.text);
+        if (similarity(words) >= MODIFIED_SIMILARITY_THRESHOLD) {
+          rows.push({ status: 'modified', oldBlock, newBlock: candidate, words });
+          addedIndex++;
+          continue;
+        }
+      }
+      rows.push({ status: 'removed', oldBlock });
+    }
+    for (; addedIndex < added.length; addedIndex++) {
+      rows.push({ status: 'added', newBlock: added[addedIndex] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const operation of operations) {
+    if (operation.op === 'delete') {
+      removed.push(oldBlocks[operation.oldIndex!]);
+    } else if (operation.op === 'insert') {
+      added.push(newBlocks[operation.newIndex!]);
+    } else {
+      flushChanges();
+      rows.push({
+        status: 'unchanged',
+        oldBlock: oldBlocks[operation.oldIndex!],
+        newBlock: newBlocks[operation.newIndex!]
+      });
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
+
+/**
+ * Count rows by status for a summary line
+ */
+export function countBlockChanges(rows: BlockDiff[]): Record<BlockDiffStatus, number> {
+  return rows.reduce<Record<BlockDiffStatus, number>>((counts, row) => {
+    counts[row.status]++;
+    return counts;
+  }, { unchanged: 0, added: 0, removed: 0, modified: 0 });
+}
+
+/**
+ * Wrap pasted plain text into paragraph HTML so it can be diffed against a document
+ */
+export function plainTextToHTML(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => serializeHTML([{
+      type: 'element',
+      tag: 'p',
+      attrs: {},
+      children: [{ type: 'text', text: paragraph.replace(/\s*\n\s*/g, ' ') }]
+    }]))
+    .join('');
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface BlockMergeResult {
+  html: string;
+  conflictCount: number; // Places where both sides changed the same blocks
+}
+
+/**
+ * Which base blocks one side kept, and what it inserted before each base block
+ */
+function describeSideChanges(baseKeys: string[], sideKeys: string[], sideBlocks: string[]) {
+  const kept = new Array<boolean>(baseKeys.length).fill(false);
+  const inserted: string[][] = Array.from({ length: baseKeys.length + 1 }, () => []);
+
+  let baseIndex = 0;
+  for (const operation of diffSequences(baseKeys, sideKeys)) {
+    if (operation.op === 'insert') {
+      inserted[baseIndex].push(sideBlocks[operation.newIndex!]);
+    } else {
+      kept[baseIndex] = operation.op === 'equal';
+      baseIndex++;
+    }
+  }
+
+  return { kept, inserted };
+}
+
+/**
+ * Merge two edited copies of a document against the copy both started from
+ *
+ * Works on top-level blocks: a block changed on only one side takes that
+ * side's version. Where both sides changed the same spot, the server's blocks
+ * are kept followed by the local ones, so nothing is lost.
+ *
+ * @param baseHtml - Content both sides started from
+ * @param localHtml - Content edited here
+ * @param serverHtml - Content saved by someone else meanwhile
+ */
+export function mergeHTMLBlocks(baseHtml: string, localHtml: string, serverHtml: string): BlockMergeResult {
+  const toBlocks = (html: string) => parseHTML(html)
+    .filter(node => node.type === 'element' || node.text.trim())
+    .map(node => serializeHTML([node]));
+
+  const baseBlocks = toBlocks(baseHtml);
+  const localBlocks = toBlocks(localHtml);
+  const serverBlocks = toBlocks(serverHtml);
+
+  const local = describeSideChanges(baseBlocks, localBlocks, localBlocks);
+  const server = describeSideChanges(baseBlocks, serverBlocks, serverBlocks);
+
+  const merged: string[] = [];
+  let conflictCount = 0;
+
+  for (let i = 0; i <= baseBlocks.length; i++) {
+    const localInserted = local.inserted[i];
+    const serverInserted = server.inserted[i];
+
+    if (localInserted.length > 0 && serverInserted.length > 0) {
+      if (localInserted.join('') !== serverInserted.join('')) {
+        conflictCount++;
+        merged.push(...serverInserted, ...localInserted);
+      } else {
+        merged.push(...serverInserted);
+      }
+    } else {
+      merged.push(...serverInserted, ...localInserted);
+    }
+
+    // A base block survives only if neither side removed or rewrote it
+    if (i < baseBlocks.length && local.kept[i] && server.kept[i]) {
+      merged.push(baseBlocks[i]);
+    }
+  }
+
+  return { html: merged.join(''), conflictCount };
+}
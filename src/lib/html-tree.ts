@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Lightweight HTML tree parser
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Parses the HTML produced by TipTap (and our generators) into a simple node tree.
+ * Runs without a DOM so it works in services, exporters and tests alike.
+ * Not a general-purpose HTML5 parser - it handles well-formed editor output.
+ */
+
+/**
+ * Text node
+ */
+export interface HtmlTextNode {
+  type: 'text';
+  text: string; // Decoded text
+}
+
+/**
+ * Element node
+ */
+export interface HtmlElementNode {
+  type: 'element';
+  tag: string; // Lowercase tag name
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlTextNode | HtmlElementNode;
+
+/**
+ * Elements that never have children
+ */
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+/**
+ * Block-level elements used to decide paragraph boundaries
+ */
+export const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'dt', 'dd', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'ol', 'p', 'pre', 'section',
+  'table', 'tbody', 'thead', 'tfoot', 'tr', 'td', 'th', 'ul'
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  times: '×'
+};
+
+/**
+ * Whether a numeric entity names a character; NUL, surrogates and values past
+ * U+10FFFF don't, and are left as literal text
+ */
+function isValidCodePoint(codePoint: number): boolean {
+  return Number.isInteger(codePoint)
+    && codePoint > 0
+    && codePoint <= 0x10FFFF
+    && (codePoint < 0xD800 || codePoint > 0xDFFF);
+}
+
+/**
+ * Decode HTML entities in text
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isValidCodePoint(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Escape text for safe inclusion in HTML or XML
+ */
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Parse attribute string into a record
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attrPattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attrs[name] = decodeEntities(value);
+  }
+
+  return attrs;
+}
+
+/**
+ * Parse an HTML string into a list of top-level nodes
+ *
+ * @param html - HTML content (e.g. from TipTap's getHTML())
+ * @returns Parsed node tree
+ */
+export function parseHTML(html: string): HtmlNode[] {
+  const root: HtmlElementNode = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElementNode[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<\/?([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const appendText = (raw: string) => {
+    if (!raw) return;
+    const parent = stack[stack.length - 1];
+    const text = decodeEntities(raw);
+    const last = parent.children[parent.children.length - 1];
+    if (last && last.type === 'text') {
+      last.text += text;
+    } else {
+      parent.children.push({ type: 'text', text });
+    }
+  };
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const [fullMatch, rawTag, rawAttrs, selfClosing] = match;
+    if (fullMatch.startsWith('<!--')) continue;
+
+    const tag = rawTag.toLowerCase();
+
+    if (fullMatch[1] === '/') {
+      // Closing tag - pop back to the matching element if it is open
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const element: HtmlElementNode = {
+      type: 'element',
+      tag,
+      attrs: parseAttributes(rawAttrs || ''),
+      children: []
+    };
+    stack[stack.length - 1].children.push(element);
+
+    if (!selfClosing && !VOID_ELEMENTS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  appendText(html.slice(lastIndex));
+  return root.children;
+}
+
+/**
+ * Serialize nodes back to HTML
+ *
+ * @param nodes - Nodes to serialize
+ * @param options.xhtml - Emit self-closing void elements for XHTML consumers (EPUB)
+ */
+export function serializeHTML(nodes: HtmlNode[], options: { xhtml?: boolean } = {}): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return escapeHTML(node.text).replace(/ /g, '&#160;');
+    }
+
+    const attrs = Object.entries(node.attrs)
+      .map(([name, value]) => ` ${name}="${escapeHTML(value)}"`)
+      .join('');
+
+    if (VOID_ELEMENTS.has(node.tag)) {
+      return options.xhtml ? `<${node.tag}${attrs} />` : `<${node.tag}${attrs}>`;
+    }
+
+    return `<${node.tag}${attrs}>${serializeHTML(node.children, options)}</${node.tag}>`;
+  }).join('');
+}
+
+/**
+ * Get the concatenated text of a node tree
+ */
+export function getTextContent(nodes: HtmlNode | HtmlNode[]): string {
+  const list = Array.isArray(nodes) ? nodes : [nodes];
+  return list.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.tag === 'br') return '\n';
+    return getTextContent(node.children);
+  }).join('');
+}
+
+/**
+ * Check whether an element carries a CSS class
+ */
+export function hasClass(node: HtmlNode, className: string): boolean {
+  return node.type === 'element' && (node.attrs.class || '').split(/\s+/).includes(className);
+}
+
+/**
+ * Find all descendant elements matching a predicate, in document order
+ */
+export function findElements(
+  nodes: HtmlNode[],
+  predicate: (node: HtmlElementNode) => boolean
+): HtmlElementNode[] {
+  const found: HtmlElementNode[] = [];
+  const visit = (list: HtmlNode[]) => {
+    for (const node of list) {
+      if (node.type !== 'element') continue;
+      if (predicate(node)) found.push(node);
+      visit(node.children);
+    }
+  };
+  visit(nodes);
+  return found;
+}
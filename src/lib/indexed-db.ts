@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Small promise wrapper around IndexedDB object stores
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Each store lives in its own database, keyed by `id`, with optional indexes
+ * on top-level fields. An in-memory implementation with the same API is used
+ * where IndexedDB is unavailable (private browsing in some browsers, tests).
+ */
+
+/**
+ * Persistent collection of records keyed by ID
+ */
+export interface RecordStore<T extends { id: string }> {
+  get: (id: string) => Promise<T | null>;
+  add: (record: T) => Promise<void>; // Fails if the ID exists
+  put: (record: T) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  getAll: (index?: { field: string; value: IDBValidKey }) => Promise<T[]>;
+}
+
+export interface RecordStoreOptions {
+  databaseName: string;
+  storeName: string;
+  indexes?: string[]; // Top-level fields to index
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and on first use create) a single-store database
+ */
+function openDatabase({ databaseName, storeName, indexes = [] }: RecordStoreOptions): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(storeName, { keyPath: 'id' });
+      indexes.forEach(field => store.createIndex(field, field, { unique: false }));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed record store
+ */
+export function createIndexedDBRecordStore<T extends { id: string }>(options: RecordStoreOptions): RecordStore<T> {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    if (!databasePromise) {
+      databasePromise = openDatabase(options);
+    }
+    const database = await databasePromise;
+    return requestToPromise(run(database.transaction(options.storeName, mode).objectStore(options.storeName)));
+  };
+
+  return {
+    get: async (id) => (await withStore<T | undefined>('readonly', store => store.get(id))) ?? null,
+    add: async (record) => {
+      await withStore('readwrite', store => store.add(record));
+    },
+    put: async (record) => {
+      await withStore('readwrite', store => store.put(record));
+    },
+    delete: async (id) => {
+      await withStore('readwrite', store => store.delete(id));
+    },
+    getAll: (index) => withStore<T[]>('readonly', store => (
+      index ? store.index(index.field).getAll(index.value) : store.getAll()
+    )),
+  };
+}
+
+/**
+ * In-memory record store, lost when the page closes
+ */
+export function createMemoryRecordStore<T extends { id: string }>(): RecordStore<T> {
+  const records = new Map<string, T>();
+
+  return {
+    get: async (id) => records.get(id) ?? null,
+    add: async (record) => {
+      if (records.has(record.id)) {
+        throw new Error(`Record already exists: ${record.id}`);
+      }
+      records.set(record.id, record);
+    },
+    put: async (record) => {
+      records.set(record.id, record);
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+    getAll: async (index) => Array.from(records.values()).filter(record =>
+      !index || (record as Record<string, unknown>)[index.field] === index.value
+    ),
+  };
+}
+
+/**
+ * Record store backed by IndexedDB when available, memory otherwise
+ */
+export function createRecordStore<T extends { id: string }>(options: RecordStoreOptions): RecordStore<T> {
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDBRecordStore<T>(options)
+    : createMemoryRecordStore<T>();
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Vitest tests for Markdown conversion
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown, markdownToHTML, parseMarkdownDocument, parseSimpleYaml, toMarkdownDocument } from './markdown';
+
+const GOBLIN = `<div class="stat-block">
+<h3 class="stat-block-name">Goblin</h3>
+<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>
+<hr class="stat-block-divider">
+<p><strong>Armor Class</strong> 15 (Leather Armor, Shield)</p>
+<p><strong>Hit Points</strong> 7 (2d6)</p>
+<p><strong>Speed</strong> 30 ft.</p>
+<hr class="stat-block-divider">
+<table class="stat-block-abilities">
+<tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>
+<tr><td>8 (-1)</td><td>14 (+2)</td><td>10 (+0)</td><td>10 (+0)</td><td>8 (-1)</td><td>8 (-1)</td></tr>
+</table>
+<hr class="stat-block-divider">
+<p><strong>Skills</strong> Stealth +6</p>
+<p><strong>Senses</strong> darkvision 60 ft., passive Perception 9</p>
+<p><strong>Challenge</strong> 1/4 (50 XP)</p>
+<hr class="stat-block-divider">
+<p><strong>Nimble Escape.</strong> The goblin can take the Disengage or Hide action as a bonus action.</p>
+<hr class="stat-block-divider">
+<h4>Actions</h4>
+<p><strong>Scimitar.</strong> <em>Melee Weapon Attack:</em> +4 to hit, reach 5 ft., one target.</p>
+</div>`;
+
+describe('htmlToMarkdown', () => {
+  it('converts headings, paragraphs and inline formatting', () => {
+    const html = '<h1>The Sunken Keep</h1><p>A <strong>dark</strong> place, <em>long </em>forgotten. <s>Gone</s>.</p>';
+    expect(htmlToMarkdown(html)).toBe('# The Sunken Keep\n\nA **dark** place, *long* forgotten. ~~Gone~~.\n');
+  });
+
+  it('converts nested lists and blockquotes', () => {
+    const html = '<ul><li><p>Rooms</p><ol><li><p>Hall</p></li><li><p>Crypt</p></li></ol></li><li><p>Traps</p></li></ul>'
+      + '<blockquote><p>Beware the dark.</p></blockquote>';
+    expect(htmlToMarkdown(html)).toBe('- Rooms\n  1. Hall\n  2. Crypt\n- Traps\n\n> Beware the dark.\n');
+  });
+
+  it('escapes text that would read as Markdown', () => {
+    expect(htmlToMarkdown('<p># not a heading *or* [link]</p><p>1. not a list</p>'))
+      .toBe('\\# not a heading \\*or\\* \\[link\\]\n\n1\\. not a list\n');
+  });
+
+  it('writes DM secrets as callouts', () => {
+    expect(htmlToMarkdown('<div data-dm-secret="true" class="dm-secret"><p>The mayor is a lich.</p></div>'))
+      .toBe('> [!dm-secret] DM Secret\n> The mayor is a lich.\n');
+  });
+
+  it('writes stat blocks as Fantasy Statblocks fences', () => {
+    const markdown = htmlToMarkdown(GOBLIN);
+    expect(markdown).toContain('```statblock\nname: "Goblin"\nsize: "Small"\ntype: "humanoid"\nsubtype: "goblinoid"\nalignment: "neutral evil"\n');
+    expect(markdown).toContain('ac: 15\nac_class: "Leather Armor, Shield"\nhp: 7\nhit_dice: "2d6"\n');
+    expect(markdown).toContain('skillsaves:\n  - stealth: 6\n');
+    expect(markdown).toContain('cr: "1/4"\nstats: [8, 14, 10, 10, 8, 8]\n');
+    expect(markdown).toContain('actions:\n  - name: "Scimitar"\n    desc: "*Melee Weapon Attack:* +4 to hit, reach 5 ft., one target."\n```');
+  });
+});
+
+describe('markdownToHTML', () => {
+  it('converts blocks and inline formatting', () => {
+    expect(markdownToHTML('## Loot\n\nA **+1** *longsword* and `10 gp`\nin a chest.\n\n---\n\n> Quoted'))
+      .toBe('<h2>Loot</h2><p>A <strong>+1</strong> <em>longsword</em> and <code>10 gp</code><br>in a chest.</p><hr><blockquote><p>Quoted</p></blockquote>');
+  });
+
+  it('converts nested and task lists', () => {
+    expect(markdownToHTML('- Rooms\n  1. Hall\n  2. Crypt\n- [x] Traps'))
+      .toBe('<ul><li><p>Rooms</p><ol><li><p>Hall</p></li><li><p>Crypt</p></li></ol></li><li><p>☑ Traps</p></li></ul>');
+  });
+
+  it('escapes HTML and drops unsafe links', () => {
+    expect(markdownToHTML('<script>alert(1)</script> [bad](javascript:void) [good](https://example.com)'))
+      .toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt; bad <a href="https://example.com">good</a></p>');
+  });
+
+  it('keeps the display text of wiki links', () => {
+    expect(markdownToHTML('Visit [[Neverwinter]] and [[Strahd von Zarovich|Strahd]].'))
+      .toBe('<p>Visit Neverwinter and Strahd.</p>');
+  });
+
+  it('turns dm-secret callouts into DM secret blocks', () => {
+    expect(markdownToHTML('> [!dm-secret] DM Secret\n> The mayor is a lich.'))
+      .toBe('<div data-dm-secret="true"><p>The mayor is a lich.</p></div>');
+  });
+
+  it('converts GFM tables', () => {
+    expect(markdownToHTML('| d6 | Result |\n| --- | --- |\n| 1 | Rats \\| bats |'))
+      .toBe('<table><tbody><tr><th>d6</th><th>Result</th></tr><tr><td>1</td><td>Rats | bats</td></tr></tbody></table>');
+  });
+
+  it('round-trips stat blocks', () => {
+    const html = markdownToHTML(htmlToMarkdown(GOBLIN));
+    expect(html).toContain('<h3 class="stat-block-name">Goblin</h3>');
+    expect(html).toContain('<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>');
+    expect(html).toContain('<p><strong>Armor Class</strong> 15 (Leather Armor, Shield)</p>');
+    expect(html).toContain('<p><strong>Skills</strong> Stealth +6</p>');
+    expect(html).toContain('<p><strong>Challenge</strong> 1/4 (50 XP)</p>');
+    expect(html).toContain('<td>14 (+2)</td>');
+    expect(html).toContain('<h4>Actions</h4><p><strong>Scimitar.</strong> <em>Melee Weapon Attack:</em> +4 to hit, reach 5 ft., one target.</p>');
+  });
+});
+
+describe('parseSimpleYaml', () => {
+  it('reads scalars, flow lists and lists of maps', () => {
+    expect(parseSimpleYaml('name: Owlbear\nstats: [20, 12, 17, 3, 12, 7]\nsaves:\n  - dexterity: 4\nactions:\n  - name: Beak\n    desc: "Hit: 10"\n')).toEqual({
+      name: 'Owlbear',
+      stats: [20, 12, 17, 3, 12, 7],
+      saves: [{ dexterity: 4 }],
+      actions: [{ name: 'Beak', desc: 'Hit: 10' }]
+    });
+  });
+});
+
+describe('Markdown documents', () => {
+  it('writes and reads title and tags as frontmatter', () => {
+    const markdown = toMarkdownDocument({ title: 'Session 3', content: '<p>Recap</p>', tags: ['recap', 'act 1'] });
+    expect(markdown).toBe('---\ntitle: "Session 3"\ntags:\n  - "recap"\n  - "act 1"\n---\n\nRecap\n');
+    expect(parseMarkdownDocument(markdown, 'fallback')).toEqual({
+      title: 'Session 3',
+      content: '<p>Recap</p>',
+      tags: ['recap', 'act 1']
+    });
+  });
+
+  it('takes the title from a leading heading, then the fallback', () => {
+    expect(parseMarkdownDocument('# The *Keep*\n\nText', 'keep')).toEqual({ title: 'The Keep', content: '<p>Text</p>', tags: [] });
+    expect(parseMarkdownDocument('Text', 'keep').title).toBe('keep');
+  });
+});
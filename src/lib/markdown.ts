@@ -0,0 +1,954 @@
+/**
+ * @fileoverview Markdown conversion
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Converts editor HTML to Markdown and back, for moving documents between the
+ * app and Markdown notes (Obsidian vaults in particular). Headings, lists,
+ * blockquotes, code, tables and bold/italic/strike map directly. DM secrets
+ * become `> [!dm-secret]` callouts, and stat blocks become ```statblock
+ * fences in the YAML layout of Obsidian's Fantasy Statblocks plugin.
+ */
+
+import {
+  escapeHTML,
+  getTextContent,
+  parseHTML,
+  type HtmlElementNode,
+  type HtmlNode
+} from './html-tree';
+import { DM_SECRET_ATTRIBUTE, isDmSecretElement } from './dm-secrets';
+import {
+  formatChallenge,
+  isStatBlockElement,
+  parseCreatureMeta,
+  parseStatBlock,
+  renderStatBlockHTML,
+  type StatBlock,
+  type StatBlockEntry
+} from './stat-block';
+import type { ImportedDocument } from '@/types/document';
+
+/**
+ * Value read from the YAML subset used in frontmatter and stat block fences
+ */
+export type YamlValue = string | number | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * Callout type used for DM secrets
+ */
+const DM_SECRET_CALLOUT = 'dm-secret';
+
+/**
+ * Rendered Markdown block; lists are kept tight inside list items
+ */
+interface MarkdownBlock {
+  text: string;
+  isList?: boolean;
+}
+
+/**
+ * Dialect hook for block elements: renders the element at `index`, possibly
+ * with the siblings after it, and says how many nodes it used. Returning null
+ * renders the element as standard Markdown.
+ */
+export type MarkdownBlockRenderer = (
+  nodes: HtmlNode[],
+  index: number,
+  render: {
+    blocks: (nodes: HtmlNode[]) => string;
+    inline: (nodes: HtmlNode[]) => string;
+  }
+) => { text: string; consumed: number } | null;
+
+/**
+ * Convert editor HTML to Markdown; dialects pass a block renderer to override
+ * how some blocks are written
+ */
+export function htmlToMarkdown(html: string, renderBlock?: MarkdownBlockRenderer): string {
+  return joinBlocks(renderBlocks(parseHTML(html), renderBlock));
+}
+
+/**
+ * Join top-level blocks with blank lines
+ */
+function joinBlocks(blocks: MarkdownBlock[]): string {
+  const text = blocks.map(block => block.text).join('\n\n').trim();
+  return text ? `${text}\n` : '';
+}
+
+/**
+ * Render a node list as Markdown blocks, grouping loose inline content into paragraphs
+ */
+function renderBlocks(nodes: HtmlNode[], renderBlock?: MarkdownBlockRenderer): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let inlineRun: HtmlNode[] = [];
+  const render = {
+    blocks: (children: HtmlNode[]) => joinBlocks(renderBlocks(children, renderBlock)).trimEnd(),
+    inline: (children: HtmlNode[]) => renderInline(children).trim()
+  };
+
+  const flushInline = () => {
+    const text = renderParagraph(inlineRun);
+    if (text) blocks.push({ text });
+    inlineRun = [];
+  };
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index]!;
+    if (node.type === 'text' || !isBlockElement(node)) {
+      inlineRun.push(node);
+      continue;
+    }
+    flushInline();
+
+    const custom = renderBlock?.(nodes, index, render);
+    if (custom) {
+      if (custom.text) blocks.push({ text: custom.text });
+      index += Math.max(custom.consumed, 1) - 1;
+    } else {
+      blocks.push(...renderBlockElement(node, renderBlock));
+    }
+  }
+  flushInline();
+
+  return blocks;
+}
+
+/**
+ * Elements rendered as Markdown blocks
+ */
+function isBlockElement(node: HtmlElementNode): boolean {
+  return /^(p|h[1-6]|ul|ol|li|blockquote|pre|hr|table|div|section|article|header|footer|aside|figure)$/.test(node.tag);
+}
+
+/**
+ * Render one block element
+ */
+function renderBlockElement(node: HtmlElementNode, renderBlock?: MarkdownBlockRenderer): MarkdownBlock[] {
+  if (isStatBlockElement(node)) {
+    return [{ text: renderStatBlockFence(parseStatBlock(node)) }];
+  }
+  if (isDmSecretElement(node)) {
+    const body = renderBlocks(node.children, renderBlock).map(block => block.text).join('\n\n');
+    return [{ text: quoteLines(`[!${DM_SECRET_CALLOUT}] DM Secret${body ? `\n${body}` : ''}`) }];
+  }
+
+  const heading = node.tag.match(/^h([1-6])$/);
+  if (heading) {
+    const text = renderInline(node.children).replace(/\n/g, ' ').trim();
+    return text ? [{ text: `${'#'.repeat(Number(heading[1]))} ${text}` }] : [];
+  }
+
+  switch (node.tag) {
+    case 'p': {
+      const text = renderParagraph(node.children);
+      return text ? [{ text }] : [];
+    }
+    case 'ul':
+    case 'ol':
+      return [{ text: renderList(node, renderBlock), isList: true }];
+    case 'li':
+      return renderBlocks(node.children, renderBlock);
+    case 'blockquote': {
+      const body = renderBlocks(node.children, renderBlock).map(block => block.text).join('\n\n');
+      return body ? [{ text: quoteLines(body) }] : [];
+    }
+    case 'pre':
+      return [{ text: renderCodeBlock(node) }];
+    case 'hr':
+      return [{ text: '---' }];
+    case 'table':
+      return [{ text: renderTable(node, renderBlock) }];
+    default:
+      return renderBlocks(node.children, renderBlock);
+  }
+}
+
+/**
+ * Prefix every line with a blockquote marker
+ */
+function quoteLines(text: string): string {
+  return text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+/**
+ * Render paragraph content, escaping text that would start a block
+ */
+function renderParagraph(nodes: HtmlNode[]): string {
+  return renderInline(nodes)
+    .replace(/(\\\n\s*)+$/, '')
+    .trim()
+    .split('\n')
+    .map(escapeLineStart)
+    .join('\n');
+}
+
+/**
+ * Escape markers that would turn a paragraph line into a heading, list or quote
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)(#|>|[-+](?=\s|$)|-(?=-+\s*$))/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+/**
+ * Render a list; nested lists are indented under their item
+ */
+function renderList(list: HtmlElementNode, renderBlock?: MarkdownBlockRenderer): string {
+  const ordered = list.tag === 'ol';
+  const start = ordered ? parseInt(list.attrs.start || '1', 10) || 1 : 1;
+  const items = list.children.filter(
+    (child): child is HtmlElementNode => child.type === 'element' && child.tag === 'li'
+  );
+
+  return items.map((item, index) => {
+    const marker = ordered ? `${start + index}.` : '-';
+    const indent = ' '.repeat(marker.length + 1);
+    const body = renderBlocks(item.children, renderBlock)
+      .map((block, blockIndex) => (blockIndex === 0 ? '' : block.isList ? '\n' : '\n\n') + block.text)
+      .join('');
+    const lines = body.split('\n').map((line, lineIndex) => (lineIndex === 0 || !line ? line : indent + line));
+    return `${marker} ${lines.join('\n')}`.trimEnd();
+  }).join('\n');
+}
+
+/**
+ * Render a code block as a fence long enough to hold its content
+ */
+function renderCodeBlock(pre: HtmlElementNode): string {
+  const code = pre.children.find(
+    (child): child is HtmlElementNode => child.type === 'element' && child.tag === 'code'
+  );
+  const language = (code?.attrs.class || '').match(/language-([\w-]+)/)?.[1] ?? '';
+  const text = getTextContent(code ?? pre).replace(/\n$/, '');
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * Render a table as a GFM table; the first row is the header
+ */
+function renderTable(table: HtmlElementNode, renderBlock?: MarkdownBlockRenderer): string {
+  const rows: string[][] = [];
+  const visit = (node: HtmlElementNode) => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue;
+      if (child.tag === 'tr') {
+        rows.push(child.children
+          .filter((cell): cell is HtmlElementNode => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+          .map(cell => renderTableCell(cell, renderBlock)));
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(table);
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(row => row.length));
+  const toLine = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = rows;
+
+  return [toLine(header!), toLine(Array(columns).fill('---')), ...body.map(toLine)].join('\n');
+}
+
+/**
+ * Render table cell content on one line
+ */
+function renderTableCell(cell: HtmlElementNode, renderBlock?: MarkdownBlockRenderer): string {
+  return renderBlocks(cell.children, renderBlock)
+    .map(block => block.text)
+    .join(' ')
+    .replace(/\\?\n/g, ' ')
+    .replace(/\|/g, '\\|')
+    .trim();
+}
+
+/**
+ * Render inline content
+ */
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return escapeMarkdown(node.text.replace(/\u00a0/g, ' ').replace(/\s*\n\s*/g, ' '));
+    }
+
+    const content = () => renderInline(node.children);
+    switch (node.tag) {
+      case 'strong':
+      case 'b':
+        return wrapInline('**', content());
+      case 'em':
+      case 'i':
+        return wrapInline('*', content());
+      case 's':
+      case 'strike':
+      case 'del':
+        return wrapInline('~~', content());
+      case 'mark':
+        return wrapInline('==', content());
+      case 'code':
+        return renderCodeSpan(getTextContent(node));
+      case 'br':
+        return '\\\n';
+      case 'a': {
+        const text = content();
+        return node.attrs.href ? `[${text}](${node.attrs.href.replace(/[()\s]/g, encodeURIComponent)})` : text;
+      }
+      case 'img':
+        return node.attrs.src ? `![${escapeMarkdown(node.attrs.alt || '')}](${node.attrs.src})` : '';
+      default:
+        return content();
+    }
+  }).join('');
+}
+
+/**
+ * Wrap content in an emphasis marker, keeping surrounding spaces outside it
+ */
+function wrapInline(marker: string, content: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  const [, leading = '', core = '', trailing = ''] = match ?? [];
+  return core ? `${leading}${marker}${core}${marker}${trailing}` : content;
+}
+
+/**
+ * Render a code span with a backtick run its content cannot close
+ */
+function renderCodeSpan(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${ticks}${padding}${code}${padding}${ticks}`;
+}
+
+/**
+ * Escape characters with inline Markdown meaning
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<~|])/g, '\\$1')
+    .replace(/([={])(?=\1)/g, '\\$1');
+}
+
+/**
+ * Stat block properties with a Fantasy Statblocks key, in display order
+ */
+const PROPERTY_KEYS: Array<[label: string, key: string]> = [
+  ['Armor Class', 'ac'],
+  ['Hit Points', 'hp'],
+  ['Speed', 'speed'],
+  ['Saving Throws', 'saves'],
+  ['Skills', 'skillsaves'],
+  ['Damage Vulnerabilities', 'damage_vulnerabilities'],
+  ['Damage Resistances', 'damage_resistances'],
+  ['Damage Immunities', 'damage_immunities'],
+  ['Condition Immunities', 'condition_immunities'],
+  ['Senses', 'senses'],
+  ['Languages', 'languages'],
+  ['Challenge', 'cr']
+];
+
+/**
+ * Stat block sections with a Fantasy Statblocks key
+ */
+const SECTION_KEYS: Array<[title: string, key: string]> = [
+  ['Actions', 'actions'],
+  ['Bonus Actions', 'bonus_actions'],
+  ['Reactions', 'reactions'],
+  ['Legendary Actions', 'legendary_actions'],
+  ['Lair Actions', 'lair_actions'],
+  ['Mythic Actions', 'mythic_actions']
+];
+
+/**
+ * Keys the stat block reader handles itself, or that only mean something to the plugin
+ */
+const RESERVED_KEYS = new Set([
+  'name', 'size', 'type', 'subtype', 'alignment', 'ac_class', 'hit_dice', 'stats', 'traits',
+  'layout', 'image', 'token', 'dice', 'render', 'columns', 'bestiary', 'extends'
+]);
+
+/**
+ * Ability names by the abbreviation used on saving throws
+ */
+const ABILITY_BY_ABBREVIATION: Record<string, string> = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma'
+};
+
+/**
+ * snake_case key for a label
+ */
+function toYamlKey(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Label for a snake_case key
+ */
+function fromYamlKey(key: string): string {
+  return key.split(/[_\s]+/).filter(Boolean).map(word => word[0]!.toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * YAML scalar; strings are always quoted so no value is misread
+ */
+function toYamlScalar(value: string | number): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+/**
+ * Split "Dex +4, Wis +2" into bonuses, or null when a part doesn't fit
+ */
+function parseBonusList(value: string): Array<[name: string, bonus: number]> | null {
+  const bonuses: Array<[string, number]> = [];
+  for (const part of value.split(',')) {
+    const match = part.trim().match(/^([A-Za-z][A-Za-z ]*?)\s*([+-]\d+)$/);
+    if (!match) return null;
+    bonuses.push([match[1]!, parseInt(match[2]!, 10)]);
+  }
+  return bonuses;
+}
+
+/**
+ * Write a stat block as a ```statblock fence
+ */
+function renderStatBlockFence(statBlock: StatBlock): string {
+  const lines = [`name: ${toYamlScalar(statBlock.name)}`];
+  const meta = parseCreatureMeta(statBlock.meta);
+  if (meta) {
+    lines.push(`size: ${toYamlScalar(meta.size)}`, `type: ${toYamlScalar(meta.type)}`);
+    if (meta.subtype) lines.push(`subtype: ${toYamlScalar(meta.subtype)}`);
+    lines.push(`alignment: ${toYamlScalar(meta.alignment)}`);
+  } else if (statBlock.meta) {
+    lines.push(`type: ${toYamlScalar(statBlock.meta)}`);
+  }
+
+  for (const { label, value } of statBlock.properties) {
+    const key = PROPERTY_KEYS.find(([known]) => known.toLowerCase() === label.toLowerCase())?.[1] ?? toYamlKey(label);
+    const detail = value.match(/^(\d+)\s*\((.+)\)$/);
+
+    if ((key === 'ac' || key === 'hp') && detail) {
+      lines.push(`${key}: ${detail[1]}`, `${key === 'ac' ? 'ac_class' : 'hit_dice'}: ${toYamlScalar(detail[2]!)}`);
+    } else if (key === 'cr') {
+      lines.push(`cr: ${toYamlScalar(value.replace(/\s*\([\d,]+ XP\)$/, ''))}`);
+    } else if ((key === 'saves' || key === 'skillsaves') && parseBonusList(value)) {
+      lines.push(`${key}:`, ...parseBonusList(value)!.map(([name, bonus]) => {
+        const field = key === 'saves' ? ABILITY_BY_ABBREVIATION[name.toLowerCase()] ?? name.toLowerCase() : name.toLowerCase();
+        return `  - ${field}: ${bonus}`;
+      }));
+    } else {
+      lines.push(`${key}: ${toYamlScalar(value)}`);
+    }
+  }
+
+  if (statBlock.abilities) {
+    lines.push(`stats: [${statBlock.abilities.join(', ')}]`);
+  }
+
+  const pushEntries = (key: string, entries: StatBlockEntry[]) => {
+    if (entries.length === 0) return;
+    lines.push(`${key}:`);
+    for (const entry of entries) {
+      const desc = `desc: ${toYamlScalar(renderInline(parseHTML(entry.description)).trim())}`;
+      lines.push(...(entry.name ? [`  - name: ${toYamlScalar(entry.name)}`, `    ${desc}`] : [`  - ${desc}`]));
+    }
+  };
+  pushEntries('traits', statBlock.traits);
+  for (const section of statBlock.sections) {
+    const key = SECTION_KEYS.find(([title]) => title.toLowerCase() === section.title.toLowerCase())?.[1];
+    pushEntries(key ?? toYamlKey(section.title), section.entries);
+  }
+
+  return ['```statblock', ...lines, '```'].join('\n');
+}
+
+/**
+ * Read one YAML scalar or flow sequence
+ */
+function parseYamlScalar(raw: string): YamlValue {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.replace(/^"|"$/g, '');
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const items = value.slice(1, -1).match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^,]+/g) ?? [];
+    return items.map(item => parseYamlScalar(item)).filter(item => item !== '');
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Read the YAML subset Markdown notes use for frontmatter and stat blocks:
+ * top-level keys with scalars, flow sequences, or block sequences of scalars
+ * and one-level maps. Plain scalars may continue on indented lines.
+ */
+export function parseSimpleYaml(source: string): Record<string, YamlValue> {
+  const result: Record<string, YamlValue> = {};
+  const keyValue = /^([A-Za-z_][\w ]*?)\s*:(?:\s+(.*))?$/;
+  let list: YamlValue[] | null = null;
+  let item: Record<string, YamlValue> | null = null;
+  let last: { target: Record<string, YamlValue> | YamlValue[]; key: string | number } | null = null;
+
+  for (const line of source.split(/\r?\n/)) {
+    const text = line.trim();
+    if (!text || text.startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0 && !text.startsWith('-')) {
+      const match = text.match(keyValue);
+      item = null;
+      if (!match) {
+        last = null;
+        continue;
+      }
+      if (match[2]?.trim()) {
+        result[match[1]!] = parseYamlScalar(match[2]);
+        list = null;
+        last = { target: result, key: match[1]! };
+      } else {
+        list = [];
+        result[match[1]!] = list;
+        last = null;
+      }
+    } else if (list && /^-(\s|$)/.test(text)) {
+      const rest = text.slice(1).trim();
+      const match = rest.match(keyValue);
+      if (match) {
+        item = { [match[1]!]: parseYamlScalar(match[2] ?? '') };
+        list.push(item);
+        last = { target: item, key: match[1]! };
+      } else {
+        item = null;
+        list.push(parseYamlScalar(rest));
+        last = { target: list, key: list.length - 1 };
+      }
+    } else {
+      const match = text.match(keyValue);
+      if (match && item) {
+        item[match[1]!] = parseYamlScalar(match[2] ?? '');
+        last = { target: item, key: match[1]! };
+      } else if (last) {
+        // Continuation of a plain multi-line scalar
+        const target = last.target as Record<string | number, YamlValue>;
+        target[last.key] = `${yamlString(target[last.key])} ${text}`.trim();
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A YAML value as text; lists and maps read as empty
+ */
+function yamlString(value: YamlValue | undefined): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+}
+
+/**
+ * Build a stat block from Fantasy Statblocks YAML
+ */
+function statBlockFromYaml(data: Record<string, YamlValue>): StatBlock {
+  const text = (key: string) => yamlString(data[key]).trim();
+  const size = text('size');
+  const type = text('type');
+  const subtype = text('subtype');
+  const alignment = text('alignment');
+  const meta = size && alignment
+    ? `${size} ${type}${subtype ? ` (${subtype})` : ''}, ${alignment}`
+    : [size, type, alignment].filter(Boolean).join(' ');
+
+  const statBlock: StatBlock = { name: text('name'), meta, properties: [], abilities: null, traits: [], sections: [] };
+
+  const toBonusList = (key: string, value: YamlValue) => {
+    if (!Array.isArray(value)) return yamlString(value);
+    return value.flatMap(entry => {
+      if (typeof entry !== 'object' || Array.isArray(entry)) return [yamlString(entry)];
+      return Object.entries(entry).map(([name, bonus]) => {
+        const label = key === 'saves'
+          ? fromYamlKey(Object.keys(ABILITY_BY_ABBREVIATION).find(abbr => ABILITY_BY_ABBREVIATION[abbr] === name.toLowerCase()) ?? name)
+          : fromYamlKey(name);
+        const amount = Number(bonus);
+        return Number.isFinite(amount) ? `${label} ${amount >= 0 ? '+' : ''}${amount}` : `${label} ${yamlString(bonus)}`;
+      });
+    }).filter(Boolean).join(', ');
+  };
+
+  const propertyValue = (key: string): string => {
+    const value = data[key];
+    if (value === undefined) return '';
+    switch (key) {
+      case 'ac':
+        return text('ac_class') ? `${text('ac')} (${text('ac_class')})` : text('ac');
+      case 'hp':
+        return text('hit_dice') ? `${text('hp')} (${text('hit_dice')})` : text('hp');
+      case 'cr':
+        return formatChallenge(text('cr'));
+      case 'saves':
+      case 'skillsaves':
+        return toBonusList(key, value);
+      default:
+        return yamlString(value).trim();
+    }
+  };
+
+  const sectionKeys = new Set(SECTION_KEYS.map(([, key]) => key));
+  const isEntryList = (value: YamlValue) =>
+    Array.isArray(value) && value.some(entry => typeof entry === 'object' && !Array.isArray(entry) && ('name' in entry || 'desc' in entry));
+
+  for (const [label, key] of PROPERTY_KEYS) {
+    const value = propertyValue(key);
+    if (value) statBlock.properties.push({ label, value });
+  }
+  for (const [key, value] of Object.entries(data)) {
+    if (RESERVED_KEYS.has(key) || PROPERTY_KEYS.some(([, known]) => known === key) || sectionKeys.has(key)) continue;
+    if (isEntryList(value)) continue;
+    const scalar = yamlString(value).trim();
+    if (scalar) statBlock.properties.push({ label: fromYamlKey(key), value: scalar });
+  }
+
+  const stats = data.stats;
+  if (Array.isArray(stats) && stats.length === 6 && stats.every(score => Number.isFinite(Number(score)))) {
+    statBlock.abilities = stats.map(Number);
+  }
+
+  const toEntries = (value: YamlValue | undefined): StatBlockEntry[] => {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(entry => {
+      if (typeof entry !== 'object' || Array.isArray(entry)) return [];
+      const name = yamlString(entry.name).trim();
+      const description = inlineMarkdownToHTML(yamlString(entry.desc).trim());
+      return name || description ? [{ name, description }] : [];
+    });
+  };
+
+  statBlock.traits = toEntries(data.traits);
+  for (const [title, key] of SECTION_KEYS) {
+    const entries = toEntries(data[key]);
+    if (entries.length) statBlock.sections.push({ title, entries });
+  }
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'traits' || sectionKeys.has(key) || !isEntryList(value)) continue;
+    statBlock.sections.push({ title: fromYamlKey(key), entries: toEntries(value) });
+  }
+
+  return statBlock;
+}
+
+/**
+ * Line patterns for the Markdown blocks markdownToHTML understands
+ */
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})\s*([\w-]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^\s{0,3}>/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_DIVIDER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Convert Markdown to editor HTML
+ *
+ * Text is escaped and links are limited to web, mail and relative URLs, so the
+ * result is safe to load into the editor.
+ */
+export function markdownToHTML(markdown: string): string {
+  return renderMarkdownBlocks(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+/**
+ * Whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string, next: string | undefined): boolean {
+  return FENCE_PATTERN.test(line)
+    || HEADING_PATTERN.test(line)
+    || RULE_PATTERN.test(line)
+    || QUOTE_PATTERN.test(line)
+    || /^\s*([-*+]|1[.)])\s+\S/.test(line)
+    || (line.includes('|') && next !== undefined && TABLE_DIVIDER_PATTERN.test(next));
+}
+
+/**
+ * Render lines of Markdown as HTML blocks
+ */
+function renderMarkdownBlocks(lines: string[]): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code, or a stat block
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const closing = new RegExp(`^\\s{0,3}${fence[1]![0] === '`' ? '`' : '~'}{${fence[1]!.length},}\\s*$`);
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i]!)) body.push(lines[i++]!);
+      i++;
+
+      const language = fence[2]!.toLowerCase();
+      if (language === 'statblock') {
+        html.push(renderStatBlockHTML(statBlockFromYaml(parseSimpleYaml(body.join('\n')))));
+      } else {
+        const className = language ? ` class="language-${escapeHTML(language)}"` : '';
+        html.push(`<pre><code${className}>${escapeHTML(body.join('\n'))}</code></pre>`);
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1]!.length;
+      html.push(`<h${level}>${inlineMarkdownToHTML(heading[2] ?? '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // Blockquotes and callouts
+    if (QUOTE_PATTERN.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i]!)) {
+        body.push(lines[i++]!.replace(/^\s{0,3}>\s?/, ''));
+      }
+      html.push(renderQuote(body));
+      continue;
+    }
+
+    // Tables
+    if (line.includes('|') && TABLE_DIVIDER_PATTERN.test(lines[i + 1] ?? '')) {
+      const rows = [line];
+      i += 2;
+      while (i < lines.length && lines[i]!.includes('|') && lines[i]!.trim()) rows.push(lines[i++]!);
+      html.push(renderMarkdownTable(rows));
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = readList(lines, i);
+      html.push(list.html);
+      i = list.end;
+      continue;
+    }
+
+    // Paragraph
+    const paragraph = [line];
+    i++;
+    while (i < lines.length && lines[i]!.trim() && !startsBlock(lines[i]!, lines[i + 1])) {
+      paragraph.push(lines[i++]!);
+    }
+    html.push(`<p>${inlineMarkdownToHTML(paragraph.map(l => l.trim()).join('\n'))}</p>`);
+  }
+
+  return html.join('');
+}
+
+/**
+ * Render a blockquote; `[!dm-secret]` callouts become DM secret blocks
+ */
+function renderQuote(body: string[]): string {
+  const callout = body[0]?.match(/^\[!([\w-]+)\][+-]?\s*(.*)$/);
+  if (!callout) {
+    return `<blockquote>${renderMarkdownBlocks(body)}</blockquote>`;
+  }
+
+  const type = callout[1]!.toLowerCase();
+  const content = renderMarkdownBlocks(body.slice(1));
+  if (type === DM_SECRET_CALLOUT || type === 'secret') {
+    return `<div ${DM_SECRET_ATTRIBUTE}="true">${content || '<p></p>'}</div>`;
+  }
+
+  // Other callouts keep their title as a bold first line
+  const title = callout[2]?.trim() || fromYamlKey(type);
+  return `<blockquote><p><strong>${inlineMarkdownToHTML(title)}</strong></p>${content}</blockquote>`;
+}
+
+/**
+ * Split a table row into cells, honoring escaped pipes
+ */
+function splitTableRow(row: string): string[] {
+  const cells = row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Render GFM table rows; the first row is the header
+ */
+function renderMarkdownTable(rows: string[]): string {
+  const [header, ...body] = rows.map(splitTableRow);
+  const cells = (row: string[], tag: 'th' | 'td') =>
+    row.map(cell => `<${tag}>${inlineMarkdownToHTML(cell)}</${tag}>`).join('');
+  return `<table><tbody><tr>${cells(header!, 'th')}</tr>${body.map(row => `<tr>${cells(row, 'td')}</tr>`).join('')}</tbody></table>`;
+}
+
+/**
+ * Read a list starting at a line, with nested content
+ */
+function readList(lines: string[], start: number): { html: string; end: number } {
+  const first = lines[start]!.match(LIST_ITEM_PATTERN)!;
+  const baseIndent = first[1]!.length;
+  const ordered = /\d/.test(first[2]!);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const item = line.match(LIST_ITEM_PATTERN);
+    const indent = line.length - line.trimStart().length;
+
+    if (item && item[1]!.length === baseIndent && /\d/.test(item[2]!) === ordered) {
+      contentIndent = baseIndent + item[2]!.length + Math.max(1, Math.min(item[3]!.length, 4));
+      items.push([item[4]!]);
+    } else if (!line.trim()) {
+      // Blank lines belong to the item only if it continues afterwards
+      const next = lines[i + 1];
+      if (next === undefined || !next.trim() || next.length - next.trimStart().length < contentIndent) break;
+      items[items.length - 1]!.push('');
+    } else if (indent >= contentIndent || indent > baseIndent) {
+      items[items.length - 1]!.push(line.slice(Math.min(indent, contentIndent)));
+    } else if (!item && !startsBlock(line, lines[i + 1]) && lines[i - 1]?.trim()) {
+      // Lazy continuation of the item's paragraph
+      items[items.length - 1]!.push(line.trim());
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  const startNumber = ordered ? parseInt(first[2]!, 10) : 1;
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttribute = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+  const html = items.map(itemLines => {
+    // Task list items keep their checkbox as text
+    const [head = '', ...rest] = itemLines;
+    const task = head.match(/^\[([ xX])\]\s+(.*)$/);
+    const content = task ? [`${task[1] === ' ' ? '☐' : '☑'} ${task[2]}`, ...rest] : itemLines;
+    return `<li>${renderMarkdownBlocks(content) || '<p></p>'}</li>`;
+  }).join('');
+
+  return { html: `<${tag}${startAttribute}>${html}</${tag}>`, end: i };
+}
+
+/**
+ * Whether a link target is safe to keep
+ */
+function isSafeHref(href: string): boolean {
+  const scheme = href.trim().match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+  return !scheme || /^(https?|mailto)$/i.test(scheme);
+}
+
+/**
+ * Convert inline Markdown to HTML
+ */
+function inlineMarkdownToHTML(markdown: string): string {
+  const placeholders: string[] = [];
+  const hold = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+
+  let text = markdown
+    // Code spans and backslash escapes are taken literally
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks: string, code: string) =>
+      hold(`<code>${escapeHTML(code.replace(/^ ([\s\S]*) $/, '$1'))}</code>`))
+    .replace(/\\([!-/:-@[-`{-~])/g, (_, char: string) => hold(escapeHTML(char)))
+    // Autolinks
+    .replace(/<((?:https?:|mailto:)[^\s<>]+)>/gi, (_, url: string) =>
+      hold(`<a href="${escapeHTML(url)}">${escapeHTML(url)}</a>`));
+
+  text = escapeHTML(text)
+    // Obsidian wiki links and embeds keep their display text
+    .replace(/!?\[\[([^\]|#]*)(#[^\]|]*)?(?:\|([^\]]+))?\]\]/g, (_, page: string, section: string | undefined, alias: string | undefined) =>
+      alias ?? (page || (section ?? '').slice(1)))
+    // Images become links to the image
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (match, alt: string, src: string) =>
+      isSafeHref(src) ? `<a href="${src}">${alt || src}</a>` : alt)
+    .replace(/\[([^\]]+)\]\(([^)\s]*)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, label: string, href: string) =>
+      href && isSafeHref(href) ? `<a href="${href}">${label}</a>` : label)
+    .replace(/(\*\*\*|___)(?=\S)([\s\S]*?\S)\1/g, '<strong><em>$2</em></strong>')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/==(?=\S)([\s\S]*?\S)==/g, '<mark>$1</mark>')
+    // Every line break is kept, as Obsidian shows them
+    .replace(/(?: {2,}|\\)?\n/g, '<br>');
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_, index: string) => placeholders[Number(index)]!);
+}
+
+/**
+ * Write a document as a Markdown note, with its title and tags as frontmatter
+ */
+export function toMarkdownDocument(document: { title: string; content: string; tags?: string[] }): string {
+  const frontmatter = [`title: ${toYamlScalar(document.title)}`];
+  if (document.tags?.length) {
+    frontmatter.push('tags:', ...document.tags.map(tag => `  - ${toYamlScalar(tag)}`));
+  }
+  return `---\n${frontmatter.join('\n')}\n---\n\n${htmlToMarkdown(document.content)}`;
+}
+
+/**
+ * Read a Markdown note
+ *
+ * The title comes from frontmatter, then a leading `# Heading` (which is
+ * removed from the content), then the fallback (usually the file name).
+ */
+export function parseMarkdownDocument(markdown: string, fallbackTitle: string): ImportedDocument {
+  let body = markdown.replace(/^\ufeff/, '');
+  let properties: Record<string, YamlValue> = {};
+
+  const frontmatter = body.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (frontmatter) {
+    properties = parseSimpleYaml(frontmatter[1]!);
+    body = body.slice(frontmatter[0].length);
+  }
+
+  let title = yamlString(properties.title).trim();
+  if (!title) {
+    const heading = body.match(/^\s*#\s+(.+?)\s*#*\s*(?:\n|$)/);
+    if (heading) {
+      title = getTextContent(parseHTML(inlineMarkdownToHTML(heading[1]!))).trim();
+      body = body.slice(heading[0].length);
+    }
+  }
+
+  const rawTags = properties.tags;
+  const tags = (Array.isArray(rawTags) ? rawTags.map(yamlString) : yamlString(rawTags).split(/[,\s]+/))
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(Boolean);
+
+  return {
+    title: title || fallbackTitle,
+    content: markdownToHTML(body),
+    tags
+  };
+}
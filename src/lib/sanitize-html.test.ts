@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Vitest tests for the HTML sanitizer
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sanitizeHTML } from './sanitize-html';
+
+describe('HTML sanitizer', () => {
+  it('should drop scripts, event handlers and unsafe links', () => {
+    const html = sanitizeHTML(
+      '<p onclick="steal()">Hi <a href="javascript:alert(1)">there</a></p><script>alert(1)</script>'
+    );
+
+    expect(html).toBe('<p>Hi <a>there</a></p>');
+  });
+
+  it('should keep safe links and open them in a new tab', () => {
+    expect(sanitizeHTML('<a href="https://dndbeyond.com">Rules</a>')).toBe(
+      '<a href="https://dndbeyond.com" rel="noopener noreferrer nofollow" target="_blank">Rules</a>'
+    );
+  });
+
+  it('should unwrap grammar highlights but keep their text', () => {
+    const html = sanitizeHTML(
+      '<p>The <span class="grammar-error grammar-error-spelling" data-error-id="e1" title="Spelling">goblin</span> laughs.</p>'
+    );
+
+    expect(html).toBe('<p>The goblin laughs.</p>');
+  });
+
+  it('should keep stat blocks and text alignment', () => {
+    const html = sanitizeHTML(
+      '<div class="stat-block"><h3 class="stat-block-name">Goblin</h3></div><p style="text-align: center">Fin</p><p style="position: fixed">x</p>'
+    );
+
+    expect(html).toBe(
+      '<div class="stat-block"><h3 class="stat-block-name">Goblin</h3></div><p style="text-align: center">Fin</p><p>x</p>'
+    );
+  });
+
+  it('should drop elements matched by removeElement', () => {
+    const html = sanitizeHTML('<p>Public</p><div data-secret="true"><p>Hidden</p></div>', {
+      removeElement: node => node.attrs['data-secret'] === 'true'
+    });
+
+    expect(html).toBe('<p>Public</p>');
+  });
+
+  it('should keep invalid numeric entities as literal text', () => {
+    expect(sanitizeHTML('<p>&#99999999; &#xD800; &#0; &#65;</p>')).toBe(
+      '<p>&amp;#99999999; &amp;#xD800; &amp;#0; A</p>'
+    );
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview HTML sanitizer for published documents
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Allowlist-based cleanup of editor HTML before it is shown to people outside
+ * the app (player view links). Removes scripts, event handlers and unsafe URLs,
+ * and unwraps editor-only markup such as grammar highlights.
+ */
+
+import { parseHTML, serializeHTML, hasClass, type HtmlNode, type HtmlElementNode } from './html-tree';
+
+/**
+ * Elements kept in sanitized output
+ */
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'i', 'img', 'li', 'ol', 'p', 'pre', 's', 'span', 'strike', 'strong', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+/**
+ * Elements removed together with their content
+ */
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'form', 'input', 'button', 'textarea',
+  'select', 'template', 'noscript', 'link', 'meta', 'base', 'svg', 'math'
+]);
+
+/**
+ * Attributes allowed on any element, plus per-element extras
+ */
+const GLOBAL_ATTRIBUTES = new Set(['class', 'style', 'colspan', 'rowspan']);
+const ELEMENT_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'title']),
+  img: new Set(['src', 'alt', 'title', 'width', 'height']),
+  ol: new Set(['start'])
+};
+
+/**
+ * Classes that only mean something inside the editor
+ */
+const EDITOR_ONLY_CLASSES = ['grammar-error', 'comment-highlight'];
+
+/**
+ * Inline styles we keep (text alignment from TipTap's TextAlign extension)
+ */
+const ALLOWED_STYLE_PATTERN = /^\s*text-align\s*:\s*(left|right|center|justify)\s*;?\s*$/i;
+
+/**
+ * Whether a URL is safe to link to or load
+ */
+function isSafeUrl(url: string, allowDataImages: boolean): boolean {
+  const trimmed = url.trim().toLowerCase().replace(/[\s\u0000-\u001f]/g, '');
+  if (trimmed.startsWith('data:')) {
+    return allowDataImages && /^data:image\/(png|jpe?g|gif|webp);/.test(trimmed);
+  }
+  if (/^[a-z][a-z0-9+.-]*:/.test(trimmed)) {
+    return /^(https?|mailto):/.test(trimmed);
+  }
+  return true; // Relative URL or fragment
+}
+
+/**
+ * Clean an element's attributes
+ */
+function sanitizeAttributes(node: HtmlElementNode): Record<string, string> {
+  const allowed = ELEMENT_ATTRIBUTES[node.tag];
+  const attrs: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(node.attrs)) {
+    if (!GLOBAL_ATTRIBUTES.has(name) && !allowed?.has(name)) continue;
+
+    if (name === 'href' && !isSafeUrl(value, false)) continue;
+    if (name === 'src' && !isSafeUrl(value, true)) continue;
+    if (name === 'style' && !ALLOWED_STYLE_PATTERN.test(value)) continue;
+
+    attrs[name] = value;
+  }
+
+  if (node.tag === 'a' && attrs.href) {
+    attrs.rel = 'noopener noreferrer nofollow';
+    attrs.target = '_blank';
+  }
+
+  return attrs;
+}
+
+/**
+ * Options for sanitizeHTML
+ */
+export interface SanitizeOptions {
+  /**
+   * Return true to drop an element and its content entirely
+   * (e.g. DM-only secrets in player handouts)
+   */
+  removeElement?: (node: HtmlElementNode) => boolean;
+}
+
+/**
+ * Sanitize a node list
+ */
+export function sanitizeNodes(nodes: HtmlNode[], options: SanitizeOptions = {}): HtmlNode[] {
+  const result: HtmlNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      result.push(node);
+      continue;
+    }
+
+    if (DROPPED_TAGS.has(node.tag) || options.removeElement?.(node)) {
+      continue;
+    }
+
+    const children = sanitizeNodes(node.children, options);
+
+    // Unwrap unknown elements and editor-only highlights, keeping their text
+    if (!ALLOWED_TAGS.has(node.tag) || EDITOR_ONLY_CLASSES.some(className => hasClass(node, className))) {
+      result.push(...children);
+      continue;
+    }
+
+    result.push({ type: 'element', tag: node.tag, attrs: sanitizeAttributes(node), children });
+  }
+
+  return result;
+}
+
+/**
+ * Sanitize document HTML for display outside the editor
+ *
+ * @param html - Editor HTML
+ * @param options - Extra removal rules
+ * @returns Safe HTML
+ */
+export function sanitizeHTML(html: string, options: SanitizeOptions = {}): string {
+  return serializeHTML(sanitizeNodes(parseHTML(html), options));
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Vitest tests for the full-text search index
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, createSearchIndexEntry, parseSearchQuery } from './search-index';
+
+const makeEntry = (id: string, title: string, content: string) =>
+  createSearchIndexEntry({ id, userId: 'dm-1', title, content, updatedAt: new Date('2024-05-01') });
+
+const index = createSearchIndex([
+  makeEntry('lich', 'Curse of the Lich', [
+    '<h2>The Black Tower</h2>',
+    '<p></p>',
+    '<p>The lich waits at the top of the black tower.</p>',
+    '<p>Its phylactery is hidden beneath the well of Lúthien.</p>'
+  ].join('')),
+  makeEntry('tavern', 'Session 1', '<p>The party meets in a tavern near the tower. A black cat watches.</p>'),
+  makeEntry('dragon', 'Dragon Lair', '<p>The half-orc guide knows the way.</p>')
+]);
+
+describe('Full-text search', () => {
+  it('should parse phrases, prefixes and hyphenated words', () => {
+    expect(parseSearchQuery('"black tower" phylac* half-orc')).toEqual([
+      { terms: ['black', 'tower'], isPhrase: true, isPrefix: false },
+      { terms: ['phylac'], isPhrase: false, isPrefix: true },
+      { terms: ['half', 'orc'], isPhrase: true, isPrefix: false }
+    ]);
+  });
+
+  it('should require every word and rank documents with more matches first', () => {
+    expect(index.search('tower').map(hit => hit.documentId)).toEqual(['lich', 'tavern']);
+    expect(index.search('tower cat').map(hit => hit.documentId)).toEqual(['tavern']);
+    expect(index.search('tower wizard')).toEqual([]);
+  });
+
+  it('should match phrases only when the words are adjacent', () => {
+    const hits = index.search('"black tower"');
+    expect(hits.map(hit => hit.documentId)).toEqual(['lich']);
+    expect(hits[0]!.matchedText).toBe('Black Tower');
+  });
+
+  it('should expand prefixes and fold accents', () => {
+    expect(index.search('phylac*').map(hit => hit.documentId)).toEqual(['lich']);
+    expect(index.search('luthien').map(hit => hit.documentId)).toEqual(['lich']);
+    expect(index.search('half-orc').map(hit => hit.documentId)).toEqual(['dragon']);
+  });
+
+  it('should point at the best paragraph with a highlighted snippet', () => {
+    const [hit] = index.search('lich tower');
+    expect(hit!.paragraphIndex).toBe(2);
+    expect(hit!.snippet.filter(segment => segment.isMatch).map(segment => segment.text)).toEqual(['lich', 'tower']);
+    expect(hit!.snippet.map(segment => segment.text).join('')).toBe('The lich waits at the top of the black tower.');
+  });
+
+  it('should find title-only matches and forget removed documents', () => {
+    const [hit] = index.search('session');
+    expect(hit).toMatchObject({ documentId: 'tavern', paragraphIndex: null });
+
+    index.remove('tavern');
+    expect(index.search('session')).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+});
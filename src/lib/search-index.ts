@@ -0,0 +1,410 @@
+/**
+ * @fileoverview Full-text search index for document bodies
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Each document is stored as an entry holding the plain text of its top-level
+ * blocks and the token positions of every term. Entries are combined into an
+ * in-memory inverted index (term -> documents) for queries:
+ *
+ *   lich tower      both words, anywhere in the document
+ *   "black tower"   the exact phrase, within one paragraph
+ *   phylac*         any word starting with "phylac"
+ *
+ * Terms are lowercased with accents folded, so "Æsir" and "aesir" differ
+ * but "Lúthien" matches "luthien".
+ */
+
+import { parseHTML, serializeHTML } from './html-tree';
+import { extractPlainTextFromHTML } from './utils';
+
+/**
+ * Characters of context shown around the first match in a snippet
+ */
+const SNIPPET_CONTEXT = 60;
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Extra weight for query clauses found in the title
+ */
+const TITLE_BOOST = 2;
+
+/**
+ * Indexed form of one document
+ */
+export interface SearchIndexEntry {
+  id: string; // Document ID
+  userId: string;
+  title: string;
+  updatedAt: number;
+  paragraphs: string[]; // Plain text of each top-level block, empty ones included
+  paragraphStarts: number[]; // Position of the first token of each paragraph
+  titleTerms: string[];
+  postings: Record<string, number[]>; // Term -> token positions across all paragraphs
+}
+
+/**
+ * Word in a piece of text
+ */
+export interface SearchToken {
+  term: string; // Normalized form
+  start: number;
+  end: number;
+}
+
+/**
+ * Part of a query: one word, or a quoted phrase. The last word may be a prefix.
+ */
+export interface SearchClause {
+  terms: string[];
+  isPhrase: boolean;
+  isPrefix: boolean;
+}
+
+/**
+ * Piece of a result snippet
+ */
+export interface SearchSnippetSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+/**
+ * Document matching a query
+ */
+export interface SearchHit {
+  documentId: string;
+  title: string;
+  score: number;
+  matchCount: number;
+  paragraphIndex: number | null; // Block holding the best match; null for title-only hits
+  matchedText: string; // First matched words, as written
+  snippet: SearchSnippetSegment[];
+}
+
+/**
+ * Lowercase a word and fold accents
+ */
+function normalizeTerm(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/’/g, "'");
+}
+
+/**
+ * Split text into normalized words with their offsets
+ */
+export function tokenizeForSearch(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)) {
+    tokens.push({
+      term: normalizeTerm(match[0]),
+      start: match.index!,
+      end: match.index! + match[0].length
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Plain text of each top-level block of an HTML document
+ *
+ * Empty blocks are kept so indexes line up with the editor's top-level nodes.
+ */
+function extractParagraphs(html: string): string[] {
+  return parseHTML(html)
+    .filter(node => node.type === 'element' || node.text.trim().length > 0)
+    .map(node => node.type === 'text' ? node.text : extractPlainTextFromHTML(serializeHTML([node])))
+    .map(text => text.replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Build the index entry for a document
+ */
+export function createSearchIndexEntry(document: {
+  id: string;
+  userId: string;
+  title: string;
+  content: string;
+  updatedAt: Date;
+}): SearchIndexEntry {
+  const paragraphs = extractParagraphs(document.content || '');
+  const paragraphStarts: number[] = [];
+  const postings: Record<string, number[]> = {};
+  let position = 0;
+
+  paragraphs.forEach(paragraph => {
+    paragraphStarts.push(position);
+    tokenizeForSearch(paragraph).forEach(({ term }) => {
+      (postings[term] ??= []).push(position++);
+    });
+  });
+
+  return {
+    id: document.id,
+    userId: document.userId,
+    title: document.title,
+    updatedAt: document.updatedAt.getTime(),
+    paragraphs,
+    paragraphStarts,
+    titleTerms: Array.from(new Set(tokenizeForSearch(document.title).map(token => token.term))),
+    postings
+  };
+}
+
+/**
+ * Parse a search query into clauses, all of which must match
+ */
+export function parseSearchQuery(searchQuery: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+
+  for (const match of searchQuery.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const isQuoted = match[1] !== undefined;
+    const raw = (isQuoted ? match[1] : match[2]) ?? '';
+    const isPrefix = !isQuoted && raw.endsWith('*');
+    const terms = tokenizeForSearch(raw).map(token => token.term);
+    if (terms.length === 0) continue;
+
+    // Hyphenated words like "half-orc" are searched as phrases
+    clauses.push({ terms, isPhrase: terms.length > 1, isPrefix });
+  }
+
+  return clauses;
+}
+
+/**
+ * Paragraph holding a token position
+ */
+function findParagraph(entry: SearchIndexEntry, position: number): number {
+  let low = 0;
+  let high = entry.paragraphStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (entry.paragraphStarts[mid]! <= position) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Snippet around the matched tokens of a paragraph
+ */
+function buildSnippet(paragraph: string, matchedTokenIndexes: Set<number>): SearchSnippetSegment[] {
+  const tokens = tokenizeForSearch(paragraph);
+  const matched = tokens.filter((_, index) => matchedTokenIndexes.has(index));
+  const first = matched[0];
+
+  let start = first ? Math.max(0, first.start - SNIPPET_CONTEXT) : 0;
+  if (start > 0) {
+    const wordStart = paragraph.indexOf(' ', start);
+    start = wordStart >= 0 && wordStart < (first?.start ?? 0) ? wordStart + 1 : start;
+  }
+  let end = Math.min(paragraph.length, start + SNIPPET_LENGTH);
+  if (end < paragraph.length) {
+    const wordEnd = paragraph.lastIndexOf(' ', end);
+    end = wordEnd > start ? wordEnd : end;
+  }
+
+  const segments: SearchSnippetSegment[] = [];
+  let cursor = start;
+  if (start > 0) segments.push({ text: '…', isMatch: false });
+
+  matched
+    .filter(token => token.start >= start && token.end <= end)
+    .forEach(token => {
+      if (token.start > cursor) {
+        segments.push({ text: paragraph.slice(cursor, token.start), isMatch: false });
+      }
+      segments.push({ text: paragraph.slice(token.start, token.end), isMatch: true });
+      cursor = token.end;
+    });
+
+  if (end > cursor) segments.push({ text: paragraph.slice(cursor, end), isMatch: false });
+  if (end < paragraph.length) segments.push({ text: '…', isMatch: false });
+  return segments;
+}
+
+/**
+ * In-memory inverted index over a user's entries
+ */
+export function createSearchIndex(initialEntries: SearchIndexEntry[] = []) {
+  const entries = new Map<string, SearchIndexEntry>();
+  const termDocuments = new Map<string, Set<string>>();
+  let sortedTerms: string[] | null = null; // Rebuilt lazily for prefix lookups
+
+  const entryTerms = (entry: SearchIndexEntry) => [...Object.keys(entry.postings), ...entry.titleTerms];
+
+  const remove = (documentId: string) => {
+    const entry = entries.get(documentId);
+    if (!entry) return;
+
+    entryTerms(entry).forEach(term => {
+      const documents = termDocuments.get(term);
+      documents?.delete(documentId);
+      if (documents?.size === 0) termDocuments.delete(term);
+    });
+    entries.delete(documentId);
+    sortedTerms = null;
+  };
+
+  const add = (entry: SearchIndexEntry) => {
+    remove(entry.id);
+    entries.set(entry.id, entry);
+    entryTerms(entry).forEach(term => {
+      let documents = termDocuments.get(term);
+      if (!documents) {
+        documents = new Set();
+        termDocuments.set(term, documents);
+      }
+      documents.add(entry.id);
+    });
+    sortedTerms = null;
+  };
+
+  /**
+   * Indexed terms starting with a prefix
+   */
+  const expandPrefix = (prefix: string): string[] => {
+    sortedTerms ??= Array.from(termDocuments.keys()).sort();
+
+    let low = 0;
+    let high = sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sortedTerms[mid]! < prefix) low = mid + 1; else high = mid;
+    }
+
+    const expansions: string[] = [];
+    for (let i = low; i < sortedTerms.length && sortedTerms[i]!.startsWith(prefix); i++) {
+      expansions.push(sortedTerms[i]!);
+    }
+    return expansions;
+  };
+
+  /**
+   * Acceptable terms for each word of a clause
+   */
+  const expandClause = (clause: SearchClause): string[][] => clause.terms.map((term, index) =>
+    clause.isPrefix && index === clause.terms.length - 1 ? expandPrefix(term) : [term]
+  );
+
+  /**
+   * Body positions where a clause matches, as [first, last] token positions
+   */
+  const findClauseMatches = (entry: SearchIndexEntry, expanded: string[][]): Array<[number, number]> => {
+    const positionsOf = (terms: string[]) => new Set(terms.flatMap(term => entry.postings[term] ?? []));
+    const firstPositions = Array.from(positionsOf(expanded[0]!)).sort((a, b) => a - b);
+    if (expanded.length === 1) {
+      return firstPositions.map(position => [position, position]);
+    }
+
+    const laterPositions = expanded.slice(1).map(positionsOf);
+    return firstPositions
+      .filter(position =>
+        laterPositions.every((positions, offset) => positions.has(position + offset + 1)) &&
+        findParagraph(entry, position) === findParagraph(entry, position + expanded.length - 1)
+      )
+      .map(position => [position, position + expanded.length - 1]);
+  };
+
+  const search = (searchQuery: string, limit: number = 20): SearchHit[] => {
+    const clauses = parseSearchQuery(searchQuery);
+    if (clauses.length === 0) return [];
+
+    const expandedClauses = clauses.map(expandClause);
+    const documentCount = Math.max(entries.size, 1);
+
+    // Documents containing every word of a clause, in body or title
+    const clauseDocuments = expandedClauses.map(expanded => {
+      const perWord = expanded.map(terms => new Set(terms.flatMap(term => Array.from(termDocuments.get(term) ?? []))));
+      return perWord.reduce((result, documents) => new Set([...result].filter(id => documents.has(id))));
+    });
+
+    const candidates = clauseDocuments.reduce((result, documents) => new Set([...result].filter(id => documents.has(id))));
+    const hits: SearchHit[] = [];
+
+    candidates.forEach(documentId => {
+      const entry = entries.get(documentId)!;
+      const titleTerms = new Set(entry.titleTerms);
+      let score = 0;
+      let matchCount = 0;
+      const ranges: Array<[number, number]> = [];
+
+      for (const [index, expanded] of expandedClauses.entries()) {
+        const matches = findClauseMatches(entry, expanded);
+        const inTitle = expanded.every(terms => terms.some(term => titleTerms.has(term)));
+        if (matches.length === 0 && !inTitle) return; // Every clause must match
+
+        const idf = Math.log(1 + documentCount / clauseDocuments[index]!.size);
+        score += (matches.length > 0 ? 1 + Math.log(matches.length) : 0) * idf + (inTitle ? TITLE_BOOST * idf : 0);
+        matchCount += matches.length;
+        ranges.push(...matches);
+      }
+
+      // Show the paragraph with the most matches
+      const matchesPerParagraph = new Map<number, Array<[number, number]>>();
+      ranges.forEach(range => {
+        const paragraphIndex = findParagraph(entry, range[0]);
+        matchesPerParagraph.set(paragraphIndex, [...(matchesPerParagraph.get(paragraphIndex) ?? []), range]);
+      });
+      const best = Array.from(matchesPerParagraph.entries())
+        .sort((a, b) => b[1].length - a[1].length || a[0] - b[0])[0];
+
+      if (!best) {
+        hits.push({
+          documentId,
+          title: entry.title,
+          score,
+          matchCount,
+          paragraphIndex: null,
+          matchedText: '',
+          snippet: buildSnippet(entry.paragraphs.find(paragraph => paragraph.length > 0) ?? '', new Set())
+        });
+        return;
+      }
+
+      const [paragraphIndex, paragraphRanges] = best;
+      const paragraphStart = entry.paragraphStarts[paragraphIndex]!;
+      const paragraph = entry.paragraphs[paragraphIndex]!;
+      const matchedTokenIndexes = new Set<number>();
+      paragraphRanges.forEach(([first, last]) => {
+        for (let position = first; position <= last; position++) {
+          matchedTokenIndexes.add(position - paragraphStart);
+        }
+      });
+
+      const tokens = tokenizeForSearch(paragraph);
+      const [firstRange] = paragraphRanges.sort((a, b) => a[0] - b[0]);
+      const firstToken = tokens[firstRange![0] - paragraphStart];
+      const lastToken = tokens[firstRange![1] - paragraphStart];
+
+      hits.push({
+        documentId,
+        title: entry.title,
+        score,
+        matchCount,
+        paragraphIndex,
+        matchedText: firstToken && lastToken ? paragraph.slice(firstToken.start, lastToken.end) : '',
+        snippet: buildSnippet(paragraph, matchedTokenIndexes)
+      });
+    });
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+      .slice(0, limit);
+  };
+
+  initialEntries.forEach(add);
+
+  return {
+    add,
+    remove,
+    search,
+    get size() {
+      return entries.size;
+    }
+  };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Vitest tests for the stat block model
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseHTML, type HtmlElementNode } from './html-tree';
+import {
+  formatAbilityScore,
+  formatChallenge,
+  parseChallengeRating,
+  parseCreatureMeta,
+  parseHitPoints,
+  parseSpeeds,
+  parseStatBlock,
+  parseStatBlockMarkdown,
+  renderStatBlockHTML
+} from './stat-block';
+
+const WOLF = `<div class="stat-block">
+<h3 class="stat-block-name">Wolf</h3>
+<p class="stat-block-meta"><em>Medium beast, unaligned</em></p>
+<hr class="stat-block-divider">
+<p><strong>Armor Class</strong> 13 (natural armor)</p>
+<table class="stat-block-abilities">
+<tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>
+<tr><td>12 (+1)</td><td>15 (+2)</td><td>12 (+1)</td><td>3 (-4)</td><td>12 (+1)</td><td>6 (-2)</td></tr>
+</table>
+<p><strong>Challenge</strong> 1/4 (50 XP)</p>
+<p><strong>Pack Tactics.</strong> Advantage near allies.</p>
+<h4>Actions</h4>
+<p><strong>Bite.</strong> <em>Hit:</em> 7 (2d4 + 2) piercing damage.</p>
+</div>`;
+
+describe('parseStatBlock', () => {
+  it('reads name, properties, abilities, traits and sections', () => {
+    const statBlock = parseStatBlock(parseHTML(WOLF)[0] as HtmlElementNode);
+    expect(statBlock).toEqual({
+      name: 'Wolf',
+      meta: 'Medium beast, unaligned',
+      properties: [
+        { label: 'Armor Class', value: '13 (natural armor)' },
+        { label: 'Challenge', value: '1/4 (50 XP)' }
+      ],
+      abilities: [12, 15, 12, 3, 12, 6],
+      traits: [{ name: 'Pack Tactics', description: 'Advantage near allies.' }],
+      sections: [{ title: 'Actions', entries: [{ name: 'Bite', description: '<em>Hit:</em> 7 (2d4 + 2) piercing damage.' }] }]
+    });
+  });
+
+  it('reads back what it renders', () => {
+    const statBlock = parseStatBlock(parseHTML(WOLF)[0] as HtmlElementNode);
+    const rendered = parseStatBlock(parseHTML(renderStatBlockHTML(statBlock))[0] as HtmlElementNode);
+    expect(rendered).toEqual(statBlock);
+  });
+});
+
+describe('parseStatBlockMarkdown', () => {
+  it('reads the Markdown stat block layout', () => {
+    const statBlock = parseStatBlockMarkdown(`**Bandit**
+*Medium humanoid (any race), any non-lawful alignment*
+
+**Armor Class** 12 (Leather Armor)
+**Hit Points** 11 (2d8 + 2)
+
+**STR** 11 (+0) **DEX** 12 (+1) **CON** 12 (+1) **INT** 10 (+0) **WIS** 10 (+0) **CHA** 10 (+0)
+
+**Challenge Rating** 1/8
+
+**Ambusher.** Strikes first.
+Even from hiding.
+
+**Actions**
+*Scimitar.* Melee Weapon Attack: +3 to hit.`);
+
+    expect(statBlock).toEqual({
+      name: 'Bandit',
+      meta: 'Medium humanoid (any race), any non-lawful alignment',
+      properties: [
+        { label: 'Armor Class', value: '12 (Leather Armor)' },
+        { label: 'Hit Points', value: '11 (2d8 + 2)' },
+        { label: 'Challenge', value: '1/8 (25 XP)' }
+      ],
+      abilities: [11, 12, 12, 10, 10, 10],
+      traits: [{ name: 'Ambusher', description: 'Strikes first.<br>Even from hiding.' }],
+      sections: [{ title: 'Actions', entries: [{ name: 'Scimitar', description: 'Melee Weapon Attack: +3 to hit.' }] }]
+    });
+  });
+});
+
+describe('stat block formatting', () => {
+  it('splits creature meta lines', () => {
+    expect(parseCreatureMeta('Small humanoid (goblinoid), neutral evil')).toEqual({
+      size: 'Small', type: 'humanoid', subtype: 'goblinoid', alignment: 'neutral evil'
+    });
+    expect(parseCreatureMeta('Swarm of tiny beasts')).toBeNull();
+  });
+
+  it('formats ability scores and challenge ratings', () => {
+    expect(formatAbilityScore(3)).toBe('3 (-4)');
+    expect(formatAbilityScore(10)).toBe('10 (+0)');
+    expect(formatChallenge('5')).toBe('5 (1,800 XP)');
+    expect(formatChallenge('unknown')).toBe('unknown');
+  });
+
+  it('reads numbers from property values', () => {
+    expect(parseChallengeRating('1/4 (50 XP)')).toBe(0.25);
+    expect(parseChallengeRating('—')).toBeNull();
+    expect(parseHitPoints('37 (5d10 + 10)')).toEqual({ average: 37, formula: '5d10 + 10' });
+    expect(parseSpeeds('30 ft., fly 60 ft. (hover)')).toEqual({ walk: 30, fly: 60 });
+  });
+});
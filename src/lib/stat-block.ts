@@ -0,0 +1,402 @@
+/**
+ * @fileoverview Stat block model
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Reads the stat block HTML our generators write (`<div class="stat-block">`
+ * with a name, meta line, properties, ability table, traits and action
+ * sections) into a structured form, and writes it back. Stat blocks written
+ * as Markdown text or loose paragraphs are read into the same form. Exporters
+ * use the structured form to target other formats.
+ */
+
+import { escapeHTML, getTextContent, hasClass, serializeHTML, type HtmlElementNode, type HtmlNode } from './html-tree';
+
+/**
+ * Ability score order in the ability table
+ */
+export const ABILITY_NAMES = ['STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA'] as const;
+
+/**
+ * A named trait or action; the description is inline HTML
+ */
+export interface StatBlockEntry {
+  name: string;
+  description: string;
+}
+
+/**
+ * Structured stat block
+ */
+export interface StatBlock {
+  name: string;
+  meta: string; // e.g. "Small humanoid (goblinoid), neutral evil"
+  properties: Array<{ label: string; value: string }>; // Armor Class, Hit Points, Speed, ... in order
+  abilities: number[] | null; // Scores in ABILITY_NAMES order
+  traits: StatBlockEntry[];
+  sections: Array<{ title: string; entries: StatBlockEntry[] }>; // Actions, Reactions, ...
+}
+
+/**
+ * Properties shown above the ability table
+ */
+const PROPERTIES_BEFORE_ABILITIES = new Set(['armor class', 'hit points', 'speed']);
+
+/**
+ * Whether an element is a stat block
+ */
+export function isStatBlockElement(node: HtmlElementNode): boolean {
+  return hasClass(node, 'stat-block');
+}
+
+/**
+ * Child elements, skipping whitespace between them
+ */
+function childElements(node: HtmlElementNode): HtmlElementNode[] {
+  return node.children.filter((child): child is HtmlElementNode => child.type === 'element');
+}
+
+/**
+ * Split a `<p><strong>Label</strong> rest</p>` paragraph
+ */
+function splitLabelledParagraph(paragraph: HtmlElementNode): { label: string; rest: HtmlNode[] } | null {
+  const [first, ...rest] = paragraph.children;
+  if (!first || first.type !== 'element' || (first.tag !== 'strong' && first.tag !== 'b')) {
+    return null;
+  }
+  return { label: getTextContent(first).trim(), rest };
+}
+
+/**
+ * Trim leading whitespace from the first text node of inline HTML
+ */
+function trimInline(nodes: HtmlNode[]): string {
+  return serializeHTML(nodes).replace(/^(\s|&#160;)+/, '').trim();
+}
+
+/**
+ * Read a stat block element
+ */
+export function parseStatBlock(element: HtmlElementNode): StatBlock {
+  const statBlock: StatBlock = { name: '', meta: '', properties: [], abilities: null, traits: [], sections: [] };
+
+  for (const child of childElements(element)) {
+    if (child.tag === 'h3' || child.tag === 'h2') {
+      statBlock.name = getTextContent(child).trim();
+    } else if (child.tag === 'p' && hasClass(child, 'stat-block-meta')) {
+      statBlock.meta = getTextContent(child).trim();
+    } else if (child.tag === 'table') {
+      const cells = findCells(child, 'td');
+      const scores = cells.map(cell => parseInt(getTextContent(cell), 10));
+      if (scores.length === ABILITY_NAMES.length && scores.every(Number.isFinite)) {
+        statBlock.abilities = scores;
+      }
+    } else if (child.tag === 'h4') {
+      statBlock.sections.push({ title: getTextContent(child).trim(), entries: [] });
+    } else if (child.tag === 'p') {
+      const parts = splitLabelledParagraph(child);
+      const section = statBlock.sections[statBlock.sections.length - 1];
+      if (!parts) {
+        // Unlabelled text, like the intro to legendary actions
+        const entry = { name: '', description: trimInline(child.children) };
+        if (entry.description) (section?.entries ?? statBlock.traits).push(entry);
+      } else if (section || parts.label.endsWith('.')) {
+        (section?.entries ?? statBlock.traits).push({
+          name: parts.label.replace(/\.$/, ''),
+          description: trimInline(parts.rest)
+        });
+      } else {
+        statBlock.properties.push({ label: parts.label, value: getTextContent(parts.rest).trim() });
+      }
+    }
+  }
+
+  return statBlock;
+}
+
+/**
+ * Labels the re-skin widget writes that differ from stat block labels
+ */
+const LOOSE_PROPERTY_LABELS: Record<string, string> = {
+  'challenge rating': 'Challenge'
+};
+
+/**
+ * Read a stat block written as loose paragraphs rather than a stat block
+ * element: a heading, an italic meta line, then `<strong>` labelled lines and
+ * an inline "STR 10 DEX 14 ..." line. Monster re-skins land in documents in
+ * this shape. `start` is the heading's index in `nodes`; returns the stat
+ * block and the index after its last line, or null if the nodes don't match.
+ */
+export function parseLooseStatBlock(
+  nodes: HtmlNode[],
+  start: number
+): { statBlock: StatBlock; end: number } | null {
+  const nextElement = (from: number): HtmlElementNode | null => {
+    for (let index = from; index < nodes.length; index++) {
+      const node = nodes[index]!;
+      if (node.type === 'element') return node;
+      if (node.text.trim()) return null;
+    }
+    return null;
+  };
+
+  const heading = nodes[start];
+  if (!heading || heading.type !== 'element' || !/^h[1-6]$/.test(heading.tag)) return null;
+
+  const metaParagraph = nextElement(start + 1);
+  const meta = metaParagraph?.tag === 'p' ? getTextContent(metaParagraph).trim() : '';
+  if (!metaParagraph || !parseCreatureMeta(meta)) return null;
+
+  const statBlock: StatBlock = {
+    name: getTextContent(heading).trim(),
+    meta,
+    properties: [],
+    abilities: null,
+    traits: [],
+    sections: []
+  };
+  let end = nodes.indexOf(metaParagraph, start) + 1;
+
+  for (let line = nextElement(end); line?.tag === 'p'; line = nextElement(end)) {
+    const parts = splitLabelledParagraph(line);
+    if (!parts) break;
+
+    if (parts.label.toUpperCase() === ABILITY_NAMES[0]) {
+      const scores = parseAbilityLine(getTextContent(line));
+      if (!scores) break;
+      statBlock.abilities = scores;
+    } else if (parts.label.endsWith('.')) {
+      statBlock.traits.push({ name: parts.label.replace(/\.$/, ''), description: trimInline(parts.rest) });
+    } else {
+      const label = LOOSE_PROPERTY_LABELS[parts.label.toLowerCase()] ?? parts.label;
+      const value = getTextContent(parts.rest).trim();
+      statBlock.properties.push({ label, value: label === 'Challenge' ? formatChallenge(value) : value });
+    }
+    end = nodes.indexOf(line, end) + 1;
+  }
+
+  const hasDefenses = getStatBlockProperty(statBlock, 'Armor Class') !== undefined
+    || getStatBlockProperty(statBlock, 'Hit Points') !== undefined;
+  return hasDefenses ? { statBlock, end } : null;
+}
+
+/**
+ * Read a stat block written as Markdown text, the layout some generated stat
+ * blocks and monster re-skins use: a bold or heading name, an italic meta
+ * line, `**Label** value` lines, an inline "**STR** 10 ..." line, bold section
+ * titles like `**Actions**` and `*Name.* description` entries. Unlabelled
+ * lines continue the entry before them.
+ */
+export function parseStatBlockMarkdown(text: string): StatBlock {
+  const statBlock: StatBlock = { name: '', meta: '', properties: [], abilities: null, traits: [], sections: [] };
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  let lastEntry: StatBlockEntry | null = null;
+
+  lines.forEach((line, index) => {
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    const labelled = line.match(/^\*\*(.+?)\*\*\s*(.*)$/) ?? line.match(/^\*([^*]+)\*\s*(.*)$/);
+    const label = labelled?.[1]!.trim() ?? '';
+    const rest = labelled?.[2] ?? '';
+
+    if (index === 0 && (heading || (labelled && !rest))) {
+      statBlock.name = heading?.[1]!.trim() ?? label;
+      return;
+    }
+    if (index === 1 && labelled && !rest && parseCreatureMeta(label)) {
+      statBlock.meta = label;
+      return;
+    }
+    if (labelled && label.toUpperCase() === ABILITY_NAMES[0]) {
+      statBlock.abilities = parseAbilityLine(line.replace(/\*/g, ''));
+      return;
+    }
+    if (heading || (labelled && !rest && !label.endsWith('.'))) {
+      statBlock.sections.push({ title: heading?.[1]!.trim() ?? label, entries: [] });
+      lastEntry = null;
+      return;
+    }
+
+    const section = statBlock.sections[statBlock.sections.length - 1];
+    if (labelled && !section && !label.endsWith('.')) {
+      const propertyLabel = LOOSE_PROPERTY_LABELS[label.toLowerCase()] ?? label;
+      statBlock.properties.push({
+        label: propertyLabel,
+        value: propertyLabel === 'Challenge' ? formatChallenge(rest.trim()) : rest.trim()
+      });
+      lastEntry = null;
+    } else if (labelled) {
+      lastEntry = { name: label.replace(/\.$/, ''), description: escapeHTML(rest.trim()) };
+      (section?.entries ?? statBlock.traits).push(lastEntry);
+    } else if (lastEntry) {
+      lastEntry.description += `<br>${escapeHTML(line)}`;
+    } else {
+      lastEntry = { name: '', description: escapeHTML(line) };
+      (section?.entries ?? statBlock.traits).push(lastEntry);
+    }
+  });
+
+  return statBlock;
+}
+
+/**
+ * Scores from an inline "STR 10 DEX 14 ..." line, or null if any is missing
+ */
+function parseAbilityLine(text: string): number[] | null {
+  const scores = ABILITY_NAMES.map(name => text.match(new RegExp(`\\b${name}\\s+(\\d+)`, 'i'))?.[1]);
+  return scores.every(score => score !== undefined) ? scores.map(Number) : null;
+}
+
+/**
+ * Table cells of one kind, in document order
+ */
+function findCells(table: HtmlElementNode, tag: 'td' | 'th'): HtmlElementNode[] {
+  const cells: HtmlElementNode[] = [];
+  const visit = (node: HtmlElementNode) => {
+    for (const child of childElements(node)) {
+      if (child.tag === tag) cells.push(child);
+      else visit(child);
+    }
+  };
+  visit(table);
+  return cells;
+}
+
+/**
+ * Ability modifier for a score
+ */
+export function abilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+/**
+ * Score with its signed modifier, e.g. "14 (+2)"
+ */
+export function formatAbilityScore(score: number): string {
+  const modifier = abilityModifier(score);
+  return `${score} (${modifier >= 0 ? '+' : ''}${modifier})`;
+}
+
+/**
+ * Experience points by challenge rating
+ */
+const CHALLENGE_XP: Record<string, number> = {
+  '0': 10, '1/8': 25, '1/4': 50, '1/2': 100, '1': 200, '2': 450, '3': 700, '4': 1100, '5': 1800,
+  '6': 2300, '7': 2900, '8': 3900, '9': 5000, '10': 5900, '11': 7200, '12': 8400, '13': 10000,
+  '14': 11500, '15': 13000, '16': 15000, '17': 18000, '18': 20000, '19': 22000, '20': 25000,
+  '21': 33000, '22': 41000, '23': 50000, '24': 62000, '25': 75000, '26': 90000, '27': 105000,
+  '28': 120000, '29': 135000, '30': 155000
+};
+
+/**
+ * Challenge line for a rating, e.g. "1/4 (50 XP)"; unknown ratings are kept as is
+ */
+export function formatChallenge(challengeRating: string): string {
+  const xp = CHALLENGE_XP[challengeRating.trim()];
+  return xp === undefined ? challengeRating : `${challengeRating.trim()} (${xp.toLocaleString('en-US')} XP)`;
+}
+
+/**
+ * Challenge rating as a number, from "1/4" or "1/4 (50 XP)"
+ */
+export function parseChallengeRating(value: string): number | null {
+  const match = value.trim().match(/^(\d+)(?:\s*\/\s*(\d+))?/);
+  if (!match) return null;
+  return match[2] ? Number(match[1]) / Number(match[2]) : Number(match[1]);
+}
+
+/**
+ * Average and dice formula from a hit points line like "7 (2d6)"
+ */
+export function parseHitPoints(value: string): { average: number | null; formula: string } {
+  const average = value.match(/^\s*(\d+)/)?.[1];
+  const formula = value.match(/\(([^)]*\d+d\d+[^)]*)\)/)?.[1] ?? '';
+  return { average: average ? Number(average) : null, formula: formula.replace(/\s+/g, ' ').trim() };
+}
+
+/**
+ * Speeds in feet by movement type from a line like "30 ft., fly 60 ft. (hover)";
+ * an unnamed speed is the walking speed
+ */
+export function parseSpeeds(value: string): Record<string, number> {
+  const speeds: Record<string, number> = {};
+  for (const part of value.split(',')) {
+    const match = part.trim().match(/^(?:([a-z]+)\s+)?(\d+)\s*ft/i);
+    if (match) speeds[(match[1] ?? 'walk').toLowerCase()] = Number(match[2]);
+  }
+  return speeds;
+}
+
+/**
+ * Look up a property by label, ignoring case
+ */
+export function getStatBlockProperty(statBlock: StatBlock, label: string): string | undefined {
+  return statBlock.properties.find(property => property.label.toLowerCase() === label.toLowerCase())?.value;
+}
+
+/**
+ * Split a meta line like "Small humanoid (goblinoid), neutral evil"
+ */
+export function parseCreatureMeta(meta: string): {
+  size: string;
+  type: string;
+  subtype?: string;
+  alignment: string;
+} | null {
+  const match = meta.match(/^\s*(Tiny|Small|Medium|Large|Huge|Gargantuan)\s+([^,(]+?)\s*(?:\(([^)]+)\))?\s*,\s*(.+?)\s*$/i);
+  if (!match) return null;
+  return {
+    size: match[1]!,
+    type: match[2]!,
+    ...(match[3] && { subtype: match[3] }),
+    alignment: match[4]!
+  };
+}
+
+/**
+ * Properties shown above the ability table (AC, HP, speed) and below it
+ */
+export function splitStatBlockProperties(statBlock: StatBlock): {
+  before: StatBlock['properties'];
+  after: StatBlock['properties'];
+} {
+  return {
+    before: statBlock.properties.filter(p => PROPERTIES_BEFORE_ABILITIES.has(p.label.toLowerCase())),
+    after: statBlock.properties.filter(p => !PROPERTIES_BEFORE_ABILITIES.has(p.label.toLowerCase()))
+  };
+}
+
+/**
+ * Write a stat block as editor HTML, in the layout the generators use
+ */
+export function renderStatBlockHTML(statBlock: StatBlock): string {
+  const divider = '<hr class="stat-block-divider">';
+  const property = ({ label, value }: { label: string; value: string }) =>
+    `<p><strong>${escapeHTML(label)}</strong> ${escapeHTML(value)}</p>`;
+  const entry = ({ name, description }: StatBlockEntry) =>
+    name ? `<p><strong>${escapeHTML(name)}.</strong> ${description}</p>` : `<p>${description}</p>`;
+
+  const { before, after } = splitStatBlockProperties(statBlock);
+  const parts = [
+    `<h3 class="stat-block-name">${escapeHTML(statBlock.name)}</h3>`,
+    statBlock.meta && `<p class="stat-block-meta"><em>${escapeHTML(statBlock.meta)}</em></p>`
+  ];
+
+  if (before.length) parts.push(divider, ...before.map(property));
+  if (statBlock.abilities) {
+    parts.push(
+      divider,
+      '<table class="stat-block-abilities">',
+      `<tr>${ABILITY_NAMES.map(name => `<th>${name}</th>`).join('')}</tr>`,
+      `<tr>${statBlock.abilities.map(score => `<td>${formatAbilityScore(score)}</td>`).join('')}</tr>`,
+      '</table>'
+    );
+  }
+  if (after.length) parts.push(divider, ...after.map(property));
+  if (statBlock.traits.length) parts.push(divider, ...statBlock.traits.map(entry));
+  for (const section of statBlock.sections) {
+    parts.push(divider, `<h4>${escapeHTML(section.title)}</h4>`, ...section.entries.map(entry));
+  }
+
+  return `<div class="stat-block">${parts.filter(Boolean).join('')}</div>`;
+}
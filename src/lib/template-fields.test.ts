@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Vitest tests for template placeholder fields
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fillTemplateFields, findTemplateFields } from './template-fields';
+
+describe('findTemplateFields', () => {
+  it('lists each field once, in order, with a readable label', () => {
+    const content = '<h1>{{adventureName}}</h1><p>Level {{ partyLevel }} party in {{adventureName}}, {{npc_name}}</p>';
+    expect(findTemplateFields(content)).toEqual([
+      { key: 'adventureName', label: 'Adventure Name' },
+      { key: 'partyLevel', label: 'Party Level' },
+      { key: 'npc_name', label: 'Npc Name' }
+    ]);
+  });
+
+  it('ignores braces that are not fields', () => {
+    expect(findTemplateFields('<p>{{}} {{1st}} {single}</p>')).toEqual([]);
+  });
+});
+
+describe('fillTemplateFields', () => {
+  it('fills every use of a field and escapes the value', () => {
+    const content = '<p>{{tavern}} - welcome to {{tavern}}!</p>';
+    expect(fillTemplateFields(content, { tavern: 'The <Yawning> Portal' }))
+      .toBe('<p>The &lt;Yawning&gt; Portal - welcome to The &lt;Yawning&gt; Portal!</p>');
+  });
+
+  it('leaves blank fields in place', () => {
+    expect(fillTemplateFields('<p>Level {{partyLevel}}</p>', { partyLevel: '  ' })).toBe('<p>Level {{partyLevel}}</p>');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Template placeholder fields
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Templates mark values to fill in at creation time with `{{fieldName}}`, e.g.
+ * `{{partyLevel}}`. The same field may appear several times and gets the same
+ * value everywhere. Values are escaped, since template content is HTML.
+ */
+
+import { escapeHTML } from './html-tree';
+
+/**
+ * A `{{field}}` placeholder: letters, digits and underscores, starting with a letter
+ */
+const FIELD_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/**
+ * Field to prompt for when creating a document from a template
+ */
+export interface TemplateField {
+  key: string;
+  label: string; // `partyLevel` -> "Party Level"
+}
+
+/**
+ * Readable label for a field key
+ */
+export function toFieldLabel(key: string): string {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^./, c => c.toUpperCase())
+    .replace(/ ./g, c => c.toUpperCase());
+}
+
+/**
+ * Fields used in template content, in order of first use
+ */
+export function findTemplateFields(content: string): TemplateField[] {
+  const keys = new Set<string>();
+  for (const match of content.matchAll(FIELD_PATTERN)) {
+    keys.add(match[1]!);
+  }
+  return [...keys].map(key => ({ key, label: toFieldLabel(key) }));
+}
+
+/**
+ * Replace fields with their values; fields left blank stay as `{{field}}` so
+ * they are easy to find and fill in later
+ */
+export function fillTemplateFields(content: string, values: Record<string, string>): string {
+  return content.replace(FIELD_PATTERN, (placeholder, key: string) => {
+    const value = values[key]?.trim();
+    return value ? escapeHTML(value) : placeholder;
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Vitest tests for text quote anchors
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTextAnchor, resolveTextAnchor } from './text-anchor';
+
+describe('Text anchors', () => {
+  const text = 'The goblin waits by the bridge. Later, the goblin flees.';
+
+  it('should resolve an anchor in unchanged text', () => {
+    const start = text.lastIndexOf('goblin');
+    const anchor = createTextAnchor(text, start, start + 6);
+
+    expect(resolveTextAnchor(text, anchor)).toEqual({ start, end: start + 6 });
+  });
+
+  it('should follow the anchor after text is inserted before it', () => {
+    const start = text.indexOf('bridge');
+    const anchor = createTextAnchor(text, start, start + 6);
+    const edited = 'Rain falls. ' + text;
+
+    expect(resolveTextAnchor(edited, anchor)).toEqual({ start: start + 12, end: start + 18 });
+  });
+
+  it('should use context to pick between repeated quotes', () => {
+    const start = text.lastIndexOf('goblin');
+    const anchor = createTextAnchor(text, start, start + 6);
+    const edited = text.replace('The goblin waits', 'Meanwhile the goblin waits patiently');
+
+    const range = resolveTextAnchor(edited, anchor);
+    expect(range).toEqual({ start: edited.lastIndexOf('goblin'), end: edited.lastIndexOf('goblin') + 6 });
+  });
+
+  it('should return null when the quote was deleted', () => {
+    const start = text.indexOf('bridge');
+    const anchor = createTextAnchor(text, start, start + 6);
+
+    expect(resolveTextAnchor(text.replace('bridge', 'river'), anchor)).toBeNull();
+  });
+});
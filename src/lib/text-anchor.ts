@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Text quote anchors
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Anchors a range of a document's plain text by the quoted text plus a little
+ * context on each side, so the range can be found again after the document
+ * is edited. Used by inline comments; anchors never modify document content,
+ * which keeps them working for commenters who can't edit.
+ */
+
+/**
+ * A range of plain text, described by its content and surroundings
+ */
+export interface TextAnchor {
+  quote: string; // The anchored text
+  prefix: string; // Text just before the quote
+  suffix: string; // Text just after the quote
+  start: number; // Offset of the quote when the anchor was last resolved
+}
+
+/**
+ * A resolved plain-text range
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Characters of context stored on each side of the quote
+ */
+export const ANCHOR_CONTEXT_LENGTH = 32;
+
+/**
+ * Create an anchor for text[start, end)
+ */
+export function createTextAnchor(text: string, start: number, end: number): TextAnchor {
+  return {
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+    start
+  };
+}
+
+/**
+ * Length of the common suffix of a and b
+ */
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Length of the common prefix of a and b
+ */
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Find an anchor in (possibly edited) text
+ *
+ * Every occurrence of the quote is scored by how much of the stored context
+ * still surrounds it; ties go to the occurrence closest to the old offset.
+ *
+ * @returns The range, or null when the quoted text no longer exists
+ */
+export function resolveTextAnchor(text: string, anchor: TextAnchor): TextRange | null {
+  if (!anchor.quote) {
+    return null;
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  let index = text.indexOf(anchor.quote);
+
+  while (index !== -1) {
+    const end = index + anchor.quote.length;
+    const score =
+      commonSuffixLength(text.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix) +
+      commonPrefixLength(text.slice(end, end + anchor.suffix.length), anchor.suffix);
+    const distance = Math.abs(index - anchor.start);
+
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: index, score, distance };
+    }
+
+    index = text.indexOf(anchor.quote, index + 1);
+  }
+
+  return best ? { start: best.start, end: best.start + anchor.quote.length } : null;
+}
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Text diffing utilities
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Word-level diffing used to compare document versions.
+ * Based on a longest-common-subsequence table over word tokens.
+ */
+
+/**
+ * Kind of change for a diff segment
+ */
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+/**
+ * A run of text that is unchanged, inserted or deleted
+ */
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+/**
+ * Summary counts for a diff
+ */
+export interface DiffSummary {
+  insertedWords: number;
+  deletedWords: number;
+  unchangedWords: number;
+}
+
+/**
+ * Upper bound on the LCS table size before falling back to a coarse diff.
+ * Keeps very large documents from freezing the UI.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split text into word tokens, keeping whitespace attached to the preceding word
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+/**
+ * Compute a diff between two token sequences
+ *
+ * @param oldTokens - Tokens from the original text
+ * @param newTokens - Tokens from the changed text
+ * @param equals - Optional token comparison
+ * @returns Aligned operations for each token
+ */
+export function diffSequences<T>(
+  oldTokens: T[],
+  newTokens: T[],
+  equals: (a: T, b: T) => boolean = (a, b) => a === b
+): Array<{ op: DiffOperation; oldIndex?: number; newIndex?: number }> {
+  // Trim common prefix and suffix to keep the table small
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && equals(oldTokens[start], newTokens[start])) {
+    start++;
+  }
+
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && equals(oldTokens[oldEnd - 1], newTokens[newEnd - 1])) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: Array<{ op: DiffOperation; oldIndex?: number; newIndex?: number }> = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ op: 'equal', oldIndex: i, newIndex: i });
+  }
+
+  const rows = oldEnd - start;
+  const cols = newEnd - start;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    // Too large to align precisely - report the middle as a full replacement
+    for (let i = start; i < oldEnd; i++) result.push({ op: 'delete', oldIndex: i });
+    for (let j = start; j < newEnd; j++) result.push({ op: 'insert', newIndex: j });
+  } else {
+    // lcs[i][j] = LCS length of oldTokens[start+i..oldEnd) and newTokens[start+j..newEnd)
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= rows; i++) {
+      lcs.push(new Uint32Array(cols + 1));
+    }
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i][j] = equals(oldTokens[start + i], newTokens[start + j])
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (equals(oldTokens[start + i], newTokens[start + j])) {
+        result.push({ op: 'equal', oldIndex: start + i, newIndex: start + j });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        result.push({ op: 'delete', oldIndex: start + i });
+        i++;
+      } else {
+        result.push({ op: 'insert', newIndex: start + j });
+        j++;
+      }
+    }
+    for (; i < rows; i++) result.push({ op: 'delete', oldIndex: start + i });
+    for (; j < cols; j++) result.push({ op: 'insert', newIndex: start + j });
+  }
+
+  for (let k = 0; k < oldTokens.length - oldEnd; k++) {
+    result.push({ op: 'equal', oldIndex: oldEnd + k, newIndex: newEnd + k });
+  }
+
+  return result;
+}
+
+/**
+ * Diff two plain text strings word by word
+ *
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @returns Merged diff segments in document order
+ *
+ * @example
+ * ```typescript
+ * diffWords('the red dragon', 'the blue dragon')
+ * // [{ op: 'equal', text: 'the ' }, { op: 'delete', text: 'red ' },
+ * //  { op: 'insert', text: 'blue ' }, { op: 'equal', text: 'dragon' }]
+ * ```
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const oldTokens = tokenizeWords(oldText);
+  const newTokens = tokenizeWords(newText);
+
+  // Compare words ignoring trailing whitespace so re-wrapped text stays equal
+  const operations = diffSequences(oldTokens, newTokens, (a, b) => a.trimEnd() === b.trimEnd());
+
+  const segments: DiffSegment[] = [];
+  for (const operation of operations) {
+    const text = operation.op === 'insert'
+      ? newTokens[operation.newIndex!]
+      : oldTokens[operation.oldIndex!];
+
+    const last = segments[segments.length - 1];
+    if (last && last.op === operation.op) {
+      last.text += text;
+    } else {
+      segments.push({ op: operation.op, text });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Count inserted, deleted and unchanged words in a diff
+ */
+export function summarizeDiff(segments: DiffSegment[]): DiffSummary {
+  const countWords = (text: string) => text.split(/\s+/).filter(word => word.length > 0).length;
+
+  return segments.reduce<DiffSummary>((summary, segment) => {
+    const words = countWords(segment.text);
+    if (segment.op === 'insert') summary.insertedWords += words;
+    else if (segment.op === 'delete') summary.deletedWords += words;
+    else summary.unchangedWords += words;
+    return summary;
+  }, { insertedWords: 0, deletedWords: 0, unchangedWords: 0 });
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Vitest tests for tracked changes helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTrackedChanges,
+  acceptTrackedChanges,
+  rejectTrackedChanges,
+  withoutTrackedChanges,
+  proposeTextChangeToHTML,
+  trackHTMLChanges,
+  type TrackedChangeAttributes
+} from './tracked-changes';
+
+const AI: TrackedChangeAttributes = {
+  changeId: 'c1',
+  authorId: 'ai-assistant',
+  authorName: 'AI Assistant',
+  createdAt: '2024-05-01T12:00:00.000Z'
+};
+
+const ATTRS = 'data-change-id="c1" data-author-id="ai-assistant" data-author-name="AI Assistant" data-created-at="2024-05-01T12:00:00.000Z"';
+
+describe('Tracked changes', () => {
+  it('should propose a replacement as a deletion plus an insertion', () => {
+    const html = proposeTextChangeToHTML('<p>The goblin <strong>attacks</strong>.</p>', 4, 10, 'hobgoblin', AI);
+
+    expect(html).toBe(
+      `<p>The <del ${ATTRS} class="tracked-deletion">goblin</del><ins ${ATTRS} class="tracked-insertion">hobgoblin</ins> <strong>attacks</strong>.</p>`
+    );
+    expect(getTrackedChanges(html)).toEqual([{ ...AI, deletedText: 'goblin', insertedText: 'hobgoblin' }]);
+  });
+
+  it('should accept or reject a proposal', () => {
+    const html = proposeTextChangeToHTML('<p>The goblin attacks.</p>', 4, 10, 'hobgoblin', AI);
+
+    expect(acceptTrackedChanges(html)).toBe('<p>The hobgoblin attacks.</p>');
+    expect(rejectTrackedChanges(html)).toBe('<p>The goblin attacks.</p>');
+    expect(withoutTrackedChanges(html)).toBe('<p>The goblin attacks.</p>');
+  });
+
+  it('should only resolve the selected changes', () => {
+    // Right to left, as applyMultipleTextChangesToHTML applies them
+    const first = proposeTextChangeToHTML('<p>Two orcs guard the gate.</p>', 19, 23, 'bridge', { ...AI, changeId: 'c2' });
+    const second = proposeTextChangeToHTML(first, 4, 8, 'ogres', AI);
+
+    expect(getTrackedChanges(second).map(change => change.changeId)).toEqual(['c1', 'c2']);
+    expect(withoutTrackedChanges(acceptTrackedChanges(second, ['c2']))).toBe('<p>Two orcs guard the bridge.</p>');
+  });
+
+  it('should drop paragraphs whose deletion is accepted', () => {
+    const html = trackHTMLChanges('<p>Keep me.</p><p>Cut me.</p>', '<p>Keep me.</p>', AI);
+
+    expect(getTrackedChanges(html)).toEqual([{ ...AI, deletedText: 'Cut me.', insertedText: '' }]);
+    expect(acceptTrackedChanges(html)).toBe('<p>Keep me.</p>');
+    expect(rejectTrackedChanges(html)).toBe('<p>Keep me.</p><p>Cut me.</p>');
+  });
+
+  it('should diff changed paragraphs word by word', () => {
+    const html = trackHTMLChanges('<p>The dragon sleeps.</p>', '<p>The red dragon sleeps.</p>', AI);
+
+    expect(getTrackedChanges(html)[0]?.insertedText).toBe('red ');
+    expect(acceptTrackedChanges(html)).toBe('<p>The red dragon sleeps.</p>');
+  });
+});
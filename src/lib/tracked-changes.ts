@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Tracked changes (suggest mode) helpers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Proposed edits live in document HTML as `<ins>` / `<del>` elements carrying
+ * the change ID, author and time. The editor records them while suggesting;
+ * these helpers list, propose, accept and reject them on plain HTML so AI
+ * flows and the review sidebar don't need an editor instance.
+ */
+
+import {
+  parseHTML,
+  serializeHTML,
+  getTextContent,
+  type HtmlNode,
+  type HtmlElementNode
+} from './html-tree';
+import { diffSequences, diffWords } from './text-diff';
+import { mapPlainTextRangeToHTML } from './utils';
+
+/**
+ * Kind of tracked change
+ */
+export type TrackedChangeType = 'insertion' | 'deletion';
+
+/**
+ * Who proposed a change
+ */
+export interface TrackedChangeAuthor {
+  id: string;
+  name: string;
+}
+
+/**
+ * Attributes stored on every tracked insertion/deletion
+ */
+export interface TrackedChangeAttributes {
+  changeId: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string; // ISO timestamp
+}
+
+/**
+ * A pending proposal, grouping the text it deletes and inserts
+ */
+export interface TrackedChange extends TrackedChangeAttributes {
+  deletedText: string;
+  insertedText: string;
+}
+
+/**
+ * HTML tag and class per change type
+ */
+export const TRACKED_CHANGE_TAGS: Record<TrackedChangeType, 'ins' | 'del'> = {
+  insertion: 'ins',
+  deletion: 'del'
+};
+
+export const TRACKED_CHANGE_CLASSES: Record<TrackedChangeType, string> = {
+  insertion: 'tracked-insertion',
+  deletion: 'tracked-deletion'
+};
+
+/**
+ * Data attributes used in HTML
+ */
+export const TRACKED_CHANGE_DATA_ATTRIBUTES: Record<keyof TrackedChangeAttributes, string> = {
+  changeId: 'data-change-id',
+  authorId: 'data-author-id',
+  authorName: 'data-author-name',
+  createdAt: 'data-created-at'
+};
+
+/**
+ * New attributes for a change proposed now
+ */
+export function createTrackedChangeAttributes(author: TrackedChangeAuthor): TrackedChangeAttributes {
+  return {
+    changeId: `change_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    authorId: author.id,
+    authorName: author.name,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Type of a tracked change element, or null for other elements
+ */
+export function getTrackedChangeType(node: HtmlElementNode): TrackedChangeType | null {
+  if (!node.attrs[TRACKED_CHANGE_DATA_ATTRIBUTES.changeId]) return null;
+  if (node.tag === 'ins') return 'insertion';
+  if (node.tag === 'del') return 'deletion';
+  return null;
+}
+
+/**
+ * Build the opening/closing tags for a tracked change
+ */
+function changeTag(type: TrackedChangeType, attrs: TrackedChangeAttributes): HtmlElementNode {
+  const htmlAttrs: Record<string, string> = {};
+  for (const [key, name] of Object.entries(TRACKED_CHANGE_DATA_ATTRIBUTES)) {
+    htmlAttrs[name] = attrs[key as keyof TrackedChangeAttributes];
+  }
+  htmlAttrs.class = TRACKED_CHANGE_CLASSES[type];
+  return { type: 'element', tag: TRACKED_CHANGE_TAGS[type], attrs: htmlAttrs, children: [] };
+}
+
+/**
+ * Wrap every text node in a tree in a tracked change, keeping inline formatting
+ */
+function wrapTextNodes(nodes: HtmlNode[], type: TrackedChangeType, attrs: TrackedChangeAttributes): HtmlNode[] {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return node.text ? { ...changeTag(type, attrs), children: [node] } : node;
+    }
+    if (getTrackedChangeType(node)) {
+      return node; // Already tracked
+    }
+    return { ...node, children: wrapTextNodes(node.children, type, attrs) };
+  });
+}
+
+/**
+ * Mark all text in an HTML fragment as a proposed insertion
+ */
+export function markHTMLAsInsertion(html: string, attrs: TrackedChangeAttributes): string {
+  return serializeHTML(wrapTextNodes(parseHTML(html), 'insertion', attrs));
+}
+
+/**
+ * Propose replacing a plain-text range instead of replacing it outright
+ *
+ * Drop-in alternative to applyTextChangeToHTML for suggest mode: the original
+ * text is kept as a deletion and the replacement added as an insertion.
+ */
+export function proposeTextChangeToHTML(
+  htmlContent: string,
+  plainTextStart: number,
+  plainTextEnd: number,
+  replacement: string,
+  attrs: TrackedChangeAttributes
+): string {
+  const range = mapPlainTextRangeToHTML(htmlContent, plainTextStart, plainTextEnd);
+  if (!range) {
+    return htmlContent;
+  }
+
+  const before = htmlContent.substring(0, range.htmlStart);
+  const original = htmlContent.substring(range.htmlStart, range.htmlEnd);
+  const after = htmlContent.substring(range.htmlEnd);
+
+  const deletion = changeTag('deletion', attrs);
+  const insertion = changeTag('insertion', attrs);
+  const open = (tag: HtmlElementNode) => serializeHTML([tag]).replace(/<\/\w+>$/, '');
+
+  // Wrap each text run of the original separately so tags stay balanced
+  const deleted = original.replace(/[^<>]+(?=<|$)/g, text => `${open(deletion)}${text}</del>`);
+  const inserted = replacement ? `${open(insertion)}${replacement}</ins>` : '';
+
+  return before + deleted + inserted + after;
+}
+
+/**
+ * Propose turning one document into another, block by block
+ *
+ * Paragraphs whose words changed get word-level deletions and insertions;
+ * other changed blocks are proposed whole.
+ */
+export function trackHTMLChanges(oldHtml: string, newHtml: string, attrs: TrackedChangeAttributes): string {
+  const oldBlocks = parseHTML(oldHtml).filter(node => node.type === 'element' || node.text.trim());
+  const newBlocks = parseHTML(newHtml).filter(node => node.type === 'element' || node.text.trim());
+  const key = (node: HtmlNode) => serializeHTML([node]);
+
+  const operations = diffSequences(oldBlocks.map(key), newBlocks.map(key), (a, b) => a === b);
+  const result: HtmlNode[] = [];
+  let removed: HtmlNode[] = [];
+  let added: HtmlNode[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) {
+      result.push(...trackBlockChange(removed[i]!, added[i]!, attrs));
+    }
+    result.push(...wrapTextNodes(removed.slice(paired), 'deletion', attrs));
+    result.push(...wrapTextNodes(added.slice(paired), 'insertion', attrs));
+    removed = [];
+    added = [];
+  };
+
+  for (const operation of operations) {
+    if (operation.op === 'equal') {
+      flush();
+      result.push(newBlocks[operation.newIndex!]!);
+    } else if (operation.op === 'delete') {
+      removed.push(oldBlocks[operation.oldIndex!]!);
+    } else {
+      added.push(newBlocks[operation.newIndex!]!);
+    }
+  }
+  flush();
+
+  return serializeHTML(result);
+}
+
+/**
+ * Track the change between two versions of one block
+ */
+function trackBlockChange(oldBlock: HtmlNode, newBlock: HtmlNode, attrs: TrackedChangeAttributes): HtmlNode[] {
+  const isPlainBlock = (node: HtmlNode): node is HtmlElementNode =>
+    node.type === 'element' && node.children.every(child => child.type === 'text');
+
+  // Word-level diff only when both are the same kind of unformatted block
+  if (!isPlainBlock(oldBlock) || !isPlainBlock(newBlock) || oldBlock.tag !== newBlock.tag) {
+    return [
+      ...wrapTextNodes([oldBlock], 'deletion', attrs),
+      ...wrapTextNodes([newBlock], 'insertion', attrs)
+    ];
+  }
+
+  const children: HtmlNode[] = diffWords(getTextContent(oldBlock), getTextContent(newBlock)).map(segment => {
+    const text: HtmlNode = { type: 'text', text: segment.text };
+    if (segment.op === 'equal') return text;
+    return { ...changeTag(segment.op === 'insert' ? 'insertion' : 'deletion', attrs), children: [text] };
+  });
+
+  return [{ ...newBlock, children }];
+}
+
+/**
+ * Read the attributes of a tracked change element
+ */
+function readAttributes(node: HtmlElementNode): TrackedChangeAttributes {
+  return {
+    changeId: node.attrs[TRACKED_CHANGE_DATA_ATTRIBUTES.changeId] || '',
+    authorId: node.attrs[TRACKED_CHANGE_DATA_ATTRIBUTES.authorId] || '',
+    authorName: node.attrs[TRACKED_CHANGE_DATA_ATTRIBUTES.authorName] || 'Unknown',
+    createdAt: node.attrs[TRACKED_CHANGE_DATA_ATTRIBUTES.createdAt] || ''
+  };
+}
+
+/**
+ * List pending changes in document order
+ */
+export function getTrackedChanges(html: string): TrackedChange[] {
+  if (!html || !html.includes(TRACKED_CHANGE_DATA_ATTRIBUTES.changeId)) {
+    return [];
+  }
+
+  const changes = new Map<string, TrackedChange>();
+  const visit = (nodes: HtmlNode[]) => {
+    for (const node of nodes) {
+      if (node.type !== 'element') continue;
+
+      const type = getTrackedChangeType(node);
+      if (!type) {
+        visit(node.children);
+        continue;
+      }
+
+      const attrs = readAttributes(node);
+      const change = changes.get(attrs.changeId) || { ...attrs, deletedText: '', insertedText: '' };
+      if (type === 'insertion') change.insertedText += getTextContent(node);
+      else change.deletedText += getTextContent(node);
+      changes.set(attrs.changeId, change);
+    }
+  };
+  visit(parseHTML(html));
+
+  return Array.from(changes.values());
+}
+
+/**
+ * Whether HTML contains pending changes
+ */
+export function hasTrackedChanges(html: string): boolean {
+  return getTrackedChanges(html).length > 0;
+}
+
+/**
+ * Accept or reject changes
+ */
+function resolveNodes(
+  nodes: HtmlNode[],
+  shouldResolve: (changeId: string) => boolean,
+  accept: boolean
+): { nodes: HtmlNode[]; touched: boolean } {
+  const result: HtmlNode[] = [];
+  let touched = false;
+
+  for (const node of nodes) {
+    if (node.type !== 'element') {
+      result.push(node);
+      continue;
+    }
+
+    const type = getTrackedChangeType(node);
+    if (type && shouldResolve(readAttributes(node).changeId)) {
+      touched = true;
+      // Accepting keeps insertions, rejecting keeps deletions; either way the wrapper goes
+      const keep = (type === 'insertion') === accept;
+      if (keep) result.push(...node.children);
+      continue;
+    }
+
+    const resolved = resolveNodes(node.children, shouldResolve, accept);
+    touched = touched || resolved.touched;
+
+    // Drop blocks emptied by resolving, e.g. a paragraph proposed for deletion
+    const emptied = resolved.touched && node.tag !== 'br' && node.tag !== 'img' && node.tag !== 'hr'
+      && !getTextContent(resolved.nodes).trim()
+      && !resolved.nodes.some(child => child.type === 'element' && (child.tag === 'img' || child.tag === 'hr'));
+    if (!emptied) {
+      result.push({ ...node, children: resolved.nodes });
+    }
+  }
+
+  return { nodes: result, touched };
+}
+
+/**
+ * Accept changes, applying them to the document
+ *
+ * @param changeIds - Changes to accept; all when omitted
+ */
+export function acceptTrackedChanges(html: string, changeIds?: string[]): string {
+  const ids = changeIds && new Set(changeIds);
+  return serializeHTML(resolveNodes(parseHTML(html), id => !ids || ids.has(id), true).nodes);
+}
+
+/**
+ * Reject changes, restoring the original text
+ *
+ * @param changeIds - Changes to reject; all when omitted
+ */
+export function rejectTrackedChanges(html: string, changeIds?: string[]): string {
+  const ids = changeIds && new Set(changeIds);
+  return serializeHTML(resolveNodes(parseHTML(html), id => !ids || ids.has(id), false).nodes);
+}
+
+/**
+ * Document as it stands without pending proposals, for player-facing output
+ */
+export function withoutTrackedChanges(html: string): string {
+  if (!html || !html.includes(TRACKED_CHANGE_DATA_ATTRIBUTES.changeId)) {
+    return html;
+  }
+  return rejectTrackedChanges(html);
+}
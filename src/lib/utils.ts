@@ -286,21 +286,18 @@ export function checkAndClearLegacyData(): void {
 }
 
 /**
- * Apply text changes to HTML content while preserving formatting
- * This function maps plain text positions to HTML positions and applies changes within the HTML structure
+ * Map a plain text range to the matching range in HTML content
  * 
- * @param htmlContent - Original HTML content
+ * @param htmlContent - HTML content
  * @param plainTextStart - Start position in plain text
  * @param plainTextEnd - End position in plain text
- * @param replacement - Text to replace with
- * @returns Updated HTML content with formatting preserved
+ * @returns HTML positions for the range, or null if it cannot be mapped
  */
-export function applyTextChangeToHTML(
-  htmlContent: string, 
-  plainTextStart: number, 
-  plainTextEnd: number, 
-  replacement: string
-): string {
+export function mapPlainTextRangeToHTML(
+  htmlContent: string,
+  plainTextStart: number,
+  plainTextEnd: number
+): { htmlStart: number; htmlEnd: number } | null {
   // Build a mapping of plain text positions to HTML positions
   const positionMap: { plainPos: number; htmlPos: number; inTag: boolean }[] = [];
   let plainPos = 0;
@@ -371,15 +368,36 @@ export function applyTextChangeToHTML(
   
   if (!startMapping || !endMapping) {
     console.warn('Could not map plain text positions to HTML positions');
-    return htmlContent;
+    return null;
   }
   
-  const htmlStart = startMapping.htmlPos;
-  const htmlEnd = endMapping.htmlPos;
+  return { htmlStart: startMapping.htmlPos, htmlEnd: endMapping.htmlPos };
+}
+
+/**
+ * Apply text changes to HTML content while preserving formatting
+ * This function maps plain text positions to HTML positions and applies changes within the HTML structure
+ * 
+ * @param htmlContent - Original HTML content
+ * @param plainTextStart - Start position in plain text
+ * @param plainTextEnd - End position in plain text
+ * @param replacement - Text to replace with
+ * @returns Updated HTML content with formatting preserved
+ */
+export function applyTextChangeToHTML(
+  htmlContent: string, 
+  plainTextStart: number, 
+  plainTextEnd: number, 
+  replacement: string
+): string {
+  const range = mapPlainTextRangeToHTML(htmlContent, plainTextStart, plainTextEnd);
+  if (!range) {
+    return htmlContent;
+  }
   
   // Apply the replacement in HTML
-  const before = htmlContent.substring(0, htmlStart);
-  const after = htmlContent.substring(htmlEnd);
+  const before = htmlContent.substring(0, range.htmlStart);
+  const after = htmlContent.substring(range.htmlEnd);
   
   return before + replacement + after;
 }
@@ -390,6 +408,7 @@ export function applyTextChangeToHTML(
  * 
  * @param htmlContent - Original HTML content
  * @param changes - Array of changes to apply, sorted by position descending
+ * @param applyChange - How to apply a single change (e.g. as a tracked suggestion)
  * @returns Updated HTML content with all changes applied
  */
 export function applyMultipleTextChangesToHTML(
@@ -399,7 +418,8 @@ export function applyMultipleTextChangesToHTML(
     plainTextEnd: number;
     replacement: string;
     originalText?: string;
-  }>
+  }>,
+  applyChange: typeof applyTextChangeToHTML = applyTextChangeToHTML
 ): { updatedHTML: string; appliedCount: number; failedCount: number } {
   let currentHTML = htmlContent;
   let appliedCount = 0;
@@ -421,7 +441,7 @@ export function applyMultipleTextChangesToHTML(
       }
       
       const beforeChange = currentHTML;
-      currentHTML = applyTextChangeToHTML(
+      currentHTML = applyChange(
         currentHTML,
         change.plainTextStart,
         change.plainTextEnd,
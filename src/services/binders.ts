@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Campaign binder service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Binders group a user's documents into campaigns. Each document records its
+ * binder and position (`binderId`, `binderOrder`), so moving a document is a
+ * single document update. Authenticated users keep binders in Firestore, guest
+ * users in IndexedDB next to their guest documents.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { toDate } from '@/lib/firestore-dates';
+import { createRecordStore } from '@/lib/indexed-db';
+import { BINDER_ORDER_STEP, sortBinderDocuments } from '@/lib/binder-tree';
+import { getAllUserDocuments, isGuestUser, updateDocument } from './documents';
+import type { Binder, CreateBinderData, Document, UpdateBinderData } from '@/types/document';
+
+/**
+ * Collection names
+ */
+const COLLECTIONS = {
+  BINDERS: 'binders'
+} as const;
+
+/**
+ * Longest binder name accepted
+ */
+export const MAX_BINDER_NAME_LENGTH = 100;
+
+/**
+ * A guest binder, remembering its account copy once migrated
+ */
+type GuestBinder = Binder & { accountBinderId?: string };
+
+/**
+ * Local binder storage for guest users
+ */
+const guestBinderStore = createRecordStore<GuestBinder>({
+  databaseName: 'dungeons-and-drafting-guest-binders',
+  storeName: 'binders',
+  indexes: ['userId']
+});
+let guestBinderCounter = 1;
+
+/**
+ * Convert Firestore binder document to Binder type
+ */
+function convertFirestoreBinder(docSnap: QueryDocumentSnapshot<DocumentData>): Binder {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    userId: data.userId,
+    name: data.name || 'Untitled Binder',
+    ...(data.description && { description: data.description }),
+    order: data.order ?? 0,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt)
+  };
+}
+
+/**
+ * Validate and trim a binder name
+ */
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Binder name cannot be empty');
+  }
+  if (trimmed.length > MAX_BINDER_NAME_LENGTH) {
+    throw new Error(`Binder names are limited to ${MAX_BINDER_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Get a guest binder, throwing when it doesn't belong to the guest
+ */
+async function getGuestBinder(binderId: string, userId: string): Promise<Binder> {
+  const binder = await guestBinderStore.get(binderId);
+  if (!binder || binder.userId !== userId) {
+    throw new Error('Binder not found');
+  }
+  return binder;
+}
+
+/**
+ * Get a user's binders, in order
+ */
+export async function getUserBinders(userId: string): Promise<Binder[]> {
+  if (isGuestUser(userId)) {
+    const binders = await guestBinderStore.getAll({ field: 'userId', value: userId });
+    return binders.sort((a, b) => a.order - b.order);
+  }
+
+  try {
+    const querySnapshot = await getDocs(
+      query(collection(db, COLLECTIONS.BINDERS), where('userId', '==', userId))
+    );
+    return querySnapshot.docs.map(convertFirestoreBinder).sort((a, b) => a.order - b.order);
+  } catch (error) {
+    console.error('Error getting binders:', error);
+    throw new Error('Failed to get binders');
+  }
+}
+
+/**
+ * Create a binder after the user's existing ones
+ */
+export async function createBinder(userId: string, data: CreateBinderData): Promise<Binder> {
+  const name = normalizeName(data.name);
+  const existing = await getUserBinders(userId);
+  const now = new Date();
+
+  const binderData = {
+    userId,
+    name,
+    ...(data.description?.trim() && { description: data.description.trim() }),
+    order: (existing[existing.length - 1]?.order ?? 0) + BINDER_ORDER_STEP
+  };
+
+  if (isGuestUser(userId)) {
+    const binder: Binder = {
+      id: `guest_binder_${guestBinderCounter++}_${Date.now()}`,
+      ...binderData,
+      createdAt: now,
+      updatedAt: now
+    };
+    await guestBinderStore.add(binder);
+    console.log('🔄 Guest binder created locally:', binder.id);
+    return binder;
+  }
+
+  try {
+    const docRef = await addDoc(collection(db, COLLECTIONS.BINDERS), {
+      ...binderData,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return { id: docRef.id, ...binderData, createdAt: now, updatedAt: now };
+  } catch (error) {
+    console.error('Error creating binder:', error);
+    throw new Error('Failed to create binder');
+  }
+}
+
+/**
+ * Rename, describe or reorder a binder
+ */
+export async function updateBinder(
+  binderId: string,
+  userId: string,
+  data: UpdateBinderData
+): Promise<Binder> {
+  const updates = {
+    ...(data.name !== undefined && { name: normalizeName(data.name) }),
+    ...(data.description !== undefined && { description: data.description.trim() }),
+    ...(data.order !== undefined && { order: data.order })
+  };
+
+  if (isGuestUser(userId)) {
+    const binder = { ...await getGuestBinder(binderId, userId), ...updates, updatedAt: new Date() };
+    await guestBinderStore.put(binder);
+    return binder;
+  }
+
+  try {
+    const docRef = doc(db, COLLECTIONS.BINDERS, binderId);
+    await updateDoc(docRef, { ...updates, updatedAt: serverTimestamp() });
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists()) {
+      throw new Error('Binder not found');
+    }
+    return convertFirestoreBinder(docSnap as QueryDocumentSnapshot<DocumentData>);
+  } catch (error) {
+    console.error('Error updating binder:', error);
+    throw new Error('Failed to update binder');
+  }
+}
+
+/**
+ * Get the documents in a binder, in order
+ */
+export async function getBinderDocuments(binderId: string, userId: string): Promise<Document[]> {
+  return sortBinderDocuments(await getAllUserDocuments(userId, { binderId }));
+}
+
+/**
+ * Move a document into a binder at a position, or with a null binder, out of
+ * its binder
+ */
+export async function moveDocumentToBinder(
+  documentId: string,
+  userId: string,
+  binderId: string | null,
+  binderOrder: number = BINDER_ORDER_STEP
+): Promise<Document> {
+  return updateDocument(documentId, userId, binderId ? { binderId, binderOrder } : { binderId: null });
+}
+
+/**
+ * Delete a binder; its documents are kept and become unfiled
+ */
+export async function deleteBinder(binderId: string, userId: string): Promise<void> {
+  const documents = await getBinderDocuments(binderId, userId);
+  for (const document of documents) {
+    await moveDocumentToBinder(document.id, userId, null);
+  }
+
+  if (isGuestUser(userId)) {
+    await getGuestBinder(binderId, userId);
+    await guestBinderStore.delete(binderId);
+    console.log('🔄 Guest binder deleted locally:', binderId);
+    return;
+  }
+
+  try {
+    await deleteDoc(doc(db, COLLECTIONS.BINDERS, binderId));
+  } catch (error) {
+    console.error('Error deleting binder:', error);
+    throw new Error('Failed to delete binder');
+  }
+}
+
+/**
+ * Copy a guest's local binders into a signed-in user's account
+ *
+ * Guest binders stay local, remembering their account copy, until
+ * removeMigratedGuestBinders runs after the guest's documents have moved, so a
+ * retry after a failed document still knows where to file it.
+ *
+ * @returns Account binder IDs keyed by guest binder ID, for migrating the
+ * guest's documents, and how many binders were left behind
+ */
+export async function migrateGuestBinders(
+  guestId: string,
+  userId: string
+): Promise<{ binderIds: Record<string, string>; failedCount: number }> {
+  const binderIds: Record<string, string> = {};
+  let failedCount = 0;
+  if (!isGuestUser(guestId) || isGuestUser(userId)) {
+    return { binderIds, failedCount };
+  }
+
+  const guestBinders = await guestBinderStore.getAll({ field: 'userId', value: guestId });
+  for (const guestBinder of guestBinders) {
+    try {
+      if (guestBinder.accountBinderId) {
+        binderIds[guestBinder.id] = guestBinder.accountBinderId;
+        continue;
+      }
+      const { id, ...binderData } = guestBinder;
+      const docRef = await addDoc(collection(db, COLLECTIONS.BINDERS), { ...binderData, userId });
+      await guestBinderStore.put({ ...guestBinder, accountBinderId: docRef.id });
+      binderIds[id] = docRef.id;
+    } catch (error) {
+      console.error('Error migrating guest binder:', guestBinder.id, error);
+      failedCount++;
+    }
+  }
+
+  return { binderIds, failedCount };
+}
+
+/**
+ * Delete a guest's local binders that already have an account copy
+ *
+ * Call once every guest document has moved to the account.
+ */
+export async function removeMigratedGuestBinders(guestId: string): Promise<void> {
+  const guestBinders = await guestBinderStore.getAll({ field: 'userId', value: guestId });
+  await Promise.all(guestBinders
+    .filter(guestBinder => guestBinder.accountBinderId)
+    .map(guestBinder => guestBinderStore.delete(guestBinder.id)));
+}
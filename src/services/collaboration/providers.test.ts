@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Vitest tests for collaboration providers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  startCollaborationSession,
+  endCollaborationSession,
+  getCollaborationPeers,
+  claimSharedDocumentSeed,
+  type CollaborationSession
+} from './real-time';
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('Timed out waiting for sync');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('BroadcastChannel collaboration', () => {
+  const sessions: CollaborationSession[] = [];
+
+  const join = (documentId: string, name: string) => {
+    const session = startCollaborationSession(
+      documentId,
+      { id: name.toLowerCase(), name, color: '#2563eb' },
+      { type: 'broadcast' }
+    );
+    sessions.push(session);
+    return session;
+  };
+
+  afterEach(() => {
+    sessions.splice(0).forEach(endCollaborationSession);
+  });
+
+  it('should sync existing and new edits between two editors', async () => {
+    const first = join('doc-sync', 'Alice');
+    first.doc.getText('notes').insert(0, 'The lich waits below.');
+
+    const second = join('doc-sync', 'Bob');
+    await waitFor(() => second.doc.getText('notes').toString() === 'The lich waits below.');
+
+    second.doc.getText('notes').insert(0, 'Session 3: ');
+    await waitFor(() => first.doc.getText('notes').toString() === 'Session 3: The lich waits below.');
+  });
+
+  it('should share presence and drop it when an editor leaves', async () => {
+    const first = join('doc-presence', 'Alice');
+    const second = join('doc-presence', 'Bob');
+
+    await waitFor(() => getCollaborationPeers(first).length === 1);
+    expect(getCollaborationPeers(first)[0].name).toBe('Bob');
+
+    endCollaborationSession(sessions.pop()!);
+    await waitFor(() => getCollaborationPeers(first).length === 0);
+    expect(second.provider.status).toBe('disconnected');
+  });
+
+  it('should not mix rooms for different documents', async () => {
+    const first = join('doc-a', 'Alice');
+    const second = join('doc-b', 'Bob');
+
+    first.doc.getText('notes').insert(0, 'Only in A');
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(second.doc.getText('notes').toString()).toBe('');
+  });
+
+  it('should let only one of two editors joining an empty room seed it', async () => {
+    const first = join('doc-seed', 'Alice');
+    const second = join('doc-seed', 'Bob');
+
+    const claims = await Promise.all([claimSharedDocumentSeed(first, 100), claimSharedDocumentSeed(second, 100)]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should not claim a room another editor is already seeding', async () => {
+    const first = join('doc-seeding', 'Alice');
+    const second = join('doc-seeding', 'Bob');
+    await waitFor(() => getCollaborationPeers(first).length === 1);
+
+    const secondClaim = claimSharedDocumentSeed(second, 100);
+    await waitFor(() => first.doc.getMap('seed').size === 1);
+
+    expect(await claimSharedDocumentSeed(first, 100)).toBe(false);
+    expect(await secondClaim).toBe(true);
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * @fileoverview Yjs collaboration providers
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Pluggable transports that keep a Yjs document and its awareness (cursors,
+ * names) in sync between editors. Both providers speak the y-websocket wire
+ * protocol, so the WebSocket provider works against a stock y-websocket server
+ * while the BroadcastChannel provider syncs browser tabs locally for testing.
+ */
+
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { ObservableV2 } from 'lib0/observable';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+
+/**
+ * Message types (same numbering as y-websocket)
+ */
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+
+/**
+ * How long to wait for a peer before treating an empty room as synced
+ */
+const PEER_SYNC_TIMEOUT = 500;
+
+/**
+ * WebSocket reconnect backoff bounds
+ */
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 10000;
+
+/**
+ * Connection state of a provider
+ */
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Available transports
+ */
+export type CollaborationProviderType = 'broadcast' | 'websocket';
+
+type ProviderEvents = {
+  status: (status: CollaborationStatus) => void;
+  synced: (synced: boolean) => void;
+};
+
+/**
+ * Base provider - handles the sync and awareness protocol, subclasses supply the transport
+ */
+export abstract class CollaborationProvider extends ObservableV2<ProviderEvents> {
+  readonly doc: Y.Doc;
+  readonly awareness: awarenessProtocol.Awareness;
+  readonly roomName: string;
+
+  status: CollaborationStatus = 'disconnected';
+  synced = false;
+
+  constructor(roomName: string, doc: Y.Doc) {
+    super();
+    this.roomName = roomName;
+    this.doc = doc;
+    this.awareness = new awarenessProtocol.Awareness(doc);
+
+    this.doc.on('update', this.handleDocUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+  }
+
+  /**
+   * Open the transport
+   */
+  abstract connect(): void;
+
+  /**
+   * Close the transport
+   */
+  abstract disconnect(): void;
+
+  /**
+   * Send an encoded message to peers
+   */
+  protected abstract send(message: Uint8Array): void;
+
+  /**
+   * Announce ourselves once the transport is open
+   */
+  protected handleOpen(): void {
+    this.setStatus('connected');
+
+    const syncEncoder = encoding.createEncoder();
+    encoding.writeVarUint(syncEncoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(syncEncoder, this.doc);
+    this.send(encoding.toUint8Array(syncEncoder));
+
+    if (this.awareness.getLocalState() !== null) {
+      this.send(this.encodeAwareness([this.doc.clientID]));
+    }
+  }
+
+  /**
+   * Handle an incoming message from a peer
+   */
+  protected handleMessage(message: Uint8Array): void {
+    const decoder = decoding.createDecoder(message);
+    const encoder = encoding.createEncoder();
+    const messageType = decoding.readVarUint(decoder);
+
+    switch (messageType) {
+      case MESSAGE_SYNC: {
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        const syncType = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
+        if (syncType === syncProtocol.messageYjsSyncStep2) {
+          this.setSynced(true);
+        }
+        break;
+      }
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), this);
+        break;
+      case MESSAGE_QUERY_AWARENESS:
+        this.send(this.encodeAwareness(Array.from(this.awareness.getStates().keys())));
+        break;
+      default:
+        console.warn('Unknown collaboration message type:', messageType);
+    }
+
+    // Only the message type was written - nothing to reply
+    if (encoding.length(encoder) > 1) {
+      this.send(encoding.toUint8Array(encoder));
+    }
+  }
+
+  /**
+   * Handle the transport closing
+   */
+  protected handleClose(): void {
+    // Peers' cursors are no longer reliable once we are offline
+    const remoteClients = Array.from(this.awareness.getStates().keys())
+      .filter(clientId => clientId !== this.doc.clientID);
+    awarenessProtocol.removeAwarenessStates(this.awareness, remoteClients, this);
+
+    this.setSynced(false);
+    this.setStatus('disconnected');
+  }
+
+  protected setStatus(status: CollaborationStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.emit('status', [status]);
+  }
+
+  protected setSynced(synced: boolean): void {
+    if (this.synced === synced) return;
+    this.synced = synced;
+    this.emit('synced', [synced]);
+  }
+
+  private encodeAwareness(clients: number[]): Uint8Array {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, clients));
+    return encoding.toUint8Array(encoder);
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    // Don't echo updates we received from peers
+    if (origin === this || this.status !== 'connected') return;
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    this.send(encoding.toUint8Array(encoder));
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === this || this.status !== 'connected') return;
+    this.send(this.encodeAwareness([...added, ...updated, ...removed]));
+  };
+
+  /**
+   * Leave the room and release all resources
+   */
+  override destroy(): void {
+    awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], 'local');
+    this.disconnect();
+    this.doc.off('update', this.handleDocUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+    this.awareness.destroy();
+    super.destroy();
+  }
+}
+
+/**
+ * Syncs editors in the same browser (other tabs or windows) - no server needed
+ */
+export class BroadcastChannelProvider extends CollaborationProvider {
+  private channel: BroadcastChannel | null = null;
+  private syncTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  connect(): void {
+    if (this.channel) return;
+
+    this.setStatus('connecting');
+    this.channel = new BroadcastChannel(`dnd-collab-${this.roomName}`);
+    this.channel.onmessage = (event: MessageEvent<Uint8Array>) => {
+      this.handleMessage(new Uint8Array(event.data));
+    };
+    this.handleOpen();
+
+    // Nobody answered - we are the first editor in the room
+    this.syncTimeout = setTimeout(() => this.setSynced(true), PEER_SYNC_TIMEOUT);
+  }
+
+  disconnect(): void {
+    if (!this.channel) return;
+
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+      this.syncTimeout = null;
+    }
+
+    // Tell peers our cursor is gone before closing
+    this.send(this.encodeLocalRemoval());
+    this.channel.close();
+    this.channel = null;
+    this.handleClose();
+  }
+
+  protected send(message: Uint8Array): void {
+    this.channel?.postMessage(message);
+  }
+
+  private encodeLocalRemoval(): Uint8Array {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      encoder,
+      awarenessProtocol.encodeAwarenessUpdate(this.awareness, [this.doc.clientID], new Map())
+    );
+    return encoding.toUint8Array(encoder);
+  }
+}
+
+/**
+ * Syncs through a y-websocket compatible relay server
+ */
+export class WebSocketProvider extends CollaborationProvider {
+  private readonly serverUrl: string;
+  private socket: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private shouldConnect = false;
+
+  constructor(roomName: string, doc: Y.Doc, serverUrl: string) {
+    super(roomName, doc);
+    this.serverUrl = serverUrl.replace(/\/$/, '');
+  }
+
+  connect(): void {
+    this.shouldConnect = true;
+    if (this.socket) return;
+
+    this.setStatus('connecting');
+    const socket = new WebSocket(`${this.serverUrl}/${encodeURIComponent(this.roomName)}`);
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.handleOpen();
+    };
+    socket.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+      this.handleMessage(new Uint8Array(event.data));
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      this.handleClose();
+      this.scheduleReconnect();
+    };
+    socket.onerror = (event) => {
+      console.warn('Collaboration socket error:', event);
+    };
+
+    this.socket = socket;
+  }
+
+  disconnect(): void {
+    this.shouldConnect = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.close();
+  }
+
+  protected send(message: Uint8Array): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldConnect) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+}
+
+/**
+ * Provider configuration
+ */
+export interface CollaborationProviderOptions {
+  type?: CollaborationProviderType;
+  serverUrl?: string; // Required for the websocket provider
+}
+
+/**
+ * Create a provider for a document room
+ *
+ * Defaults come from VITE_COLLABORATION_PROVIDER and VITE_COLLABORATION_WS_URL;
+ * without a server URL the BroadcastChannel provider is used.
+ */
+export function createCollaborationProvider(
+  roomName: string,
+  doc: Y.Doc,
+  options: CollaborationProviderOptions = {}
+): CollaborationProvider {
+  const serverUrl = options.serverUrl ?? import.meta.env.VITE_COLLABORATION_WS_URL;
+  const type = options.type
+    ?? (import.meta.env.VITE_COLLABORATION_PROVIDER as CollaborationProviderType | undefined)
+    ?? (serverUrl ? 'websocket' : 'broadcast');
+
+  if (type === 'websocket') {
+    if (!serverUrl) {
+      throw new Error('VITE_COLLABORATION_WS_URL is required for the websocket collaboration provider');
+    }
+    return new WebSocketProvider(roomName, doc, serverUrl);
+  }
+
+  return new BroadcastChannelProvider(roomName, doc);
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Real-time collaboration sessions
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Creates the shared Yjs document and provider for a co-editing session and
+ * publishes the local user's name and cursor color to other editors.
+ */
+
+import * as Y from 'yjs';
+import {
+  createCollaborationProvider,
+  type CollaborationProvider,
+  type CollaborationProviderOptions
+} from './providers';
+
+/**
+ * User details shown next to a live cursor
+ */
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * A remote editor currently in the session
+ */
+export interface CollaborationPeer extends CollaborationUser {
+  clientId: number;
+}
+
+/**
+ * Active co-editing session for one document
+ */
+export interface CollaborationSession {
+  documentId: string;
+  doc: Y.Doc;
+  provider: CollaborationProvider;
+  user: CollaborationUser;
+}
+
+/**
+ * Name of the Yjs XML fragment TipTap's Collaboration extension binds to
+ */
+export const COLLABORATION_FIELD = 'default';
+
+/**
+ * Yjs map holding the client ID of the editor that seeds an empty document
+ */
+const SEED_FIELD = 'seed';
+
+/**
+ * How long a seed claim is left for concurrent claims from peers to arrive
+ */
+const SEED_SETTLE_DELAY = 500;
+
+/**
+ * Cursor colors - readable on white with white label text
+ */
+const CURSOR_COLORS = [
+  '#dc2626', '#ea580c', '#ca8a04', '#16a34a', '#0891b2',
+  '#2563eb', '#7c3aed', '#c026d3', '#db2777', '#475569'
+];
+
+/**
+ * Pick a stable cursor color for a user
+ */
+export function getCollaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+/**
+ * Join the co-editing room for a document
+ *
+ * @param documentId - Document to edit together
+ * @param user - Local user details for presence
+ * @param options - Provider selection (defaults from environment)
+ */
+export function startCollaborationSession(
+  documentId: string,
+  user: CollaborationUser,
+  options: CollaborationProviderOptions = {}
+): CollaborationSession {
+  const doc = new Y.Doc();
+  const provider = createCollaborationProvider(`document-${documentId}`, doc, options);
+
+  provider.awareness.setLocalStateField('user', user);
+  provider.connect();
+
+  console.log('🤝 Joined collaboration session:', documentId);
+  return { documentId, doc, provider, user };
+}
+
+/**
+ * Leave a co-editing session and release its resources
+ */
+export function endCollaborationSession(session: CollaborationSession): void {
+  session.provider.destroy();
+  session.doc.destroy();
+  console.log('🤝 Left collaboration session:', session.documentId);
+}
+
+/**
+ * List the other editors currently present in a session
+ */
+export function getCollaborationPeers(session: CollaborationSession): CollaborationPeer[] {
+  const peers: CollaborationPeer[] = [];
+  session.provider.awareness.getStates().forEach((state, clientId) => {
+    if (clientId === session.doc.clientID || !state.user) return;
+    peers.push({ ...(state.user as CollaborationUser), clientId });
+  });
+  return peers;
+}
+
+/**
+ * Whether the shared document has no content yet (first editor seeds it)
+ */
+export function isSharedDocumentEmpty(session: CollaborationSession): boolean {
+  return session.doc.getXmlFragment(COLLABORATION_FIELD).length === 0;
+}
+
+/**
+ * Claim the right to seed an empty shared document with its saved content
+ *
+ * Every editor joining an empty room would otherwise seed it, and Yjs would
+ * merge their copies into a doubled document. Each one writes its client ID
+ * to the same key; concurrent writes resolve to the same winner everywhere,
+ * so after the claims settle only the winner seeds. A claim left by an editor
+ * who is no longer present can be taken over.
+ *
+ * @returns Whether this editor should seed the document
+ */
+export async function claimSharedDocumentSeed(
+  session: CollaborationSession,
+  settleDelay = SEED_SETTLE_DELAY
+): Promise<boolean> {
+  const seed = session.doc.getMap<number>(SEED_FIELD);
+  const clientId = session.doc.clientID;
+  const claimant = seed.get('seeder');
+
+  if (claimant !== undefined && claimant !== clientId && session.provider.awareness.getStates().has(claimant)) {
+    return false;
+  }
+
+  seed.set('seeder', clientId);
+  await new Promise(resolve => setTimeout(resolve, settleDelay));
+  return seed.get('seeder') === clientId && isSharedDocumentEmpty(session);
+}
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Inline comment service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Review threads anchored to ranges of document text. Authenticated users keep
+ * comments in a Firestore `comments` subcollection, guest users keep them in
+ * IndexedDB alongside their guest documents. Anchors are text quotes, so they
+ * never touch document content and keep working as the text is edited.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  arrayUnion,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { toDate } from '@/lib/firestore-dates';
+import type { TextAnchor } from '@/lib/text-anchor';
+import { isGuestUser } from './documents';
+import { guestCommentStore } from './guest-documents';
+import type { CommentReply, DocumentComment } from '@/types/document';
+
+let guestCommentCounter = 1;
+
+/**
+ * Collection names
+ */
+const COLLECTIONS = {
+  DOCUMENTS: 'documents',
+  COMMENTS: 'comments'
+} as const;
+
+/**
+ * Longest comment or reply body accepted
+ */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Author details stored on comments and replies
+ */
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
+
+/**
+ * A reply as stored in a comment's `replies` array
+ */
+interface StoredCommentReply {
+  id?: unknown;
+  body?: unknown;
+  authorId?: unknown;
+  authorName?: unknown;
+  createdAt?: unknown;
+}
+
+/**
+ * Convert a stored reply to CommentReply type
+ */
+function convertStoredReply(reply: StoredCommentReply): CommentReply {
+  return {
+    id: String(reply.id ?? ''),
+    body: typeof reply.body === 'string' ? reply.body : '',
+    authorId: String(reply.authorId ?? ''),
+    authorName: typeof reply.authorName === 'string' && reply.authorName ? reply.authorName : 'Unknown',
+    createdAt: toDate(reply.createdAt)
+  };
+}
+
+/**
+ * Convert Firestore comment document to DocumentComment type
+ */
+function convertFirestoreComment(
+  documentId: string,
+  docSnap: QueryDocumentSnapshot<DocumentData>
+): DocumentComment {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    documentId,
+    anchor: data.anchor,
+    body: data.body || '',
+    authorId: data.authorId,
+    authorName: data.authorName || 'Unknown',
+    replies: Array.isArray(data.replies) ? (data.replies as StoredCommentReply[]).map(convertStoredReply) : [],
+    resolved: data.resolved ?? false,
+    ...(data.resolvedBy && { resolvedBy: data.resolvedBy }),
+    ...(data.resolvedAt && { resolvedAt: toDate(data.resolvedAt) }),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt)
+  };
+}
+
+/**
+ * Validate and trim a comment body
+ */
+function normalizeBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw new Error('Comment cannot be empty');
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Get a guest comment, throwing when it doesn't exist
+ */
+async function getGuestComment(documentId: string, commentId: string): Promise<DocumentComment> {
+  const comment = await guestCommentStore.get(commentId);
+  if (!comment || comment.documentId !== documentId) {
+    throw new Error('Comment not found');
+  }
+  return comment;
+}
+
+/**
+ * Get all comment threads on a document, oldest first
+ */
+export async function getDocumentComments(
+  documentId: string,
+  userId: string
+): Promise<DocumentComment[]> {
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    const comments = await guestCommentStore.getAll({ field: 'documentId', value: documentId });
+    return comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    const q = query(
+      collection(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS),
+      orderBy('createdAt', 'asc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => convertFirestoreComment(documentId, docSnap));
+  } catch (error) {
+    console.error('Error getting document comments:', error);
+    throw new Error('Failed to get comments');
+  }
+}
+
+/**
+ * Start a new comment thread on a range of text
+ */
+export async function addDocumentComment(
+  documentId: string,
+  author: CommentAuthor,
+  anchor: TextAnchor,
+  body: string
+): Promise<DocumentComment> {
+  if (!anchor.quote.trim()) {
+    throw new Error('Select some text to comment on');
+  }
+
+  const now = new Date();
+  const commentData = {
+    anchor,
+    body: normalizeBody(body),
+    authorId: author.id,
+    authorName: author.name,
+    replies: [] as CommentReply[],
+    resolved: false,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  // Handle guest users with local storage
+  if (isGuestUser(author.id)) {
+    const newComment: DocumentComment = {
+      id: `guest_comment_${guestCommentCounter++}_${Date.now()}`,
+      documentId,
+      ...commentData
+    };
+
+    await guestCommentStore.add(newComment);
+    console.log('💬 Guest comment stored locally:', newComment.id);
+    return newComment;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    const commentsRef = collection(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS);
+    const docRef = await addDoc(commentsRef, commentData);
+
+    return {
+      id: docRef.id,
+      documentId,
+      ...commentData
+    };
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    throw new Error('Failed to add comment');
+  }
+}
+
+/**
+ * Reply to a comment thread
+ */
+export async function replyToComment(
+  documentId: string,
+  commentId: string,
+  author: CommentAuthor,
+  body: string
+): Promise<CommentReply> {
+  const reply: CommentReply = {
+    id: `reply_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    body: normalizeBody(body),
+    authorId: author.id,
+    authorName: author.name,
+    createdAt: new Date()
+  };
+
+  // Handle guest users with local storage
+  if (isGuestUser(author.id)) {
+    const comment = await getGuestComment(documentId, commentId);
+    await guestCommentStore.put({ ...comment, replies: [...comment.replies, reply], updatedAt: reply.createdAt });
+    return reply;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    await updateDoc(doc(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS, commentId), {
+      replies: arrayUnion(reply),
+      updatedAt: reply.createdAt
+    });
+    return reply;
+  } catch (error) {
+    console.error('Error replying to comment:', error);
+    throw new Error('Failed to reply to comment');
+  }
+}
+
+/**
+ * Resolve or reopen a comment thread
+ */
+export async function setCommentResolved(
+  documentId: string,
+  commentId: string,
+  userId: string,
+  resolved: boolean
+): Promise<void> {
+  const now = new Date();
+
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    const { resolvedBy, resolvedAt, ...comment } = await getGuestComment(documentId, commentId);
+    await guestCommentStore.put({
+      ...comment,
+      resolved,
+      ...(resolved && { resolvedBy: userId, resolvedAt: now }),
+      updatedAt: now
+    });
+    return;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    await updateDoc(doc(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS, commentId), {
+      resolved,
+      resolvedBy: resolved ? userId : null,
+      resolvedAt: resolved ? now : null,
+      updatedAt: now
+    });
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    throw new Error(resolved ? 'Failed to resolve comment' : 'Failed to reopen comment');
+  }
+}
+
+/**
+ * Store re-anchored positions after the document text changed
+ *
+ * @param anchors - New anchors keyed by comment ID
+ */
+export async function updateCommentAnchors(
+  documentId: string,
+  userId: string,
+  anchors: Record<string, TextAnchor>
+): Promise<void> {
+  const entries = Object.entries(anchors);
+  if (entries.length === 0) return;
+
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    await Promise.all(entries.map(async ([commentId, anchor]) => {
+      const comment = await guestCommentStore.get(commentId);
+      if (comment && comment.documentId === documentId) {
+        await guestCommentStore.put({ ...comment, anchor });
+      }
+    }));
+    return;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    await Promise.all(entries.map(([commentId, anchor]) =>
+      updateDoc(doc(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS, commentId), { anchor })
+    ));
+  } catch (error) {
+    // Anchors are re-resolved from their quotes on load, so this is best-effort
+    console.warn('Error updating comment anchors:', error);
+  }
+}
+
+/**
+ * Delete a comment thread
+ *
+ * Only the comment's author or the document owner may delete it.
+ */
+export async function deleteDocumentComment(
+  documentId: string,
+  commentId: string,
+  userId: string
+): Promise<void> {
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    await getGuestComment(documentId, commentId);
+    await guestCommentStore.delete(commentId);
+    return;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    const commentRef = doc(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS, commentId);
+    const [commentSnap, documentSnap] = await Promise.all([
+      getDoc(commentRef),
+      getDoc(doc(db, COLLECTIONS.DOCUMENTS, documentId))
+    ]);
+
+    if (!commentSnap.exists()) {
+      throw new Error('Comment not found');
+    }
+    if (commentSnap.data().authorId !== userId && documentSnap.data()?.userId !== userId) {
+      throw new Error('Permission denied - only the author or document owner can delete comments');
+    }
+
+    await deleteDoc(commentRef);
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw new Error('Failed to delete comment');
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Full-text document search service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Keeps a search index entry per document in IndexedDB, refreshed whenever
+ * the document service saves, and answers queries from an in-memory
+ * inverted index built from those entries.
+ */
+
+import { createRecordStore } from '@/lib/indexed-db';
+import {
+  createSearchIndex,
+  createSearchIndexEntry,
+  type SearchHit,
+  type SearchIndex,
+  type SearchIndexEntry
+} from '@/lib/search-index';
+import type { Document } from '@/types/document';
+
+const searchEntryStore = createRecordStore<SearchIndexEntry>({
+  databaseName: 'dungeons-and-drafting-search',
+  storeName: 'entries',
+  indexes: ['userId']
+});
+
+/**
+ * Loaded indexes per user, and the one-off catch-up with their documents
+ */
+const loadedIndexes = new Map<string, Promise<SearchIndex>>();
+const catchUps = new Map<string, Promise<void>>();
+
+/**
+ * Build a user's inverted index from stored entries
+ */
+function loadIndex(userId: string): Promise<SearchIndex> {
+  let index = loadedIndexes.get(userId);
+  if (!index) {
+    index = searchEntryStore.getAll({ field: 'userId', value: userId }).then(createSearchIndex);
+    loadedIndexes.set(userId, index);
+  }
+  return index;
+}
+
+/**
+ * Add or refresh a document in the search index
+ */
+export async function indexDocument(document: Document): Promise<void> {
+  const entry = createSearchIndexEntry(document);
+  await searchEntryStore.put(entry);
+
+  const index = loadedIndexes.get(document.userId);
+  if (index) {
+    (await index).add(entry);
+  }
+}
+
+/**
+ * Drop a document from the search index
+ */
+export async function removeFromSearchIndex(documentId: string): Promise<void> {
+  const entry = await searchEntryStore.get(documentId);
+  if (!entry) return;
+
+  await searchEntryStore.delete(documentId);
+  const index = loadedIndexes.get(entry.userId);
+  if (index) {
+    (await index).remove(documentId);
+  }
+}
+
+/**
+ * Bring a user's index up to date with their documents, once per session
+ *
+ * Catches documents saved on other devices or before search existed.
+ *
+ * @param loadDocuments - Fetches all of the user's documents
+ */
+export function syncSearchIndex(userId: string, loadDocuments: () => Promise<Document[]>): Promise<void> {
+  let catchUp = catchUps.get(userId);
+  if (!catchUp) {
+    catchUp = (async () => {
+      const [documents, index] = await Promise.all([loadDocuments(), loadIndex(userId)]);
+      const entries = new Map(
+        (await searchEntryStore.getAll({ field: 'userId', value: userId })).map(entry => [entry.id, entry])
+      );
+
+      for (const document of documents) {
+        if (entries.get(document.id)?.updatedAt !== document.updatedAt.getTime()) {
+          await indexDocument(document);
+        }
+        entries.delete(document.id);
+      }
+
+      // Whatever is left was deleted elsewhere
+      for (const documentId of entries.keys()) {
+        await searchEntryStore.delete(documentId);
+        index.remove(documentId);
+      }
+      console.log('🔄 Search index ready:', index.size);
+    })();
+
+    // Let a failed catch-up be retried
+    catchUp.catch(() => catchUps.delete(userId));
+    catchUps.set(userId, catchUp);
+  }
+  return catchUp;
+}
+
+/**
+ * Search the titles and bodies of a user's documents
+ *
+ * Supports "quoted phrases" and prefix* queries; see lib/search-index.
+ */
+export async function searchDocuments(userId: string, searchQuery: string, limit: number = 20): Promise<SearchHit[]> {
+  try {
+    return (await loadIndex(userId)).search(searchQuery, limit);
+  } catch (error) {
+    console.error('Error searching documents:', error);
+    throw new Error('Failed to search documents');
+  }
+}
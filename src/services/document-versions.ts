@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Document version history service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Stores content snapshots for documents so earlier drafts can be browsed and restored.
+ * Authenticated users keep snapshots in a Firestore `versions` subcollection,
+ * guest users keep them in IndexedDB alongside their guest documents.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  orderBy,
+  limit,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { getDocument, updateDocument, isGuestUser } from './documents';
+import { guestVersionStore } from './guest-documents';
+import type {
+  Document,
+  DocumentVersion,
+  DocumentVersionReason
+} from '@/types/document';
+
+let guestVersionCounter = 1;
+
+/**
+ * Collection names
+ */
+const COLLECTIONS = {
+  DOCUMENTS: 'documents',
+  VERSIONS: 'versions'
+} as const;
+
+/**
+ * Maximum number of snapshots kept per document
+ */
+export const MAX_VERSIONS_PER_DOCUMENT = 50;
+
+/**
+ * Convert Firestore version document to DocumentVersion type
+ */
+function convertFirestoreVersion(
+  documentId: string,
+  docSnap: QueryDocumentSnapshot<DocumentData>
+): DocumentVersion {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    documentId,
+    version: data.version || 1,
+    title: data.title || '',
+    content: data.content || '',
+    wordCount: data.wordCount || 0,
+    reason: data.reason || 'autosave',
+    createdBy: data.createdBy,
+    createdAt: data.createdAt instanceof Timestamp
+      ? data.createdAt.toDate()
+      : new Date(data.createdAt)
+  };
+}
+
+/**
+ * A guest document's snapshots, newest first
+ */
+async function getGuestVersions(documentId: string): Promise<DocumentVersion[]> {
+  const versions = await guestVersionStore.getAll({ field: 'documentId', value: documentId });
+  return versions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Record a snapshot of the document's current content
+ *
+ * Skips the write when the newest snapshot already holds identical content.
+ */
+export async function createDocumentVersion(
+  document: Document,
+  userId: string,
+  reason: DocumentVersionReason
+): Promise<DocumentVersion | null> {
+  const [latest] = await getDocumentVersions(document.id, userId, 1);
+  if (latest && latest.content === document.content && latest.title === document.title) {
+    return null;
+  }
+
+  const versionData = {
+    version: document.version,
+    title: document.title,
+    content: document.content,
+    wordCount: document.stats?.wordCount || 0,
+    reason,
+    createdBy: userId,
+    createdAt: new Date()
+  };
+
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    const newVersion: DocumentVersion = {
+      id: `guest_version_${guestVersionCounter++}_${Date.now()}`,
+      documentId: document.id,
+      ...versionData
+    };
+
+    await guestVersionStore.add(newVersion);
+    const staleVersions = (await getGuestVersions(document.id)).slice(MAX_VERSIONS_PER_DOCUMENT);
+    await Promise.all(staleVersions.map(version => guestVersionStore.delete(version.id)));
+    console.log('🔄 Guest version snapshot stored locally:', newVersion.id);
+    return newVersion;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    const versionsRef = collection(db, COLLECTIONS.DOCUMENTS, document.id, COLLECTIONS.VERSIONS);
+    const docRef = await addDoc(versionsRef, versionData);
+
+    await pruneDocumentVersions(document.id);
+
+    return {
+      id: docRef.id,
+      documentId: document.id,
+      ...versionData
+    };
+  } catch (error) {
+    console.error('Error creating document version:', error);
+    throw new Error('Failed to create document version');
+  }
+}
+
+/**
+ * Get version snapshots for a document, newest first
+ */
+export async function getDocumentVersions(
+  documentId: string,
+  userId: string,
+  versionLimit: number = MAX_VERSIONS_PER_DOCUMENT
+): Promise<DocumentVersion[]> {
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    return (await getGuestVersions(documentId)).slice(0, versionLimit);
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    const q = query(
+      collection(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.VERSIONS),
+      orderBy('createdAt', 'desc'),
+      limit(versionLimit)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => convertFirestoreVersion(documentId, docSnap));
+  } catch (error) {
+    console.error('Error getting document versions:', error);
+    throw new Error('Failed to get document versions');
+  }
+}
+
+/**
+ * Get a single version snapshot
+ */
+export async function getDocumentVersion(
+  documentId: string,
+  versionId: string,
+  userId: string
+): Promise<DocumentVersion | null> {
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    const version = await guestVersionStore.get(versionId);
+    return version && version.documentId === documentId ? version : null;
+  }
+
+  // Regular Firebase storage for authenticated users
+  try {
+    const docSnap = await getDoc(
+      doc(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.VERSIONS, versionId)
+    );
+
+    if (!docSnap.exists()) {
+      return null;
+    }
+
+    return convertFirestoreVersion(documentId, docSnap as QueryDocumentSnapshot<DocumentData>);
+  } catch (error) {
+    console.error('Error getting document version:', error);
+    throw new Error('Failed to get document version');
+  }
+}
+
+/**
+ * Restore a document to an earlier version
+ *
+ * The current content is snapshotted first so the restore itself can be undone.
+ */
+export async function restoreDocumentVersion(
+  documentId: string,
+  versionId: string,
+  userId: string
+): Promise<Document> {
+  const [document, version] = await Promise.all([
+    getDocument(documentId, userId),
+    getDocumentVersion(documentId, versionId, userId)
+  ]);
+
+  if (!document) {
+    throw new Error('Document not found');
+  }
+  if (!version) {
+    throw new Error('Version not found');
+  }
+
+  await createDocumentVersion(document, userId, 'restore');
+
+  return updateDocument(documentId, userId, {
+    title: version.title,
+    content: version.content
+  });
+}
+
+/**
+ * Delete the oldest snapshots beyond MAX_VERSIONS_PER_DOCUMENT
+ */
+async function pruneDocumentVersions(documentId: string): Promise<void> {
+  try {
+    const q = query(
+      collection(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.VERSIONS),
+      orderBy('createdAt', 'desc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    const staleVersions = querySnapshot.docs.slice(MAX_VERSIONS_PER_DOCUMENT);
+
+    await Promise.all(staleVersions.map(versionSnap => deleteDoc(versionSnap.ref)));
+  } catch (error) {
+    // Pruning is best-effort; a failure here must not fail the save
+    console.warn('Error pruning document versions:', error);
+  }
+}
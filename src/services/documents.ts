@@ -3,17 +3,12 @@
  * @author WordWise AI Team
  * @version 1.0.0
  * 
- * Service layer for document management with Firebase Firestore and in-memory guest storage.
+ * Service layer for document management with Firebase Firestore and local guest storage.
  * Handles CRUD operations, querying, and document statistics.
  */
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
-/**
- * In-memory storage for guest users
- * Data is lost when the session ends
- */
-const guestDocuments = new Map<string, Document>();
 let guestDocumentCounter = 1;
 
 import {
@@ -28,12 +23,46 @@ import {
   where,
   orderBy,
   limit,
+  startAfter,
+  documentId,
+  getCountFromServer,
   Timestamp,
   serverTimestamp,
+  writeBatch,
   QueryDocumentSnapshot,
+  QueryConstraint,
   DocumentData
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { db, auth } from '@/lib/firebase';
+import { createRecordStore } from '@/lib/indexed-db';
+import { guestCommentStore, guestDocumentStore, guestVersionStore } from './guest-documents';
+import { indexDocument, removeFromSearchIndex } from './document-search';
+import {
+  createSyncQueue,
+  generateOfflineDocumentId,
+  isOfflineDocumentId,
+  isOfflineError,
+  type ConflictResolution,
+  type QueuedWrite,
+  type SyncConflict,
+  type SyncResult
+} from './offline/sync-queue';
+import { createFirestoreSyncRemote } from './offline/firestore-remote';
+import { isOnline } from './offline/network-status';
+import {
+  PLAYER_COPIES,
+  getPlayerCopy,
+  isPermissionDeniedError,
+  playerCopyData,
+  syncPlayerCopy
+} from './player-copies';
+import { applyTagChange, replaceTags, tagKey } from '@/lib/document-tags';
+import {
+  PUBLIC_LINK_OFFLINE_ERROR,
+  planMoveToTrash,
+  toDuplicateData,
+  type DocumentChangePlan
+} from '@/lib/document-changes';
 import type {
   Document,
   CreateDocumentData,
@@ -41,12 +70,16 @@ import type {
   DocumentFilters,
   DocumentSortOptions,
   DocumentQueryOptions,
+  DocumentCursor,
   DocumentListResponse,
   RecentDocument,
-  DocumentPrivacy,
   DocumentStatus,
   DocumentStats,
-  DocumentSuggestions
+  DocumentSuggestions,
+  DocumentAccessRole,
+  BulkDocumentChange,
+  BulkDocumentResult,
+  PlayerCopy
 } from '@/types/document';
 
 /**
@@ -54,9 +87,32 @@ import type {
  */
 const COLLECTIONS = {
   DOCUMENTS: 'documents',
-  USERS: 'users'
+  PUBLIC_DOCUMENTS: 'publicDocuments',
+  USERS: 'users',
+  VERSIONS: 'versions',
+  COMMENTS: 'comments'
 } as const;
 
+/**
+ * Most writes Firestore accepts in one batch
+ */
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Most values Firestore accepts in an array-contains-any filter
+ */
+const MAX_TAG_FILTER_KEYS = 10;
+
+/**
+ * Every status except 'trashed'; lists show these unless asked for another
+ */
+const LIVE_DOCUMENT_STATUSES: DocumentStatus[] = ['draft', 'published', 'archived'];
+
+/**
+ * Days trashed documents are kept when the user hasn't chosen
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 /**
  * Default document statistics
  */
@@ -70,13 +126,82 @@ const defaultStats: DocumentStats = {
   lastEditedAt: new Date()
 };
 
+/**
+ * Last known copy of each document opened or saved, for offline reads
+ */
+const offlineDocumentCache = createRecordStore<Document>({
+  databaseName: 'dungeons-and-drafting-offline',
+  storeName: 'documents'
+});
+
+/**
+ * Writes waiting for the network
+ */
+const syncQueue = createSyncQueue(
+  createRecordStore<QueuedWrite>({
+    databaseName: 'dungeons-and-drafting-sync-queue',
+    storeName: 'writes',
+    indexes: ['userId']
+  }),
+  createFirestoreSyncRemote(db, COLLECTIONS.DOCUMENTS),
+  {
+    withContent: (data, content) => ({
+      ...data,
+      content,
+      stats: { ...(data.stats as Partial<DocumentStats> | undefined), ...calculateTextStats(content) }
+    })
+  }
+);
+
 /**
  * Check if a user ID indicates a guest user
  */
-function isGuestUser(userId: string): boolean {
+export function isGuestUser(userId: string): boolean {
   return userId.startsWith('guest_');
 }
 
+/**
+ * Resolve the access a user has to a document
+ *
+ * Only ownership and share roles count, as in the Firestore rules; the legacy
+ * `collaborators` list grants nothing there, so it grants nothing here.
+ *
+ * @param email - The user's email; shares are keyed by lowercased email
+ * @returns The user's role, or null when the document isn't shared with them
+ */
+export function getDocumentRole(
+  document: Pick<Document, 'userId' | 'shareRoles'>,
+  userId: string,
+  email?: string | null
+): DocumentAccessRole | null {
+  if (document.userId === userId) return 'owner';
+  if (email) {
+    return document.shareRoles?.[email.trim().toLowerCase()] ?? null;
+  }
+  return null;
+}
+
+/**
+ * Whether a role may change document content
+ */
+export function canEditDocument(role: DocumentAccessRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Whether a role may read and write inline comments
+ */
+export function canCommentOnDocument(role: DocumentAccessRole | null): boolean {
+  return role === 'owner' || role === 'editor' || role === 'commenter';
+}
+
+/**
+ * Email of the signed-in Firebase user, used to resolve shares
+ */
+function getCurrentUserEmail(): string | null {
+  return auth.currentUser?.email ?? null;
+}
+
 /**
  * Generate a unique guest document ID
  */
@@ -84,10 +209,192 @@ function generateGuestDocumentId(): string {
   return `guest_doc_${guestDocumentCounter++}_${Date.now()}`;
 }
 
+/**
+ * Remember a document for offline reads, without failing the caller
+ */
+function cacheDocument(document: Document): void {
+  offlineDocumentCache.put(document).catch(error => {
+    console.warn('Error caching document for offline use:', error);
+  });
+}
+
+/**
+ * Rewrite a document's player copy after a save, without failing the caller
+ *
+ * Only documents shared with viewers have a copy.
+ */
+function refreshPlayerCopy(document: Document): void {
+  if (!document.viewerEmails?.length) return;
+  syncPlayerCopy(document).catch(error => {
+    console.warn('Error refreshing player copy:', error);
+  });
+}
+
+/**
+ * Refresh a document's full-text search entry, without failing the caller
+ *
+ * Trashed documents are taken out of search until restored.
+ */
+function updateSearchIndex(document: Document): void {
+  if (document.status === 'trashed') {
+    dropFromSearchIndex(document.id);
+    return;
+  }
+  indexDocument(document).catch(error => {
+    console.warn('Error indexing document for search:', error);
+  });
+}
+
+/**
+ * Remove a document's search entry, without failing the caller
+ */
+function dropFromSearchIndex(documentId: string): void {
+  removeFromSearchIndex(documentId).catch(error => {
+    console.warn('Error removing document from search:', error);
+  });
+}
+
+/**
+ * Key a title sorts by, so "zombie" sorts before "Zed"
+ */
+function titleSortKey(title: string): string {
+  return title.toLowerCase();
+}
+
+/**
+ * Lowercased title and tags stored beside the originals, so Firestore can sort
+ * titles and filter tags without regard to case
+ */
+function withSortKeys<T extends { title?: string; tags?: string[] }>(
+  data: T
+): T & { titleKey?: string; tagKeys?: string[] } {
+  return {
+    ...data,
+    ...(data.title !== undefined && { titleKey: titleSortKey(data.title) }),
+    ...(data.tags !== undefined && { tagKeys: data.tags.map(tagKey) })
+  };
+}
+
+/**
+ * localStorage key listing the accounts in this browser whose documents have sort keys
+ */
+const SORT_KEYS_STORAGE_KEY = 'dnd_sort_keys_added';
+
+/**
+ * Documents read per page while adding sort keys
+ */
+const SORT_KEY_PAGE_SIZE = 100;
+
+/**
+ * Accounts whose documents are being given sort keys now
+ */
+const sortKeyMigrations = new Set<string>();
+
+/**
+ * Accounts in this browser whose documents already have sort keys
+ */
+function getSortKeyAccounts(): string[] {
+  try {
+    const stored = localStorage.getItem(SORT_KEYS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as string[] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Give a user's documents saved before sort keys existed their keys, so title
+ * sorts and tag filters don't skip them
+ *
+ * A one-off migration per account in this browser: documents are read a page
+ * at a time, and each page's stale documents are written in one batch. Runs
+ * only online; on failure it is tried again on the next call.
+ */
+export async function migrateSortKeys(userId: string): Promise<void> {
+  if (isGuestUser(userId) || !isOnline() || sortKeyMigrations.has(userId)) return;
+  const accounts = getSortKeyAccounts();
+  if (accounts.includes(userId)) return;
+
+  sortKeyMigrations.add(userId);
+  try {
+    let updatedCount = 0;
+    let lastSnapshot: QueryDocumentSnapshot<DocumentData> | undefined;
+    do {
+      const querySnapshot = await getDocs(query(
+        collection(db, COLLECTIONS.DOCUMENTS),
+        where('userId', '==', userId),
+        orderBy(documentId()),
+        ...(lastSnapshot ? [startAfter(lastSnapshot)] : []),
+        limit(SORT_KEY_PAGE_SIZE)
+      ));
+      const stale = querySnapshot.docs.filter(docSnap => {
+        const data = docSnap.data();
+        return data.titleKey !== titleSortKey(data.title || '') || !Array.isArray(data.tagKeys);
+      });
+
+      if (stale.length > 0) {
+        const batch = writeBatch(db);
+        stale.forEach(docSnap => {
+          const data = docSnap.data();
+          batch.update(docSnap.ref, {
+            titleKey: titleSortKey(data.title || ''),
+            tagKeys: (data.tags || []).map(tagKey)
+          });
+        });
+        await batch.commit();
+        updatedCount += stale.length;
+      }
+      lastSnapshot = querySnapshot.docs.length === SORT_KEY_PAGE_SIZE
+        ? querySnapshot.docs[querySnapshot.docs.length - 1]
+        : undefined;
+    } while (lastSnapshot);
+
+    localStorage.setItem(SORT_KEYS_STORAGE_KEY, JSON.stringify([...accounts, userId]));
+    if (updatedCount > 0) {
+      console.log('🔄 Sort keys added to documents:', updatedCount);
+    }
+  } catch (error) {
+    console.error('Error adding sort keys:', error);
+  } finally {
+    sortKeyMigrations.delete(userId);
+  }
+}
+
+/**
+ * Apply an update to a document held locally (guest or offline copy)
+ */
+function applyLocalUpdate(document: Document, updateData: UpdateDocumentData): Document {
+  const updatedDocument: Document = {
+    ...document,
+    ...(updateData.title && { title: updateData.title }),
+    ...(updateData.content && { content: updateData.content }),
+    ...(updateData.type && { type: updateData.type }),
+    ...(updateData.privacy && { privacy: updateData.privacy }),
+    ...(updateData.status && { status: updateData.status }),
+    ...(updateData.description !== undefined && { description: updateData.description }),
+    ...(updateData.tags && { tags: updateData.tags }),
+    ...(updateData.binderId !== undefined && { binderId: updateData.binderId }),
+    ...(updateData.binderOrder !== undefined && { binderOrder: updateData.binderOrder }),
+    ...(updateData.trashedAt && { trashedAt: updateData.trashedAt }),
+    ...(updateData.statusBeforeTrash && { statusBeforeTrash: updateData.statusBeforeTrash }),
+    updatedAt: new Date(),
+    lastAccessedAt: new Date(),
+    version: document.version + 1,
+    stats: updateData.content 
+      ? { ...document.stats, ...calculateTextStats(updateData.content) }
+      : updateData.stats ? { ...document.stats, ...updateData.stats } : document.stats
+  };
+
+  // Restoring from the trash clears these
+  if (updateData.trashedAt === null) delete updatedDocument.trashedAt;
+  if (updateData.statusBeforeTrash === null) delete updatedDocument.statusBeforeTrash;
+  return updatedDocument;
+}
+
 /**
  * Convert Firestore document to Document type
  */
-function convertFirestoreDocument(docSnap: QueryDocumentSnapshot<DocumentData>): Document {
+export function convertFirestoreDocument(docSnap: QueryDocumentSnapshot<DocumentData>): Document {
   const data = docSnap.data();
   return {
     id: docSnap.id,
@@ -99,6 +406,11 @@ function convertFirestoreDocument(docSnap: QueryDocumentSnapshot<DocumentData>):
     status: data.status,
     description: data.description,
     tags: data.tags || [],
+    ...(data.binderId && { binderId: data.binderId, binderOrder: data.binderOrder ?? 0 }),
+    ...(data.trashedAt && {
+      trashedAt: data.trashedAt instanceof Timestamp ? data.trashedAt.toDate() : new Date(data.trashedAt)
+    }),
+    ...(data.statusBeforeTrash && { statusBeforeTrash: data.statusBeforeTrash }),
     stats: {
       ...data.stats,
       lastEditedAt: data.stats?.lastEditedAt instanceof Timestamp 
@@ -116,12 +428,42 @@ function convertFirestoreDocument(docSnap: QueryDocumentSnapshot<DocumentData>):
       ? data.lastAccessedAt.toDate() 
       : new Date(data.lastAccessedAt),
     sharedWith: data.sharedWith,
+    memberEmails: data.memberEmails,
+    viewerEmails: data.viewerEmails,
+    shareRoles: data.shareRoles,
     collaborators: data.collaborators,
     version: data.version || 1,
     isAutoSaveEnabled: data.isAutoSaveEnabled ?? true
   };
 }
 
+/**
+ * Present a player copy as a read-only document shared with a viewer
+ *
+ * @param email - The viewer's email
+ */
+export function playerCopyToDocument(copy: PlayerCopy, email: string): Document {
+  const viewerEmail = email.trim().toLowerCase();
+  return {
+    id: copy.id,
+    title: copy.title,
+    content: copy.content,
+    userId: copy.ownerId,
+    type: copy.type,
+    privacy: 'shared',
+    status: copy.status,
+    tags: [],
+    stats: { ...defaultStats, ...calculateTextStats(copy.content), lastEditedAt: copy.updatedAt },
+    createdAt: copy.updatedAt,
+    updatedAt: copy.updatedAt,
+    lastAccessedAt: new Date(),
+    sharedWith: [viewerEmail],
+    shareRoles: { [viewerEmail]: 'viewer' },
+    version: 1,
+    isAutoSaveEnabled: false
+  };
+}
+
 /**
  * Calculate text statistics from content
  */
@@ -154,12 +496,9 @@ export function calculateTextStats(content: string): Partial<DocumentStats> {
 }
 
 /**
- * Create a new document
+ * Fields of a new document, before it has an ID
  */
-export const createDocument = async (
-  userId: string,
-  data: CreateDocumentData
-): Promise<Document> => {
+function buildNewDocumentData(userId: string, data: CreateDocumentData): Omit<Document, 'id'> {
   const now = new Date();
   const defaultStats: DocumentStats = {
     wordCount: 0,
@@ -171,15 +510,15 @@ export const createDocument = async (
     lastEditedAt: now
   };
 
-  const documentData = {
+  return {
     title: data.title,
     type: data.type || 'other',
     content: data.content || '',
     description: data.description || '',
     tags: data.tags || [],
     userId,
-    privacy: (data.privacy || 'private') as DocumentPrivacy,
-    status: 'draft' as DocumentStatus,
+    privacy: data.privacy || 'private',
+    status: 'draft',
     stats: defaultStats,
     createdAt: now,
     updatedAt: now,
@@ -187,8 +526,18 @@ export const createDocument = async (
     version: 1,
     isAutoSaveEnabled: true
   };
+}
 
-  // Handle guest users with in-memory storage
+/**
+ * Create a new document
+ */
+export const createDocument = async (
+  userId: string,
+  data: CreateDocumentData
+): Promise<Document> => {
+  const documentData = buildNewDocumentData(userId, data);
+
+  // Handle guest users with local storage
   if (isGuestUser(userId)) {
     const documentId = generateGuestDocumentId();
     const newDocument: Document = {
@@ -196,20 +545,45 @@ export const createDocument = async (
       ...documentData
     };
     
-    guestDocuments.set(documentId, newDocument);
-    console.log('🔄 Guest document created in memory:', documentId);
+    await guestDocumentStore.create(newDocument);
+    updateSearchIndex(newDocument);
+    console.log('🔄 Guest document created locally:', documentId);
+    return newDocument;
+  }
+
+  // Queue the create while offline; the document gets its real ID on sync
+  if (!isOnline()) {
+    const newDocument: Document = {
+      id: generateOfflineDocumentId(),
+      ...documentData
+    };
+
+    await syncQueue.enqueue({
+      id: newDocument.id,
+      type: 'create',
+      userId,
+      data: withSortKeys(documentData),
+      baseVersion: 0,
+      baseContent: null,
+      queuedAt: Date.now()
+    });
+    await offlineDocumentCache.put(newDocument);
+    updateSearchIndex(newDocument);
+    console.log('🔄 Document created offline:', newDocument.id);
     return newDocument;
   }
 
   // Regular Firebase storage for authenticated users
   try {
-    const docRef = await addDoc(collection(db, 'documents'), documentData);
+    const docRef = await addDoc(collection(db, 'documents'), withSortKeys(documentData));
     
     const newDocument: Document = {
       id: docRef.id,
       ...documentData
     };
     
+    cacheDocument(newDocument);
+    updateSearchIndex(newDocument);
     return newDocument;
   } catch (error) {
     console.error('Error creating document:', error);
@@ -217,6 +591,107 @@ export const createDocument = async (
   }
 };
 
+/**
+ * Move a guest document's version snapshots and comment threads under its
+ * account copy, crediting the guest's authorship to the account
+ */
+async function migrateGuestDocumentHistory(
+  guestDocumentId: string,
+  documentId: string,
+  guestId: string,
+  userId: string
+): Promise<void> {
+  const [versions, comments] = await Promise.all([
+    guestVersionStore.getAll({ field: 'documentId', value: guestDocumentId }),
+    guestCommentStore.getAll({ field: 'documentId', value: guestDocumentId })
+  ]);
+  const toAccount = (id: string) => (id === guestId ? userId : id);
+  const versionsRef = collection(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.VERSIONS);
+  const commentsRef = collection(db, COLLECTIONS.DOCUMENTS, documentId, COLLECTIONS.COMMENTS);
+
+  const writes = [
+    ...versions.map(({ id, documentId: _documentId, ...version }) => ({
+      ref: doc(versionsRef),
+      data: { ...version, createdBy: toAccount(version.createdBy) }
+    })),
+    ...comments.map(({ id, documentId: _documentId, ...comment }) => ({
+      ref: doc(commentsRef),
+      data: {
+        ...comment,
+        authorId: toAccount(comment.authorId),
+        replies: comment.replies.map(reply => ({ ...reply, authorId: toAccount(reply.authorId) })),
+        ...(comment.resolvedBy && { resolvedBy: toAccount(comment.resolvedBy) })
+      }
+    }))
+  ];
+
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(({ ref, data }) => batch.set(ref, data));
+    await batch.commit();
+  }
+
+  await Promise.all([
+    ...versions.map(version => guestVersionStore.delete(version.id)),
+    ...comments.map(comment => guestCommentStore.delete(comment.id))
+  ]);
+}
+
+/**
+ * Move a guest's local documents, with their history and comments, into a
+ * signed-in user's account
+ *
+ * Documents are moved one by one; any that fail stay local so a later
+ * sign-in can retry them.
+ *
+ * @returns How many documents moved and how many were left behind
+ */
+export async function migrateGuestDocuments(
+  guestId: string,
+  userId: string,
+  binderIds: Record<string, string> = {} // Guest binder ID -> account binder ID
+): Promise<{ migratedCount: number; failedCount: number }> {
+  if (!isGuestUser(guestId) || isGuestUser(userId)) {
+    return { migratedCount: 0, failedCount: 0 };
+  }
+
+  const guestDocuments = await guestDocumentStore.list(guestId);
+  let migratedCount = 0;
+  let failedCount = 0;
+
+  for (const guestDocument of guestDocuments) {
+    try {
+      const { id, binderId, binderOrder, ...documentData } = guestDocument;
+      const accountBinderId = binderId ? binderIds[binderId] : undefined;
+      const docRef = await addDoc(collection(db, COLLECTIONS.DOCUMENTS), {
+        ...withSortKeys(documentData),
+        ...(accountBinderId && { binderId: accountBinderId, binderOrder: binderOrder ?? 0 }),
+        userId,
+        // Guests can't publish, so there is no player view copy to keep in sync
+        privacy: guestDocument.privacy === 'public' ? 'private' : guestDocument.privacy
+      });
+      try {
+        await migrateGuestDocumentHistory(id, docRef.id, guestId, userId);
+      } catch (error) {
+        // Keep the guest copy whole so the next sign-in retries all of it
+        await deleteDoc(docRef);
+        throw error;
+      }
+      await guestDocumentStore.delete(id);
+      dropFromSearchIndex(id);
+      migratedCount++;
+    } catch (error) {
+      console.error('Error migrating guest document:', guestDocument.id, error);
+      failedCount++;
+    }
+  }
+
+  if (migratedCount > 0) {
+    console.log('🔄 Guest documents moved to account:', migratedCount);
+  }
+  return { migratedCount, failedCount };
+}
+
 /**
  * Get a single document by ID
  */
@@ -224,22 +699,35 @@ export const getDocument = async (
   documentId: string,
   userId: string
 ): Promise<Document | null> => {
-  // Handle guest users with in-memory storage
+  // Handle guest users with local storage
   if (isGuestUser(userId)) {
-    const document = guestDocuments.get(documentId);
+    const document = await guestDocumentStore.get(documentId);
     if (document && document.userId === userId) {
       // Update last accessed time
       document.lastAccessedAt = new Date();
-      console.log('🔄 Guest document retrieved from memory:', documentId);
+      await guestDocumentStore.update(document);
+      console.log('🔄 Guest document retrieved locally:', documentId);
       return document;
     }
     return null;
   }
 
+  if (!isOnline() || isOfflineDocumentId(documentId)) {
+    return getCachedDocument(documentId, userId);
+  }
+
   // Regular Firebase storage for authenticated users
   try {
     const docRef = doc(db, 'documents', documentId);
-    const docSnap = await getDoc(docRef);
+    let docSnap;
+    try {
+      docSnap = await getDoc(docRef);
+    } catch (error) {
+      if (isPermissionDeniedError(error)) {
+        return getPlayerCopyDocument(documentId);
+      }
+      throw error;
+    }
     
     if (!docSnap.exists()) {
       return null;
@@ -247,51 +735,88 @@ export const getDocument = async (
 
     const data = docSnap.data();
     
-    // Check if user has access
-    if (data.userId !== userId) {
+    // Check if user has access (owner or shared)
+    if (!getDocumentRole({ userId: data.userId, shareRoles: data.shareRoles }, userId, getCurrentUserEmail())) {
       return null;
     }
 
-    // Convert Firestore Timestamps to Dates
-    const document: Document = {
-      id: docSnap.id,
-      title: data.title,
-      content: data.content,
-      userId: data.userId,
-      type: data.type,
-      privacy: data.privacy,
-      status: data.status,
-      description: data.description,
-      tags: data.tags,
-      stats: {
-        ...data.stats,
-        lastEditedAt: data.stats?.lastEditedAt instanceof Timestamp 
-          ? data.stats.lastEditedAt.toDate() 
-          : new Date(data.stats?.lastEditedAt || Date.now())
-      },
-      createdAt: data.createdAt instanceof Timestamp 
-        ? data.createdAt.toDate() 
-        : new Date(data.createdAt),
-      updatedAt: data.updatedAt instanceof Timestamp 
-        ? data.updatedAt.toDate() 
-        : new Date(data.updatedAt),
-      lastAccessedAt: data.lastAccessedAt instanceof Timestamp 
-        ? data.lastAccessedAt.toDate() 
-        : new Date(data.lastAccessedAt),
-      version: data.version || 1,
-      isAutoSaveEnabled: data.isAutoSaveEnabled ?? true,
-      sharedWith: data.sharedWith,
-      collaborators: data.collaborators,
-      suggestions: data.suggestions
-    };
-    
+    const document = convertFirestoreDocument(docSnap as QueryDocumentSnapshot<DocumentData>);
+    cacheDocument(document);
     return document;
   } catch (error) {
+    if (isOfflineError(error)) {
+      return getCachedDocument(documentId, userId);
+    }
     console.error('Error getting document:', error);
     throw error;
   }
 };
 
+/**
+ * Load the player copy of a document the user can only view
+ *
+ * Replaces any full copy cached before the user's role was narrowed.
+ */
+async function getPlayerCopyDocument(documentId: string): Promise<Document | null> {
+  const email = getCurrentUserEmail();
+  const copy = email ? await getPlayerCopy(documentId) : null;
+  if (!copy || !email) {
+    await offlineDocumentCache.delete(documentId);
+    return null;
+  }
+
+  const document = playerCopyToDocument(copy, email);
+  cacheDocument(document);
+  return document;
+}
+
+/**
+ * Get the last known copy of a document while offline
+ */
+async function getCachedDocument(documentId: string, userId: string): Promise<Document | null> {
+  const document = await offlineDocumentCache.get(documentId);
+  if (!document || !getDocumentRole(document, userId, getCurrentUserEmail())) {
+    return null;
+  }
+
+  console.log('🔄 Document loaded from offline cache:', documentId);
+  return document;
+}
+
+/**
+ * Queue an update while offline, or while earlier offline edits to the same
+ * document are still waiting to sync
+ */
+async function queueDocumentUpdate(
+  documentId: string,
+  userId: string,
+  updateData: UpdateDocumentData
+): Promise<Document> {
+  const document = await offlineDocumentCache.get(documentId);
+  if (!document) {
+    throw new Error('Document not available offline');
+  }
+  if (!canEditDocument(getDocumentRole(document, userId, getCurrentUserEmail()))) {
+    throw new Error('Permission denied');
+  }
+
+  const updatedDocument = applyLocalUpdate(document, updateData);
+  await syncQueue.enqueue({
+    id: documentId,
+    type: 'update',
+    userId,
+    data: { ...withSortKeys(updateData), stats: updatedDocument.stats },
+    baseVersion: document.version,
+    baseContent: document.content,
+    queuedAt: Date.now()
+  });
+  await offlineDocumentCache.put(updatedDocument);
+  updateSearchIndex(updatedDocument);
+
+  console.log('🔄 Document update queued offline:', documentId);
+  return updatedDocument;
+}
+
 /**
  * Update a document
  */
@@ -300,36 +825,26 @@ export async function updateDocument(
   userId: string,
   updateData: UpdateDocumentData
 ): Promise<Document> {
-  // Handle guest users with in-memory storage
+  // Handle guest users with local storage
   if (isGuestUser(userId)) {
-    const document = guestDocuments.get(documentId);
+    const document = await guestDocumentStore.get(documentId);
     if (!document || document.userId !== userId) {
       throw new Error('Document not found');
     }
 
-    // Update the document in memory
-    const updatedDocument: Document = {
-      ...document,
-      ...(updateData.title && { title: updateData.title }),
-      ...(updateData.content && { content: updateData.content }),
-      ...(updateData.type && { type: updateData.type }),
-      ...(updateData.privacy && { privacy: updateData.privacy }),
-      ...(updateData.status && { status: updateData.status }),
-      ...(updateData.description !== undefined && { description: updateData.description }),
-      ...(updateData.tags && { tags: updateData.tags }),
-      updatedAt: new Date(),
-      lastAccessedAt: new Date(),
-      version: document.version + 1,
-      stats: updateData.content 
-        ? { ...document.stats, ...calculateTextStats(updateData.content) }
-        : updateData.stats ? { ...document.stats, ...updateData.stats } : document.stats
-    };
+    // Update the document locally
+    const updatedDocument = applyLocalUpdate(document, updateData);
 
-    guestDocuments.set(documentId, updatedDocument);
-    console.log('🔄 Guest document updated in memory:', documentId);
+    await guestDocumentStore.update(updatedDocument);
+    updateSearchIndex(updatedDocument);
+    console.log('🔄 Guest document updated locally:', documentId);
     return updatedDocument;
   }
 
+  if (!isOnline() || await syncQueue.has(documentId)) {
+    return queueDocumentUpdate(documentId, userId, updateData);
+  }
+
   // Regular Firebase storage for authenticated users
   try {
     const docRef = doc(db, COLLECTIONS.DOCUMENTS, documentId);
@@ -341,7 +856,7 @@ export async function updateDocument(
     }
 
     const document = convertFirestoreDocument(docSnap as QueryDocumentSnapshot<DocumentData>);
-    if (document.userId !== userId && !document.collaborators?.includes(userId)) {
+    if (!canEditDocument(getDocumentRole(document, userId, getCurrentUserEmail()))) {
       throw new Error('Permission denied');
     }
 
@@ -351,7 +866,7 @@ export async function updateDocument(
       : document.stats;
 
     const updatePayload: any = {
-      ...updateData,
+      ...withSortKeys(updateData),
       stats: updatedStats,
       updatedAt: serverTimestamp(),
       lastAccessedAt: serverTimestamp(),
@@ -362,17 +877,119 @@ export async function updateDocument(
 
     // Return updated document
     const updatedDocSnap = await getDoc(docRef);
-    return convertFirestoreDocument(updatedDocSnap as QueryDocumentSnapshot<DocumentData>);
+    const updatedDocument = convertFirestoreDocument(updatedDocSnap as QueryDocumentSnapshot<DocumentData>);
+    cacheDocument(updatedDocument);
+    updateSearchIndex(updatedDocument);
+    refreshPlayerCopy(updatedDocument);
+    return updatedDocument;
   } catch (error) {
+    if (isOfflineError(error)) {
+      return queueDocumentUpdate(documentId, userId, updateData);
+    }
     console.error('Error updating document:', error);
     throw new Error('Failed to update document');
   }
 }
 
 /**
- * Delete a document
+ * Replay a user's offline writes
+ *
+ * Conflicting writes stay queued until resolved with resolveSyncConflict.
+ */
+export async function syncOfflineChanges(userId: string): Promise<SyncResult> {
+  const result = await syncQueue.replay(userId);
+
+  // Refresh the cache so later offline edits start from the server version
+  for (const [offlineId, documentId] of Object.entries(result.createdIds)) {
+    await offlineDocumentCache.delete(offlineId);
+    dropFromSearchIndex(offlineId);
+    const document = await getDocument(documentId, userId);
+    if (document) {
+      updateSearchIndex(document);
+    }
+  }
+  for (const documentId of result.syncedIds) {
+    const document = await getDocument(documentId, userId);
+    if (document) {
+      refreshPlayerCopy(document);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Settle a sync conflict and return the document as now saved
+ */
+export async function resolveSyncConflict(
+  conflict: SyncConflict,
+  resolution: ConflictResolution
+): Promise<Document | null> {
+  try {
+    await syncQueue.resolveConflict(conflict.documentId, resolution);
+    const document = await getDocument(conflict.documentId, conflict.userId);
+    if (document) {
+      refreshPlayerCopy(document);
+    }
+    return document;
+  } catch (error) {
+    console.error('Error resolving sync conflict:', error);
+    throw new Error('Failed to resolve sync conflict');
+  }
+}
+
+/**
+ * Number of documents with writes waiting to sync
+ */
+export async function getPendingWriteCount(userId: string): Promise<number> {
+  return (await syncQueue.list(userId)).length;
+}
+
+/**
+ * Delete every document in a document's subcollection, in batches
+ */
+async function deleteSubcollection(documentId: string, subcollection: string): Promise<void> {
+  const querySnapshot = await getDocs(collection(db, COLLECTIONS.DOCUMENTS, documentId, subcollection));
+
+  for (let start = 0; start < querySnapshot.docs.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    querySnapshot.docs.slice(start, start + MAX_BATCH_WRITES).forEach(docSnap => batch.delete(docSnap.ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Delete a document with its version history and comments
  */
 export async function deleteDocument(documentId: string, userId: string): Promise<void> {
+  // Handle guest users with local storage
+  if (isGuestUser(userId)) {
+    const document = await guestDocumentStore.get(documentId);
+    if (!document || document.userId !== userId) {
+      throw new Error('Document not found');
+    }
+    const [versions, comments] = await Promise.all([
+      guestVersionStore.getAll({ field: 'documentId', value: documentId }),
+      guestCommentStore.getAll({ field: 'documentId', value: documentId })
+    ]);
+    await Promise.all([
+      ...versions.map(version => guestVersionStore.delete(version.id)),
+      ...comments.map(comment => guestCommentStore.delete(comment.id))
+    ]);
+    await guestDocumentStore.delete(documentId);
+    dropFromSearchIndex(documentId);
+    console.log('🔄 Guest document deleted locally:', documentId);
+    return;
+  }
+
+  // Never synced, so there is nothing on the server to delete
+  if (isOfflineDocumentId(documentId)) {
+    await syncQueue.discard(documentId);
+    await offlineDocumentCache.delete(documentId);
+    dropFromSearchIndex(documentId);
+    return;
+  }
+
   try {
     const docRef = doc(db, COLLECTIONS.DOCUMENTS, documentId);
     
@@ -387,7 +1004,20 @@ export async function deleteDocument(documentId: string, userId: string): Promis
       throw new Error('Permission denied - only document owner can delete');
     }
 
+    // Revoke the player view link and viewers' copy along with the document
+    await deleteDoc(doc(db, COLLECTIONS.PUBLIC_DOCUMENTS, documentId));
+    if (document.viewerEmails?.length) {
+      await deleteDoc(doc(db, PLAYER_COPIES, documentId));
+    }
+
+    // Firestore keeps subcollections of a deleted document, and their rules
+    // need the parent, so they go first
+    await deleteSubcollection(documentId, COLLECTIONS.VERSIONS);
+    await deleteSubcollection(documentId, COLLECTIONS.COMMENTS);
     await deleteDoc(docRef);
+    await syncQueue.discard(documentId);
+    await offlineDocumentCache.delete(documentId);
+    dropFromSearchIndex(documentId);
   } catch (error) {
     console.error('Error deleting document:', error);
     throw new Error('Failed to delete document');
@@ -395,126 +1025,284 @@ export async function deleteDocument(documentId: string, userId: string): Promis
 }
 
 /**
- * Get user's documents with filtering and pagination
+ * Move a document to the trash
+ *
+ * Trashed documents drop out of lists and search until restored, and are
+ * deleted for good by emptyTrash or purgeExpiredTrash. A public player link is
+ * revoked; the owner can turn it on again after restoring.
+ */
+export async function moveDocumentToTrash(documentId: string, userId: string): Promise<Document> {
+  const document = await getDocument(documentId, userId);
+  if (!document) {
+    throw new Error('Document not found');
+  }
+  const plan = planMoveToTrash(document, userId, isOnline());
+  if (!plan) {
+    return document;
+  }
+
+  if (plan.revokePublicLink) {
+    try {
+      await deleteDoc(doc(db, COLLECTIONS.PUBLIC_DOCUMENTS, documentId));
+    } catch (error) {
+      console.error('Error revoking player link:', error);
+      throw new Error('Failed to move document to trash');
+    }
+  }
+
+  return updateDocument(documentId, userId, plan.updateData);
+}
+
+/**
+ * Take a document back out of the trash, with the status it had before
+ */
+export async function restoreDocument(documentId: string, userId: string): Promise<Document> {
+  const document = await getDocument(documentId, userId);
+  if (!document) {
+    throw new Error('Document not found');
+  }
+  if (document.status !== 'trashed') {
+    return document;
+  }
+
+  return updateDocument(documentId, userId, {
+    status: document.statusBeforeTrash && document.statusBeforeTrash !== 'trashed'
+      ? document.statusBeforeTrash
+      : 'draft',
+    statusBeforeTrash: null,
+    trashedAt: null
+  });
+}
+
+/**
+ * Get a user's trashed documents, most recently trashed first
+ */
+export async function getTrashedDocuments(userId: string): Promise<Document[]> {
+  const documents = await getAllUserDocuments(userId, { status: 'trashed' });
+  return documents.sort((a, b) => (b.trashedAt?.getTime() ?? 0) - (a.trashedAt?.getTime() ?? 0));
+}
+
+/**
+ * When a trashed document will be deleted for good
+ */
+export function getTrashPurgeDate(document: Document, retentionDays: number): Date | null {
+  if (!document.trashedAt) return null;
+  return new Date(document.trashedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Delete every trashed document for good
+ *
+ * @returns How many documents were deleted
+ */
+export async function emptyTrash(userId: string): Promise<number> {
+  const documents = await getTrashedDocuments(userId);
+  for (const document of documents) {
+    await deleteDocument(document.id, userId);
+  }
+  return documents.length;
+}
+
+/**
+ * Delete trashed documents older than the retention period
+ *
+ * There is no server-side job, so this runs when the app loads the trash.
+ *
+ * @returns How many documents were deleted
+ */
+export async function purgeExpiredTrash(
+  userId: string,
+  retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS
+): Promise<number> {
+  const now = Date.now();
+  const expired = (await getTrashedDocuments(userId)).filter(document => {
+    const purgeDate = getTrashPurgeDate(document, retentionDays);
+    return purgeDate !== null && purgeDate.getTime() <= now;
+  });
+
+  for (const document of expired) {
+    await deleteDocument(document.id, userId);
+  }
+  if (expired.length > 0) {
+    console.log('🔄 Expired documents purged from trash:', expired.length);
+  }
+  return expired.length;
+}
+
+/**
+ * Firestore field behind each sort option
+ */
+const SORT_FIELD_PATHS: Record<DocumentSortOptions['field'], string> = {
+  title: 'titleKey',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  lastAccessedAt: 'lastAccessedAt',
+  wordCount: 'stats.wordCount'
+};
+
+/**
+ * Value a document is sorted by, in cursor form
+ */
+function getSortValue(document: Document, field: DocumentSortOptions['field']): string | number {
+  switch (field) {
+    case 'title':
+      return titleSortKey(document.title);
+    case 'wordCount':
+      return document.stats.wordCount;
+    default:
+      return document[field].getTime();
+  }
+}
+
+/**
+ * Convert a cursor value back to the type stored in Firestore
+ */
+function toFirestoreSortValue(field: DocumentSortOptions['field'], value: string | number): unknown {
+  return field === 'title' || field === 'wordCount' ? value : Timestamp.fromMillis(Number(value));
+}
+
+/**
+ * Whether a document's title, description or tags contain the search text
+ */
+function matchesSearchQuery(document: Document, searchQuery?: string): boolean {
+  const searchText = searchQuery?.trim().toLowerCase();
+  if (!searchText) return true;
+
+  return document.title.toLowerCase().includes(searchText) ||
+    !!document.description?.toLowerCase().includes(searchText) ||
+    document.tags.some(tag => tag.toLowerCase().includes(searchText));
+}
+
+/**
+ * Whether a locally held document passes the list filters (except search)
+ */
+function matchesFilters(document: Document, filters: DocumentFilters): boolean {
+  if (filters.type && document.type !== filters.type) return false;
+  if (filters.privacy && document.privacy !== filters.privacy) return false;
+  if (filters.status ? document.status !== filters.status : document.status === 'trashed') return false;
+  if (filters.tags?.length) {
+    const keys = new Set(filters.tags.map(tagKey));
+    if (!document.tags.some(tag => keys.has(tagKey(tag)))) return false;
+  }
+  if (filters.binderId && document.binderId !== filters.binderId) return false;
+  if (filters.dateRange && (document.updatedAt < filters.dateRange.start || document.updatedAt > filters.dateRange.end)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get user's documents with filtering and cursor pagination
+ *
+ * Filters and sorting run in Firestore (see firestore.indexes.json). The
+ * free-text search can't, so pages keep loading until enough documents match.
  */
 export async function getUserDocuments(
   userId: string,
   options: DocumentQueryOptions = {}
 ): Promise<DocumentListResponse> {
-  // Handle guest users with in-memory storage
+  const {
+    filters = {},
+    sort = { field: 'updatedAt', direction: 'desc' },
+    limit: docLimit = 20,
+    cursor = null
+  } = options;
+
+  // A date range is an inequality on updatedAt, which Firestore must sort by first
+  const sortField = filters.dateRange ? 'updatedAt' : sort.field;
+
+  // Handle guest users with local storage
   if (isGuestUser(userId)) {
-    const userDocuments = Array.from(guestDocuments.values())
-      .filter(doc => doc.userId === userId);
-    
-    console.log('🔄 Guest documents retrieved from memory:', userDocuments.length);
+    const filteredDocuments = (await guestDocumentStore.list(userId))
+      .filter(document => matchesFilters(document, filters));
+    const matchingDocuments = filteredDocuments
+      .filter(document => matchesSearchQuery(document, filters.searchQuery))
+      .sort((a, b) => {
+        const aValue = getSortValue(a, sortField);
+        const bValue = getSortValue(b, sortField);
+        const order = aValue < bValue ? -1 : aValue > bValue ? 1 : a.id.localeCompare(b.id);
+        return sort.direction === 'asc' ? order : -order;
+      });
+
+    const startIndex = cursor ? matchingDocuments.findIndex(document => document.id === cursor.id) + 1 : 0;
+    const documents = matchingDocuments.slice(startIndex, startIndex + docLimit);
+    const lastDocument = documents[documents.length - 1];
+    const hasMore = startIndex + docLimit < matchingDocuments.length;
+
+    console.log('🔄 Guest documents retrieved locally:', documents.length);
     return {
-      documents: userDocuments,
-      total: userDocuments.length,
-      hasMore: false
+      documents,
+      total: filteredDocuments.length,
+      hasMore,
+      nextCursor: hasMore && lastDocument
+        ? { id: lastDocument.id, value: getSortValue(lastDocument, sortField) }
+        : null
     };
   }
 
+  // Spellings of a tag share one key, so only distinct tags count toward the limit
+  const tagKeys = Array.from(new Set((filters.tags || []).map(tagKey)));
+  if (tagKeys.length > MAX_TAG_FILTER_KEYS) {
+    throw new Error(`Filter by at most ${MAX_TAG_FILTER_KEYS} tags at a time`);
+  }
+
   // Regular Firebase storage for authenticated users
   try {
-    const {
-      filters = {},
-      sort = { field: 'updatedAt', direction: 'desc' },
-      limit: docLimit = 20,
-      offset = 0
-    } = options;
-
-    // Simple query with only userId filter - no orderBy to avoid index requirements
-    let q = query(
-      collection(db, COLLECTIONS.DOCUMENTS),
-      where('userId', '==', userId)
+    const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+    if (filters.type) constraints.push(where('type', '==', filters.type));
+    if (filters.privacy) constraints.push(where('privacy', '==', filters.privacy));
+    constraints.push(filters.status
+      ? where('status', '==', filters.status)
+      : where('status', 'in', LIVE_DOCUMENT_STATUSES));
+    if (filters.binderId) constraints.push(where('binderId', '==', filters.binderId));
+    if (tagKeys.length > 0) {
+      constraints.push(where('tagKeys', 'array-contains-any', tagKeys));
+    }
+    if (filters.dateRange) {
+      constraints.push(where('updatedAt', '>=', Timestamp.fromDate(filters.dateRange.start)));
+      constraints.push(where('updatedAt', '<=', Timestamp.fromDate(filters.dateRange.end)));
+    }
+
+    const filteredQuery = query(collection(db, COLLECTIONS.DOCUMENTS), ...constraints);
+    const total = (await getCountFromServer(filteredQuery)).data().count;
+
+    // Document ID breaks ties so the cursor position is unambiguous
+    const sortedQuery = query(
+      filteredQuery,
+      orderBy(SORT_FIELD_PATHS[sortField], sort.direction),
+      orderBy(documentId(), sort.direction)
     );
 
-    // Apply pagination at Firestore level (we'll do more filtering client-side)
-    q = query(q, limit(100)); // Get more documents for client-side processing
+    const documents: Document[] = [];
+    let nextCursor = cursor;
+    let hasMore = true;
 
-    const querySnapshot = await getDocs(q);
-    const allDocuments: Document[] = [];
-    
-    querySnapshot.forEach((doc) => {
-      allDocuments.push(convertFirestoreDocument(doc));
-    });
+    while (hasMore && documents.length < docLimit) {
+      const pageQuery = nextCursor
+        ? query(sortedQuery, startAfter(toFirestoreSortValue(sortField, nextCursor.value), nextCursor.id), limit(docLimit))
+        : query(sortedQuery, limit(docLimit));
+      const querySnapshot = await getDocs(pageQuery);
+      hasMore = querySnapshot.size === docLimit;
 
-    // Apply all filtering and sorting client-side
-    let filteredDocuments = allDocuments;
-    
-    // Filter by type
-    if (filters.type) {
-      filteredDocuments = filteredDocuments.filter(doc => doc.type === filters.type);
-    }
-    
-    // Filter by privacy
-    if (filters.privacy) {
-      filteredDocuments = filteredDocuments.filter(doc => doc.privacy === filters.privacy);
-    }
-    
-    // Filter by status
-    if (filters.status) {
-      filteredDocuments = filteredDocuments.filter(doc => doc.status === filters.status);
-    }
-
-    // Search filter
-    if (filters.searchQuery) {
-      const searchQuery = filters.searchQuery.toLowerCase();
-      filteredDocuments = filteredDocuments.filter(doc => 
-        doc.title.toLowerCase().includes(searchQuery) ||
-        doc.description?.toLowerCase().includes(searchQuery) ||
-        doc.tags.some(tag => tag.toLowerCase().includes(searchQuery))
-      );
-    }
-
-    // Apply sorting client-side
-    filteredDocuments.sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      switch (sort.field) {
-        case 'title':
-          aValue = a.title.toLowerCase();
-          bValue = b.title.toLowerCase();
-          break;
-        case 'createdAt':
-          aValue = a.createdAt.getTime();
-          bValue = b.createdAt.getTime();
-          break;
-        case 'updatedAt':
-          aValue = a.updatedAt.getTime();
-          bValue = b.updatedAt.getTime();
-          break;
-        case 'lastAccessedAt':
-          aValue = a.lastAccessedAt.getTime();
-          bValue = b.lastAccessedAt.getTime();
-          break;
-        case 'wordCount':
-          aValue = a.stats.wordCount;
-          bValue = b.stats.wordCount;
-          break;
-        default:
-          aValue = a.updatedAt.getTime();
-          bValue = b.updatedAt.getTime();
-      }
+      for (const [index, docSnap] of querySnapshot.docs.entries()) {
+        const document = convertFirestoreDocument(docSnap);
+        nextCursor = { id: document.id, value: getSortValue(document, sortField) };
 
-      if (sort.direction === 'asc') {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
+        if (matchesSearchQuery(document, filters.searchQuery)) {
+          documents.push(document);
+        }
+        if (documents.length === docLimit) {
+          hasMore = hasMore || index < querySnapshot.size - 1;
+          break;
+        }
       }
-    });
-
-    // Apply pagination after filtering and sorting
-    const startIndex = offset;
-    const endIndex = startIndex + docLimit;
-    const paginatedDocuments = filteredDocuments.slice(startIndex, endIndex);
-    const hasMore = filteredDocuments.length > endIndex;
+    }
 
     return {
-      documents: paginatedDocuments,
-      total: filteredDocuments.length,
-      hasMore
+      documents,
+      total,
+      hasMore,
+      nextCursor: hasMore ? nextCursor : null
     };
   } catch (error) {
     console.error('Error getting user documents:', error);
@@ -522,6 +1310,25 @@ export async function getUserDocuments(
   }
 }
 
+/**
+ * Get every document a user owns that passes the filters, page by page
+ */
+export async function getAllUserDocuments(
+  userId: string,
+  filters: DocumentFilters = {}
+): Promise<Document[]> {
+  const documents: Document[] = [];
+  let cursor: DocumentCursor | null = null;
+
+  do {
+    const response = await getUserDocuments(userId, { filters, limit: 100, cursor });
+    documents.push(...response.documents);
+    cursor = response.nextCursor;
+  } while (cursor);
+
+  return documents;
+}
+
 /**
  * Get recent documents for quick access
  */
@@ -530,19 +1337,20 @@ export async function getRecentDocuments(
   docLimit: number = 5
 ): Promise<RecentDocument[]> {
   try {
-    // Simple query without orderBy to avoid index requirements
     const q = query(
       collection(db, COLLECTIONS.DOCUMENTS),
       where('userId', '==', userId),
-      limit(50) // Get more documents to sort client-side
+      where('status', 'in', LIVE_DOCUMENT_STATUSES),
+      orderBy('lastAccessedAt', 'desc'),
+      limit(docLimit)
     );
 
     const querySnapshot = await getDocs(q);
-    const allDocs: RecentDocument[] = [];
+    const recentDocs: RecentDocument[] = [];
 
     querySnapshot.forEach((doc) => {
       const data = doc.data();
-      allDocs.push({
+      recentDocs.push({
         id: doc.id,
         title: data.title,
         type: data.type,
@@ -552,12 +1360,7 @@ export async function getRecentDocuments(
       });
     });
 
-    // Sort by lastAccessedAt client-side and take the requested limit
-    const sortedDocs = allDocs
-      .sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime())
-      .slice(0, docLimit);
-
-    return sortedDocs;
+    return recentDocs;
   } catch (error) {
     console.error('Error getting recent documents:', error);
     throw new Error('Failed to get recent documents');
@@ -578,22 +1381,247 @@ export async function duplicateDocument(
       throw new Error('Document not found');
     }
 
-    const duplicateData: CreateDocumentData = {
-      title: newTitle || `${originalDoc.title} (Copy)`,
-      content: originalDoc.content,
-      type: originalDoc.type,
-      privacy: originalDoc.privacy,
-      ...(originalDoc.description && { description: originalDoc.description }),
-      tags: originalDoc.tags
-    };
-
-    return await createDocument(userId, duplicateData);
+    return await createDocument(userId, toDuplicateData(originalDoc, newTitle));
   } catch (error) {
     console.error('Error duplicating document:', error);
     throw new Error('Failed to duplicate document');
   }
 }
 
+/**
+ * Documents per Firestore batch. Each document takes at most three writes
+ * (itself, its public copy and its player copy) and a batch allows 500.
+ */
+const BULK_BATCH_SIZE = 150;
+
+/**
+ * Whether writes to a document have to go one by one through the local or
+ * offline paths instead of a Firestore batch
+ */
+async function needsSingleWrite(documentId: string, userId: string): Promise<boolean> {
+  return isGuestUser(userId)
+    || !isOnline()
+    || isOfflineDocumentId(documentId)
+    || await syncQueue.has(documentId);
+}
+
+/**
+ * Apply a planned update to many documents
+ *
+ * Firestore documents are written in batches, and each batch either commits
+ * entirely or reports all of its documents as failed. Guest documents, offline
+ * edits and documents with writes still waiting to sync go one by one through
+ * updateDocument so they queue like any other edit, except that documents
+ * whose player link has to be revoked fail while offline.
+ *
+ * @param planUpdate - Throws to fail a document, or returns null to leave it as is
+ */
+async function runBulkUpdate(
+  documentIds: string[],
+  userId: string,
+  planUpdate: (document: Document) => DocumentChangePlan | null
+): Promise<BulkDocumentResult> {
+  const result: BulkDocumentResult = { succeededIds: [], failures: [], documents: [] };
+  const batched: Array<{ document: Document; plan: DocumentChangePlan }> = [];
+
+  for (const documentId of documentIds) {
+    try {
+      const document = await getDocument(documentId, userId);
+      if (!document) {
+        throw new Error('Document not found');
+      }
+
+      const plan = planUpdate(document);
+      if (!plan) {
+        result.succeededIds.push(documentId);
+        result.documents.push(document);
+      } else if (await needsSingleWrite(documentId, userId)) {
+        if (plan.revokePublicLink) {
+          // The published copy can't wait in the offline queue
+          if (!isOnline()) {
+            throw new Error(PUBLIC_LINK_OFFLINE_ERROR);
+          }
+          await deleteDoc(doc(db, COLLECTIONS.PUBLIC_DOCUMENTS, documentId));
+        }
+        result.documents.push(await updateDocument(documentId, userId, plan.updateData));
+        result.succeededIds.push(documentId);
+      } else {
+        batched.push({ document, plan });
+      }
+    } catch (error) {
+      result.failures.push({
+        documentId,
+        error: error instanceof Error ? error.message : 'Failed to update document'
+      });
+    }
+  }
+
+  for (let start = 0; start < batched.length; start += BULK_BATCH_SIZE) {
+    const chunk = batched.slice(start, start + BULK_BATCH_SIZE);
+    const batch = writeBatch(db);
+    for (const { document, plan } of chunk) {
+      if (plan.revokePublicLink) {
+        batch.delete(doc(db, COLLECTIONS.PUBLIC_DOCUMENTS, document.id));
+      }
+      batch.update(doc(db, COLLECTIONS.DOCUMENTS, document.id), {
+        ...withSortKeys(plan.updateData),
+        updatedAt: serverTimestamp(),
+        lastAccessedAt: serverTimestamp(),
+        version: document.version + 1
+      });
+      if (document.viewerEmails?.length) {
+        batch.set(doc(db, PLAYER_COPIES, document.id), playerCopyData(applyLocalUpdate(document, plan.updateData)));
+      }
+    }
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error('Error committing bulk update:', error);
+      for (const { document } of chunk) {
+        result.failures.push({ documentId: document.id, error: 'Failed to update document' });
+      }
+      continue;
+    }
+
+    for (const { document, plan } of chunk) {
+      const updatedDocument = applyLocalUpdate(document, plan.updateData);
+      cacheDocument(updatedDocument);
+      updateSearchIndex(updatedDocument);
+      result.succeededIds.push(document.id);
+      result.documents.push(updatedDocument);
+    }
+  }
+
+  console.log('🔄 Bulk update:', result.succeededIds.length, 'updated,', result.failures.length, 'failed');
+  return result;
+}
+
+/**
+ * Apply the same change to many documents
+ *
+ * Only owners can change privacy. Making documents public doesn't publish
+ * their player view; see bulkSetPublicLinkEnabled in the public view service.
+ */
+export async function bulkUpdateDocuments(
+  documentIds: string[],
+  userId: string,
+  change: BulkDocumentChange
+): Promise<BulkDocumentResult> {
+  return runBulkUpdate(documentIds, userId, document => {
+    if (!canEditDocument(getDocumentRole(document, userId, getCurrentUserEmail()))) {
+      throw new Error('Permission denied');
+    }
+    if (document.status === 'trashed') {
+      throw new Error('Document is in the trash');
+    }
+    if (change.privacy && document.userId !== userId) {
+      throw new Error('Permission denied - only document owner can change privacy');
+    }
+
+    const updateData: UpdateDocumentData = {
+      ...(change.type && { type: change.type }),
+      ...(change.status && { status: change.status }),
+      ...((change.addTags || change.removeTags || change.replaceTags) && {
+        tags: applyTagChange(
+          change.replaceTags
+            ? replaceTags(document.tags, change.replaceTags.from, change.replaceTags.to)
+            : document.tags,
+          change.addTags,
+          change.removeTags
+        )
+      })
+    };
+    if (change.privacy) {
+      updateData.privacy = change.privacy === 'public'
+        ? 'public'
+        : document.sharedWith?.length ? 'shared' : 'private';
+    }
+
+    return {
+      updateData,
+      revokePublicLink: document.privacy === 'public'
+        && updateData.privacy !== undefined
+        && updateData.privacy !== 'public'
+    };
+  });
+}
+
+/**
+ * Move many documents to the trash, like moveDocumentToTrash
+ */
+export async function bulkMoveToTrash(
+  documentIds: string[],
+  userId: string
+): Promise<BulkDocumentResult> {
+  return runBulkUpdate(documentIds, userId, document => planMoveToTrash(document, userId, isOnline()));
+}
+
+/**
+ * Copy many documents, like duplicateDocument
+ *
+ * @returns The copies in `documents`; `succeededIds` are the originals copied
+ */
+export async function bulkDuplicateDocuments(
+  documentIds: string[],
+  userId: string
+): Promise<BulkDocumentResult> {
+  const result: BulkDocumentResult = { succeededIds: [], failures: [], documents: [] };
+  const batched: Array<{ sourceId: string; data: Omit<Document, 'id'> }> = [];
+
+  for (const documentId of documentIds) {
+    try {
+      const original = await getDocument(documentId, userId);
+      if (!original) {
+        throw new Error('Document not found');
+      }
+
+      const duplicateData = toDuplicateData(original);
+      if (isGuestUser(userId) || !isOnline()) {
+        result.documents.push(await createDocument(userId, duplicateData));
+        result.succeededIds.push(documentId);
+      } else {
+        batched.push({ sourceId: documentId, data: buildNewDocumentData(userId, duplicateData) });
+      }
+    } catch (error) {
+      result.failures.push({
+        documentId,
+        error: error instanceof Error ? error.message : 'Failed to duplicate document'
+      });
+    }
+  }
+
+  for (let start = 0; start < batched.length; start += BULK_BATCH_SIZE) {
+    const chunk = batched.slice(start, start + BULK_BATCH_SIZE)
+      .map(copy => ({ ...copy, ref: doc(collection(db, COLLECTIONS.DOCUMENTS)) }));
+    const batch = writeBatch(db);
+    for (const { ref, data } of chunk) {
+      batch.set(ref, withSortKeys(data));
+    }
+
+    try {
+      await batch.commit();
+    } catch (error) {
+      console.error('Error committing bulk duplicate:', error);
+      for (const { sourceId } of chunk) {
+        result.failures.push({ documentId: sourceId, error: 'Failed to duplicate document' });
+      }
+      continue;
+    }
+
+    for (const { sourceId, ref, data } of chunk) {
+      const newDocument: Document = { id: ref.id, ...data };
+      cacheDocument(newDocument);
+      updateSearchIndex(newDocument);
+      result.succeededIds.push(sourceId);
+      result.documents.push(newDocument);
+    }
+  }
+
+  console.log('🔄 Bulk duplicate:', result.succeededIds.length, 'copied,', result.failures.length, 'failed');
+  return result;
+}
+
 /**
  * Update document suggestions (grammar/style analysis results)
  */
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Vitest tests for Word document export
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Import runs through mammoth's browser build, so only export is covered here,
+ * by reading back the generated document XML.
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { renderDocx } from './docx';
+
+const readDocumentXml = async (html: string): Promise<string> => {
+  const blob = await renderDocx(html, { title: 'The Sunken Keep', author: 'Dungeon Master' });
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  return zip.file('word/document.xml')!.async('string');
+};
+
+describe('renderDocx', () => {
+  it('writes headings, formatting and lists as Word structures', async () => {
+    const xml = await readDocumentXml(
+      '<h2>Rooms</h2><p>A <strong>dark</strong> hall</p><ol><li><p>Gate</p></li><li><p>Crypt</p></li></ol><ul><li><p>Rats</p></li></ul>'
+    );
+    expect(xml).toContain('<w:pStyle w:val="Title"/>');
+    expect(xml).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(xml).toMatch(/<w:b\/>.*?<w:t[^>]*>dark<\/w:t>/);
+    expect(xml.match(/<w:numPr>/g)).toHaveLength(3);
+  });
+
+  it('writes stat blocks with a table of ability scores', async () => {
+    const xml = await readDocumentXml(
+      '<div class="stat-block"><h3 class="stat-block-name">Goblin</h3>'
+      + '<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>'
+      + '<table class="stat-block-abilities"><tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>'
+      + '<tr><td>8 (-1)</td><td>14 (+2)</td><td>10 (+0)</td><td>10 (+0)</td><td>8 (-1)</td><td>8 (-1)</td></tr></table></div>'
+    );
+    expect(xml).toContain('<w:pStyle w:val="StatBlockName"/>');
+    expect(xml).toContain('w:fill="FDF6E3"');
+    expect(xml).toContain('>14 (+2)</w:t>');
+  });
+});
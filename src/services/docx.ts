@@ -0,0 +1,585 @@
+/**
+ * @fileoverview Word document export and import
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Builds .docx files from editor HTML with real Word headings, lists and
+ * tables, and stat blocks laid out like the printed page. Imports .docx files
+ * through mammoth, keeping paragraphs, headings, lists, tables and basic
+ * formatting.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as WordDocument,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type IParagraphOptions,
+  type IParagraphStyleOptions,
+  type IRunOptions,
+  type ParagraphChild
+} from 'docx';
+import mammoth from 'mammoth';
+import { getTextContent, parseHTML, serializeHTML, type HtmlElementNode, type HtmlNode } from '@/lib/html-tree';
+import { isDmSecretElement } from '@/lib/dm-secrets';
+import { sanitizeNodes } from '@/lib/sanitize-html';
+import {
+  ABILITY_NAMES,
+  formatAbilityScore,
+  isStatBlockElement,
+  parseStatBlock,
+  splitStatBlockProperties,
+  type StatBlockEntry
+} from '@/lib/stat-block';
+import type { ImportedDocument } from '@/types/document';
+
+/**
+ * Stat block and DM secret colors, matching the editor styles
+ */
+const COLORS = {
+  statBlockText: '3C2415',
+  statBlockAccent: '8B0000',
+  statBlockMeta: '8B4513',
+  statBlockRule: 'E85D04',
+  statBlockFill: 'FDF6E3',
+  abilityFill: 'FFF8E1',
+  dmSecret: '7C3AED',
+  dmSecretFill: 'F5F3FF'
+} as const;
+
+const STAT_BLOCK_FONT = 'Book Antiqua';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+] as const;
+
+const ORDERED_LIST_REFERENCE = 'ordered-list';
+
+/**
+ * Paragraph styles used in exported files
+ */
+const PARAGRAPH_STYLES: IParagraphStyleOptions[] = [
+  {
+    id: 'Byline',
+    name: 'Byline',
+    basedOn: 'Normal',
+    next: 'Normal',
+    run: { italics: true, color: '666666' },
+    paragraph: { spacing: { after: 240 } }
+  },
+  {
+    id: 'BlockQuote',
+    name: 'Block Quote',
+    basedOn: 'Normal',
+    run: { italics: true, color: '555555' },
+    paragraph: { indent: { left: 720 } }
+  },
+  {
+    id: 'Code',
+    name: 'Code',
+    basedOn: 'Normal',
+    run: { font: 'Courier New', size: 20 },
+    paragraph: { spacing: { before: 0, after: 0 } }
+  },
+  {
+    id: 'StatBlockName',
+    name: 'Stat Block Name',
+    basedOn: 'Normal',
+    run: { font: STAT_BLOCK_FONT, bold: true, smallCaps: true, size: 32, color: COLORS.statBlockAccent },
+    paragraph: { keepNext: true, spacing: { after: 0 } }
+  },
+  {
+    id: 'StatBlockMeta',
+    name: 'Stat Block Meta',
+    basedOn: 'Normal',
+    run: { font: STAT_BLOCK_FONT, italics: true, size: 20, color: COLORS.statBlockMeta },
+    paragraph: { keepNext: true, spacing: { after: 80 } }
+  },
+  {
+    id: 'StatBlockHeading',
+    name: 'Stat Block Heading',
+    basedOn: 'Normal',
+    run: { font: STAT_BLOCK_FONT, smallCaps: true, size: 24, color: COLORS.statBlockAccent },
+    paragraph: { keepNext: true, spacing: { before: 160, after: 40 } }
+  },
+  {
+    id: 'StatBlockText',
+    name: 'Stat Block Text',
+    basedOn: 'Normal',
+    run: { font: STAT_BLOCK_FONT, size: 20, color: COLORS.statBlockText },
+    paragraph: { spacing: { before: 20, after: 40 } }
+  }
+];
+
+/**
+ * How our own styles read back in on import
+ */
+const IMPORT_STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Byline'] => !",
+  "p[style-name='Block Quote'] => blockquote > p:fresh",
+  "p[style-name='Code'] => pre:separator('\\n')",
+  "p[style-name='Stat Block Name'] => h3:fresh",
+  "p[style-name='Stat Block Heading'] => h4:fresh"
+];
+
+type WordBlock = Paragraph | Table;
+
+/**
+ * Inline formatting in effect while converting runs
+ */
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  highlight?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  link?: boolean;
+}
+
+/**
+ * Conversion state shared across a document
+ */
+interface ConversionState {
+  listInstance: number; // Each ordered list restarts its numbering
+}
+
+/**
+ * Options for the next paragraph, e.g. list numbering on an item's first paragraph
+ */
+type ParagraphOptionsSource = () => Partial<IParagraphOptions>;
+
+/**
+ * Render editor HTML as a Word document
+ *
+ * @param html - Editor HTML, already stripped of anything not to export
+ * @param metadata - Title and author for the title page heading and file properties
+ */
+export async function renderDocx(html: string, metadata: { title: string; author: string }): Promise<Blob> {
+  const state: ConversionState = { listInstance: 0 };
+  const wordDocument = new WordDocument({
+    creator: metadata.author,
+    title: metadata.title,
+    styles: { paragraphStyles: PARAGRAPH_STYLES },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST_REFERENCE,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3]!,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+        }))
+      }]
+    },
+    sections: [{
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(metadata.title)] }),
+        new Paragraph({ style: 'Byline', children: [new TextRun(`by ${metadata.author}`)] }),
+        ...toBlocks(parseHTML(html), state)
+      ]
+    }]
+  });
+
+  return Packer.toBlob(wordDocument);
+}
+
+/**
+ * Convert block-level HTML to Word paragraphs and tables
+ */
+function toBlocks(nodes: HtmlNode[], state: ConversionState, nextOptions: ParagraphOptionsSource = () => ({})): WordBlock[] {
+  const blocks: WordBlock[] = [];
+  let inlineRun: HtmlNode[] = [];
+
+  const paragraph = (children: ParagraphChild[], options: Partial<IParagraphOptions> = {}) =>
+    new Paragraph({ ...nextOptions(), ...options, children });
+
+  const flushInline = () => {
+    if (inlineRun.some(node => node.type === 'element' || node.text.trim())) {
+      blocks.push(paragraph(toRuns(inlineRun)));
+    }
+    inlineRun = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text' || !/^(p|h[1-6]|ul|ol|li|blockquote|pre|hr|table|div|section|article|header|footer|aside|figure)$/.test(node.tag)) {
+      inlineRun.push(node);
+      continue;
+    }
+    flushInline();
+
+    const heading = node.tag.match(/^h([1-6])$/);
+    if (heading) {
+      blocks.push(new Paragraph({
+        heading: HEADING_LEVELS[Number(heading[1]) - 1]!,
+        children: toRuns(node.children),
+        ...alignmentOf(node)
+      }));
+      continue;
+    }
+
+    switch (node.tag) {
+      case 'p':
+        blocks.push(paragraph(toRuns(node.children), alignmentOf(node)));
+        break;
+      case 'ul':
+      case 'ol':
+        blocks.push(...toListBlocks(node, 0, state));
+        break;
+      case 'blockquote':
+        blocks.push(...toBlocks(node.children, state, () => ({ style: 'BlockQuote' })));
+        break;
+      case 'pre':
+        for (const line of getTextContent(node).replace(/\n$/, '').split('\n')) {
+          blocks.push(new Paragraph({ style: 'Code', children: [new TextRun(line)] }));
+        }
+        break;
+      case 'hr':
+        blocks.push(new Paragraph({
+          children: [],
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'auto', space: 1 } }
+        }));
+        break;
+      case 'table': {
+        const table = toTable(node, state);
+        if (table) blocks.push(table);
+        break;
+      }
+      default:
+        if (node.tag === 'div' && isStatBlockElement(node)) {
+          blocks.push(toStatBlockTable(node), new Paragraph({ children: [] }));
+        } else if (node.tag === 'div' && isDmSecretElement(node)) {
+          blocks.push(toDmSecretTable(node, state), new Paragraph({ children: [] }));
+        } else {
+          blocks.push(...toBlocks(node.children, state, nextOptions));
+        }
+    }
+  }
+  flushInline();
+
+  return blocks;
+}
+
+/**
+ * Text alignment set by TipTap's TextAlign extension
+ */
+function alignmentOf(node: HtmlElementNode): Partial<IParagraphOptions> {
+  const align = (node.attrs.style || '').match(/text-align\s*:\s*(left|right|center|justify)/i)?.[1]?.toLowerCase();
+  switch (align) {
+    case 'center':
+      return { alignment: AlignmentType.CENTER };
+    case 'right':
+      return { alignment: AlignmentType.RIGHT };
+    case 'justify':
+      return { alignment: AlignmentType.JUSTIFIED };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Convert a list to numbered or bulleted paragraphs; nested lists go one level deeper
+ */
+function toListBlocks(list: HtmlElementNode, level: number, state: ConversionState): WordBlock[] {
+  const ordered = list.tag === 'ol';
+  const instance = ordered ? ++state.listInstance : 0;
+  const blocks: WordBlock[] = [];
+
+  for (const item of list.children) {
+    if (item.type !== 'element' || item.tag !== 'li') continue;
+
+    // The item's first paragraph carries the number; later ones line up under it
+    let isFirst = true;
+    const nextOptions: ParagraphOptionsSource = () => {
+      if (!isFirst) return { indent: { left: 720 * (level + 1) } };
+      isFirst = false;
+      return ordered
+        ? { numbering: { reference: ORDERED_LIST_REFERENCE, level, instance } }
+        : { bullet: { level } };
+    };
+
+    let chunk: HtmlNode[] = [];
+    const flushChunk = () => {
+      blocks.push(...toBlocks(chunk, state, nextOptions));
+      chunk = [];
+    };
+    for (const child of item.children) {
+      if (child.type === 'element' && (child.tag === 'ul' || child.tag === 'ol')) {
+        flushChunk();
+        blocks.push(...toListBlocks(child, Math.min(level + 1, 8), state));
+      } else {
+        chunk.push(child);
+      }
+    }
+    flushChunk();
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert an HTML table; header cells are bold
+ */
+function toTable(table: HtmlElementNode, state: ConversionState): Table | null {
+  const rows: TableRow[] = [];
+  const visit = (node: HtmlElementNode) => {
+    for (const child of node.children) {
+      if (child.type !== 'element') continue;
+      if (child.tag !== 'tr') {
+        visit(child);
+        continue;
+      }
+      const cells = child.children
+        .filter((cell): cell is HtmlElementNode => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+        .map(cell => {
+          const content = cell.tag === 'th'
+            ? [{ type: 'element', tag: 'strong', attrs: {}, children: cell.children } satisfies HtmlElementNode]
+            : cell.children;
+          const blocks = toBlocks(content, state);
+          return new TableCell({
+            children: blocks.length ? blocks : [new Paragraph({ children: [] })],
+            ...(Number(cell.attrs.colspan) > 1 && { columnSpan: Number(cell.attrs.colspan) })
+          });
+        });
+      if (cells.length) rows.push(new TableRow({ children: cells }));
+    }
+  };
+  visit(table);
+
+  return rows.length ? new Table({ rows, width: { size: 100, type: WidthType.PERCENTAGE } }) : null;
+}
+
+/**
+ * Convert inline HTML to text runs
+ */
+function toRuns(nodes: HtmlNode[], style: RunStyle = {}): ParagraphChild[] {
+  const runs: ParagraphChild[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      const text = node.text.replace(/[ \t\r\n]+/g, ' ');
+      if (text) runs.push(new TextRun({ text, ...toRunOptions(style) }));
+      continue;
+    }
+
+    const children = (extra: RunStyle) => toRuns(node.children, { ...style, ...extra });
+    switch (node.tag) {
+      case 'strong':
+      case 'b':
+        runs.push(...children({ bold: true }));
+        break;
+      case 'em':
+      case 'i':
+        runs.push(...children({ italics: true }));
+        break;
+      case 'u':
+        runs.push(...children({ underline: true }));
+        break;
+      case 's':
+      case 'strike':
+      case 'del':
+        runs.push(...children({ strike: true }));
+        break;
+      case 'code':
+        runs.push(...children({ code: true }));
+        break;
+      case 'mark':
+        runs.push(...children({ highlight: true }));
+        break;
+      case 'sup':
+        runs.push(...children({ superScript: true }));
+        break;
+      case 'sub':
+        runs.push(...children({ subScript: true }));
+        break;
+      case 'br':
+        runs.push(new TextRun({ text: '', break: 1 }));
+        break;
+      case 'a':
+        if (node.attrs.href && !style.link) {
+          runs.push(new ExternalHyperlink({ link: node.attrs.href, children: children({ link: true }) }));
+        } else {
+          runs.push(...children({}));
+        }
+        break;
+      case 'img':
+        break;
+      default:
+        runs.push(...children({}));
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Word run options for an inline style
+ */
+function toRunOptions(style: RunStyle): IRunOptions {
+  return {
+    ...(style.bold && { bold: true }),
+    ...(style.italics && { italics: true }),
+    ...(style.underline && { underline: {} }),
+    ...(style.strike && { strike: true }),
+    ...(style.code && { font: 'Courier New' }),
+    ...(style.highlight && { highlight: 'yellow' }),
+    ...(style.superScript && { superScript: true }),
+    ...(style.subScript && { subScript: true }),
+    ...(style.link && { style: 'Hyperlink' })
+  };
+}
+
+/**
+ * Stat block rule, drawn as a paragraph border
+ */
+function statBlockRule(): Paragraph {
+  return new Paragraph({
+    style: 'StatBlockText',
+    children: [],
+    spacing: { before: 0, after: 80 },
+    border: { bottom: { style: BorderStyle.SINGLE, size: 8, color: COLORS.statBlockRule, space: 1 } }
+  });
+}
+
+/**
+ * One-cell table used to frame stat blocks and DM secrets
+ */
+function framedTable(children: WordBlock[], border: { style: (typeof BorderStyle)[keyof typeof BorderStyle]; color: string }, fill: string): Table {
+  const side = { ...border, size: 12 };
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [new TableRow({
+      children: [new TableCell({
+        children,
+        shading: { fill, type: ShadingType.CLEAR, color: 'auto' },
+        borders: { top: side, bottom: side, left: side, right: side },
+        margins: { top: 120, bottom: 120, left: 180, right: 180 }
+      })]
+    })]
+  });
+}
+
+/**
+ * Convert a stat block to a framed, parchment-shaded table
+ */
+function toStatBlockTable(element: HtmlElementNode): Table {
+  const statBlock = parseStatBlock(element);
+  const { before, after } = splitStatBlockProperties(statBlock);
+  const property = ({ label, value }: { label: string; value: string }) => new Paragraph({
+    style: 'StatBlockText',
+    children: [new TextRun({ text: label, bold: true, color: COLORS.statBlockAccent }), new TextRun(` ${value}`)]
+  });
+  const entry = ({ name, description }: StatBlockEntry) => new Paragraph({
+    style: 'StatBlockText',
+    children: [
+      ...(name ? [new TextRun({ text: `${name}. `, bold: true, italics: true })] : []),
+      ...toRuns(parseHTML(description))
+    ]
+  });
+
+  const children: WordBlock[] = [new Paragraph({ style: 'StatBlockName', children: [new TextRun(statBlock.name)] })];
+  if (statBlock.meta) {
+    children.push(new Paragraph({ style: 'StatBlockMeta', children: [new TextRun(statBlock.meta)] }));
+  }
+  if (before.length) children.push(statBlockRule(), ...before.map(property));
+  if (statBlock.abilities) children.push(statBlockRule(), toAbilityTable(statBlock.abilities));
+  if (after.length) children.push(statBlockRule(), ...after.map(property));
+  if (statBlock.traits.length) children.push(statBlockRule(), ...statBlock.traits.map(entry));
+  for (const section of statBlock.sections) {
+    children.push(
+      new Paragraph({
+        style: 'StatBlockHeading',
+        children: [new TextRun(section.title)],
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: COLORS.statBlockRule, space: 1 } }
+      }),
+      ...section.entries.map(entry)
+    );
+  }
+
+  return framedTable(children, { style: BorderStyle.SINGLE, color: COLORS.statBlockRule }, COLORS.statBlockFill);
+}
+
+/**
+ * Ability scores as a six-column table
+ */
+function toAbilityTable(scores: number[]): Table {
+  const cell = (text: string, header: boolean) => new TableCell({
+    children: [new Paragraph({
+      alignment: AlignmentType.CENTER,
+      style: 'StatBlockText',
+      children: [new TextRun({ text, bold: true, ...(header && { color: 'FFFFFF' }) })]
+    })],
+    shading: { fill: header ? COLORS.statBlockAccent : COLORS.abilityFill, type: ShadingType.CLEAR, color: 'auto' }
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ children: ABILITY_NAMES.map(name => cell(name, true)) }),
+      new TableRow({ children: scores.map(score => cell(formatAbilityScore(score), false)) })
+    ]
+  });
+}
+
+/**
+ * Convert a DM secret to a dashed, labelled frame
+ */
+function toDmSecretTable(element: HtmlElementNode, state: ConversionState): Table {
+  const label = new Paragraph({
+    children: [new TextRun({ text: 'DM Secret - hidden from players', bold: true, size: 18, color: COLORS.dmSecret })]
+  });
+  return framedTable(
+    [label, ...toBlocks(element.children, state)],
+    { style: BorderStyle.DASHED, color: COLORS.dmSecret },
+    COLORS.dmSecretFill
+  );
+}
+
+/**
+ * Read a Word document as editor HTML
+ *
+ * The title comes from a leading Title or Heading 1 paragraph (which is
+ * removed from the content), or the fallback, usually the file name. Images
+ * are left out.
+ */
+export async function importDocx(data: ArrayBuffer, fallbackTitle: string): Promise<ImportedDocument> {
+  try {
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer: data },
+      { styleMap: IMPORT_STYLE_MAP, ignoreEmptyParagraphs: true }
+    );
+    const nodes = sanitizeNodes(parseHTML(result.value), { removeElement: node => node.tag === 'img' });
+
+    let title = fallbackTitle;
+    const first = nodes.find(node => node.type === 'element' || node.text.trim());
+    if (first?.type === 'element' && first.tag === 'h1') {
+      title = getTextContent(first).trim() || fallbackTitle;
+      nodes.splice(nodes.indexOf(first), 1);
+    }
+
+    console.log('🔄 Word document imported:', title, '-', result.messages.length, 'conversion messages');
+    return { title, content: serializeHTML(nodes), tags: [] };
+  } catch (error) {
+    console.error('Error importing Word document:', error);
+    throw new Error('Failed to import Word document');
+  }
+}
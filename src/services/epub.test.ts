@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Vitest tests for EPUB export
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { renderEpub, type EpubMetadata } from './epub';
+
+const METADATA: EpubMetadata = {
+  identifier: 'binder-1',
+  title: 'Sword Coast Guide',
+  author: 'Dungeon Master',
+  campaignType: 'campaign',
+  exportDate: new Date('2024-03-01T12:00:00.000Z'),
+  wordCount: 1200
+};
+
+const readEpub = async (html: string, includeCover = true) => {
+  const blob = await renderEpub(html, METADATA, includeCover);
+  return JSZip.loadAsync(await blob.arrayBuffer());
+};
+
+describe('renderEpub', () => {
+  it('stores the mimetype first and uncompressed', async () => {
+    const blob = await renderEpub('<p>Hello</p>', METADATA);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    // Local file header: compression method at offset 8, name at offset 30
+    expect(bytes[8]).toBe(0);
+    expect(new TextDecoder().decode(bytes.slice(30, 38))).toBe('mimetype');
+    expect(new TextDecoder().decode(bytes.slice(38, 58))).toBe('application/epub+zip');
+  });
+
+  it('splits chapters at H1s and builds a nested table of contents', async () => {
+    const zip = await readEpub(
+      '<p>Preface</p><h1>Waterdeep</h1><h2>Docks</h2><h3>Fish Market</h3>'
+      + '<div class="stat-block"><h3 class="stat-block-name">Thug</h3></div><h1>Neverwinter</h1>'
+    );
+    expect(Object.keys(zip.files).filter(name => name.includes('chapter'))).toEqual([
+      'OEBPS/chapter-1.xhtml', 'OEBPS/chapter-2.xhtml', 'OEBPS/chapter-3.xhtml'
+    ]);
+
+    const nav = await zip.file('OEBPS/nav.xhtml')!.async('string');
+    expect(nav).toContain(
+      '<ol><li><a href="chapter-1.xhtml">Sword Coast Guide</a></li>'
+      + '<li><a href="chapter-2.xhtml#toc-1">Waterdeep</a><ol><li><a href="chapter-2.xhtml#toc-2">Docks</a>'
+      + '<ol><li><a href="chapter-2.xhtml#toc-3">Fish Market</a></li></ol></li></ol></li>'
+      + '<li><a href="chapter-3.xhtml#toc-4">Neverwinter</a></li></ol>'
+    );
+    expect(nav).not.toContain('Thug');
+
+    const chapter = await zip.file('OEBPS/chapter-2.xhtml')!.async('string');
+    expect(chapter).toContain('<h2 id="toc-2">Docks</h2>');
+    expect(chapter).toContain('<link rel="stylesheet" type="text/css" href="styles.css"/>');
+    expect(await zip.file('OEBPS/toc.ncx')!.async('string')).toContain('<content src="chapter-2.xhtml#toc-3"/>');
+  });
+
+  it('writes package metadata and an optional cover', async () => {
+    const zip = await readEpub('<h1>Start</h1><hr><p>Fin &amp; more</p>');
+    const opf = await zip.file('OEBPS/content.opf')!.async('string');
+    expect(opf).toContain('<dc:identifier id="book-id">urn:wordwise:binder-1</dc:identifier>');
+    expect(opf).toContain('<dc:creator>Dungeon Master</dc:creator>');
+    expect(opf).toContain('<meta property="dcterms:modified">2024-03-01T12:00:00Z</meta>');
+    expect(opf).toMatch(/<spine toc="ncx">\s*<itemref idref="cover"\/>/);
+    expect(await zip.file('OEBPS/cover.xhtml')!.async('string')).toContain('A Dungeons &amp; Dragons Campaign');
+    expect(await zip.file('OEBPS/chapter-1.xhtml')!.async('string')).toContain('<hr /><p>Fin &amp; more</p>');
+
+    const withoutCover = await readEpub('<p>Text</p>', false);
+    expect(withoutCover.file('OEBPS/cover.xhtml')).toBeNull();
+  });
+});
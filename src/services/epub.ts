@@ -0,0 +1,349 @@
+/**
+ * @fileoverview EPUB export
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Packages editor HTML as an EPUB 3 book for e-readers. Each top-level H1
+ * starts a chapter (binders are combined with one H1 per document), H1-H3
+ * headings make up the table of contents, and the stylesheet carries the
+ * editor's stat block and DM secret styles. An NCX table of contents is
+ * included for readers that predate EPUB 3.
+ */
+
+import JSZip from 'jszip';
+import { escapeHTML, getTextContent, parseHTML, serializeHTML, type HtmlElementNode, type HtmlNode } from '@/lib/html-tree';
+import { isStatBlockElement } from '@/lib/stat-block';
+
+/**
+ * Book details shown on the cover and in the package metadata
+ */
+export interface EpubMetadata {
+  identifier: string; // Stable id of the exported document or binder
+  title: string;
+  author: string;
+  campaignType: string;
+  exportDate: Date;
+  wordCount: number;
+}
+
+/**
+ * One chapter file of the book
+ */
+interface EpubChapter {
+  fileName: string;
+  title: string;
+  nodes: HtmlNode[];
+}
+
+/**
+ * Table of contents entry; children are the headings nested under it
+ */
+interface TocEntry {
+  level: number;
+  title: string;
+  href: string;
+  children: TocEntry[];
+}
+
+/**
+ * Stylesheet for every page; stat block and DM secret colors match the editor
+ */
+const STYLESHEET = `body {
+  font-family: Georgia, 'Book Antiqua', serif;
+  line-height: 1.5;
+  margin: 0 1em;
+}
+
+h1, h2, h3, h4, h5, h6 {
+  color: #8b0000;
+  line-height: 1.2;
+  page-break-after: avoid;
+}
+
+h1 { font-size: 1.8em; border-bottom: 2px solid #e85d04; }
+h2 { font-size: 1.4em; }
+h3 { font-size: 1.15em; }
+
+blockquote {
+  margin: 1em 0;
+  padding: 0.5em 1em;
+  background: #f4efe1;
+  border-left: 4px solid #8b4513;
+}
+
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #c9b99a; padding: 0.25em 0.5em; }
+
+.cover { text-align: center; margin-top: 30%; }
+.cover h1 { border: none; font-size: 2.2em; }
+.cover .subtitle { font-style: italic; color: #8b4513; }
+
+.stat-block {
+  background: #fdf6e3;
+  border: 2px solid #e85d04;
+  border-radius: 8px;
+  padding: 0.75em;
+  margin: 1em 0;
+  color: #3c2415;
+  page-break-inside: avoid;
+}
+
+.stat-block-name {
+  margin: 0 0 0.25em 0;
+  padding-bottom: 0.25em;
+  text-align: center;
+  border-bottom: 1px solid #e85d04;
+}
+
+.stat-block-meta { font-style: italic; text-align: center; color: #8b4513; margin: 0.25em 0 0.5em 0; }
+.stat-block-divider { border: none; border-top: 1px solid #e85d04; margin: 0.5em 0; }
+.stat-block p { margin: 0.25em 0; font-size: 0.9em; }
+.stat-block strong { color: #8b0000; }
+.stat-block h4 { margin: 0.75em 0 0.25em 0; border-bottom: 1px solid #e85d04; }
+
+.stat-block-abilities { width: 100%; margin: 0.5em 0; }
+.stat-block-abilities th { background: #8b0000; color: #ffffff; border: 1px solid #8b0000; font-size: 0.8em; }
+.stat-block-abilities td { background: #fff8e1; border: 1px solid #e85d04; text-align: center; font-weight: bold; }
+
+.dm-secret {
+  margin: 1em 0;
+  padding: 0.5em 1em;
+  border: 2px dashed #7c3aed;
+  border-radius: 0.5em;
+  background: #f5f3ff;
+}
+
+.dm-secret::before {
+  content: 'DM Secret';
+  display: block;
+  font-size: 0.75em;
+  font-weight: bold;
+  text-transform: uppercase;
+  color: #6d28d9;
+}
+`;
+
+/**
+ * Build an EPUB 3 file from editor HTML
+ */
+export async function renderEpub(html: string, metadata: EpubMetadata, includeCover: boolean = true): Promise<Blob> {
+  const chapters = splitChapters(parseHTML(html), metadata.title);
+  const toc = buildToc(chapters);
+  const pages = [
+    ...(includeCover ? [{ id: 'cover', fileName: 'cover.xhtml' }] : []),
+    { id: 'nav', fileName: 'nav.xhtml' },
+    ...chapters.map((chapter, index) => ({ id: `chapter-${index + 1}`, fileName: chapter.fileName }))
+  ];
+
+  const zip = new JSZip();
+  // The mimetype must come first and uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', renderContainer());
+  zip.file('OEBPS/content.opf', renderPackage(metadata, pages));
+  zip.file('OEBPS/nav.xhtml', renderNav(toc, includeCover, chapters[0]!.fileName));
+  zip.file('OEBPS/toc.ncx', renderNcx(toc, metadata));
+  zip.file('OEBPS/styles.css', STYLESHEET);
+  if (includeCover) {
+    zip.file('OEBPS/cover.xhtml', renderCover(metadata));
+  }
+  for (const chapter of chapters) {
+    zip.file(`OEBPS/${chapter.fileName}`, renderPage(chapter.title, serializeHTML(chapter.nodes, { xhtml: true }), 'chapter'));
+  }
+
+  const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  return new Blob([data], { type: 'application/epub+zip' });
+}
+
+/**
+ * Split content into chapters at top-level H1s; content before the first H1
+ * becomes an opening chapter named after the book
+ */
+function splitChapters(nodes: HtmlNode[], bookTitle: string): EpubChapter[] {
+  const chapters: EpubChapter[] = [];
+  let current: EpubChapter | null = null;
+
+  for (const node of nodes) {
+    if (node.type === 'element' && node.tag === 'h1') {
+      current = { fileName: '', title: getTextContent(node).trim() || bookTitle, nodes: [] };
+      chapters.push(current);
+    } else if (!current) {
+      if (node.type === 'text' && !node.text.trim()) continue;
+      current = { fileName: '', title: bookTitle, nodes: [] };
+      chapters.push(current);
+    }
+    current.nodes.push(node);
+  }
+
+  if (chapters.length === 0) {
+    chapters.push({ fileName: '', title: bookTitle, nodes: [] });
+  }
+  chapters.forEach((chapter, index) => {
+    chapter.fileName = `chapter-${index + 1}.xhtml`;
+  });
+  return chapters;
+}
+
+/**
+ * Table of contents from H1-H3 headings, giving each heading an anchor;
+ * stat block names are left out. Chapters without a heading are listed by title.
+ */
+function buildToc(chapters: EpubChapter[]): TocEntry[] {
+  const root: TocEntry = { level: 0, title: '', href: '', children: [] };
+  const stack: TocEntry[] = [root];
+  let anchor = 0;
+
+  const add = (level: number, title: string, href: string) => {
+    while (stack.length > 1 && stack[stack.length - 1]!.level >= level) stack.pop();
+    const entry: TocEntry = { level, title, href, children: [] };
+    stack[stack.length - 1]!.children.push(entry);
+    stack.push(entry);
+  };
+
+  for (const chapter of chapters) {
+    const headings: HtmlElementNode[] = [];
+    const visit = (nodes: HtmlNode[]) => {
+      for (const node of nodes) {
+        if (node.type !== 'element' || isStatBlockElement(node)) continue;
+        if (/^h[1-3]$/.test(node.tag)) headings.push(node);
+        else visit(node.children);
+      }
+    };
+    visit(chapter.nodes);
+
+    if (headings[0]?.tag !== 'h1') {
+      add(1, chapter.title, chapter.fileName);
+    }
+    for (const heading of headings) {
+      const title = getTextContent(heading).replace(/\s+/g, ' ').trim();
+      if (!title) continue;
+      if (!heading.attrs.id) heading.attrs.id = `toc-${++anchor}`;
+      add(Number(heading.tag[1]), title, `${chapter.fileName}#${heading.attrs.id}`);
+    }
+  }
+
+  return root.children;
+}
+
+/**
+ * Container file pointing readers at the package document
+ */
+function renderContainer(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+}
+
+/**
+ * Package document: metadata, manifest and reading order
+ */
+function renderPackage(metadata: EpubMetadata, pages: Array<{ id: string; fileName: string }>): string {
+  const modified = metadata.exportDate.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const manifest = [
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    ...pages.map(page =>
+      `<item id="${page.id}" href="${page.fileName}" media-type="application/xhtml+xml"${page.id === 'nav' ? ' properties="nav"' : ''}/>`)
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:wordwise:${escapeHTML(metadata.identifier)}</dc:identifier>
+    <dc:title>${escapeHTML(metadata.title)}</dc:title>
+    <dc:creator>${escapeHTML(metadata.author)}</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:date>${modified.slice(0, 10)}</dc:date>
+    <dc:subject>Dungeons &amp; Dragons ${escapeHTML(metadata.campaignType)}</dc:subject>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${pages.map(page => `<itemref idref="${page.id}"${page.id === 'nav' ? ' linear="no"' : ''}/>`).join('\n    ')}
+  </spine>
+</package>
+`;
+}
+
+/**
+ * EPUB 3 navigation document
+ */
+function renderNav(toc: TocEntry[], hasCover: boolean, firstChapter: string): string {
+  const renderList = (entries: TocEntry[]): string => `<ol>${entries.map(entry =>
+    `<li><a href="${escapeHTML(entry.href)}">${escapeHTML(entry.title)}</a>${entry.children.length ? renderList(entry.children) : ''}</li>`
+  ).join('')}</ol>`;
+  const landmarks = [
+    ...(hasCover ? ['<li><a epub:type="cover" href="cover.xhtml">Cover</a></li>'] : []),
+    '<li><a epub:type="toc" href="nav.xhtml">Contents</a></li>',
+    `<li><a epub:type="bodymatter" href="${firstChapter}">Start</a></li>`
+  ];
+
+  return renderPage('Contents', `<nav epub:type="toc" id="toc"><h1>Contents</h1>${renderList(toc)}</nav>`
+    + `<nav epub:type="landmarks" hidden="hidden"><ol>${landmarks.join('')}</ol></nav>`);
+}
+
+/**
+ * NCX table of contents for EPUB 2 readers
+ */
+function renderNcx(toc: TocEntry[], metadata: EpubMetadata): string {
+  let playOrder = 0;
+  const renderPoints = (entries: TocEntry[], indent: string): string => entries.map(entry => {
+    const id = ++playOrder;
+    return `${indent}<navPoint id="nav-${id}" playOrder="${id}">
+${indent}  <navLabel><text>${escapeHTML(entry.title)}</text></navLabel>
+${indent}  <content src="${escapeHTML(entry.href)}"/>
+${renderPoints(entry.children, `${indent}  `)}${indent}</navPoint>
+`;
+  }).join('');
+  const depth = (entries: TocEntry[]): number => Math.max(0, ...entries.map(entry => 1 + depth(entry.children)));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="urn:wordwise:${escapeHTML(metadata.identifier)}"/>
+    <meta name="dtb:depth" content="${Math.max(1, depth(toc))}"/>
+  </head>
+  <docTitle><text>${escapeHTML(metadata.title)}</text></docTitle>
+  <navMap>
+${renderPoints(toc, '    ')}  </navMap>
+</ncx>
+`;
+}
+
+/**
+ * Cover page from the export metadata
+ */
+function renderCover(metadata: EpubMetadata): string {
+  const campaignType = metadata.campaignType.charAt(0).toUpperCase() + metadata.campaignType.slice(1);
+  return renderPage(metadata.title, `<div class="cover">
+<h1>${escapeHTML(metadata.title)}</h1>
+<p class="subtitle">A Dungeons &amp; Dragons ${escapeHTML(campaignType)}</p>
+<p>Created by ${escapeHTML(metadata.author)}</p>
+<p>${metadata.exportDate.toLocaleDateString()} - ${metadata.wordCount.toLocaleString('en-US')} words</p>
+</div>`, 'cover');
+}
+
+/**
+ * XHTML page wrapping body content
+ */
+function renderPage(title: string, body: string, sectionType?: string): string {
+  const content = sectionType ? `<section epub:type="${sectionType}">${body}</section>` : body;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeHTML(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${content}
+</body>
+</html>
+`;
+}
@@ -5,21 +5,53 @@
  * 
  * Provides export functionality for D&D campaigns in multiple formats:
  * - Plain text (.txt)
- * - PDF (.pdf) with D&D-themed formatting
+ * - Markdown (.md) for Obsidian and other Markdown notes
+ * - Word (.docx) for publishers and editors
+ * - Homebrewery V3 markup (.md) for publishing in the PHB style
+ * - EPUB (.epub) for reading on e-readers
+ * - PDF (.pdf) in a two-column Player's Handbook layout
+ * - DM screen (.pdf): landscape quick-reference panels
+ *
+ * Generated campaigns can also be exported as Foundry VTT and Roll20 imports
+ * and as DM screens. NPCs, monsters and names print as index cards.
  */
 
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import JSZip from 'jszip';
 import { extractPlainTextFromHTML, convertHTMLToFormattedText } from '@/lib/utils';
-import type { Document } from '@/types/document';
+import { stripDmSecrets } from '@/lib/dm-secrets';
+import { withoutTrackedChanges } from '@/lib/tracked-changes';
+import { escapeHTML } from '@/lib/html-tree';
+import { toMarkdownDocument } from '@/lib/markdown';
+import { toHomebreweryDocument } from '@/lib/homebrewery';
+import { renderDocx } from '@/services/docx';
+import { renderEpub } from '@/services/epub';
+import { renderDocumentPdf } from '@/services/pdf/document-layout';
+import { renderDmScreenPdf } from '@/services/pdf/dm-screen';
+import { campaignToDmScreen, documentToDmScreen } from '@/services/pdf/dm-screen-content';
+import { renderIndexCardsPdf, type IndexCardLayout } from '@/services/pdf/index-cards';
+import type { IndexCard } from '@/services/pdf/index-card-content';
+import { campaignToFoundryAdventure } from '@/services/vtt/foundry';
+import { campaignToRoll20 } from '@/services/vtt/roll20';
+import { calculateTextStats } from '@/services/documents';
+import type { Binder, BulkOperationResult, Document } from '@/types/document';
 import type { AIGrammarStatistics } from '@/services/ai/grammar-ai-service';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
 
 export interface ExportOptions {
-  format: 'pdf' | 'txt';
+  format: 'pdf' | 'txt' | 'md' | 'docx' | 'homebrewery' | 'epub' | 'dm-screen';
   includeCover?: boolean;
   title?: string;
   author?: string;
   campaignType?: 'one-shot' | 'campaign' | 'adventure' | 'module';
+  playerHandout?: boolean; // Strip DM secret blocks
+}
+
+/**
+ * Rendered export, ready to download or add to an archive
+ */
+export interface ExportFile {
+  blob: Blob;
+  fileName: string;
 }
 
 export interface ExportMetadata {
@@ -40,6 +72,105 @@ export async function exportDocument(
   options: ExportOptions,
   statistics?: AIGrammarStatistics
 ): Promise<void> {
+  const file = await renderDocumentExport(document, options, statistics);
+  downloadBlob(file.blob, file.fileName);
+  console.log('📄 Export completed:', file.fileName);
+}
+
+/**
+ * Export several documents as one zip archive, one file per document
+ *
+ * Documents that fail to render are left out and reported; the archive is
+ * still downloaded when at least one succeeds.
+ */
+export async function exportDocumentsAsZip(
+  documents: Document[],
+  options: ExportOptions,
+  archiveName: string = 'documents'
+): Promise<BulkOperationResult> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const result: BulkOperationResult = { succeededIds: [], failures: [] };
+
+  for (const document of documents) {
+    try {
+      const file = await renderDocumentExport(document, { ...options, title: document.title });
+      zip.file(uniqueFileName(file.fileName, usedNames), file.blob);
+      result.succeededIds.push(document.id);
+    } catch (error) {
+      console.error('Error exporting document:', document.id, error);
+      result.failures.push({
+        documentId: document.id,
+        error: error instanceof Error ? error.message : 'Failed to export document'
+      });
+    }
+  }
+
+  if (result.succeededIds.length > 0) {
+    const blob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(blob, `${toFileStem(archiveName)}.zip`);
+  }
+  return result;
+}
+
+/**
+ * Virtual tabletops a generated campaign can be exported to, or a DM screen
+ */
+export type CampaignExportFormat = 'foundry' | 'roll20' | 'dm-screen';
+
+/**
+ * Export a generated campaign as a virtual tabletop import or a DM screen
+ */
+export async function exportCampaign(campaign: GeneratedCampaign, format: CampaignExportFormat): Promise<void> {
+  try {
+    const stem = toFileStem(campaign.title);
+    let blob: Blob;
+    let fileName: string;
+    if (format === 'dm-screen') {
+      blob = renderDmScreenPdf(campaignToDmScreen(campaign));
+      fileName = `${stem}_dm_screen.pdf`;
+    } else {
+      const data = format === 'foundry' ? campaignToFoundryAdventure(campaign) : campaignToRoll20(campaign);
+      blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      fileName = `${stem}_${format}.json`;
+    }
+    downloadBlob(blob, fileName);
+    console.log('📄 Export completed:', fileName);
+  } catch (error) {
+    console.error('❌ Campaign export failed:', error);
+    throw new Error('Failed to export campaign: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Export NPCs, monsters or names as a sheet of printable index cards
+ */
+export async function exportIndexCards(title: string, cards: IndexCard[], layout: IndexCardLayout): Promise<void> {
+  try {
+    if (cards.length === 0) throw new Error('No cards to print');
+    const blob = renderIndexCardsPdf(title, cards, layout);
+    const fileName = `${toFileStem(title)}_cards_${layout.cardSize}.pdf`;
+    downloadBlob(blob, fileName);
+    console.log('📄 Export completed:', fileName);
+  } catch (error) {
+    console.error('❌ Index card export failed:', error);
+    throw new Error('Failed to export index cards: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Render a document in the requested format without downloading it
+ */
+export async function renderDocumentExport(
+  document: Document,
+  options: ExportOptions,
+  statistics?: AIGrammarStatistics
+): Promise<ExportFile> {
+  // Pending suggestions aren't part of the document until accepted
+  document = options.playerHandout
+    ? toPlayerHandout(document)
+    : withContent(document, withoutTrackedChanges(document.content));
+
   const metadata: ExportMetadata = {
     title: options.title || document.title,
     author: options.author || 'Dungeon Master',
@@ -52,297 +183,135 @@ export async function exportDocument(
 
   switch (options.format) {
     case 'pdf':
-      await exportToPDFInternal(document, options, metadata, statistics);
-      break;
+      return exportToPDFInternal(document, options, metadata);
     case 'txt':
-      await exportToText(document, options, metadata, statistics);
-      break;
+      return exportToText(document, options, metadata, statistics);
+    case 'md':
+      return exportToMarkdown(document, metadata);
+    case 'docx':
+      return exportToWord(document, metadata);
+    case 'homebrewery':
+      return exportToHomebrewery(document, options, metadata);
+    case 'epub':
+      return exportToEpub(document, options, metadata);
+    case 'dm-screen':
+      return exportToDmScreen(document, metadata);
     default:
       throw new Error(`Unsupported export format: ${options.format}`);
   }
 }
 
 /**
- * Export campaign as PDF with D&D-themed formatting
+ * File name stem from a title
  */
-async function exportToPDFInternal(
-  document: Document,
-  options: ExportOptions,
-  metadata: ExportMetadata,
-  statistics?: AIGrammarStatistics
-): Promise<void> {
-  const pdf = new jsPDF({
-    orientation: 'portrait',
-    unit: 'mm',
-    format: 'a4'
-  });
-
-  const pageWidth = pdf.internal.pageSize.getWidth();
-  const pageHeight = pdf.internal.pageSize.getHeight();
-  const margin = 20;
-  const contentWidth = pageWidth - (margin * 2);
-  let currentY = margin;
-
-  // Helper function to add new page if needed
-  const checkPageBreak = (requiredHeight: number) => {
-    if (currentY + requiredHeight > pageHeight - margin) {
-      pdf.addPage();
-      currentY = margin;
-      return true;
-    }
-    return false;
-  };
-
-  // Helper function to add text with word wrapping
-  const addWrappedText = (text: string, fontSize: number, fontStyle: 'normal' | 'bold' = 'normal') => {
-    pdf.setFontSize(fontSize);
-    pdf.setFont('helvetica', fontStyle);
-    
-    const lines = pdf.splitTextToSize(text, contentWidth);
-    const lineHeight = fontSize * 0.4;
-    
-    checkPageBreak(lines.length * lineHeight);
-    
-    lines.forEach((line: string) => {
-      pdf.text(line, margin, currentY);
-      currentY += lineHeight;
-    });
-    
-    currentY += lineHeight * 0.5; // Add some spacing after text
-  };
-
-  try {
-    // Cover Page (if requested)
-    if (options.includeCover) {
-      // Title
-      pdf.setFontSize(24);
-      pdf.setFont('helvetica', 'bold');
-      const titleLines = pdf.splitTextToSize(metadata.title, contentWidth);
-      let titleY = pageHeight / 3;
-      
-      titleLines.forEach((line: string) => {
-        const textWidth = pdf.getTextWidth(line);
-        const x = (pageWidth - textWidth) / 2;
-        pdf.text(line, x, titleY);
-        titleY += 10;
-      });
-
-      // D&D Campaign Label
-      pdf.setFontSize(16);
-      pdf.setFont('helvetica', 'normal');
-      const subtitle = `A Dungeons & Dragons ${metadata.campaignType.charAt(0).toUpperCase() + metadata.campaignType.slice(1)}`;
-      const subtitleWidth = pdf.getTextWidth(subtitle);
-      pdf.text(subtitle, (pageWidth - subtitleWidth) / 2, titleY + 20);
-
-      // Author
-      pdf.setFontSize(14);
-      const authorText = `Created by ${metadata.author}`;
-      const authorWidth = pdf.getTextWidth(authorText);
-      pdf.text(authorText, (pageWidth - authorWidth) / 2, titleY + 40);
-
-      // Export Date
-      pdf.setFontSize(10);
-      const dateText = `Exported on ${metadata.exportDate.toLocaleDateString()}`;
-      const dateWidth = pdf.getTextWidth(dateText);
-      pdf.text(dateText, (pageWidth - dateWidth) / 2, titleY + 55);
-
-      // Add decorative border
-      pdf.setDrawColor(139, 69, 19); // Brown color for D&D theme
-      pdf.setLineWidth(1);
-      pdf.rect(margin - 5, margin - 5, contentWidth + 10, pageHeight - (margin * 2) + 10);
-
-      // New page for content
-      pdf.addPage();
-      currentY = margin;
-    }
-
+function toFileStem(title: string): string {
+  return title.replace(/[^a-zA-Z0-9]/g, '_');
+}
 
+/**
+ * File name not yet used in an archive, numbering repeats
+ */
+function uniqueFileName(fileName: string, usedNames: Set<string>): string {
+  const dot = fileName.lastIndexOf('.');
+  const stem = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+  let candidate = fileName;
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}_${n}${extension}`;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
 
-    // Main Content
-    addWrappedText('Campaign Content', 18, 'bold');
-    currentY += 5;
+/**
+ * Save a file through the browser
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+
+  window.document.body.appendChild(link);
+  link.click();
+  window.document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
 
-    // Convert HTML content to formatted text preserving structure
-    const formattedText = convertHTMLToFormattedText(document.content);
-    
-    // Process the formatted text line by line to handle different elements
-    const lines = formattedText.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      // Skip empty lines but add spacing
-      if (line.trim() === '') {
-        currentY += 3;
-        continue;
-      }
-      
-      // Handle different formatting styles
-      if (line.match(/^={60}$/)) {
-        // H1 underline - skip, we'll handle with the title above
-        continue;
-      } else if (line.match(/^-{40}$/)) {
-        // H2 underline - skip, we'll handle with the title above
-        continue;
-      } else if (line.match(/^-{20}$/)) {
-        // H3 underline - skip, we'll handle with the title above
-        continue;
-      } else if (line.match(/^-{60}$/)) {
-        // Horizontal rule
-        checkPageBreak(5);
-        pdf.setDrawColor(139, 69, 19);
-        pdf.setLineWidth(0.5);
-        pdf.line(margin, currentY, pageWidth - margin, currentY);
-        currentY += 5;
-        continue;
-      } else if (i < lines.length - 1 && lines[i + 1].match(/^={60}$/)) {
-        // H1 title (next line is underline)
-        addWrappedText(line, 16, 'bold');
-        currentY += 3;
-      } else if (i < lines.length - 1 && lines[i + 1].match(/^-{40}$/)) {
-        // H2 title (next line is underline)
-        addWrappedText(line, 14, 'bold');
-        currentY += 2;
-      } else if (i < lines.length - 1 && lines[i + 1].match(/^-{20}$/)) {
-        // H3 title (next line is underline)
-        addWrappedText(line, 13, 'bold');
-        currentY += 2;
-      } else if (line.match(/^[^:]+:$/)) {
-        // H4-H6 titles (end with colon)
-        addWrappedText(line, 12, 'bold');
-        currentY += 1;
-      } else if (line.startsWith('• ')) {
-        // Bullet list item
-        const text = line.substring(2);
-        pdf.setFontSize(11);
-        pdf.setFont('helvetica', 'normal');
-        
-        // Add bullet point
-        const bulletX = margin + 5;
-        const textX = margin + 10;
-        
-        checkPageBreak(5);
-        pdf.text('•', bulletX, currentY);
-        
-        // Wrap text with proper indentation
-        const wrappedLines = pdf.splitTextToSize(text, contentWidth - 15);
-        wrappedLines.forEach((wrappedLine: string, index: number) => {
-          if (index > 0) checkPageBreak(4);
-          pdf.text(wrappedLine, textX, currentY);
-          currentY += 4;
-        });
-        
-        currentY += 1; // Small spacing after list item
-      } else if (line.match(/^\d+\. /)) {
-        // Numbered list item
-        const match = line.match(/^(\d+\. )(.*)$/);
-        if (match) {
-          const number = match[1];
-          const text = match[2];
-          
-          pdf.setFontSize(11);
-          pdf.setFont('helvetica', 'normal');
-          
-          checkPageBreak(5);
-          
-          // Add number
-          const numberWidth = pdf.getTextWidth(number);
-          pdf.text(number, margin + 5, currentY);
-          
-          // Wrap text with proper indentation
-          const wrappedLines = pdf.splitTextToSize(text, contentWidth - numberWidth - 10);
-          wrappedLines.forEach((wrappedLine: string, index: number) => {
-            if (index > 0) checkPageBreak(4);
-            pdf.text(wrappedLine, margin + 5 + numberWidth, currentY);
-            currentY += 4;
-          });
-          
-          currentY += 1; // Small spacing after list item
-        }
-      } else if (line.startsWith('> ')) {
-        // Blockquote
-        const text = line.substring(2);
-        pdf.setFontSize(11);
-        pdf.setFont('helvetica', 'italic');
-        
-        checkPageBreak(5);
-        
-        // Add quote indicator
-        pdf.setDrawColor(139, 69, 19);
-        pdf.setLineWidth(2);
-        pdf.line(margin, currentY - 2, margin, currentY + 3);
-        
-        // Add quoted text with indentation
-        const wrappedLines = pdf.splitTextToSize(text, contentWidth - 10);
-        wrappedLines.forEach((wrappedLine: string) => {
-          checkPageBreak(4);
-          pdf.text(wrappedLine, margin + 8, currentY);
-          currentY += 4;
-        });
-        
-        currentY += 2; // Extra spacing after blockquote
-      } else if (line.startsWith('```') && line.endsWith('```')) {
-        // Inline code block
-        const text = line.substring(3, line.length - 3);
-        pdf.setFontSize(10);
-        pdf.setFont('courier', 'normal');
-        
-        checkPageBreak(6);
-        
-        // Add background rectangle
-        pdf.setFillColor(245, 245, 245);
-        const textWidth = pdf.getTextWidth(text);
-        pdf.rect(margin, currentY - 3, Math.min(textWidth + 4, contentWidth), 6, 'F');
-        
-        pdf.text(text, margin + 2, currentY);
-        currentY += 8;
-      } else {
-        // Regular paragraph text
-        // Handle bold, italic, and underline formatting
-        let processedLine = line;
-        let fontSize = 11;
-        let fontStyle: 'normal' | 'bold' = 'normal';
-        
-        // Simple formatting detection (this could be enhanced)
-        if (processedLine.includes('**')) {
-          // Contains bold text - for simplicity, make whole line bold if it has bold formatting
-          fontStyle = 'bold';
-          processedLine = processedLine.replace(/\*\*(.*?)\*\*/g, '$1');
-        } else if (processedLine.includes('*')) {
-          // Contains italic text - handle as normal since addWrappedText doesn't support italic
-          processedLine = processedLine.replace(/\*(.*?)\*/g, '$1');
-        }
-        
-        // Remove any remaining markdown formatting
-        processedLine = processedLine.replace(/`(.*?)`/g, '$1'); // code
-        processedLine = processedLine.replace(/_(.*?)_/g, '$1'); // underline
-        
-        addWrappedText(processedLine, fontSize, fontStyle);
-      }
-    }
+/**
+ * Copy of a document with DM secrets and pending suggestions removed
+ */
+export function toPlayerHandout(document: Document): Document {
+  return withContent(document, stripDmSecrets(withoutTrackedChanges(document.content)));
+}
 
-    // Footer on each page
-    const totalPages = pdf.internal.pages.length - 1; // Subtract the first empty page
-    for (let i = 1; i <= totalPages; i++) {
-      pdf.setPage(i);
-      pdf.setFontSize(8);
-      pdf.setFont('helvetica', 'normal');
-      
-      // Page number
-      const pageText = `Page ${i} of ${totalPages}`;
-      const pageTextWidth = pdf.getTextWidth(pageText);
-      pdf.text(pageText, pageWidth - margin - pageTextWidth, pageHeight - 10);
-      
-      // Campaign title
-      pdf.text(metadata.title, margin, pageHeight - 10);
-    }
+/**
+ * Combine a binder's documents, in order, into one document for export
+ *
+ * Each document becomes a chapter headed by its title.
+ */
+export function combineBinderDocuments(binder: Binder, documents: Document[]): Document {
+  const now = new Date();
+  const content = documents
+    .map(document => `<h1>${escapeHTML(document.title)}</h1>${document.content}`)
+    .join('');
+
+  return {
+    id: binder.id,
+    title: binder.name,
+    content,
+    userId: binder.userId,
+    type: 'campaign',
+    privacy: 'private',
+    status: 'draft',
+    ...(binder.description && { description: binder.description }),
+    tags: Array.from(new Set(documents.flatMap(document => document.tags))),
+    stats: {
+      wordCount: 0,
+      characterCount: 0,
+      characterCountNoSpaces: 0,
+      paragraphCount: 0,
+      sentenceCount: 0,
+      readingTime: 0,
+      ...calculateTextStats(content),
+      lastEditedAt: now
+    },
+    createdAt: binder.createdAt,
+    updatedAt: now,
+    lastAccessedAt: now,
+    version: 1,
+    isAutoSaveEnabled: false
+  };
+}
 
-    // Save the PDF
-    const fileName = `${metadata.title.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`;
-    pdf.save(fileName);
+/**
+ * Copy of a document with new content and matching stats
+ */
+function withContent(document: Document, content: string): Document {
+  if (content === document.content) {
+    return document;
+  }
 
-    console.log('📄 PDF export completed:', fileName);
+  return {
+    ...document,
+    content,
+    stats: { ...document.stats, ...calculateTextStats(content) }
+  };
+}
 
+/**
+ * Render campaign as a two-column PDF in the Player's Handbook style
+ */
+async function exportToPDFInternal(
+  document: Document,
+  options: ExportOptions,
+  metadata: ExportMetadata
+): Promise<ExportFile> {
+  try {
+    const blob = renderDocumentPdf(document.content, metadata, !!options.includeCover);
+    return { blob, fileName: `${toFileStem(metadata.title)}.pdf` };
   } catch (error) {
     console.error('❌ PDF export failed:', error);
     throw new Error('Failed to export PDF: ' + (error as Error).message);
@@ -350,14 +319,14 @@ async function exportToPDFInternal(
 }
 
 /**
- * Export campaign as plain text
+ * Render campaign as plain text
  */
 async function exportToText(
   document: Document,
   options: ExportOptions,
   metadata: ExportMetadata,
   statistics?: AIGrammarStatistics
-): Promise<void> {
+): Promise<ExportFile> {
   try {
     let content = '';
 
@@ -384,23 +353,9 @@ async function exportToText(
     content += 'End of Campaign\n';
     content += '='.repeat(60) + '\n';
 
-    // Create and download the file
     const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = window.document.createElement('a');
-    
-    const fileName = `${metadata.title.replace(/[^a-zA-Z0-9]/g, '_')}.txt`;
-    link.href = url;
-    link.download = fileName;
-    link.style.display = 'none';
-    
-    window.document.body.appendChild(link);
-    link.click();
-    window.document.body.removeChild(link);
-    
-    URL.revokeObjectURL(url);
-
-    console.log('📝 Text export completed:', fileName);
+    const fileName = `${toFileStem(metadata.title)}.txt`;
+    return { blob, fileName };
 
   } catch (error) {
     console.error('❌ Text export failed:', error);
@@ -408,6 +363,84 @@ async function exportToText(
   }
 }
 
+/**
+ * Render a document as a Markdown note
+ */
+async function exportToMarkdown(document: Document, metadata: ExportMetadata): Promise<ExportFile> {
+  try {
+    const content = toMarkdownDocument({ title: metadata.title, content: document.content, tags: document.tags });
+    const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+    return { blob, fileName: `${toFileStem(metadata.title)}.md` };
+  } catch (error) {
+    console.error('❌ Markdown export failed:', error);
+    throw new Error('Failed to export Markdown: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Render a document as a Word file
+ */
+async function exportToWord(document: Document, metadata: ExportMetadata): Promise<ExportFile> {
+  try {
+    const blob = await renderDocx(document.content, metadata);
+    return { blob, fileName: `${toFileStem(metadata.title)}.docx` };
+  } catch (error) {
+    console.error('❌ Word export failed:', error);
+    throw new Error('Failed to export Word document: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Render a document as a Homebrewery brew
+ */
+async function exportToHomebrewery(
+  document: Document,
+  options: ExportOptions,
+  metadata: ExportMetadata
+): Promise<ExportFile> {
+  try {
+    const content = toHomebreweryDocument(
+      { title: metadata.title, content: document.content },
+      options.includeCover ? { author: metadata.author, campaignType: metadata.campaignType } : undefined
+    );
+    const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+    return { blob, fileName: `${toFileStem(metadata.title)}.homebrewery.md` };
+  } catch (error) {
+    console.error('❌ Homebrewery export failed:', error);
+    throw new Error('Failed to export Homebrewery brew: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Render a document as an EPUB book
+ */
+async function exportToEpub(
+  document: Document,
+  options: ExportOptions,
+  metadata: ExportMetadata
+): Promise<ExportFile> {
+  try {
+    const blob = await renderEpub(document.content, { ...metadata, identifier: document.id }, !!options.includeCover);
+    return { blob, fileName: `${toFileStem(metadata.title)}.epub` };
+  } catch (error) {
+    console.error('❌ EPUB export failed:', error);
+    throw new Error('Failed to export EPUB: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Render a document's NPCs, encounters, stat blocks and locations as a DM screen
+ */
+async function exportToDmScreen(document: Document, metadata: ExportMetadata): Promise<ExportFile> {
+  try {
+    const blob = renderDmScreenPdf(documentToDmScreen(metadata.title, document.content));
+    return { blob, fileName: `${toFileStem(metadata.title)}_dm_screen.pdf` };
+  } catch (error) {
+    console.error('❌ DM screen export failed:', error);
+    throw new Error('Failed to export DM screen: ' + (error as Error).message);
+  }
+}
+
 /**
  * Quick export functions for convenience
  */
@@ -420,8 +453,11 @@ export const exportToTXT = (document: Document, statistics?: AIGrammarStatistics
 /**
  * Get suggested filename for export
  */
-export function getSuggestedFilename(document: Document, format: 'pdf' | 'txt'): string {
-  const cleanTitle = document.title.replace(/[^a-zA-Z0-9]/g, '_');
+export function getSuggestedFilename(document: Document, format: ExportOptions['format']): string {
+  const cleanTitle = toFileStem(document.title);
   const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  return `${cleanTitle}_${timestamp}.${format}`;
+  const extension = format === 'homebrewery' ? 'homebrewery.md'
+    : format === 'dm-screen' ? 'dm_screen.pdf'
+    : format;
+  return `${cleanTitle}_${timestamp}.${extension}`;
 } 
\ No newline at end of file
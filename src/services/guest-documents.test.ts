@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Vitest tests for guest document storage
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Node has no IndexedDB, so these cover the in-memory fallback that shares its API.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMemoryGuestStore, guestCommentStore, guestDocumentStore, guestVersionStore } from './guest-documents';
+import type { Document, DocumentComment, DocumentVersion } from '@/types/document';
+
+const makeDocument = (id: string, userId: string): Document => ({
+  id,
+  title: `Session ${id}`,
+  content: '<p>The party meets in a tavern.</p>',
+  userId,
+  type: 'campaign',
+  privacy: 'private',
+  status: 'draft',
+  tags: [],
+  stats: {
+    wordCount: 6,
+    characterCount: 29,
+    characterCountNoSpaces: 24,
+    paragraphCount: 1,
+    sentenceCount: 1,
+    readingTime: 1,
+    lastEditedAt: new Date()
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastAccessedAt: new Date(),
+  version: 1,
+  isAutoSaveEnabled: true
+});
+
+describe('Guest document storage', () => {
+  it('should fall back to memory without IndexedDB', async () => {
+    await guestDocumentStore.create(makeDocument('guest_doc_1', 'guest_a'));
+    expect(await guestDocumentStore.get('guest_doc_1')).not.toBeNull();
+  });
+
+  it('should create, update, list and delete documents per guest', async () => {
+    const store = createMemoryGuestStore();
+    await store.create(makeDocument('guest_doc_1', 'guest_a'));
+    await store.create(makeDocument('guest_doc_2', 'guest_a'));
+    await store.create(makeDocument('guest_doc_3', 'guest_b'));
+
+    await expect(store.create(makeDocument('guest_doc_1', 'guest_a'))).rejects.toThrow();
+
+    await store.update({ ...makeDocument('guest_doc_1', 'guest_a'), title: 'Renamed' });
+    expect((await store.get('guest_doc_1'))?.title).toBe('Renamed');
+
+    expect((await store.list('guest_a')).map(doc => doc.id).sort()).toEqual(['guest_doc_1', 'guest_doc_2']);
+
+    await store.delete('guest_doc_2');
+    expect(await store.get('guest_doc_2')).toBeNull();
+    expect(await store.list('guest_a')).toHaveLength(1);
+  });
+
+  it('should keep version snapshots and comments by document', async () => {
+    const version = (id: string, documentId: string): DocumentVersion => ({
+      id, documentId, version: 1, title: 'Session', content: '<p>v1</p>', wordCount: 1,
+      reason: 'manual', createdBy: 'guest_a', createdAt: new Date()
+    });
+    const comment = (id: string, documentId: string): DocumentComment => ({
+      id, documentId, anchor: { quote: 'tavern', prefix: 'a ', suffix: '.', start: 20 }, body: 'Name it?',
+      authorId: 'guest_a', authorName: 'Guest', replies: [], resolved: false, createdAt: new Date(), updatedAt: new Date()
+    });
+
+    await guestVersionStore.add(version('guest_version_1', 'guest_doc_1'));
+    await guestVersionStore.add(version('guest_version_2', 'guest_doc_2'));
+    await guestCommentStore.add(comment('guest_comment_1', 'guest_doc_1'));
+
+    expect((await guestVersionStore.getAll({ field: 'documentId', value: 'guest_doc_1' })).map(v => v.id))
+      .toEqual(['guest_version_1']);
+    expect((await guestCommentStore.getAll({ field: 'documentId', value: 'guest_doc_1' })).map(c => c.id))
+      .toEqual(['guest_comment_1']);
+  });
+});
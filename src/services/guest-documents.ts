@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Local document storage for guest users
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Guest documents, with their version snapshots and comment threads, are kept
+ * in IndexedDB so they survive a refresh, and are moved to Firestore when the
+ * guest signs up or logs in. Falls back to memory where IndexedDB is
+ * unavailable (private browsing in some browsers, tests).
+ */
+
+import { createMemoryRecordStore, createRecordStore, type RecordStore } from '@/lib/indexed-db';
+import type { Document, DocumentComment, DocumentVersion } from '@/types/document';
+
+/**
+ * localStorage key remembering this browser's guest ID, so returning guests
+ * find their documents again
+ */
+const GUEST_ID_STORAGE_KEY = 'dnd_guest_user_id';
+
+/**
+ * localStorage key for a guest's work waiting to move into the account the
+ * guest signed in to
+ */
+const GUEST_MIGRATION_STORAGE_KEY = 'dnd_guest_migration';
+
+/**
+ * Guest work waiting to move into an account
+ */
+export interface GuestMigration {
+  guestId: string;
+  userId: string | null; // Account the guest signed in to; null until sign-in completes
+}
+
+/**
+ * Storage for guest documents
+ */
+export interface GuestDocumentStore {
+  create: (document: Document) => Promise<Document>;
+  get: (documentId: string) => Promise<Document | null>;
+  update: (document: Document) => Promise<Document>;
+  delete: (documentId: string) => Promise<void>;
+  list: (userId: string) => Promise<Document[]>;
+}
+
+/**
+ * Guest document store on top of a record store
+ */
+export function createGuestDocumentStore(records: RecordStore<Document>): GuestDocumentStore {
+  return {
+    create: async (document) => {
+      await records.add(document);
+      return document;
+    },
+    get: (documentId) => records.get(documentId),
+    update: async (document) => {
+      await records.put(document);
+      return document;
+    },
+    delete: (documentId) => records.delete(documentId),
+    list: (userId) => records.getAll({ field: 'userId', value: userId }),
+  };
+}
+
+/**
+ * In-memory guest document store, lost when the page closes
+ */
+export function createMemoryGuestStore(): GuestDocumentStore {
+  return createGuestDocumentStore(createMemoryRecordStore<Document>());
+}
+
+/**
+ * Store used for guest documents
+ */
+export const guestDocumentStore = createGuestDocumentStore(createRecordStore<Document>({
+  databaseName: 'dungeons-and-drafting-guest',
+  storeName: 'documents',
+  indexes: ['userId']
+}));
+
+/**
+ * Version snapshots of guest documents, indexed by document
+ */
+export const guestVersionStore = createRecordStore<DocumentVersion>({
+  databaseName: 'dungeons-and-drafting-guest-versions',
+  storeName: 'versions',
+  indexes: ['documentId']
+});
+
+/**
+ * Comment threads on guest documents, indexed by document
+ */
+export const guestCommentStore = createRecordStore<DocumentComment>({
+  databaseName: 'dungeons-and-drafting-guest-comments',
+  storeName: 'comments',
+  indexes: ['documentId']
+});
+
+/**
+ * Guest ID previously used in this browser, if any
+ */
+export function getStoredGuestId(): string | null {
+  try {
+    return localStorage.getItem(GUEST_ID_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember (or with null, forget) this browser's guest ID
+ */
+export function setStoredGuestId(guestId: string | null): void {
+  try {
+    if (guestId) {
+      localStorage.setItem(GUEST_ID_STORAGE_KEY, guestId);
+    } else {
+      localStorage.removeItem(GUEST_ID_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Could not persist guest ID:', error);
+  }
+}
+
+/**
+ * Guest work waiting to move into an account, if any
+ */
+export function getPendingGuestMigration(): GuestMigration | null {
+  try {
+    const stored = localStorage.getItem(GUEST_MIGRATION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as GuestMigration : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember (or with null, forget) guest work waiting to move into an account
+ */
+export function setPendingGuestMigration(migration: GuestMigration | null): void {
+  try {
+    if (migration) {
+      localStorage.setItem(GUEST_MIGRATION_STORAGE_KEY, JSON.stringify(migration));
+    } else {
+      localStorage.removeItem(GUEST_MIGRATION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Could not persist guest migration:', error);
+  }
+}
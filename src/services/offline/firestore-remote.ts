@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Firestore target for the offline sync queue
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Takes the Firestore instance as a parameter so tests can point it at the
+ * emulator.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  serverTimestamp,
+  updateDoc,
+  type Firestore
+} from 'firebase/firestore';
+import type { SyncRemote } from './sync-queue';
+
+/**
+ * Sync remote writing to a Firestore documents collection
+ */
+export function createFirestoreSyncRemote(firestore: Firestore, collectionName: string = 'documents'): SyncRemote {
+  return {
+    read: async (documentId) => {
+      const docSnap = await getDoc(doc(firestore, collectionName, documentId));
+      if (!docSnap.exists()) return null;
+
+      const data = docSnap.data();
+      return { version: data.version || 1, content: data.content || '' };
+    },
+
+    create: async (data) => {
+      const docRef = await addDoc(collection(firestore, collectionName), {
+        ...data,
+        updatedAt: serverTimestamp(),
+        lastAccessedAt: serverTimestamp()
+      });
+      return docRef.id;
+    },
+
+    update: async (documentId, data, version) => {
+      await updateDoc(doc(firestore, collectionName, documentId), {
+        ...data,
+        version,
+        updatedAt: serverTimestamp(),
+        lastAccessedAt: serverTimestamp()
+      });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Network status for offline editing
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Combines the browser's online flag with a manual switch that takes
+ * Firestore offline, so the offline path can be exercised (e.g. against the
+ * emulator) without unplugging the network.
+ */
+
+import { disableNetwork, enableNetwork } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+
+type NetworkStatusListener = (isOnline: boolean) => void;
+
+let isNetworkEnabled = true;
+const listeners = new Set<NetworkStatusListener>();
+
+/**
+ * Whether writes can currently reach Firestore
+ */
+export function isOnline(): boolean {
+  const isBrowserOnline = typeof navigator === 'undefined' || navigator.onLine;
+  return isNetworkEnabled && isBrowserOnline;
+}
+
+const notifyListeners = () => {
+  const online = isOnline();
+  listeners.forEach(listener => listener(online));
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', notifyListeners);
+  window.addEventListener('offline', notifyListeners);
+}
+
+/**
+ * Listen for the app going offline or coming back online
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToNetworkStatus(listener: NetworkStatusListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Take Firestore offline or bring it back
+ */
+export async function setNetworkEnabled(enabled: boolean): Promise<void> {
+  if (enabled) {
+    await enableNetwork(db);
+    isNetworkEnabled = true;
+  } else {
+    // Flip the flag first so writes made meanwhile go to the queue
+    isNetworkEnabled = false;
+    await disableNetwork(db);
+  }
+
+  console.log(enabled ? '🔄 Network enabled' : '🔄 Network disabled');
+  notifyListeners();
+}
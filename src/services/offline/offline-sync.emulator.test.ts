@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Offline sync against the Firestore emulator
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Toggles the client's network off and on with disableNetwork/enableNetwork
+ * while another client edits the server copy. Run with `npm run test:emulator`;
+ * skipped when FIRESTORE_EMULATOR_HOST is not set.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { initializeApp, deleteApp, type FirebaseApp } from 'firebase/app';
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  disableNetwork,
+  enableNetwork,
+  terminate,
+  type Firestore
+} from 'firebase/firestore';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createMemoryRecordStore } from '@/lib/indexed-db';
+import { createSyncQueue, type QueuedWrite } from './sync-queue';
+import { createFirestoreSyncRemote } from './firestore-remote';
+
+const PROJECT_ID = 'demo-dungeons-and-drafting-offline';
+const USER_ID = 'owner';
+const BASE = '<p>The lich waits below.</p><p>Its phylactery is hidden.</p>';
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('Offline sync with the Firestore emulator', () => {
+  let testEnv: RulesTestEnvironment;
+  let app: FirebaseApp;
+  let deviceDb: Firestore;
+
+  /**
+   * Edit the server copy from another client
+   */
+  const writeFromElsewhere = (data: Record<string, unknown>) =>
+    testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().collection('documents').doc('doc1').set(data, { merge: true });
+    });
+
+  const readServerCopy = async () => {
+    let data: Record<string, unknown> | undefined;
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      data = (await context.firestore().collection('documents').doc('doc1').get()).data();
+    });
+    return data;
+  };
+
+  const contentEdit = (content: string): QueuedWrite => ({
+    id: 'doc1',
+    type: 'update',
+    userId: USER_ID,
+    data: { content },
+    baseVersion: 1,
+    baseContent: BASE,
+    queuedAt: Date.now()
+  });
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: {
+        rules: "rules_version = '2'; service cloud.firestore { match /{document=**} { allow read, write: if true; } }"
+      }
+    });
+
+    const [host, port] = process.env.FIRESTORE_EMULATOR_HOST!.split(':');
+    app = initializeApp({ projectId: PROJECT_ID, apiKey: 'demo-key' }, 'offline-sync-test');
+    deviceDb = getFirestore(app);
+    connectFirestoreEmulator(deviceDb, host!, Number(port));
+  });
+
+  beforeEach(async () => {
+    await enableNetwork(deviceDb);
+    await testEnv.clearFirestore();
+    await writeFromElsewhere({ title: 'Curse of the Lich', content: BASE, userId: USER_ID, version: 1 });
+  });
+
+  afterAll(async () => {
+    await terminate(deviceDb);
+    await deleteApp(app);
+    await testEnv.cleanup();
+  });
+
+  it('should keep edits queued while offline and replay them on reconnect', async () => {
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), createFirestoreSyncRemote(deviceDb));
+
+    await disableNetwork(deviceDb);
+    await queue.enqueue(contentEdit('<p>The lich waits above.</p><p>Its phylactery is hidden.</p>'));
+
+    expect((await queue.replay(USER_ID)).isOffline).toBe(true);
+    expect(await queue.has('doc1')).toBe(true);
+
+    await enableNetwork(deviceDb);
+    const result = await queue.replay(USER_ID);
+
+    expect(result.syncedIds).toEqual(['doc1']);
+    expect(await readServerCopy()).toMatchObject({
+      version: 2,
+      content: '<p>The lich waits above.</p><p>Its phylactery is hidden.</p>'
+    });
+  });
+
+  it('should detect a server change made while offline and merge on request', async () => {
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), createFirestoreSyncRemote(deviceDb));
+
+    await disableNetwork(deviceDb);
+    await queue.enqueue(contentEdit('<p>The lich waits above.</p><p>Its phylactery is hidden.</p>'));
+    await writeFromElsewhere({
+      content: '<p>The lich waits below.</p><p>Its phylactery is in the well.</p>',
+      version: 2
+    });
+
+    await enableNetwork(deviceDb);
+    const result = await queue.replay(USER_ID);
+
+    expect(result.syncedIds).toEqual([]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ documentId: 'doc1', serverVersion: 2 });
+
+    await queue.resolveConflict('doc1', 'merge');
+    expect(await readServerCopy()).toMatchObject({
+      version: 3,
+      content: '<p>The lich waits above.</p><p>Its phylactery is in the well.</p>'
+    });
+  });
+});
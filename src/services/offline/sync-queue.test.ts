@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Vitest tests for the offline sync queue
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Runs the queue against memory storage and an in-memory remote; see
+ * offline-sync.emulator.test.ts for the same flow against Firestore.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMemoryRecordStore } from '@/lib/indexed-db';
+import { createSyncQueue, type QueuedWrite, type SyncRemote, type RemoteDocumentState } from './sync-queue';
+
+const USER_ID = 'dm-1';
+
+/**
+ * In-memory server with a switch to simulate losing the connection
+ */
+const createMemoryRemote = () => {
+  const documents = new Map<string, RemoteDocumentState & Record<string, unknown>>();
+  let isOffline = false;
+  let nextId = 1;
+
+  const checkConnection = () => {
+    if (isOffline) {
+      throw Object.assign(new Error('Client is offline'), { code: 'unavailable' });
+    }
+  };
+
+  const remote: SyncRemote = {
+    read: async (documentId) => {
+      checkConnection();
+      return documents.get(documentId) ?? null;
+    },
+    create: async (data) => {
+      checkConnection();
+      const id = `server_${nextId++}`;
+      documents.set(id, { version: 1, content: '', ...data });
+      return id;
+    },
+    update: async (documentId, data, version) => {
+      checkConnection();
+      documents.set(documentId, { ...documents.get(documentId)!, ...data, version });
+    }
+  };
+
+  return {
+    remote,
+    documents,
+    setOffline: (offline: boolean) => {
+      isOffline = offline;
+    }
+  };
+};
+
+const contentEdit = (content: string, baseVersion: number, baseContent: string): QueuedWrite => ({
+  id: 'doc1',
+  type: 'update',
+  userId: USER_ID,
+  data: { content },
+  baseVersion,
+  baseContent,
+  queuedAt: Date.now()
+});
+
+const BASE = '<p>The lich waits below.</p><p>Its phylactery is hidden.</p>';
+
+describe('Offline sync queue', () => {
+  it('should coalesce edits and replay them once back online', async () => {
+    const server = createMemoryRemote();
+    server.documents.set('doc1', { version: 3, content: BASE, title: 'Curse of the Lich' });
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), server.remote);
+
+    server.setOffline(true);
+    await queue.enqueue(contentEdit('<p>Draft one</p>', 3, BASE));
+    await queue.enqueue({ ...contentEdit('<p>Draft two</p>', 4, '<p>Draft one</p>'), data: { content: '<p>Draft two</p>', title: 'Renamed' } });
+    expect(await queue.list(USER_ID)).toHaveLength(1);
+
+    const offlineResult = await queue.replay(USER_ID);
+    expect(offlineResult.isOffline).toBe(true);
+    expect(await queue.has('doc1')).toBe(true);
+
+    server.setOffline(false);
+    const result = await queue.replay(USER_ID);
+    expect(result.syncedIds).toEqual(['doc1']);
+    expect(result.conflicts).toEqual([]);
+    expect(server.documents.get('doc1')).toMatchObject({ version: 4, content: '<p>Draft two</p>', title: 'Renamed' });
+    expect(await queue.has('doc1')).toBe(false);
+  });
+
+  it('should give documents created offline their server ID', async () => {
+    const server = createMemoryRemote();
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), server.remote);
+
+    await queue.enqueue({
+      id: 'offline_1',
+      type: 'create',
+      userId: USER_ID,
+      data: { title: 'Session 12', content: '<p>Notes</p>' },
+      baseVersion: 0,
+      baseContent: null,
+      queuedAt: Date.now()
+    });
+    await queue.enqueue({ ...contentEdit('<p>More notes</p>', 1, '<p>Notes</p>'), id: 'offline_1' });
+
+    const result = await queue.replay(USER_ID);
+    const serverId = result.createdIds.offline_1!;
+    expect(server.documents.get(serverId)).toMatchObject({ title: 'Session 12', content: '<p>More notes</p>' });
+  });
+
+  it('should hold back conflicting edits until resolved', async () => {
+    const server = createMemoryRemote();
+    server.documents.set('doc1', { version: 1, content: BASE });
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), server.remote);
+
+    await queue.enqueue(contentEdit('<p>The lich waits above.</p><p>Its phylactery is hidden.</p>', 1, BASE));
+    server.documents.set('doc1', { version: 2, content: '<p>The lich waits below.</p><p>Its phylactery is in the well.</p>' });
+
+    const result = await queue.replay(USER_ID);
+    expect(result.syncedIds).toEqual([]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ documentId: 'doc1', serverVersion: 2, baseContent: BASE });
+    expect(await queue.has('doc1')).toBe(true);
+
+    await queue.resolveConflict('doc1', 'merge');
+    expect(server.documents.get('doc1')).toMatchObject({
+      version: 3,
+      content: '<p>The lich waits above.</p><p>Its phylactery is in the well.</p>'
+    });
+    expect(await queue.has('doc1')).toBe(false);
+  });
+
+  it('should not report a conflict when both sides made the same edit', async () => {
+    const server = createMemoryRemote();
+    server.documents.set('doc1', { version: 2, content: '<p>Same</p>' });
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), server.remote);
+
+    await queue.enqueue(contentEdit('<p>Same</p>', 1, BASE));
+    const result = await queue.replay(USER_ID);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.syncedIds).toEqual(['doc1']);
+  });
+
+  it('should discard local edits when the server copy is kept', async () => {
+    const server = createMemoryRemote();
+    server.documents.set('doc1', { version: 2, content: '<p>Server</p>' });
+    const queue = createSyncQueue(createMemoryRecordStore<QueuedWrite>(), server.remote);
+
+    await queue.enqueue(contentEdit('<p>Local</p>', 1, BASE));
+    await queue.resolveConflict('doc1', 'server');
+
+    expect(server.documents.get('doc1')).toMatchObject({ version: 2, content: '<p>Server</p>' });
+    expect(await queue.has('doc1')).toBe(false);
+  });
+});
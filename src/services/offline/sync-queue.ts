@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Offline write queue with version-based conflict detection
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Writes made while offline are queued locally, one entry per document, and
+ * replayed on reconnect. Each entry remembers the server version and content
+ * the local edits started from; if the server copy has moved on since, the
+ * entry is held back as a conflict until the user picks a resolution.
+ *
+ * Storage and the remote are injected so the queue can run against memory,
+ * IndexedDB, Firestore or the Firestore emulator.
+ */
+
+import type { RecordStore } from '@/lib/indexed-db';
+import { mergeHTMLBlocks } from '@/lib/html-diff';
+
+/**
+ * Prefix for IDs of documents created offline, replaced on first sync
+ */
+export const OFFLINE_DOCUMENT_ID_PREFIX = 'offline_';
+
+export type QueuedWriteType = 'create' | 'update';
+
+/**
+ * Pending write for one document
+ */
+export interface QueuedWrite {
+  id: string; // Document ID (an offline ID for documents created offline)
+  type: QueuedWriteType;
+  userId: string;
+  data: Record<string, unknown>; // Fields to write
+  baseVersion: number; // Server version the local edits started from (0 for creates)
+  baseContent: string | null; // Content at baseVersion, for three-way merges
+  queuedAt: number;
+}
+
+/**
+ * Server state needed to detect conflicts
+ */
+export interface RemoteDocumentState {
+  version: number;
+  content: string;
+}
+
+/**
+ * Server the queue replays into
+ */
+export interface SyncRemote {
+  read: (documentId: string) => Promise<RemoteDocumentState | null>;
+  create: (data: Record<string, unknown>) => Promise<string>; // Resolves to the new document ID
+  update: (documentId: string, data: Record<string, unknown>, version: number) => Promise<void>;
+}
+
+/**
+ * Queued content edit whose server copy changed in the meantime
+ */
+export interface SyncConflict {
+  documentId: string;
+  userId: string;
+  baseContent: string;
+  localContent: string;
+  serverContent: string;
+  serverVersion: number;
+}
+
+export type ConflictResolution = 'local' | 'server' | 'merge';
+
+export interface SyncResult {
+  syncedIds: string[];
+  createdIds: Record<string, string>; // Offline ID -> server ID
+  conflicts: SyncConflict[];
+  failedCount: number;
+  isOffline: boolean; // Replay stopped because the network dropped again
+}
+
+export interface SyncQueueOptions {
+  /**
+   * Build the write for resolved content (e.g. to recalculate stats)
+   */
+  withContent?: (data: Record<string, unknown>, content: string) => Record<string, unknown>;
+}
+
+/**
+ * Whether an error means the server couldn't be reached
+ */
+export function isOfflineError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'unavailable';
+}
+
+/**
+ * Whether a document ID was assigned offline and not yet synced
+ */
+export function isOfflineDocumentId(documentId: string): boolean {
+  return documentId.startsWith(OFFLINE_DOCUMENT_ID_PREFIX);
+}
+
+/**
+ * Generate an ID for a document created offline
+ */
+export function generateOfflineDocumentId(): string {
+  return `${OFFLINE_DOCUMENT_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Fold a new write into the pending write for the same document
+ *
+ * The earliest base is kept so conflict detection compares against what the
+ * user actually started from, and edits to an unsynced document stay a create.
+ */
+export function coalesceQueuedWrites(existing: QueuedWrite | null, incoming: QueuedWrite): QueuedWrite {
+  if (!existing) return incoming;
+
+  return {
+    ...existing,
+    data: { ...existing.data, ...incoming.data },
+    queuedAt: incoming.queuedAt
+  };
+}
+
+/**
+ * Create a sync queue over the given storage and remote
+ */
+export function createSyncQueue(
+  storage: RecordStore<QueuedWrite>,
+  remote: SyncRemote,
+  options: SyncQueueOptions = {}
+) {
+  const withContent = options.withContent ?? ((data, content) => ({ ...data, content }));
+
+  const list = async (userId: string): Promise<QueuedWrite[]> => {
+    const writes = await storage.getAll({ field: 'userId', value: userId });
+    return writes.sort((a, b) => a.queuedAt - b.queuedAt);
+  };
+
+  return {
+    enqueue: async (write: QueuedWrite): Promise<void> => {
+      await storage.put(coalesceQueuedWrites(await storage.get(write.id), write));
+    },
+
+    has: async (documentId: string): Promise<boolean> => (await storage.get(documentId)) !== null,
+
+    discard: (documentId: string): Promise<void> => storage.delete(documentId),
+
+    list,
+
+    /**
+     * Replay a user's pending writes, oldest first
+     *
+     * Only content is checked for conflicts; metadata edits (title, tags)
+     * on a newer server copy are applied as-is.
+     */
+    replay: async (userId: string): Promise<SyncResult> => {
+      const result: SyncResult = { syncedIds: [], createdIds: {}, conflicts: [], failedCount: 0, isOffline: false };
+
+      for (const write of await list(userId)) {
+        try {
+          if (write.type === 'create') {
+            result.createdIds[write.id] = await remote.create(write.data);
+            await storage.delete(write.id);
+            continue;
+          }
+
+          const server = await remote.read(write.id);
+          if (!server) {
+            console.warn('Dropping queued write for deleted document:', write.id);
+            await storage.delete(write.id);
+            result.failedCount++;
+            continue;
+          }
+
+          const localContent = typeof write.data.content === 'string' ? write.data.content : null;
+          if (server.version !== write.baseVersion && localContent !== null && localContent !== server.content) {
+            result.conflicts.push({
+              documentId: write.id,
+              userId: write.userId,
+              baseContent: write.baseContent ?? '',
+              localContent,
+              serverContent: server.content,
+              serverVersion: server.version
+            });
+            continue;
+          }
+
+          await remote.update(write.id, write.data, server.version + 1);
+          await storage.delete(write.id);
+          result.syncedIds.push(write.id);
+        } catch (error) {
+          if (isOfflineError(error)) {
+            result.isOffline = true;
+            break;
+          }
+          console.error('Error replaying queued write:', write.id, error);
+          result.failedCount++;
+        }
+      }
+
+      if (result.syncedIds.length > 0 || Object.keys(result.createdIds).length > 0) {
+        console.log('🔄 Offline changes synced:', result.syncedIds.length + Object.keys(result.createdIds).length);
+      }
+      return result;
+    },
+
+    /**
+     * Settle a conflict by keeping the local copy, the server copy, or a
+     * block-level merge of both
+     */
+    resolveConflict: async (documentId: string, resolution: ConflictResolution): Promise<void> => {
+      const write = await storage.get(documentId);
+      if (!write) return;
+
+      if (resolution !== 'server') {
+        const server = await remote.read(documentId);
+        if (server) {
+          const localContent = typeof write.data.content === 'string' ? write.data.content : server.content;
+          const content = resolution === 'merge'
+            ? mergeHTMLBlocks(write.baseContent ?? '', localContent, server.content).html
+            : localContent;
+          await remote.update(documentId, withContent(write.data, content), server.version + 1);
+        }
+      }
+
+      await storage.delete(documentId);
+    }
+  };
+}
+
+export type SyncQueue = ReturnType<typeof createSyncQueue>;
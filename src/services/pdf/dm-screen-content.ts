@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Quick-reference content for the DM screen
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Reads what a DM screen shows: NPCs with their role and motivation,
+ * encounters in play order with their running time, condensed stat blocks
+ * and locations. Generated campaigns supply these directly. Other documents
+ * are read from their headings: sections titled like "NPCs", "Encounters" or
+ * "Locations", with each sub-heading (or list item) in them as one entry and
+ * "Label: value" lines under it as the entry's details.
+ */
+
+import { findElements, getTextContent, parseHTML, type HtmlElementNode, type HtmlNode } from '@/lib/html-tree';
+import {
+  formatChallenge,
+  getStatBlockProperty,
+  isStatBlockElement,
+  parseLooseStatBlock,
+  parseStatBlock,
+  type StatBlock
+} from '@/lib/stat-block';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
+import { getCampaignCreatures, getOrderedEncounters, readCampaignStatBlock } from '@/services/vtt/campaign-content';
+
+export interface DmScreenNpc {
+  name: string;
+  role: string;
+  motivation: string;
+}
+
+export interface DmScreenEncounter {
+  title: string;
+  type: string;
+  duration: number | null; // Minutes
+}
+
+export interface DmScreenLocation {
+  name: string;
+  type: string;
+  encounters: number[]; // Play order numbers of the encounters here
+}
+
+/**
+ * Everything on a DM screen; empty lists leave their panel out
+ */
+export interface DmScreenContent {
+  title: string;
+  npcs: DmScreenNpc[];
+  encounters: DmScreenEncounter[]; // In play order
+  statBlocks: StatBlock[];
+  locations: DmScreenLocation[];
+}
+
+type SectionKind = 'npcs' | 'encounters' | 'locations';
+
+/**
+ * Heading text that names a section, allowing a couple of words before the
+ * name ("Key NPCs") and an "and ..." after it
+ */
+const sectionPattern = (names: string) =>
+  new RegExp(`^\\W*(?:[\\w'-]+\\s+){0,2}(?:${names})(?:\\s+(?:&|and)\\s+[\\w\\s]+)?\\W*$`, 'i');
+
+const SECTION_PATTERNS: Array<[SectionKind, RegExp]> = [
+  ['encounters', sectionPattern('encounters?|scenes')],
+  ['npcs', sectionPattern('npcs?|characters|cast|people')],
+  ['locations', sectionPattern('locations?|places|areas')]
+];
+
+/**
+ * A section entry read from a document: its title and "Label: value" details
+ */
+interface DocumentEntry {
+  title: string;
+  fields: Map<string, string>; // Lower case labels
+  summary: string; // Text after a dash or colon in list items, e.g. a role
+}
+
+/**
+ * DM screen content from a generated campaign
+ */
+export function campaignToDmScreen(campaign: GeneratedCampaign): DmScreenContent {
+  const encounters = getOrderedEncounters(campaign);
+
+  const statBlocks = getCampaignCreatures(campaign).flatMap(creature => {
+    if (!creature.statBlock) return [];
+    const hasChallenge = getStatBlockProperty(creature.statBlock, 'Challenge') !== undefined;
+    return [{
+      ...creature.statBlock,
+      name: creature.name,
+      properties: hasChallenge || !creature.challengeRating
+        ? creature.statBlock.properties
+        : [...creature.statBlock.properties, { label: 'Challenge', value: formatChallenge(creature.challengeRating) }]
+    }];
+  });
+
+  return {
+    title: campaign.title,
+    npcs: campaign.npcs.map(npc => ({ name: npc.name, role: npc.role, motivation: npc.motivation })),
+    encounters: encounters.map(encounter => ({
+      title: encounter.title,
+      type: encounter.type,
+      duration: encounter.estimatedDuration
+    })),
+    statBlocks,
+    locations: campaign.locations.map(location => ({
+      name: location.name,
+      type: location.type,
+      encounters: (location.encounters ?? [])
+        .map(id => encounters.findIndex(encounter => encounter.id === id) + 1)
+        .filter(number => number > 0)
+        .sort((a, b) => a - b)
+    }))
+  };
+}
+
+/**
+ * DM screen content read from a document's headings and stat blocks
+ */
+export function documentToDmScreen(title: string, html: string): DmScreenContent {
+  const nodes = parseHTML(html);
+  const content: DmScreenContent = { title, npcs: [], encounters: [], statBlocks: readStatBlocks(nodes), locations: [] };
+
+  for (const { kind, body } of findSections(nodes)) {
+    const entries = readEntries(body);
+    const field = (entry: DocumentEntry, ...labels: string[]) =>
+      labels.map(label => entry.fields.get(label)).find(Boolean) ?? '';
+
+    if (kind === 'npcs') {
+      content.npcs.push(...entries.map(entry => ({
+        name: entry.title,
+        role: field(entry, 'role', 'occupation') || entry.summary,
+        motivation: field(entry, 'motivation', 'goal', 'wants')
+      })));
+    } else if (kind === 'encounters') {
+      content.encounters.push(...entries.map(entry => ({
+        title: entry.title.replace(/^(?:(?:encounter|scene)\s*)?\d+\s*[:.)\-–—]\s*/i, ''),
+        type: field(entry, 'type'),
+        duration: parseDuration(field(entry, 'duration', 'estimated duration', 'time') || entry.summary)
+      })));
+    } else {
+      content.locations.push(...entries.map(entry => ({
+        name: entry.title,
+        type: field(entry, 'type') || entry.summary,
+        encounters: []
+      })));
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Heading level of an element, or null for other nodes
+ */
+function headingLevel(node: HtmlNode): number | null {
+  const match = node.type === 'element' ? node.tag.match(/^h([1-6])$/) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Top-level sections whose heading names a DM screen panel, with the nodes
+ * up to the next heading at the same level or above
+ */
+function findSections(nodes: HtmlNode[]): Array<{ kind: SectionKind; body: HtmlNode[] }> {
+  const sections: Array<{ kind: SectionKind; body: HtmlNode[] }> = [];
+
+  nodes.forEach((node, index) => {
+    const level = headingLevel(node);
+    if (level === null) return;
+    const text = getTextContent(node).trim();
+    const kind = SECTION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+    if (!kind) return;
+
+    const end = nodes.findIndex((other, otherIndex) => {
+      const otherLevel = headingLevel(other);
+      return otherIndex > index && otherLevel !== null && otherLevel <= level;
+    });
+    sections.push({ kind, body: nodes.slice(index + 1, end === -1 ? undefined : end) });
+  });
+
+  return sections;
+}
+
+/**
+ * Entries in a section: its highest sub-headings, or else its list items
+ */
+function readEntries(body: HtmlNode[]): DocumentEntry[] {
+  const levels = body.map(headingLevel).filter((level): level is number => level !== null);
+
+  if (levels.length) {
+    const entryLevel = Math.min(...levels);
+    const entries: DocumentEntry[] = [];
+    let details: HtmlNode[] = [];
+    let title: string | null = null;
+
+    const finish = () => {
+      if (title) entries.push({ title, fields: readFields(details), summary: '' });
+    };
+    for (const node of body) {
+      if (headingLevel(node) === entryLevel) {
+        finish();
+        title = getTextContent(node).replace(/\s+/g, ' ').trim();
+        details = [];
+      } else {
+        details.push(node);
+      }
+    }
+    finish();
+    return entries;
+  }
+
+  const lists = body.filter((node): node is HtmlElementNode => node.type === 'element' && (node.tag === 'ul' || node.tag === 'ol'));
+  return lists.flatMap(list => list.children).flatMap((item): DocumentEntry[] => {
+    if (item.type !== 'element' || item.tag !== 'li') return [];
+    const text = getTextContent(item).replace(/\s+/g, ' ').trim();
+    const [, name, summary] = text.match(/^(.+?)\s*(?:[—–]|\s-\s|:)\s*(.+)$/) ?? [null, text, ''];
+    return name ? [{ title: name, fields: new Map(), summary: summary ?? '' }] : [];
+  });
+}
+
+/**
+ * "Label: value" details from an entry's paragraphs; "|" separates several
+ * on one line, as in "Race: Human | Role: Captain"
+ */
+function readFields(nodes: HtmlNode[]): Map<string, string> {
+  const fields = new Map<string, string>();
+  const blocks = findElements(nodes, node => node.tag === 'p' || node.tag === 'li');
+
+  for (const block of blocks) {
+    for (const part of getTextContent(block).split('|')) {
+      const match = part.match(/^\s*([A-Za-z][A-Za-z ]{0,24}):\s*(.+?)\s*$/);
+      if (match && !fields.has(match[1]!.toLowerCase())) {
+        fields.set(match[1]!.toLowerCase(), match[2]!);
+      }
+    }
+  }
+  return fields;
+}
+
+/**
+ * Minutes in text like "30 minutes", "1 hour 15 min" or "1.5 hours"
+ */
+function parseDuration(text: string): number | null {
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b/i);
+  const minutes = text.match(/(\d+)\s*(?:m|mins?|minutes?)\b/i);
+  if (!hours && !minutes) return null;
+  return Math.round((hours ? parseFloat(hours[1]!) * 60 : 0) + (minutes ? Number(minutes[1]) : 0));
+}
+
+/**
+ * Stat blocks in document order: stat block elements, re-skins inserted as
+ * loose paragraphs, and Markdown stat blocks in code blocks, which take their
+ * name from the heading above when they have none
+ */
+function readStatBlocks(nodes: HtmlNode[]): StatBlock[] {
+  const statBlocks: StatBlock[] = [];
+  let lastHeading = '';
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index]!;
+    if (node.type !== 'element') continue;
+
+    const loose = parseLooseStatBlock(nodes, index);
+    if (loose) {
+      statBlocks.push(loose.statBlock);
+      index = loose.end - 1;
+      continue;
+    }
+    if (headingLevel(node) !== null) {
+      lastHeading = getTextContent(node).trim();
+      continue;
+    }
+
+    const elements = findElements([node], isStatBlockElement);
+    if (elements.length) {
+      statBlocks.push(...elements.map(parseStatBlock));
+    } else if (node.tag === 'pre') {
+      const statBlock = readCampaignStatBlock(getTextContent(node));
+      if (statBlock) statBlocks.push({ ...statBlock, name: statBlock.name || lastHeading });
+    }
+  }
+
+  return statBlocks;
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Vitest tests for the DM screen content and layout
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getStatBlockProperty } from '@/lib/stat-block';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
+import { campaignToDmScreen, documentToDmScreen } from './dm-screen-content';
+import { renderDmScreenPdf } from './dm-screen';
+
+const GOBLIN = `<div class="stat-block">
+<h3 class="stat-block-name">Goblin</h3>
+<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>
+<p><strong>Armor Class</strong> 15 (Leather Armor, Shield)</p>
+<p><strong>Hit Points</strong> 7 (2d6)</p>
+<p><strong>Speed</strong> 30 ft.</p>
+<table class="stat-block-abilities">
+<tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>
+<tr><td>8 (-1)</td><td>14 (+2)</td><td>10 (+0)</td><td>10 (+0)</td><td>8 (-1)</td><td>8 (-1)</td></tr>
+</table>
+<p><strong>Nimble Escape.</strong> Disengages as a bonus action.</p>
+<h4>Actions</h4>
+<p><strong>Scimitar.</strong> <em>Melee Weapon Attack:</em> +4 to hit.</p>
+</div>`;
+
+const campaign: GeneratedCampaign = {
+  id: 'campaign-1',
+  title: 'The Sunken Keep',
+  parameters: {
+    duration: 3,
+    playerCount: 4,
+    characterLevel: 2,
+    setting: 'dungeon',
+    theme: 'adventure',
+    tone: 'heroic',
+    combatBalance: 'moderate',
+    roleplayBalance: 'moderate',
+    explorationBalance: 'moderate'
+  },
+  introduction: 'Salt water fills the lower halls.',
+  plotHooks: ['A map washes ashore'],
+  encounters: [
+    {
+      id: 'enc-2', title: 'Goblin Ambush', type: 'combat', description: 'Goblins strike.',
+      estimatedDuration: 30, difficultyLevel: 4, statBlockIds: ['stat-1'], order: 2
+    },
+    {
+      id: 'enc-1', title: 'Meeting the Captain', type: 'social', description: 'The captain waits.',
+      estimatedDuration: 20, difficultyLevel: 2, order: 1
+    }
+  ],
+  conclusion: 'The keep rises again.',
+  npcs: [
+    {
+      id: 'npc-1', name: 'Captain Marcus Ironvale', race: 'Human', role: 'Harbor captain',
+      personality: 'Gruff', motivation: 'Reclaim the keep', description: 'Scarred and tired.'
+    }
+  ],
+  locations: [
+    { id: 'loc-1', name: 'Flooded Hall', type: 'dungeon', description: 'Knee-deep water.', encounters: ['enc-2', 'enc-9'] }
+  ],
+  statBlocks: [
+    { id: 'stat-1', name: 'Goblin Scout', type: 'monster', challengeRating: '1/4', stats: GOBLIN }
+  ],
+  estimatedDuration: 50,
+  difficultyRating: 'medium',
+  generatedAt: new Date('2024-01-01')
+};
+
+describe('campaignToDmScreen', () => {
+  const content = campaignToDmScreen(campaign);
+
+  it('lists NPCs and encounters in play order with their durations', () => {
+    expect(content.npcs).toEqual([
+      { name: 'Captain Marcus Ironvale', role: 'Harbor captain', motivation: 'Reclaim the keep' }
+    ]);
+    expect(content.encounters).toEqual([
+      { title: 'Meeting the Captain', type: 'social', duration: 20 },
+      { title: 'Goblin Ambush', type: 'combat', duration: 30 }
+    ]);
+  });
+
+  it('numbers location encounters by play order', () => {
+    expect(content.locations).toEqual([{ name: 'Flooded Hall', type: 'dungeon', encounters: [2] }]);
+  });
+
+  it('names stat blocks after the campaign and adds a missing challenge', () => {
+    expect(content.statBlocks.map(statBlock => statBlock.name)).toEqual(['Goblin Scout']);
+    expect(getStatBlockProperty(content.statBlocks[0]!, 'Challenge')).toBe('1/4 (50 XP)');
+  });
+});
+
+describe('documentToDmScreen', () => {
+  it('reads sections written by the campaign generator', () => {
+    const content = documentToDmScreen('The Sunken Keep', `
+      <h1>The Sunken Keep</h1>
+      <h2>Encounters</h2>
+      <h3>Encounter 1: Meeting the Captain</h3>
+      <p><strong>Type:</strong> social</p>
+      <p><strong>Duration:</strong> 20 minutes</p>
+      <h3>Encounter 2: Goblin Ambush</h3>
+      <p><strong>Type:</strong> combat</p>
+      <p><strong>Duration:</strong> 1 hour 15 minutes</p>
+      <h2>NPCs</h2>
+      <h3>Captain Marcus Ironvale</h3>
+      <p><strong>Race:</strong> Human | <strong>Role:</strong> Harbor captain</p>
+      <p><strong>Motivation:</strong> Reclaim the keep</p>
+      <h2>Locations</h2>
+      <h3>Flooded Hall</h3>
+      <p><strong>Type:</strong> dungeon</p>
+      <h2>Stat Blocks</h2>
+      ${GOBLIN}
+    `);
+
+    expect(content.encounters).toEqual([
+      { title: 'Meeting the Captain', type: 'social', duration: 20 },
+      { title: 'Goblin Ambush', type: 'combat', duration: 75 }
+    ]);
+    expect(content.npcs).toEqual([
+      { name: 'Captain Marcus Ironvale', role: 'Harbor captain', motivation: 'Reclaim the keep' }
+    ]);
+    expect(content.locations).toEqual([{ name: 'Flooded Hall', type: 'dungeon', encounters: [] }]);
+    expect(content.statBlocks.map(statBlock => statBlock.name)).toEqual(['Goblin']);
+  });
+
+  it('reads list sections and ignores headings that only mention a section name', () => {
+    const content = documentToDmScreen('Notes', `
+      <h2>Encounters at Dawn</h2>
+      <p>The tide turns.</p>
+      <h2>Key NPCs</h2>
+      <ul><li>Mira — smuggler</li><li>Old Tom: lighthouse keeper</li></ul>
+    `);
+
+    expect(content.encounters).toEqual([]);
+    expect(content.npcs).toEqual([
+      { name: 'Mira', role: 'smuggler', motivation: '' },
+      { name: 'Old Tom', role: 'lighthouse keeper', motivation: '' }
+    ]);
+  });
+});
+
+describe('renderDmScreenPdf', () => {
+  it('renders landscape panels with the campaign content', async () => {
+    const blob = renderDmScreenPdf(campaignToDmScreen(campaign));
+    const source = Buffer.from(await blob.arrayBuffer()).toString('latin1');
+
+    expect(blob.type).toBe('application/pdf');
+    expect(source).toMatch(/\/MediaBox \[0 0 841\.\d+ 595\.\d+\]/);
+    ['ENCOUNTERS', 'NPCS', 'STAT BLOCKS', 'LOCATIONS', '1. Meeting the Captain', 'Goblin Scout', 'Flooded Hall']
+      .forEach(text => expect(source).toContain(`(${text}`));
+  });
+});
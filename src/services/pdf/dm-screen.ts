@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Printable DM screen
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Lays DM screen content out on landscape pages of three panels, with fold
+ * lines between them: the encounter running order with each encounter's
+ * start time, NPCs, condensed stat blocks and locations. Panels flow into
+ * each other, so a short adventure fits on one sheet.
+ */
+
+import jsPDF from 'jspdf';
+import { ABILITY_NAMES, formatAbilityScore, getStatBlockProperty, splitStatBlockProperties, type StatBlock } from '@/lib/stat-block';
+import {
+  baselineOffset,
+  columnLeft,
+  drawFlow,
+  fitText,
+  getPageGeometry,
+  inBox,
+  placeFlow,
+  spaceBlock,
+  textItems,
+  type Box,
+  type FlowContext,
+  type FlowItem,
+  type PageGeometry
+} from './flow';
+import {
+  PDF_COLORS,
+  applyTextStyle,
+  drawTypesetLine,
+  measureText,
+  toPdfText,
+  wrapRuns,
+  type TextRun,
+  type TextStyle
+} from './typesetter';
+import type { DmScreenContent } from './dm-screen-content';
+
+const TITLE: TextStyle = { font: 'times', size: 16, leading: 18, color: PDF_COLORS.heading, bold: true };
+const PANEL_TITLE: TextStyle = { font: 'helvetica', size: 8.5, leading: 15, color: [255, 255, 255], bold: true };
+const ENTRY: TextStyle = { font: 'helvetica', size: 8, leading: 10, color: PDF_COLORS.text, bold: true };
+const DETAIL: TextStyle = { font: 'helvetica', size: 7.5, leading: 9.5, color: PDF_COLORS.text };
+const MUTED: TextStyle = { ...DETAIL, color: PDF_COLORS.muted, italic: true };
+const STAT_NAME: TextStyle = { font: 'times', size: 10, leading: 12, color: PDF_COLORS.statBlockAccent, bold: true };
+const STAT_TEXT: TextStyle = { ...DETAIL, color: PDF_COLORS.statBlockText, boldColor: PDF_COLORS.statBlockAccent };
+const ABILITY_LABEL: TextStyle = { ...STAT_TEXT, size: 6.5, leading: 8, bold: true, color: PDF_COLORS.statBlockAccent };
+
+const PANEL_SPACE = 10;
+const ENTRY_SPACE = 5;
+
+const STAT_BLOCK_BOX = (): Box => ({
+  fill: PDF_COLORS.statBlockFill,
+  border: PDF_COLORS.statBlockRule,
+  style: 'frame',
+  padding: 5
+});
+
+/**
+ * "1 h 30 min" for a number of minutes
+ */
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest} min`;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+/**
+ * Clock time into the session, e.g. "1:05"
+ */
+function formatClock(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Panel heading: white capitals on a dark red band
+ */
+function panelTitle(title: string, context: FlowContext): FlowItem {
+  return {
+    height: PANEL_TITLE.leading,
+    spaceBefore: PANEL_SPACE,
+    boxes: context.boxes,
+    keepWithNext: true,
+    draw: (doc, x, top) => {
+      doc.setFillColor(...PDF_COLORS.heading);
+      doc.rect(x, top, context.width, PANEL_TITLE.leading, 'F');
+      applyTextStyle(doc, PANEL_TITLE);
+      doc.text(title.toUpperCase(), x + 4, top + baselineOffset(PANEL_TITLE));
+    }
+  };
+}
+
+/**
+ * Entry lines with a note set flush right on the first line, such as a
+ * duration or challenge rating
+ */
+function rowItems(
+  doc: jsPDF,
+  runs: TextRun[],
+  note: string,
+  style: TextStyle,
+  context: FlowContext,
+  spaceBefore: number
+): FlowItem[] {
+  const noteText = toPdfText(note);
+  const noteWidth = noteText ? measureText(doc, noteText, style) + 6 : 0;
+  const lines = wrapRuns(doc, runs, style, context.width - noteWidth);
+
+  return lines.map((line, index): FlowItem => ({
+    height: style.leading,
+    spaceBefore: index === 0 ? spaceBefore : 0,
+    boxes: context.boxes,
+    keepWithNext: true,
+    draw: (doc, x, top) => {
+      const baseline = top + baselineOffset(style);
+      drawTypesetLine(doc, line, x, baseline, style);
+      if (index === 0 && noteText) {
+        applyTextStyle(doc, style);
+        doc.text(noteText, x + context.width - measureText(doc, noteText, style), baseline);
+      }
+    }
+  }));
+}
+
+/**
+ * Encounters in play order with durations, start times and the total
+ */
+function encounterItems(doc: jsPDF, content: DmScreenContent, context: FlowContext): FlowItem[] {
+  const items: FlowItem[] = [panelTitle('Encounters', context)];
+  // Start times hold until an encounter without a duration
+  let elapsed: number | null = 0;
+
+  content.encounters.forEach((encounter, index) => {
+    const duration = encounter.duration;
+    const runs = [{ text: `${index + 1}. ${encounter.title}` }];
+    items.push(...rowItems(doc, runs, duration ? formatDuration(duration) : '—', ENTRY, context, ENTRY_SPACE));
+
+    const details = [encounter.type && encounter.type.charAt(0).toUpperCase() + encounter.type.slice(1)];
+    if (elapsed !== null) details.push(`starts at ${formatClock(elapsed)}`);
+    items.push(...textItems(doc, [{ text: details.filter(Boolean).join(' · ') }], MUTED, context, 0));
+    elapsed = elapsed !== null && duration ? elapsed + duration : null;
+  });
+
+  const total = content.encounters.reduce((sum, encounter) => sum + (encounter.duration ?? 0), 0);
+  if (total) {
+    const totalRow = rowItems(doc, [{ text: 'Running time' }], formatDuration(total), ENTRY, context, ENTRY_SPACE);
+    const first = totalRow[0]!;
+    const drawRow = first.draw;
+    first.draw = (doc, x, top) => {
+      doc.setDrawColor(...PDF_COLORS.rule);
+      doc.setLineWidth(0.8);
+      doc.line(x, top - 2, x + context.width, top - 2);
+      drawRow(doc, x, top);
+    };
+    items.push(...totalRow);
+  }
+  return items;
+}
+
+/**
+ * NPCs with their role and what they want
+ */
+function npcItems(doc: jsPDF, content: DmScreenContent, context: FlowContext): FlowItem[] {
+  return [
+    panelTitle('NPCs', context),
+    ...content.npcs.flatMap(npc => {
+      const name: TextRun[] = [{ text: npc.name }, ...(npc.role ? [{ text: ` — ${npc.role}`, italic: true }] : [])];
+      const motivation: TextRun[] = [{ text: 'Wants: ', bold: true }, { text: npc.motivation }];
+      return [
+        ...textItems(doc, name, ENTRY, context, ENTRY_SPACE),
+        ...(npc.motivation ? textItems(doc, motivation, DETAIL, context, 0) : [])
+      ];
+    })
+  ];
+}
+
+/**
+ * Stat block cut down to what's needed at the table: defenses, speed,
+ * abilities, challenge and the names of its traits and actions
+ */
+function statBlockItems(doc: jsPDF, statBlock: StatBlock, context: FlowContext): FlowItem[] {
+  const inner = inBox(context, STAT_BLOCK_BOX());
+  const challenge = getStatBlockProperty(statBlock, 'Challenge')?.replace(/\s*\(.*$/, '');
+  const { before, after } = splitStatBlockProperties(statBlock);
+  const defenses = before.map(({ label, value }) => [
+    { text: `${label === 'Armor Class' ? 'AC' : label === 'Hit Points' ? 'HP' : label} `, bold: true },
+    { text: value }
+  ]);
+
+  const items: FlowItem[] = [
+    ...rowItems(doc, [{ text: statBlock.name }], challenge ? `CR ${challenge}` : '', STAT_NAME, inner, 0),
+    ...textItems(doc, [{ text: statBlock.meta }], { ...MUTED, color: PDF_COLORS.statBlockText }, inner, 0)
+  ];
+  if (defenses.length) {
+    items.push(...textItems(doc, defenses.flatMap((runs, index) => index ? [{ text: ' · ' }, ...runs] : runs), STAT_TEXT, inner, 2));
+  }
+
+  if (statBlock.abilities) {
+    const cellWidth = inner.width / ABILITY_NAMES.length;
+    const scores = statBlock.abilities.map(formatAbilityScore);
+    items.push({
+      height: ABILITY_LABEL.leading + STAT_TEXT.leading,
+      spaceBefore: 2,
+      boxes: inner.boxes,
+      draw: (doc, x, top) => ABILITY_NAMES.forEach((name, index) => {
+        const center = x + (index + 0.5) * cellWidth;
+        applyTextStyle(doc, ABILITY_LABEL);
+        doc.text(name, center - doc.getTextWidth(name) / 2, top + baselineOffset(ABILITY_LABEL));
+        applyTextStyle(doc, STAT_TEXT);
+        doc.text(scores[index]!, center - doc.getTextWidth(scores[index]!) / 2, top + ABILITY_LABEL.leading + baselineOffset(STAT_TEXT));
+      })
+    });
+  }
+
+  const senses = after.filter(({ label }) => /^(senses|damage|condition)/i.test(label));
+  senses.forEach(({ label, value }) => {
+    items.push(...textItems(doc, [{ text: `${label} `, bold: true }, { text: value }], STAT_TEXT, inner, 1));
+  });
+
+  const entryLists: Array<[string, string[]]> = [
+    ['Traits', statBlock.traits.map(entry => entry.name).filter(Boolean)],
+    ...statBlock.sections.map((section): [string, string[]] => [section.title, section.entries.map(entry => entry.name).filter(Boolean)])
+  ];
+  entryLists.filter(([, names]) => names.length).forEach(([title, names]) => {
+    items.push(...textItems(doc, [{ text: `${title} `, bold: true }, { text: names.join(', ') }], STAT_TEXT, inner, 1));
+  });
+
+  return spaceBlock(items, ENTRY_SPACE + 2);
+}
+
+/**
+ * Locations with their type and the encounters that happen there
+ */
+function locationItems(doc: jsPDF, content: DmScreenContent, context: FlowContext): FlowItem[] {
+  return [
+    panelTitle('Locations', context),
+    ...content.locations.flatMap(location => {
+      const encounters = location.encounters.length ? `Enc. ${location.encounters.join(', ')}` : '';
+      return [
+        ...rowItems(doc, [{ text: location.name }], encounters, ENTRY, context, ENTRY_SPACE),
+        ...(location.type ? textItems(doc, [{ text: location.type }], MUTED, context, 0) : [])
+      ];
+    })
+  ];
+}
+
+/**
+ * Title across the top of each page, panel outlines and fold lines
+ */
+function drawPageFrame(doc: jsPDF, content: DmScreenContent, geometry: PageGeometry, page: number, pageCount: number): void {
+  doc.setPage(page);
+  const right = geometry.width - geometry.left;
+  const baseline = geometry.top - 20;
+
+  const label = pageCount > 1 ? `DM Screen · ${page} of ${pageCount}` : 'DM Screen';
+  const labelWidth = measureText(doc, label, MUTED);
+  applyTextStyle(doc, TITLE);
+  doc.text(fitText(doc, toPdfText(content.title), TITLE, right - geometry.left - labelWidth - 20), geometry.left, baseline);
+  applyTextStyle(doc, MUTED);
+  doc.text(label, right - labelWidth, baseline);
+
+  doc.setDrawColor(...PDF_COLORS.rule);
+  doc.setLineWidth(0.6);
+  for (let column = 0; column < geometry.columnCount; column++) {
+    doc.rect(columnLeft(geometry, column) - 6, geometry.top - 6, geometry.columnWidth + 12, geometry.bottom - geometry.top + 12, 'S');
+  }
+
+  doc.setDrawColor(...PDF_COLORS.muted);
+  doc.setLineWidth(0.4);
+  doc.setLineDashPattern([2, 3], 0);
+  for (let column = 1; column < geometry.columnCount; column++) {
+    const x = columnLeft(geometry, column) - geometry.columnGap / 2;
+    doc.line(x, 12, x, geometry.height - 12);
+  }
+  doc.setLineDashPattern([], 0);
+}
+
+/**
+ * Render DM screen content as a landscape PDF of three-panel pages
+ */
+export function renderDmScreenPdf(content: DmScreenContent): Blob {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const geometry = getPageGeometry(doc, { top: 62, bottom: 36, side: 36 }, 3, 30);
+  doc.setProperties({ title: `${content.title} — DM Screen`, creator: 'WordWise AI' });
+
+  const context: FlowContext = { width: geometry.columnWidth, indent: 0, boxes: [] };
+  const items = [
+    ...(content.encounters.length ? encounterItems(doc, content, context) : []),
+    ...(content.npcs.length ? npcItems(doc, content, context) : []),
+    ...(content.statBlocks.length
+      ? [panelTitle('Stat Blocks', context), ...content.statBlocks.flatMap(statBlock => statBlockItems(doc, statBlock, context))]
+      : []),
+    ...(content.locations.length ? locationItems(doc, content, context) : [])
+  ];
+  if (items.length === 0) {
+    items.push(...textItems(
+      doc,
+      [{ text: 'No NPCs, encounters, stat blocks or locations were found. Add sections with these headings to fill the screen.' }],
+      MUTED,
+      context,
+      0
+    ));
+  }
+
+  const { placements, pageCount } = placeFlow(items, geometry);
+  for (let page = 1; page < pageCount; page++) {
+    doc.addPage();
+  }
+  for (let page = 1; page <= pageCount; page++) {
+    drawPageFrame(doc, content, geometry, page, pageCount);
+  }
+  drawFlow(doc, placements, geometry, 1);
+
+  return doc.output('blob');
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Vitest tests for the two-column PDF layout
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderDocumentPdf, type PdfDocumentMetadata } from './document-layout';
+
+const metadata: PdfDocumentMetadata = {
+  title: 'The Sunken Keep',
+  author: 'Dungeon Master',
+  campaignType: 'adventure',
+  exportDate: new Date('2024-01-01')
+};
+
+const GOBLIN = `<div class="stat-block">
+<h3 class="stat-block-name">Goblin</h3>
+<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>
+<p><strong>Armor Class</strong> 15 (Leather Armor, Shield)</p>
+<p><strong>Hit Points</strong> 7 (2d6)</p>
+<table class="stat-block-abilities">
+<tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>
+<tr><td>8 (-1)</td><td>14 (+2)</td><td>10 (+0)</td><td>10 (+0)</td><td>8 (-1)</td><td>8 (-1)</td></tr>
+</table>
+<h4>Actions</h4>
+<p><strong>Scimitar.</strong> <em>Melee Weapon Attack:</em> +4 to hit.</p>
+</div>`;
+
+const FILLER = '<p>Salt water fills the lower halls, and the old stones groan with every tide.</p>'.repeat(150);
+
+/**
+ * Render and read the PDF source; jsPDF writes uncompressed streams
+ */
+async function renderSource(html: string, includeCover = true): Promise<string> {
+  const blob = renderDocumentPdf(html, metadata, includeCover);
+  return Buffer.from(await blob.arrayBuffer()).toString('latin1');
+}
+
+function countPages(source: string): number {
+  return source.match(/\/Type \/Page\b(?!s)/g)?.length ?? 0;
+}
+
+describe('renderDocumentPdf', () => {
+  it('writes headings, formatted runs and stat blocks as text', async () => {
+    const source = await renderSource(
+      `<h1>Chapter One</h1><p>The <strong>captain</strong> waits.</p><ul><li><p>Find the map</p></li></ul>${GOBLIN}`
+    );
+
+    for (const text of ['Chapter One', 'captain', 'Find the map', 'Goblin', 'Armor Class', 'STR', '14 \\(+2\\)', 'Scimitar.']) {
+      expect(source).toContain(`(${text}) Tj`);
+    }
+    expect(source).toContain('(\x95) Tj');
+    expect(source).not.toContain('/Subtype /Image');
+  });
+
+  it('flows text into a second column and starts each chapter on a new page', async () => {
+    const source = await renderSource(`<h1>Chapter One</h1>${FILLER}<h1>Chapter Two</h1><p>Fin</p>`, false);
+
+    expect(source).toMatch(/\n306\.6\d* [\d.]+ Td\n\(Salt /);
+    expect(source).toMatch(/\(Chapter Two\) Tj[\s\S]*\(Fin\) Tj/);
+
+    // Contents, then one page per chapter
+    const short = await renderSource('<h1>Chapter One</h1><p>Start</p><h1>Chapter Two</h1><p>Fin</p>', false);
+    expect(countPages(short)).toBe(3);
+  });
+
+  it('links the contents page and bookmarks to each chapter and section', async () => {
+    const source = await renderSource(`<h1>Chapter One</h1><h2>The Cave</h2>${FILLER}<h1>Chapter Two</h1>`);
+    const links = source.match(/\/Subtype \/Link .*\/Dest \[/g) ?? [];
+
+    expect(source).toContain('(Contents) Tj');
+    expect(links).toHaveLength(3);
+    expect(source).toContain('/Title (Chapter Two)');
+    expect(source).toContain('/Title (The Cave)');
+  });
+
+  it('leaves out the cover and contents pages when not needed', async () => {
+    const source = await renderSource('<p>Just a note.</p>', false);
+
+    expect(countPages(source)).toBe(1);
+    expect(source).not.toContain('(Contents) Tj');
+    expect(source).toContain('(Just a note.) Tj');
+  });
+});
@@ -0,0 +1,589 @@
+/**
+ * @fileoverview Two-column PDF layout for documents
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Lays editor HTML out in the style of the Player's Handbook: two columns of
+ * serif text under dark red headings, stat blocks in parchment boxes with an
+ * ability table, DM secrets in dashed boxes, running headers, page numbers
+ * and a table of contents that links to each chapter and section. Everything
+ * is drawn as vector text, so the PDF stays selectable and searchable.
+ */
+
+import jsPDF from 'jspdf';
+import { BLOCK_ELEMENTS, findElements, getTextContent, parseHTML, type HtmlElementNode, type HtmlNode } from '@/lib/html-tree';
+import { isDmSecretElement } from '@/lib/dm-secrets';
+import {
+  ABILITY_NAMES,
+  formatAbilityScore,
+  isStatBlockElement,
+  parseLooseStatBlock,
+  parseStatBlock,
+  splitStatBlockProperties,
+  type StatBlock,
+  type StatBlockEntry
+} from '@/lib/stat-block';
+import {
+  baselineOffset,
+  drawFlow,
+  fitText,
+  getPageGeometry,
+  inBox,
+  placeFlow,
+  ruleItem,
+  spaceBlock,
+  textItems,
+  type Box,
+  type FlowContext,
+  type FlowItem,
+  type PageGeometry
+} from './flow';
+import {
+  PDF_COLORS,
+  applyTextStyle,
+  drawTypesetLine,
+  inlineRuns,
+  measureText,
+  toPdfText,
+  wrapRuns,
+  type TextRun,
+  type TextStyle
+} from './typesetter';
+
+/**
+ * Document details for the cover, running header and PDF properties
+ */
+export interface PdfDocumentMetadata {
+  title: string;
+  author: string;
+  campaignType: string;
+  exportDate: Date;
+}
+
+/**
+ * Body text style
+ */
+const BODY: TextStyle = { font: 'times', size: 9.5, leading: 12, color: PDF_COLORS.text };
+
+/**
+ * Heading styles by level, H1 first; deeper levels use the last
+ */
+const HEADINGS: TextStyle[] = [
+  { font: 'times', size: 22, leading: 25, color: PDF_COLORS.heading, bold: true },
+  { font: 'times', size: 15, leading: 18, color: PDF_COLORS.heading, bold: true },
+  { font: 'times', size: 12, leading: 15, color: PDF_COLORS.heading, bold: true },
+  { font: 'times', size: 10.5, leading: 13, color: PDF_COLORS.heading, bold: true },
+  { font: 'times', size: 9.5, leading: 12, color: PDF_COLORS.text, bold: true, italic: true }
+];
+
+/**
+ * Text styles for stat blocks, tables, code, secrets and page furniture
+ */
+const STAT_NAME: TextStyle = { font: 'times', size: 14, leading: 17, color: PDF_COLORS.statBlockAccent, bold: true };
+const STAT_META: TextStyle = { font: 'helvetica', size: 8, leading: 10.5, color: PDF_COLORS.statBlockText, italic: true };
+const STAT_TEXT: TextStyle = { font: 'helvetica', size: 8, leading: 10.5, color: PDF_COLORS.statBlockText };
+const STAT_PROPERTY: TextStyle = { ...STAT_TEXT, boldColor: PDF_COLORS.statBlockAccent };
+const STAT_SECTION: TextStyle = { font: 'times', size: 11.5, leading: 15, color: PDF_COLORS.statBlockAccent };
+const ABILITY_LABEL: TextStyle = { font: 'helvetica', size: 8, leading: 10, color: PDF_COLORS.statBlockAccent, bold: true };
+const TABLE_TEXT: TextStyle = { font: 'helvetica', size: 8, leading: 10, color: PDF_COLORS.text };
+const CODE_TEXT: TextStyle = { font: 'courier', size: 8, leading: 10, color: PDF_COLORS.text };
+const SECRET_LABEL: TextStyle = { font: 'helvetica', size: 6.5, leading: 10, color: PDF_COLORS.secret, bold: true };
+const RUNNING_TEXT: TextStyle = { font: 'helvetica', size: 7, leading: 9, color: PDF_COLORS.muted };
+const TOC_CHAPTER: TextStyle = { font: 'times', size: 11, leading: 15, color: PDF_COLORS.heading, bold: true };
+const TOC_SECTION: TextStyle = { font: 'times', size: 9.5, leading: 15, color: PDF_COLORS.text };
+
+/**
+ * Spacing between and within blocks, in points
+ */
+const PARAGRAPH_SPACE = 5;
+const BLOCK_SPACE = 8;
+const LIST_ITEM_SPACE = 2;
+const LIST_INDENT = 12;
+const CELL_PADDING = 3;
+const TOC_ROW = 15;
+const TOC_TITLE_HEIGHT = 40;
+
+/**
+ * Backgrounds for boxed blocks
+ */
+const STAT_BLOCK_BOX = (): Box => ({ fill: PDF_COLORS.statBlockFill, border: PDF_COLORS.statBlockRule, style: 'frame', padding: 7 });
+const SECRET_BOX = (): Box => ({ fill: PDF_COLORS.secretFill, border: PDF_COLORS.secret, style: 'dashed', padding: 7 });
+const QUOTE_BOX = (): Box => ({ fill: PDF_COLORS.quoteFill, border: PDF_COLORS.quoteBar, style: 'bar', padding: 7 });
+const CODE_BOX = (): Box => ({ fill: PDF_COLORS.codeFill, border: PDF_COLORS.codeFill, style: 'frame', padding: 4 });
+
+/**
+ * Flow items for a list of block and inline nodes
+ */
+function flowBlocks(doc: jsPDF, nodes: HtmlNode[], context: FlowContext): FlowItem[] {
+  const items: FlowItem[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    if (getTextContent(inline).trim()) {
+      items.push(...textItems(doc, inlineRuns(inline), BODY, context, PARAGRAPH_SPACE));
+    }
+    inline = [];
+  };
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index]!;
+    if (node.type === 'text' || !BLOCK_ELEMENTS.has(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+    flushInline();
+
+    // Monster re-skins are inserted as loose paragraphs
+    const loose = parseLooseStatBlock(nodes, index);
+    if (loose) {
+      items.push(...statBlockItems(doc, loose.statBlock, context));
+      index = loose.end - 1;
+      continue;
+    }
+    items.push(...blockItems(doc, node, context));
+  }
+
+  flushInline();
+  return items;
+}
+
+/**
+ * Flow items for one block element
+ */
+function blockItems(doc: jsPDF, node: HtmlElementNode, context: FlowContext): FlowItem[] {
+  if (isStatBlockElement(node)) {
+    return statBlockItems(doc, parseStatBlock(node), context);
+  }
+  if (isDmSecretElement(node)) {
+    const inner = inBox(context, SECRET_BOX());
+    return spaceBlock([
+      ...textItems(doc, [{ text: 'DM SECRET' }], SECRET_LABEL, inner, 0),
+      ...spaceBlock(flowBlocks(doc, node.children, inner), 0)
+    ], BLOCK_SPACE);
+  }
+
+  const heading = node.tag.match(/^h([1-6])$/);
+  if (heading) {
+    return headingItems(doc, node, Number(heading[1]), context);
+  }
+
+  switch (node.tag) {
+    case 'p':
+      return textItems(doc, inlineRuns(node.children), BODY, context, PARAGRAPH_SPACE);
+    case 'ul':
+    case 'ol':
+      return listItems(doc, node, context);
+    case 'blockquote': {
+      const inner = inBox(context, QUOTE_BOX());
+      return spaceBlock(flowBlocks(doc, node.children, inner), BLOCK_SPACE);
+    }
+    case 'hr':
+      return spaceBlock([ruleItem(context, 10, (doc, x, y, width) => {
+        doc.setDrawColor(...PDF_COLORS.rule);
+        doc.setLineWidth(1);
+        doc.line(x, y, x + width, y);
+      })], PARAGRAPH_SPACE);
+    case 'pre':
+      return codeItems(doc, node, context);
+    case 'table':
+      return tableItems(doc, node, context);
+    default:
+      return flowBlocks(doc, node.children, context);
+  }
+}
+
+/**
+ * Heading lines; H1 starts a page, H2 and H3 are underlined in gold, and
+ * headings outside boxes go in the table of contents
+ */
+function headingItems(doc: jsPDF, node: HtmlElementNode, level: number, context: FlowContext): FlowItem[] {
+  const style = HEADINGS[Math.min(level, HEADINGS.length) - 1]!;
+  const items = textItems(doc, inlineRuns(node.children), style, context, level === 1 ? 0 : style.size * 0.8);
+  const first = items[0];
+  const last = items[items.length - 1];
+  if (!first || !last) return [];
+
+  items.forEach(item => { item.keepWithNext = true; });
+  first.pageBreakBefore = level === 1;
+  if (context.boxes.length === 0) {
+    first.heading = { level, title: getTextContent(node).replace(/\s+/g, ' ').trim() };
+  }
+
+  if (level === 2 || level === 3) {
+    const drawText = last.draw;
+    last.height += 4;
+    last.draw = (doc, x, top) => {
+      drawText(doc, x, top);
+      doc.setDrawColor(...PDF_COLORS.rule);
+      doc.setLineWidth(level === 2 ? 1.2 : 0.7);
+      doc.line(x + context.indent, top + last.height - 2, x + context.width, top + last.height - 2);
+    };
+  }
+  return items;
+}
+
+/**
+ * List items, with the bullet or number drawn beside each item's first line
+ */
+function listItems(doc: jsPDF, list: HtmlElementNode, context: FlowContext): FlowItem[] {
+  const ordered = list.tag === 'ol';
+  const start = parseInt(list.attrs.start ?? '1', 10) || 1;
+  const inner: FlowContext = { ...context, indent: context.indent + LIST_INDENT };
+  const entries = list.children.filter((child): child is HtmlElementNode => child.type === 'element' && child.tag === 'li');
+
+  return entries.flatMap((entry, index) => {
+    const items = flowBlocks(doc, entry.children, inner);
+    const first = items[0];
+    if (!first) return [];
+
+    first.spaceBefore = index === 0 && context.indent === 0 ? PARAGRAPH_SPACE : LIST_ITEM_SPACE;
+    const marker = ordered ? `${start + index}.` : context.indent === 0 ? '•' : '–';
+    const drawContent = first.draw;
+    first.draw = (doc, x, top) => {
+      drawContent(doc, x, top);
+      const markerWidth = measureText(doc, marker, BODY);
+      doc.text(marker, x + inner.indent - 4 - markerWidth, top + baselineOffset(BODY));
+    };
+    return items;
+  });
+}
+
+/**
+ * Code block lines, kept as written and wrapped at the box edge
+ */
+function codeItems(doc: jsPDF, pre: HtmlElementNode, context: FlowContext): FlowItem[] {
+  const inner = inBox(context, CODE_BOX());
+  applyTextStyle(doc, CODE_TEXT);
+  const lines = toPdfText(getTextContent(pre).replace(/\n$/, ''))
+    .split('\n')
+    .flatMap(line => doc.splitTextToSize(line || ' ', inner.width) as string[]);
+
+  return spaceBlock(lines.map((line): FlowItem => ({
+    height: CODE_TEXT.leading,
+    spaceBefore: 0,
+    boxes: inner.boxes,
+    draw: (doc, x, top) => {
+      applyTextStyle(doc, CODE_TEXT);
+      doc.text(line, x, top + baselineOffset(CODE_TEXT));
+    }
+  })), PARAGRAPH_SPACE);
+}
+
+/**
+ * Runs for a table cell; block children start new lines
+ */
+function cellRuns(nodes: HtmlNode[], marks: Omit<TextRun, 'text'>): TextRun[] {
+  return nodes.flatMap((node, index) => {
+    const runs = inlineRuns([node], marks);
+    const startsBlock = index > 0 && node.type === 'element' && BLOCK_ELEMENTS.has(node.tag);
+    return startsBlock ? [{ text: '\n' }, ...runs] : runs;
+  });
+}
+
+/**
+ * Table rows with equal columns; header rows are bold and body rows striped
+ */
+function tableItems(doc: jsPDF, table: HtmlElementNode, context: FlowContext): FlowItem[] {
+  const rows = findElements(table.children, node => node.tag === 'tr');
+  const rowCells = rows.map(row =>
+    row.children.filter((cell): cell is HtmlElementNode => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th')));
+  const columnCount = Math.max(0, ...rowCells.map(cells => cells.length));
+  if (columnCount === 0) return [];
+
+  const width = context.width - context.indent;
+  const cellWidth = width / columnCount;
+  let bodyRow = 0;
+
+  return spaceBlock(rowCells.map((cells): FlowItem => {
+    const header = cells.length > 0 && cells.every(cell => cell.tag === 'th');
+    const striped = !header && bodyRow++ % 2 === 0;
+    const cellLines = cells.map(cell =>
+      wrapRuns(doc, cellRuns(cell.children, header ? { bold: true } : {}), TABLE_TEXT, cellWidth - 2 * CELL_PADDING));
+    const height = Math.max(1, ...cellLines.map(lines => lines.length)) * TABLE_TEXT.leading + 2 * CELL_PADDING;
+
+    return {
+      height,
+      spaceBefore: 0,
+      boxes: context.boxes,
+      keepWithNext: header,
+      draw: (doc, x, top) => {
+        const left = x + context.indent;
+        if (striped) {
+          doc.setFillColor(...PDF_COLORS.tableStripe);
+          doc.rect(left, top, width, height, 'F');
+        }
+        cellLines.forEach((lines, column) => lines.forEach((line, index) => {
+          const baseline = top + CELL_PADDING + index * TABLE_TEXT.leading + baselineOffset(TABLE_TEXT);
+          drawTypesetLine(doc, line, left + column * cellWidth + CELL_PADDING, baseline, TABLE_TEXT);
+        }));
+      }
+    };
+  }), PARAGRAPH_SPACE);
+}
+
+/**
+ * Red rule that tapers to a point, between stat block parts
+ */
+function taperedRule(context: FlowContext): FlowItem {
+  return ruleItem(context, 7, (doc, x, y, width) => {
+    doc.setFillColor(...PDF_COLORS.statBlockRule);
+    doc.triangle(x, y - 1.1, x + width, y, x, y + 1.1, 'F');
+  });
+}
+
+/**
+ * Trait or action: bold italic name, then the description
+ */
+function entryItems(doc: jsPDF, entry: StatBlockEntry, context: FlowContext): FlowItem[] {
+  const description = inlineRuns(parseHTML(entry.description));
+  const runs: TextRun[] = entry.name
+    ? [{ text: `${entry.name}.`, bold: true, italic: true }, { text: ' ' }, ...description]
+    : description;
+  return textItems(doc, runs, STAT_TEXT, context, 3);
+}
+
+/**
+ * Stat block in a parchment box, laid out like the Monster Manual's
+ */
+function statBlockItems(doc: jsPDF, statBlock: StatBlock, context: FlowContext): FlowItem[] {
+  const inner = inBox(context, STAT_BLOCK_BOX());
+  const { before, after } = splitStatBlockProperties(statBlock);
+  const property = ({ label, value }: { label: string; value: string }) =>
+    textItems(doc, [{ text: label, bold: true }, { text: ` ${value}` }], STAT_PROPERTY, inner, 1);
+
+  const items: FlowItem[] = [
+    ...textItems(doc, [{ text: statBlock.name }], STAT_NAME, inner, 0),
+    ...textItems(doc, [{ text: statBlock.meta }], STAT_META, inner, 0)
+  ];
+  items.forEach(item => { item.keepWithNext = true; });
+
+  if (before.length) items.push(taperedRule(inner), ...before.flatMap(property));
+  if (statBlock.abilities) items.push(taperedRule(inner), ...abilityItems(doc, statBlock.abilities, inner));
+  if (after.length) items.push(taperedRule(inner), ...after.flatMap(property));
+  if (statBlock.traits.length) {
+    items.push(taperedRule(inner), ...statBlock.traits.flatMap(entry => entryItems(doc, entry, inner)));
+  }
+
+  for (const section of statBlock.sections) {
+    const title = textItems(doc, [{ text: section.title }], STAT_SECTION, inner, 5);
+    const last = title[title.length - 1];
+    if (last) {
+      const drawTitle = last.draw;
+      last.height += 3;
+      last.keepWithNext = true;
+      last.draw = (doc, x, top) => {
+        drawTitle(doc, x, top);
+        doc.setDrawColor(...PDF_COLORS.statBlockAccent);
+        doc.setLineWidth(0.5);
+        doc.line(x, top + last.height - 1.5, x + inner.width, top + last.height - 1.5);
+      };
+    }
+    items.push(...title, ...section.entries.flatMap(entry => entryItems(doc, entry, inner)));
+  }
+
+  return spaceBlock(items, BLOCK_SPACE);
+}
+
+/**
+ * Ability table: names over scores with modifiers, in six centered columns
+ */
+function abilityItems(doc: jsPDF, abilities: number[], context: FlowContext): FlowItem[] {
+  const cellWidth = context.width / ABILITY_NAMES.length;
+  const row = (cells: string[], style: TextStyle): FlowItem => ({
+    height: style.leading,
+    spaceBefore: 0,
+    boxes: context.boxes,
+    keepWithNext: style === ABILITY_LABEL,
+    draw: (doc, x, top) => cells.forEach((cell, index) => {
+      const cellX = x + index * cellWidth + (cellWidth - measureText(doc, cell, style)) / 2;
+      doc.text(cell, cellX, top + baselineOffset(style));
+    })
+  });
+
+  return [row([...ABILITY_NAMES], ABILITY_LABEL), row(abilities.map(formatAbilityScore), STAT_TEXT)];
+}
+
+/**
+ * Table of contents entry; page counts from 0 at the first content page
+ */
+interface TocEntry {
+  level: number;
+  title: string;
+  page: number;
+}
+
+function getTocRowsPerPage(geometry: PageGeometry): number {
+  return Math.floor((geometry.bottom - geometry.top - TOC_TITLE_HEIGHT) / TOC_ROW);
+}
+
+/**
+ * Contents pages: each entry links to its page, with dotted leaders
+ */
+function drawTableOfContents(
+  doc: jsPDF,
+  entries: TocEntry[],
+  firstPage: number,
+  firstContentPage: number,
+  geometry: PageGeometry
+): void {
+  const rowsPerPage = getTocRowsPerPage(geometry);
+  const left = geometry.left;
+  const right = geometry.width - geometry.left;
+
+  entries.forEach((entry, index) => {
+    doc.setPage(firstPage + Math.floor(index / rowsPerPage));
+    const row = index % rowsPerPage;
+    if (row === 0) {
+      const title = HEADINGS[0]!;
+      applyTextStyle(doc, title);
+      doc.text('Contents', left, geometry.top + baselineOffset(title));
+      doc.setDrawColor(...PDF_COLORS.rule);
+      doc.setLineWidth(1.2);
+      doc.line(left, geometry.top + title.leading + 3, right, geometry.top + title.leading + 3);
+    }
+
+    const style = entry.level === 1 ? TOC_CHAPTER : TOC_SECTION;
+    const indent = entry.level === 1 ? 0 : 14;
+    const pageNumber = firstContentPage + entry.page;
+    const label = String(pageNumber);
+    const top = geometry.top + TOC_TITLE_HEIGHT + row * TOC_ROW;
+    const baseline = top + baselineOffset(style);
+
+    const labelWidth = measureText(doc, label, style);
+    const title = fitText(doc, toPdfText(entry.title), style, right - left - indent - labelWidth - 24);
+    const titleWidth = measureText(doc, title, style);
+    doc.text(title, left + indent, baseline);
+    doc.text(label, right - labelWidth, baseline);
+
+    doc.setDrawColor(...PDF_COLORS.rule);
+    doc.setLineWidth(0.8);
+    doc.setLineDashPattern([0.8, 2.4], 0);
+    doc.line(left + indent + titleWidth + 4, baseline, right - labelWidth - 4, baseline);
+    doc.setLineDashPattern([], 0);
+
+    doc.link(left, top, right - left, TOC_ROW, { pageNumber });
+  });
+}
+
+/**
+ * Bookmarks for chapters, with their sections nested under them
+ */
+function addOutline(doc: jsPDF, entries: TocEntry[], firstContentPage: number): void {
+  let chapter: unknown = null;
+  for (const entry of entries) {
+    const item = doc.outline.add(entry.level === 1 ? null : chapter, entry.title, {
+      pageNumber: firstContentPage + entry.page
+    });
+    if (entry.level === 1) chapter = item;
+  }
+}
+
+/**
+ * Title page with the campaign type, author and export date
+ */
+function drawCover(doc: jsPDF, metadata: PdfDocumentMetadata, geometry: PageGeometry): void {
+  const { width, height } = geometry;
+  doc.setFillColor(...PDF_COLORS.statBlockFill);
+  doc.rect(0, 0, width, height, 'F');
+  doc.setDrawColor(...PDF_COLORS.quoteBar);
+  doc.setLineWidth(2);
+  doc.rect(28, 28, width - 56, height - 56, 'S');
+  doc.setLineWidth(0.6);
+  doc.rect(34, 34, width - 68, height - 68, 'S');
+
+  const campaignType = metadata.campaignType.charAt(0).toUpperCase() + metadata.campaignType.slice(1);
+  const centered = (text: string, style: TextStyle, top: number): number => {
+    const lines = wrapRuns(doc, [{ text }], style, width - 2 * geometry.left - 40);
+    lines.forEach((line, index) => {
+      drawTypesetLine(doc, line, (width - line.width) / 2, top + index * style.leading + baselineOffset(style), style);
+    });
+    return top + lines.length * style.leading;
+  };
+
+  let y = centered(metadata.title, { font: 'times', size: 32, leading: 38, color: PDF_COLORS.heading, bold: true }, height / 3);
+  y = centered(`A Dungeons & Dragons ${campaignType}`, { ...BODY, size: 15, leading: 20, italic: true }, y + 10);
+  doc.setDrawColor(...PDF_COLORS.rule);
+  doc.setLineWidth(1.2);
+  doc.line(width / 2 - 80, y + 14, width / 2 + 80, y + 14);
+  y = centered(`Created by ${metadata.author}`, { ...BODY, size: 13, leading: 18 }, y + 30);
+  centered(`Exported on ${metadata.exportDate.toLocaleDateString()}`, { ...RUNNING_TEXT, size: 9.5, leading: 12 }, y + 8);
+}
+
+/**
+ * Running header with the title and chapter, and the page number in the
+ * outer corner of the footer
+ */
+function drawRunningHead(doc: jsPDF, pageNumber: number, title: string, chapter: string, geometry: PageGeometry): void {
+  const left = geometry.left;
+  const right = geometry.width - geometry.left;
+  const headerBaseline = geometry.top - 24;
+  const footerBaseline = geometry.bottom + 34;
+  const half = (right - left) / 2 - 10;
+
+  doc.setPage(pageNumber);
+  applyTextStyle(doc, RUNNING_TEXT);
+  doc.text(fitText(doc, toPdfText(title), RUNNING_TEXT, half), left, headerBaseline);
+  if (chapter) {
+    const text = fitText(doc, toPdfText(chapter), RUNNING_TEXT, half);
+    doc.text(text, right - doc.getTextWidth(text), headerBaseline);
+  }
+  doc.setDrawColor(...PDF_COLORS.rule);
+  doc.setLineWidth(0.8);
+  doc.line(left, headerBaseline + 5, right, headerBaseline + 5);
+  doc.line(left, footerBaseline - 12, right, footerBaseline - 12);
+
+  const label = String(pageNumber);
+  applyTextStyle(doc, { ...RUNNING_TEXT, size: 9, color: PDF_COLORS.heading, bold: true });
+  doc.text(label, pageNumber % 2 === 1 ? right - doc.getTextWidth(label) : left, footerBaseline);
+}
+
+/**
+ * Lay out editor HTML as a two-column PDF with an optional cover page; a
+ * contents page is added when the document has H1 or H2 headings
+ */
+export function renderDocumentPdf(html: string, metadata: PdfDocumentMetadata, includeCover: boolean): Blob {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  const geometry = getPageGeometry(doc, { top: 64, bottom: 60, side: 48 }, 2, 18);
+  const campaignType = metadata.campaignType.charAt(0).toUpperCase() + metadata.campaignType.slice(1);
+  doc.setProperties({
+    title: metadata.title,
+    author: metadata.author,
+    subject: `A Dungeons & Dragons ${campaignType}`,
+    creator: 'WordWise AI'
+  });
+
+  const items = flowBlocks(doc, parseHTML(html), { width: geometry.columnWidth, indent: 0, boxes: [] });
+  const { placements, pageCount } = placeFlow(items, geometry);
+
+  const headings = placements.flatMap(({ item, page }): TocEntry[] => item.heading ? [{ ...item.heading, page }] : []);
+  const tocEntries = headings.filter(entry => entry.level <= 2);
+  const coverPages = includeCover ? 1 : 0;
+  const tocPages = Math.ceil(tocEntries.length / getTocRowsPerPage(geometry));
+  const firstContentPage = coverPages + tocPages + 1;
+
+  for (let page = 1; page < coverPages + tocPages + pageCount; page++) {
+    doc.addPage();
+  }
+
+  if (includeCover) {
+    doc.setPage(1);
+    drawCover(doc, metadata, geometry);
+  }
+
+  drawFlow(doc, placements, geometry, firstContentPage);
+
+  drawTableOfContents(doc, tocEntries, coverPages + 1, firstContentPage, geometry);
+  addOutline(doc, tocEntries, firstContentPage);
+
+  // Chapter shown in each content page's header: the last one started
+  const chapters: string[] = [];
+  headings.filter(entry => entry.level === 1).forEach(entry => { chapters[entry.page] = entry.title; });
+  let chapter = '';
+  for (let page = coverPages + 1; page < firstContentPage + pageCount; page++) {
+    const contentPage = page - firstContentPage;
+    if (contentPage >= 0) chapter = chapters[contentPage] ?? chapter;
+    drawRunningHead(doc, page, metadata.title, contentPage >= 0 ? chapter : 'Contents', geometry);
+  }
+
+  return doc.output('blob');
+}
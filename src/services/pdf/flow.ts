@@ -0,0 +1,330 @@
+/**
+ * @fileoverview Column flow for the PDF exports
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Layouts build a flow of measured items (a line of text, a table row, a
+ * rule), then place the flow into the columns of each page: two for the
+ * document layout, one per panel for the DM screen. Items can sit in boxes,
+ * which are drawn behind them one piece per column.
+ */
+
+import type jsPDF from 'jspdf';
+import { drawTypesetLine, measureText, wrapRuns, type Rgb, type TextRun, type TextStyle } from './typesetter';
+
+/**
+ * Background and border drawn behind a run of items
+ */
+export interface Box {
+  fill: Rgb;
+  border: Rgb;
+  style: 'frame' | 'dashed' | 'bar';
+  padding: number;
+}
+
+/**
+ * Something placed in a column: a line of text, a table row, a rule
+ */
+export interface FlowItem {
+  height: number;
+  spaceBefore: number; // Dropped at the top of a column
+  boxes: Box[]; // Boxes the item sits in, outermost first
+  keepWithNext?: boolean;
+  pageBreakBefore?: boolean;
+  heading?: { level: number; title: string };
+  draw: (doc: jsPDF, x: number, top: number) => void; // x is the left edge inside the boxes
+}
+
+/**
+ * Where flow items are being built: the width available inside the
+ * enclosing boxes, and the indent from lists
+ */
+export interface FlowContext {
+  width: number;
+  indent: number;
+  boxes: Box[];
+}
+
+/**
+ * Context for the contents of a new box
+ */
+export function inBox(context: FlowContext, box: Box): FlowContext {
+  return { width: context.width - 2 * box.padding, indent: 0, boxes: [...context.boxes, box] };
+}
+
+/**
+ * Offset from a line's top to its baseline
+ */
+export function baselineOffset(style: TextStyle): number {
+  return (style.leading - style.size) / 2 + style.size * 0.8;
+}
+
+/**
+ * Give a block its space before, replacing its first item's
+ */
+export function spaceBlock(items: FlowItem[], spaceBefore: number): FlowItem[] {
+  if (items[0]) items[0].spaceBefore = spaceBefore;
+  return items;
+}
+
+/**
+ * One item per wrapped line; the first two lines of a paragraph stay together
+ */
+export function textItems(
+  doc: jsPDF,
+  runs: TextRun[],
+  style: TextStyle,
+  context: FlowContext,
+  spaceBefore: number,
+  align: 'left' | 'center' = 'left'
+): FlowItem[] {
+  const width = context.width - context.indent;
+  const lines = wrapRuns(doc, runs, style, width);
+
+  return lines.map((line, index): FlowItem => ({
+    height: style.leading,
+    spaceBefore: index === 0 ? spaceBefore : 0,
+    boxes: context.boxes,
+    keepWithNext: index === 0 && lines.length > 1,
+    draw: (doc, x, top) => {
+      const offset = align === 'center' ? (width - line.width) / 2 : 0;
+      drawTypesetLine(doc, line, x + context.indent + offset, top + baselineOffset(style), style);
+    }
+  }));
+}
+
+/**
+ * Thin rule across the context, drawn in the middle of its height
+ */
+export function ruleItem(
+  context: FlowContext,
+  height: number,
+  draw: (doc: jsPDF, x: number, y: number, width: number) => void
+): FlowItem {
+  return {
+    height,
+    spaceBefore: 0,
+    boxes: context.boxes,
+    draw: (doc, x, top) => draw(doc, x + context.indent, top + height / 2, context.width - context.indent)
+  };
+}
+
+/**
+ * Longest start of text, ending in an ellipsis, that fits a width
+ */
+export function fitText(doc: jsPDF, text: string, style: TextStyle, maxWidth: number): string {
+  if (measureText(doc, text, style) <= maxWidth) return text;
+  let length = text.length;
+  while (length > 1 && measureText(doc, `${text.slice(0, length)}...`, style) > maxWidth) length--;
+  return `${text.slice(0, length).trimEnd()}...`;
+}
+
+/**
+ * Page measurements, in points
+ */
+export interface PageGeometry {
+  width: number;
+  height: number;
+  top: number; // Top of the columns
+  bottom: number; // Bottom of the columns
+  left: number;
+  columnCount: number;
+  columnWidth: number;
+  columnGap: number;
+}
+
+/**
+ * A flow item's position; pages count from 0 at the first page of the flow
+ */
+export interface Placement {
+  item: FlowItem;
+  page: number;
+  column: number;
+  top: number;
+}
+
+/**
+ * Part of a box within one column
+ */
+interface BoxSegment {
+  box: Box;
+  page: number;
+  x: number;
+  width: number;
+  top: number;
+  bottom: number;
+  column: number;
+  lastPlacement: number;
+}
+
+/**
+ * Geometry for equal columns between the page margins
+ */
+export function getPageGeometry(
+  doc: jsPDF,
+  margins: { top: number; bottom: number; side: number },
+  columnCount: number,
+  columnGap: number
+): PageGeometry {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  return {
+    width,
+    height,
+    top: margins.top,
+    bottom: height - margins.bottom,
+    left: margins.side,
+    columnCount,
+    columnGap,
+    columnWidth: (width - 2 * margins.side - (columnCount - 1) * columnGap) / columnCount
+  };
+}
+
+export function columnLeft(geometry: PageGeometry, column: number): number {
+  return geometry.left + column * (geometry.columnWidth + geometry.columnGap);
+}
+
+/**
+ * Total padding of a list of boxes
+ */
+function boxPadding(boxes: Box[]): number {
+  return boxes.reduce((sum, box) => sum + box.padding, 0);
+}
+
+/**
+ * Number of boxes two items share, from the outermost
+ */
+function sharedBoxes(a: Box[], b: Box[]): number {
+  let shared = 0;
+  while (shared < a.length && a[shared] === b[shared]) shared++;
+  return shared;
+}
+
+/**
+ * Place the flow into columns, filling each page's columns left to right
+ */
+export function placeFlow(items: FlowItem[], geometry: PageGeometry): { placements: Placement[]; pageCount: number } {
+  const placements: Placement[] = [];
+  let page = 0;
+  let column = 0;
+  let y = geometry.top;
+  let columnStart = true;
+
+  const startColumn = (nextPage: number, nextColumn: number) => {
+    page = nextPage;
+    column = nextColumn;
+    y = geometry.top;
+    columnStart = true;
+  };
+  // Padding for boxes the item opens: all of them at the top of a column
+  const openingPadding = (item: FlowItem) => {
+    const previous = placements[placements.length - 1];
+    return columnStart || !previous
+      ? boxPadding(item.boxes)
+      : boxPadding(item.boxes.slice(sharedBoxes(item.boxes, previous.item.boxes)));
+  };
+
+  items.forEach((item, index) => {
+    if (item.pageBreakBefore && !(column === 0 && columnStart)) {
+      startColumn(page + 1, 0);
+    }
+
+    const next = items[index + 1];
+    const required = () => (columnStart ? 0 : item.spaceBefore)
+      + openingPadding(item)
+      + item.height
+      + boxPadding(item.boxes)
+      + (item.keepWithNext && next ? next.spaceBefore + next.height : 0);
+    if (!columnStart && y + required() > geometry.bottom) {
+      if (column + 1 < geometry.columnCount) startColumn(page, column + 1);
+      else startColumn(page + 1, 0);
+    }
+
+    y += (columnStart ? 0 : item.spaceBefore) + openingPadding(item);
+    placements.push({ item, page, column, top: y });
+    y += item.height + boxPadding(item.boxes.slice(sharedBoxes(item.boxes, next?.boxes ?? [])));
+    columnStart = false;
+  });
+
+  return { placements, pageCount: page + 1 };
+}
+
+/**
+ * Box pieces behind the placed items, outer boxes before inner ones
+ */
+function getBoxSegments(placements: Placement[], geometry: PageGeometry): BoxSegment[] {
+  const segments: BoxSegment[] = [];
+  const open = new Map<Box, BoxSegment>();
+
+  placements.forEach((placement, index) => {
+    const { boxes } = placement.item;
+    boxes.forEach((box, depth) => {
+      const inset = boxPadding(boxes.slice(0, depth));
+      const outset = boxPadding(boxes.slice(depth));
+      const bottom = placement.top + placement.item.height + outset;
+      const segment = open.get(box);
+
+      if (segment && segment.page === placement.page && segment.column === placement.column
+        && segment.lastPlacement === index - 1) {
+        segment.bottom = bottom;
+        segment.lastPlacement = index;
+        return;
+      }
+
+      const started: BoxSegment = {
+        box,
+        page: placement.page,
+        column: placement.column,
+        x: columnLeft(geometry, placement.column) + inset,
+        width: geometry.columnWidth - 2 * inset,
+        top: placement.top - outset,
+        bottom,
+        lastPlacement: index
+      };
+      segments.push(started);
+      open.set(box, started);
+    });
+  });
+
+  return segments;
+}
+
+function drawBoxSegment(doc: jsPDF, segment: BoxSegment): void {
+  const { box, x, top, width } = segment;
+  const height = segment.bottom - top;
+
+  doc.setFillColor(...box.fill);
+  doc.rect(x, top, width, height, 'F');
+  doc.setDrawColor(...box.border);
+
+  if (box.style === 'frame') {
+    doc.setLineWidth(0.5);
+    doc.rect(x, top, width, height, 'S');
+    doc.setLineWidth(2);
+    doc.line(x, top, x + width, top);
+    doc.line(x, top + height, x + width, top + height);
+  } else if (box.style === 'dashed') {
+    doc.setLineWidth(1);
+    doc.setLineDashPattern([3, 2], 0);
+    doc.rect(x, top, width, height, 'S');
+    doc.setLineDashPattern([], 0);
+  } else {
+    doc.setLineWidth(2.5);
+    doc.line(x, top, x, top + height);
+  }
+}
+
+/**
+ * Draw placed items, with their boxes behind them; flow page 0 is drawn on
+ * firstPage
+ */
+export function drawFlow(doc: jsPDF, placements: Placement[], geometry: PageGeometry, firstPage: number): void {
+  getBoxSegments(placements, geometry).forEach(segment => {
+    doc.setPage(firstPage + segment.page);
+    drawBoxSegment(doc, segment);
+  });
+  placements.forEach(({ item, page, column, top }) => {
+    doc.setPage(firstPage + page);
+    item.draw(doc, columnLeft(geometry, column) + boxPadding(item.boxes), top);
+  });
+}
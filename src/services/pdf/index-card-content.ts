@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Content for printable NPC and monster index cards
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * A card holds what a DM reaches for at the table: the name, a one-line
+ * description, AC/HP/CR for anything that fights, and a few short details
+ * such as an NPC's personality. Cards come from generated campaigns, monster
+ * re-skins and generated name lists.
+ */
+
+import { getStatBlockProperty, type StatBlock } from '@/lib/stat-block';
+import type { CampaignNPC, GeneratedCampaign } from '@/services/ai/campaign-generator';
+import type { GeneratedName } from '@/services/ai/fantasy-name-generator';
+import { getCampaignCreatures, type CampaignCreature } from '@/services/vtt/campaign-content';
+import type { MonsterReSkin } from '@/types/monster';
+
+export type IndexCardKind = 'npc' | 'monster' | 'name';
+
+/**
+ * Armor class, hit points and challenge rating as printed on a card
+ */
+export interface IndexCardStats {
+  armorClass: string;
+  hitPoints: string;
+  challenge: string;
+}
+
+export interface IndexCard {
+  kind: IndexCardKind;
+  name: string;
+  subtitle: string; // e.g. "Human · Harbor captain"
+  description: string; // Printed on one line, cut short if longer
+  stats: IndexCardStats | null;
+  details: Array<{ label: string; text: string }>;
+}
+
+/**
+ * First sentence of a text, with whitespace collapsed
+ */
+function firstSentence(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? collapsed;
+}
+
+/**
+ * Card stats from a stat block; the challenge rating is taken from the
+ * stat block when it has one
+ */
+function statBlockStats(statBlock: StatBlock, challengeRating: string): IndexCardStats {
+  const property = (label: string) => getStatBlockProperty(statBlock, label) ?? '—';
+  const challenge = getStatBlockProperty(statBlock, 'Challenge')?.replace(/\s*\(.*$/, '');
+  return {
+    armorClass: property('Armor Class').replace(/\s*\(.*$/, ''),
+    hitPoints: property('Hit Points'),
+    challenge: challenge || challengeRating || '—'
+  };
+}
+
+/**
+ * Card for a campaign NPC, with stats from its stat block when it has one
+ */
+export function npcToIndexCard(npc: CampaignNPC, creature?: CampaignCreature): IndexCard {
+  return {
+    kind: 'npc',
+    name: npc.name,
+    subtitle: [npc.race, npc.role].filter(Boolean).join(' · '),
+    description: firstSentence(npc.description),
+    stats: creature?.statBlock ? statBlockStats(creature.statBlock, creature.challengeRating) : null,
+    details: [
+      { label: 'Personality', text: npc.personality },
+      { label: 'Wants', text: npc.motivation }
+    ].filter(detail => detail.text.trim())
+  };
+}
+
+/**
+ * Cards for a generated campaign: its NPCs, then its other stat blocks
+ */
+export function campaignToIndexCards(campaign: GeneratedCampaign): IndexCard[] {
+  const creatures = getCampaignCreatures(campaign);
+
+  const npcs = campaign.npcs.map(npc => npcToIndexCard(npc, creatures.find(creature => creature.key === `npc:${npc.id}`)));
+  const monsters = creatures
+    .filter(creature => creature.key.startsWith('stat-block:'))
+    .map((creature): IndexCard => ({
+      kind: creature.kind === 'npc' ? 'npc' : 'monster',
+      name: creature.name,
+      subtitle: creature.statBlock?.meta ?? '',
+      description: '',
+      stats: creature.statBlock
+        ? statBlockStats(creature.statBlock, creature.challengeRating)
+        : { armorClass: '—', hitPoints: '—', challenge: creature.challengeRating || '—' },
+      details: []
+    }));
+
+  return [...npcs, ...monsters];
+}
+
+/**
+ * Card for a re-skinned monster, with the original monster's stats
+ */
+export function reSkinToIndexCard(reSkin: MonsterReSkin): IndexCard {
+  const monster = reSkin.originalMonster;
+  return {
+    kind: 'monster',
+    name: reSkin.newName,
+    subtitle: `${monster.size} ${monster.type}, ${monster.alignment}`,
+    description: firstSentence(reSkin.visualDescription),
+    stats: {
+      armorClass: String(monster.armor_class),
+      hitPoints: `${monster.hit_points} (${monster.hit_dice})`,
+      challenge: monster.challenge_rating
+    },
+    details: [
+      { label: 'Behavior', text: firstSentence(reSkin.behavioralChanges) },
+      { label: 'Stats as', text: monster.name }
+    ].filter(detail => detail.text)
+  };
+}
+
+/**
+ * Card for a generated name, left with room for notes
+ */
+export function generatedNameToIndexCard(name: GeneratedName): IndexCard {
+  return {
+    kind: 'name',
+    name: name.name,
+    subtitle: [name.race, name.profession].filter(Boolean).join(' · '),
+    description: name.meaning ?? '',
+    stats: null,
+    details: []
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Vitest tests for printable index cards
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
+import type { MonsterReSkin } from '@/types/monster';
+import {
+  campaignToIndexCards,
+  generatedNameToIndexCard,
+  reSkinToIndexCard,
+  type IndexCard
+} from './index-card-content';
+import { renderIndexCardsPdf, type IndexCardLayout } from './index-cards';
+
+const CAPTAIN = `**Captain Marcus Ironvale**
+*Medium humanoid (human), lawful good*
+
+**Armor Class** 16 (Chain Mail)
+**Hit Points** 52 (8d8 + 16)
+**Speed** 30 ft.
+
+**Challenge** 2 (450 XP)`;
+
+const campaign = {
+  id: 'campaign-1',
+  title: 'The Sunken Keep',
+  npcs: [
+    {
+      id: 'npc-1', name: 'Captain Marcus Ironvale', race: 'Human', role: 'Harbor captain',
+      personality: 'Gruff but fair', motivation: 'Reclaim the keep',
+      description: 'Scarred and tired. He has not slept in days.', statBlockId: 'stat-npc'
+    },
+    {
+      id: 'npc-2', name: 'Mira', race: 'Halfling', role: 'Smuggler',
+      personality: 'Cheerful', motivation: '', description: 'Always smiling.'
+    }
+  ],
+  statBlocks: [
+    { id: 'stat-npc', name: 'Captain', type: 'npc', challengeRating: '2', stats: CAPTAIN },
+    { id: 'stat-1', name: 'Sea Hag', type: 'monster', challengeRating: '2', stats: '<p>Stat block not available</p>' }
+  ]
+} as unknown as GeneratedCampaign;
+
+const reSkin: MonsterReSkin = {
+  id: 'reskin-1',
+  originalMonster: {
+    slug: 'goblin', name: 'Goblin', size: 'Small', type: 'humanoid', alignment: 'neutral evil',
+    armor_class: 15, hit_points: 7, hit_dice: '2d6', speed: { walk: 30 },
+    strength: 8, dexterity: 14, constitution: 10, intelligence: 10, wisdom: 8, charisma: 8,
+    challenge_rating: '1/4', cr: 0.25, senses: 'darkvision 60 ft.', languages: 'Common, Goblin'
+  },
+  newName: 'Reed Lurker',
+  visualDescription: 'A moss-covered imp with eyes like lanterns. It smells of the marsh.',
+  behavioralChanges: 'Hides underwater and drags prey down.',
+  loreAdaptation: 'Said to be drowned children.',
+  createdAt: new Date('2024-01-01')
+};
+
+/**
+ * Render cards and read the PDF source
+ */
+async function renderSource(cards: IndexCard[], layout: IndexCardLayout): Promise<string> {
+  const blob = renderIndexCardsPdf('The Sunken Keep', cards, layout);
+  return Buffer.from(await blob.arrayBuffer()).toString('latin1');
+}
+
+function countPages(source: string): number {
+  return source.match(/\/Type \/Page\b(?!s)/g)?.length ?? 0;
+}
+
+describe('index card content', () => {
+  it('makes NPC cards with personality and stats from linked stat blocks', () => {
+    const [captain, mira, hag] = campaignToIndexCards(campaign);
+
+    expect(captain).toEqual({
+      kind: 'npc',
+      name: 'Captain Marcus Ironvale',
+      subtitle: 'Human · Harbor captain',
+      description: 'Scarred and tired.',
+      stats: { armorClass: '16', hitPoints: '52 (8d8 + 16)', challenge: '2' },
+      details: [
+        { label: 'Personality', text: 'Gruff but fair' },
+        { label: 'Wants', text: 'Reclaim the keep' }
+      ]
+    });
+    expect(mira?.stats).toBeNull();
+    expect(mira?.details).toEqual([{ label: 'Personality', text: 'Cheerful' }]);
+    expect(hag).toMatchObject({ kind: 'monster', name: 'Sea Hag', stats: { armorClass: '—', challenge: '2' } });
+  });
+
+  it('makes monster cards from re-skins and blank cards from names', () => {
+    expect(reSkinToIndexCard(reSkin)).toEqual({
+      kind: 'monster',
+      name: 'Reed Lurker',
+      subtitle: 'Small humanoid, neutral evil',
+      description: 'A moss-covered imp with eyes like lanterns.',
+      stats: { armorClass: '15', hitPoints: '7 (2d6)', challenge: '1/4' },
+      details: [
+        { label: 'Behavior', text: 'Hides underwater and drags prey down.' },
+        { label: 'Stats as', text: 'Goblin' }
+      ]
+    });
+    expect(generatedNameToIndexCard({ name: 'Thalia', race: 'Elf', profession: 'Bard', meaning: 'Blossom' }))
+      .toMatchObject({ kind: 'name', subtitle: 'Elf · Bard', description: 'Blossom', stats: null });
+  });
+});
+
+describe('renderIndexCardsPdf', () => {
+  const cards = Array.from({ length: 10 }, (_, index) => generatedNameToIndexCard({ name: `Name ${index + 1}`, race: 'Human' }));
+
+  it('fits three 3x5 cards or nine poker cards on a page', async () => {
+    expect(countPages(await renderSource(cards, { cardSize: '3x5', paperSize: 'a4' }))).toBe(4);
+    expect(countPages(await renderSource(cards, { cardSize: 'poker', paperSize: 'letter' }))).toBe(2);
+  });
+
+  it('centres the grid on the paper and marks the cut lines', async () => {
+    const source = await renderSource(cards.slice(0, 1), { cardSize: 'poker', paperSize: 'letter' });
+
+    expect(source).toContain('/MediaBox [0 0 612. 792.]');
+    // Letter is 612pt wide: three 180pt cards leave a 36pt margin each side
+    ['36.', '216.', '396.', '576.'].forEach(x => expect(source).toMatch(new RegExp(`\\n${x.replace('.', '\\.')}\\d* [\\d.]+ m\\n`)));
+    expect(source).toContain('(Name 1) Tj');
+  });
+
+  it('prints stats and details on creature cards', async () => {
+    const source = await renderSource([reSkinToIndexCard(reSkin)], { cardSize: '3x5', paperSize: 'a4' });
+
+    ['(MONSTER) Tj', '(Reed Lurker) Tj', '(7 \\(2d6\\)) Tj', '(1/4) Tj', '(Behavior: ) Tj'].forEach(text =>
+      expect(source).toContain(text));
+  });
+});
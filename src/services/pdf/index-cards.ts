@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Printable index cards
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Lays index cards out edge to edge in a grid centred on A4 or Letter
+ * paper, with crop marks in the margins at every cut line. Each card has
+ * its name, a subtitle and one-line description, an AC/HP/CR band for
+ * creatures that fight, short details, and ruled lines for notes such as
+ * initiative or hit points.
+ */
+
+import jsPDF from 'jspdf';
+import { PDF_COLORS, applyTextStyle, drawTypesetLine, measureText, toPdfText, wrapRuns, type TextRun, type TextStyle } from './typesetter';
+import { baselineOffset, fitText } from './flow';
+import type { IndexCard, IndexCardKind, IndexCardStats } from './index-card-content';
+
+export type IndexCardSize = '3x5' | 'poker';
+export type PaperSize = 'a4' | 'letter';
+
+export interface IndexCardLayout {
+  cardSize: IndexCardSize;
+  paperSize: PaperSize;
+}
+
+/**
+ * Card sizes in points; 3x5 cards are printed landscape
+ */
+const CARD_SIZES: Record<IndexCardSize, { width: number; height: number; padding: number; scale: number }> = {
+  '3x5': { width: 360, height: 216, padding: 14, scale: 1 },
+  poker: { width: 180, height: 252, padding: 10, scale: 0.85 }
+};
+
+const MIN_MARGIN = 18;
+const CROP_MARK_OFFSET = 3; // Gap between the cut line and its mark
+
+const KIND_LABELS: Record<IndexCardKind, string> = {
+  npc: 'NPC',
+  monster: 'MONSTER',
+  name: 'NAME'
+};
+
+/**
+ * Text styles for a card, scaled down for smaller cards
+ */
+function cardStyles(scale: number) {
+  const style = (base: TextStyle): TextStyle => ({ ...base, size: base.size * scale, leading: base.leading * scale });
+  return {
+    name: style({ font: 'times', size: 14, leading: 17, color: PDF_COLORS.heading, bold: true }),
+    kind: style({ font: 'helvetica', size: 6.5, leading: 8, color: PDF_COLORS.muted, bold: true }),
+    subtitle: style({ font: 'times', size: 9, leading: 11, color: PDF_COLORS.muted, italic: true }),
+    statLabel: style({ font: 'helvetica', size: 6.5, leading: 8, color: PDF_COLORS.statBlockAccent, bold: true }),
+    statValue: style({ font: 'helvetica', size: 8.5, leading: 10, color: PDF_COLORS.statBlockText }),
+    body: style({ font: 'times', size: 9.5, leading: 11.5, color: PDF_COLORS.text, boldColor: PDF_COLORS.heading })
+  };
+}
+
+/**
+ * AC, HP and CR in three cells on a parchment band
+ */
+function drawStats(doc: jsPDF, stats: IndexCardStats, x: number, top: number, width: number, styles: ReturnType<typeof cardStyles>): number {
+  const height = styles.statLabel.leading + styles.statValue.leading + 4;
+  const cellWidth = width / 3;
+  const cells: Array<[string, string]> = [['AC', stats.armorClass], ['HP', stats.hitPoints], ['CR', stats.challenge]];
+
+  doc.setFillColor(...PDF_COLORS.statBlockFill);
+  doc.rect(x, top, width, height, 'F');
+  doc.setDrawColor(...PDF_COLORS.statBlockRule);
+  doc.setLineWidth(1);
+  doc.line(x, top, x + width, top);
+  doc.line(x, top + height, x + width, top + height);
+
+  cells.forEach(([label, value], index) => {
+    const center = x + (index + 0.5) * cellWidth;
+    const text = fitText(doc, toPdfText(value), styles.statValue, cellWidth - 6);
+    applyTextStyle(doc, styles.statLabel);
+    doc.text(label, center - doc.getTextWidth(label) / 2, top + 2 + baselineOffset(styles.statLabel));
+    applyTextStyle(doc, styles.statValue);
+    doc.text(text, center - doc.getTextWidth(text) / 2, top + 2 + styles.statLabel.leading + baselineOffset(styles.statValue));
+  });
+
+  return height;
+}
+
+/**
+ * Draw one card with its top left corner at (left, top)
+ */
+function drawCard(doc: jsPDF, card: IndexCard, left: number, top: number, cardSize: IndexCardSize): void {
+  const { width, height, padding, scale } = CARD_SIZES[cardSize];
+  const styles = cardStyles(scale);
+  const x = left + padding;
+  const innerWidth = width - 2 * padding;
+  const bottom = top + height - padding;
+  let y = top + padding;
+
+  // Name, with the kind of card flush right
+  const kind = KIND_LABELS[card.kind];
+  const kindWidth = measureText(doc, kind, styles.kind);
+  applyTextStyle(doc, styles.kind);
+  doc.text(kind, x + innerWidth - kindWidth, y + baselineOffset(styles.name));
+  applyTextStyle(doc, styles.name);
+  doc.text(fitText(doc, toPdfText(card.name), styles.name, innerWidth - kindWidth - 6), x, y + baselineOffset(styles.name));
+  y += styles.name.leading;
+
+  if (card.subtitle) {
+    applyTextStyle(doc, styles.subtitle);
+    doc.text(fitText(doc, toPdfText(card.subtitle), styles.subtitle, innerWidth), x, y + baselineOffset(styles.subtitle));
+    y += styles.subtitle.leading;
+  }
+
+  doc.setDrawColor(...PDF_COLORS.rule);
+  doc.setLineWidth(1);
+  doc.line(x, y + 2, x + innerWidth, y + 2);
+  y += 6;
+
+  if (card.stats) {
+    y += drawStats(doc, card.stats, x, y, innerWidth, styles) + 4;
+  }
+
+  if (card.description) {
+    applyTextStyle(doc, styles.body);
+    doc.text(fitText(doc, toPdfText(card.description), styles.body, innerWidth), x, y + baselineOffset(styles.body));
+    y += styles.body.leading;
+  }
+
+  // Details share the lines left; the last one shown ends in an ellipsis
+  // when they don't all fit
+  const runs: TextRun[] = card.details.flatMap((detail, index) => [
+    ...(index ? [{ text: '\n' }] : []),
+    { text: `${detail.label}: `, bold: true },
+    { text: detail.text }
+  ]);
+  const available = Math.floor((bottom - y) / styles.body.leading);
+  let lines = runs.length ? wrapRuns(doc, runs, styles.body, innerWidth) : [];
+  const clipped = lines.length > available;
+  if (clipped) {
+    lines = wrapRuns(doc, runs, styles.body, innerWidth - measureText(doc, '...', styles.body)).slice(0, available);
+  }
+  lines.forEach((line, index) => {
+    const baseline = y + baselineOffset(styles.body);
+    drawTypesetLine(doc, line, x, baseline, styles.body);
+    if (clipped && index === lines.length - 1) {
+      applyTextStyle(doc, styles.body);
+      doc.text('...', x + line.width, baseline);
+    }
+    y += styles.body.leading;
+  });
+
+  // Ruled lines for notes in the space left
+  doc.setDrawColor(...PDF_COLORS.tableStripe);
+  doc.setLineWidth(0.5);
+  for (let line = y + styles.body.leading * 1.5; line <= bottom; line += styles.body.leading * 1.5) {
+    doc.line(x, line, x + innerWidth, line);
+  }
+}
+
+/**
+ * Crop marks outside the grid at every vertical and horizontal cut line
+ */
+function drawCropMarks(
+  doc: jsPDF,
+  grid: { left: number; top: number; columns: number; rows: number; width: number; height: number },
+  margins: { x: number; y: number }
+): void {
+  const right = grid.left + grid.columns * grid.width;
+  const bottom = grid.top + grid.rows * grid.height;
+  const lengthX = Math.min(12, margins.x - 2 * CROP_MARK_OFFSET);
+  const lengthY = Math.min(12, margins.y - 2 * CROP_MARK_OFFSET);
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.3);
+  for (let column = 0; column <= grid.columns; column++) {
+    const x = grid.left + column * grid.width;
+    doc.line(x, grid.top - CROP_MARK_OFFSET, x, grid.top - CROP_MARK_OFFSET - lengthY);
+    doc.line(x, bottom + CROP_MARK_OFFSET, x, bottom + CROP_MARK_OFFSET + lengthY);
+  }
+  for (let row = 0; row <= grid.rows; row++) {
+    const y = grid.top + row * grid.height;
+    doc.line(grid.left - CROP_MARK_OFFSET, y, grid.left - CROP_MARK_OFFSET - lengthX, y);
+    doc.line(right + CROP_MARK_OFFSET, y, right + CROP_MARK_OFFSET + lengthX, y);
+  }
+}
+
+/**
+ * Render cards as sheets of cards with crop marks, as many to a page as fit
+ */
+export function renderIndexCardsPdf(title: string, cards: IndexCard[], layout: IndexCardLayout): Blob {
+  const doc = new jsPDF({ unit: 'pt', format: layout.paperSize });
+  doc.setProperties({ title: `${title} — Index Cards`, creator: 'WordWise AI' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { width, height } = CARD_SIZES[layout.cardSize];
+  const columns = Math.floor((pageWidth - 2 * MIN_MARGIN) / width);
+  const rows = Math.floor((pageHeight - 2 * MIN_MARGIN) / height);
+  const margins = { x: (pageWidth - columns * width) / 2, y: (pageHeight - rows * height) / 2 };
+  const grid = { left: margins.x, top: margins.y, columns, rows, width, height };
+  const perPage = columns * rows;
+
+  cards.forEach((card, index) => {
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) doc.addPage();
+    if (slot === 0) drawCropMarks(doc, grid, margins);
+    drawCard(doc, card, grid.left + (slot % columns) * width, grid.top + Math.floor(slot / columns) * height, layout.cardSize);
+  });
+
+  return doc.output('blob');
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Vitest tests for PDF text setting
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import jsPDF from 'jspdf';
+import { parseHTML } from '@/lib/html-tree';
+import { inlineRuns, toPdfText, wrapRuns, type TextStyle } from './typesetter';
+
+const style: TextStyle = { font: 'times', size: 10, leading: 12, color: [0, 0, 0] };
+
+describe('inlineRuns', () => {
+  it('reads formatting, links and line breaks from inline HTML', () => {
+    const runs = inlineRuns(parseHTML('The <strong>red <em>dragon</em></strong><br><a href="https://dndbeyond.com">rules</a>'));
+
+    expect(runs).toEqual([
+      { text: 'The ' },
+      { text: 'red ', bold: true },
+      { text: 'dragon', bold: true, italic: true },
+      { text: '\n' },
+      { text: 'rules', href: 'https://dndbeyond.com' }
+    ]);
+  });
+});
+
+describe('wrapRuns', () => {
+  const doc = new jsPDF({ unit: 'pt' });
+
+  it('wraps at spaces within the width and keeps each run its formatting', () => {
+    const runs = inlineRuns(parseHTML('Roll <strong>initiative</strong> when the goblins spring their ambush from the reeds'));
+    const lines = wrapRuns(doc, runs, style, 120);
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(line.width).toBeLessThanOrEqual(120));
+    expect(lines.map(line => line.fragments.map(f => f.text).join('')).join(' '))
+      .toBe('Roll initiative when the goblins spring their ambush from the reeds');
+    expect(lines[0]!.fragments.find(f => f.text === 'initiative')?.run.bold).toBe(true);
+  });
+
+  it('breaks lines at line breaks and splits words wider than the line', () => {
+    expect(wrapRuns(doc, [{ text: 'one\ntwo' }], style, 200).map(line => line.fragments[0]!.text))
+      .toEqual(['one', 'two']);
+    const broken = wrapRuns(doc, [{ text: 'Aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa' }], style, 50);
+    expect(broken.length).toBeGreaterThan(1);
+    broken.forEach(line => expect(line.width).toBeLessThanOrEqual(50));
+  });
+});
+
+describe('toPdfText', () => {
+  it('keeps Windows-1252 characters and replaces the rest', () => {
+    expect(toPdfText('Café — “Dragon’s” lair…')).toBe('Café — “Dragon’s” lair…');
+    expect(toPdfText('☐ Loot → 🐉')).toBe('[ ] Loot -> ?');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Text setting for the PDF exports
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Turns inline HTML into styled text runs, wraps runs into lines measured
+ * with jsPDF's font metrics, and draws the lines as vector text. The layouts
+ * in this folder build on these to place text on the page.
+ */
+
+import type jsPDF from 'jspdf';
+import type { HtmlNode } from '@/lib/html-tree';
+
+/**
+ * Color as red, green and blue from 0 to 255
+ */
+export type Rgb = readonly [number, number, number];
+
+/**
+ * Standard PDF font families, available without embedding fonts
+ */
+export type PdfFont = 'times' | 'helvetica' | 'courier';
+
+/**
+ * How a block of text is set
+ */
+export interface TextStyle {
+  font: PdfFont;
+  size: number; // Points
+  leading: number; // Line height in points
+  color: Rgb;
+  bold?: boolean;
+  italic?: boolean;
+  boldColor?: Rgb; // Color for bold runs, e.g. stat block labels
+}
+
+/**
+ * Stretch of text with the same inline formatting
+ */
+export interface TextRun {
+  text: string; // '\n' breaks the line
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+/**
+ * Run text placed on a line, at an offset from the line's start
+ */
+export interface LineFragment {
+  text: string;
+  run: TextRun;
+  x: number;
+  width: number;
+}
+
+/**
+ * One wrapped line of text
+ */
+export interface TypesetLine {
+  fragments: LineFragment[];
+  width: number;
+}
+
+/**
+ * Colors shared by the PDF layouts; stat block colors match the editor's
+ */
+export const PDF_COLORS = {
+  text: [28, 24, 20],
+  muted: [110, 96, 82],
+  heading: [88, 24, 13],
+  rule: [201, 173, 106],
+  statBlockText: [60, 36, 21],
+  statBlockAccent: [139, 0, 0],
+  statBlockRule: [232, 93, 4],
+  statBlockFill: [253, 246, 227],
+  quoteFill: [244, 239, 225],
+  quoteBar: [139, 69, 19],
+  secret: [124, 58, 237],
+  secretFill: [245, 243, 255],
+  tableStripe: [224, 229, 193],
+  codeFill: [245, 245, 245]
+} as const;
+
+/**
+ * Characters the standard fonts encode beyond Latin-1 (Windows-1252)
+ */
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/**
+ * Replacements for common characters the standard fonts can't draw
+ */
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  '\u202f': '\u00a0',
+  '−': '-',
+  '→': '->',
+  '←': '<-',
+  '☐': '[ ]',
+  '☑': '[x]',
+  '✓': 'x',
+  '★': '*'
+};
+
+/**
+ * Parse a hex color such as "#8b0000"
+ */
+export function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Text the standard fonts can draw; other characters become "?"
+ */
+export function toPdfText(text: string): string {
+  return Array.from(text, char => {
+    const replacement = TEXT_REPLACEMENTS[char];
+    if (replacement !== undefined) return replacement;
+    const code = char.charCodeAt(0);
+    if (char === '\n' || (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) {
+      return char;
+    }
+    return code < 0x20 ? ' ' : '?';
+  }).join('');
+}
+
+/**
+ * Runs for inline HTML; whitespace collapses as it does in the browser
+ */
+export function inlineRuns(nodes: HtmlNode[], marks: Omit<TextRun, 'text'> = {}): TextRun[] {
+  return nodes.flatMap((node): TextRun[] => {
+    if (node.type === 'text') {
+      return [{ ...marks, text: node.text.replace(/\s+/g, ' ') }];
+    }
+
+    switch (node.tag) {
+      case 'strong':
+      case 'b':
+        return inlineRuns(node.children, { ...marks, bold: true });
+      case 'em':
+      case 'i':
+        return inlineRuns(node.children, { ...marks, italic: true });
+      case 'code':
+        return inlineRuns(node.children, { ...marks, code: true });
+      case 'a':
+        return inlineRuns(node.children, node.attrs.href ? { ...marks, href: node.attrs.href } : marks);
+      case 'br':
+        return [{ ...marks, text: '\n' }];
+      default:
+        return inlineRuns(node.children, marks);
+    }
+  });
+}
+
+/**
+ * Set the font and color for a run in a style
+ */
+export function applyTextStyle(doc: jsPDF, style: TextStyle, run: Omit<TextRun, 'text'> = {}): void {
+  const bold = style.bold || run.bold;
+  const italic = style.italic || run.italic;
+  const fontStyle = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+  doc.setFont(run.code ? 'courier' : style.font, fontStyle);
+  doc.setFontSize(style.size);
+  doc.setTextColor(...(run.bold && style.boldColor ? style.boldColor : style.color));
+}
+
+/**
+ * Width of text set in a style, in points
+ */
+export function measureText(doc: jsPDF, text: string, style: TextStyle, run: Omit<TextRun, 'text'> = {}): number {
+  applyTextStyle(doc, style, run);
+  return doc.getTextWidth(text);
+}
+
+/**
+ * Wrap runs into lines no wider than maxWidth; words too long for a line
+ * are broken
+ */
+export function wrapRuns(doc: jsPDF, runs: TextRun[], style: TextStyle, maxWidth: number): TypesetLine[] {
+  const lines: TypesetLine[] = [];
+  let fragments: LineFragment[] = [];
+  let width = 0;
+  let pendingSpace: { run: TextRun; width: number } | null = null;
+
+  const endLine = () => {
+    lines.push({ fragments, width });
+    fragments = [];
+    width = 0;
+    pendingSpace = null;
+  };
+  const append = (text: string, run: TextRun, textWidth: number) => {
+    const last = fragments[fragments.length - 1];
+    if (last && last.run === run) {
+      last.text += text;
+      last.width += textWidth;
+    } else {
+      fragments.push({ text, run, x: width, width: textWidth });
+    }
+    width += textWidth;
+  };
+
+  for (const run of runs) {
+    for (const part of toPdfText(run.text).split(/(\n|[ \t]+)/)) {
+      if (!part) continue;
+      if (part === '\n') {
+        endLine();
+        continue;
+      }
+      if (/^[ \t]+$/.test(part)) {
+        // Spaces at the start of a line are dropped
+        if (fragments.length) pendingSpace = { run, width: measureText(doc, ' ', style, run) };
+        continue;
+      }
+
+      let word = part;
+      let wordWidth = measureText(doc, word, style, run);
+      const space: { run: TextRun; width: number } | null = pendingSpace;
+      if (fragments.length && width + (space?.width ?? 0) + wordWidth > maxWidth) {
+        endLine();
+      } else if (space) {
+        append(' ', space.run, space.width);
+      }
+      pendingSpace = null;
+
+      while (width + wordWidth > maxWidth && word.length > 1) {
+        let cut = word.length - 1;
+        while (cut > 1 && width + measureText(doc, word.slice(0, cut), style, run) > maxWidth) cut--;
+        append(word.slice(0, cut), run, measureText(doc, word.slice(0, cut), style, run));
+        endLine();
+        word = word.slice(cut);
+        wordWidth = measureText(doc, word, style, run);
+      }
+      append(word, run, wordWidth);
+    }
+  }
+
+  if (fragments.length) endLine();
+  return lines;
+}
+
+/**
+ * Draw a line with its left edge at x; links are underlined and clickable
+ */
+export function drawTypesetLine(doc: jsPDF, line: TypesetLine, x: number, baseline: number, style: TextStyle): void {
+  for (const fragment of line.fragments) {
+    applyTextStyle(doc, style, fragment.run);
+    doc.text(fragment.text, x + fragment.x, baseline);
+
+    if (fragment.run.href) {
+      doc.setDrawColor(...style.color);
+      doc.setLineWidth(0.4);
+      doc.line(x + fragment.x, baseline + 1.2, x + fragment.x + fragment.width, baseline + 1.2);
+      doc.link(x + fragment.x, baseline - style.size, fragment.width, style.leading, { url: fragment.run.href });
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Player copies for viewer shares
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * People a document is shared with as viewers are players. Firestore rules keep
+ * them out of the source document, its versions and its comments; instead they
+ * read a copy in the `playerCopies` collection with DM secrets and pending
+ * suggestions stripped. The copy is rewritten whenever the shares or the
+ * content change, and deleted when the last viewer is removed.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  limit,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { readPlayerHTML, toPlayerHTML } from '@/lib/dm-secrets';
+import type { Document, PlayerCopy } from '@/types/document';
+
+/**
+ * Collection holding player copies, keyed by source document ID
+ */
+export const PLAYER_COPIES = 'playerCopies';
+
+/**
+ * Whether a Firestore error is a rules denial
+ */
+export function isPermissionDeniedError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'permission-denied';
+}
+
+/**
+ * Build the player copy of a document
+ */
+export function toPlayerCopy(document: Document): PlayerCopy {
+  return {
+    id: document.id,
+    title: document.title,
+    content: toPlayerHTML(document.content || ''),
+    type: document.type,
+    status: document.status,
+    ownerId: document.userId,
+    viewers: document.viewerEmails || [],
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Firestore data for a player copy
+ */
+export function playerCopyData(document: Document): DocumentData {
+  const { id: _id, ...data } = toPlayerCopy(document);
+  return data;
+}
+
+/**
+ * Convert a Firestore snapshot to a player copy
+ */
+function convertPlayerCopy(docSnap: QueryDocumentSnapshot<DocumentData>): PlayerCopy {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    title: data.title,
+    content: readPlayerHTML(data.content),
+    type: data.type,
+    status: data.status,
+    ownerId: data.ownerId,
+    viewers: data.viewers || [],
+    updatedAt: data.updatedAt instanceof Timestamp
+      ? data.updatedAt.toDate()
+      : new Date(data.updatedAt)
+  };
+}
+
+/**
+ * Write, refresh or delete a document's player copy to match its viewers
+ *
+ * @param document - Source document as saved, including `viewerEmails`
+ */
+export async function syncPlayerCopy(document: Document): Promise<void> {
+  const copyRef = doc(db, PLAYER_COPIES, document.id);
+
+  try {
+    if (document.viewerEmails?.length) {
+      await setDoc(copyRef, playerCopyData(document));
+    } else {
+      await deleteDoc(copyRef);
+    }
+  } catch (error) {
+    console.error('Error syncing player copy:', error);
+    throw new Error('Failed to update the player copy');
+  }
+}
+
+/**
+ * Load the player copy of a document for a viewer
+ *
+ * @returns The copy, or null when it doesn't exist or isn't shared with the user
+ */
+export async function getPlayerCopy(documentId: string): Promise<PlayerCopy | null> {
+  try {
+    const docSnap = await getDoc(doc(db, PLAYER_COPIES, documentId));
+    return docSnap.exists() ? convertPlayerCopy(docSnap as QueryDocumentSnapshot<DocumentData>) : null;
+  } catch (error) {
+    // Rules deny reads of missing copies as well as copies for other viewers
+    if (isPermissionDeniedError(error)) {
+      return null;
+    }
+    console.error('Error loading player copy:', error);
+    throw new Error('Failed to load document');
+  }
+}
+
+/**
+ * Get the player copies shared with a viewer
+ *
+ * @param email - Viewer's email, lowercased
+ */
+export async function getPlayerCopiesFor(email: string, docLimit: number = 50): Promise<PlayerCopy[]> {
+  const q = query(
+    collection(db, PLAYER_COPIES),
+    where('viewers', 'array-contains', email),
+    limit(docLimit)
+  );
+
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(convertPlayerCopy);
+}
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Public player view service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Publishes a sanitized, read-only copy of a document to the `publicDocuments`
+ * collection so players can open it at /view/:documentId without an account.
+ * Only the copy is world-readable; the source document keeps its own rules.
+ * DM secret blocks never leave the source document. Revoking the link deletes the copy.
+ */
+
+import {
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { readPlayerHTML, toPlayerHTML } from '@/lib/dm-secrets';
+import type { BulkDocumentResult, Document, PublicDocument } from '@/types/document';
+import { bulkUpdateDocuments, isGuestUser, updateDocument } from './documents';
+
+/**
+ * Collection holding published copies
+ */
+const PUBLIC_DOCUMENTS = 'publicDocuments';
+
+/**
+ * Build the shareable player link for a document
+ */
+export function getPublicViewUrl(documentId: string): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}/view/${documentId}`;
+}
+
+/**
+ * Write (or refresh) the published copy of a public document
+ *
+ * @param document - Source document; must already be public
+ */
+export async function publishDocument(document: Document): Promise<PublicDocument> {
+  if (isGuestUser(document.userId)) {
+    throw new Error('Sign in to publish player links');
+  }
+
+  const publicDocument: PublicDocument = {
+    id: document.id,
+    title: document.title,
+    content: toPlayerHTML(document.content || ''),
+    type: document.type,
+    ownerId: document.userId,
+    publishedAt: new Date()
+  };
+
+  try {
+    const { id, ...data } = publicDocument;
+    await setDoc(doc(db, PUBLIC_DOCUMENTS, id), data);
+    console.log('🌐 Public view published:', id);
+    return publicDocument;
+  } catch (error) {
+    console.error('Error publishing document:', error);
+    throw new Error('Failed to publish document');
+  }
+}
+
+/**
+ * Turn the public player link on or off
+ *
+ * Revoking deletes the published copy first so the link stops working even if
+ * the privacy update fails.
+ */
+export async function setPublicLinkEnabled(
+  document: Document,
+  userId: string,
+  enabled: boolean
+): Promise<Document> {
+  if (document.userId !== userId) {
+    throw new Error('Permission denied - only the document owner can change the player link');
+  }
+
+  if (enabled) {
+    const updatedDocument = await updateDocument(document.id, userId, { privacy: 'public' });
+    await publishDocument(updatedDocument);
+    return updatedDocument;
+  }
+
+  try {
+    await deleteDoc(doc(db, PUBLIC_DOCUMENTS, document.id));
+  } catch (error) {
+    console.error('Error unpublishing document:', error);
+    throw new Error('Failed to revoke player link');
+  }
+
+  return updateDocument(document.id, userId, {
+    privacy: document.sharedWith?.length ? 'shared' : 'private'
+  });
+}
+
+/**
+ * Turn the public player link on or off for many documents
+ *
+ * Privacy changes in batches; documents made public are then published one by
+ * one, and any that fail to publish are reported as failed.
+ */
+export async function bulkSetPublicLinkEnabled(
+  documentIds: string[],
+  userId: string,
+  enabled: boolean
+): Promise<BulkDocumentResult> {
+  if (enabled && isGuestUser(userId)) {
+    throw new Error('Sign in to publish player links');
+  }
+
+  const result = await bulkUpdateDocuments(documentIds, userId, {
+    privacy: enabled ? 'public' : 'private'
+  });
+  if (!enabled) {
+    return result;
+  }
+
+  const published: BulkDocumentResult = { succeededIds: [], failures: result.failures, documents: [] };
+  for (const document of result.documents) {
+    try {
+      await publishDocument(document);
+      published.succeededIds.push(document.id);
+    } catch (error) {
+      published.failures.push({
+        documentId: document.id,
+        error: error instanceof Error ? error.message : 'Failed to publish document'
+      });
+    }
+    // The document is public either way
+    published.documents.push(document);
+  }
+  return published;
+}
+
+/**
+ * Load a published document for the player view (no sign-in required)
+ *
+ * @returns The published copy, or null when the link was never published or was revoked
+ */
+export async function getPublicDocument(documentId: string): Promise<PublicDocument | null> {
+  try {
+    const docSnap = await getDoc(doc(db, PUBLIC_DOCUMENTS, documentId));
+    if (!docSnap.exists()) {
+      return null;
+    }
+
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      title: data.title,
+      content: readPlayerHTML(data.content),
+      type: data.type,
+      ownerId: data.ownerId,
+      publishedAt: data.publishedAt instanceof Timestamp
+        ? data.publishedAt.toDate()
+        : new Date(data.publishedAt)
+    };
+  } catch (error) {
+    console.error('Error loading public document:', error);
+    throw new Error('Failed to load document');
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Firestore security rule tests for document sharing
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Runs against the Firestore emulator: `npm run test:rules`.
+ * Skipped when FIRESTORE_EMULATOR_HOST is not set.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import {
+  initializeTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const OWNER = { uid: 'owner', email: 'dm@example.com' };
+const VIEWER = { uid: 'viewer', email: 'Viewer@Example.com' };
+const COMMENTER = { uid: 'commenter', email: 'commenter@example.com' };
+const EDITOR = { uid: 'editor', email: 'editor@example.com' };
+const STRANGER = { uid: 'stranger', email: 'stranger@example.com' };
+
+const sharedDocument = {
+  title: 'Curse of the Lich',
+  content: '<p>The lich waits below.</p>',
+  userId: OWNER.uid,
+  privacy: 'shared',
+  sharedWith: ['viewer@example.com', 'commenter@example.com', 'editor@example.com'],
+  memberEmails: ['commenter@example.com', 'editor@example.com'],
+  viewerEmails: ['viewer@example.com'],
+  shareRoles: {
+    'viewer@example.com': 'viewer',
+    'commenter@example.com': 'commenter',
+    'editor@example.com': 'editor'
+  },
+  version: 1
+};
+
+const playerCopy = {
+  title: 'Curse of the Lich',
+  content: '<p>The lich waits below.</p>',
+  type: 'campaign',
+  status: 'draft',
+  ownerId: OWNER.uid,
+  viewers: ['viewer@example.com']
+};
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('Document sharing rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const as = (user: { uid: string; email: string }) =>
+    testEnv.authenticatedContext(user.uid, { email: user.email }).firestore();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-dungeons-and-drafting',
+      firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') }
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().collection('documents').doc('doc1').set(sharedDocument);
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  it('should let owners, commenters and editors read, but not viewers or strangers', async () => {
+    await assertSucceeds(as(OWNER).collection('documents').doc('doc1').get());
+    await assertSucceeds(as(COMMENTER).collection('documents').doc('doc1').get());
+    await assertSucceeds(as(EDITOR).collection('documents').doc('doc1').get());
+    await assertFails(as(VIEWER).collection('documents').doc('doc1').get());
+    await assertFails(as(STRANGER).collection('documents').doc('doc1').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().collection('documents').doc('doc1').get());
+  });
+
+  it('should allow the "Shared with me" query only for the matching email', async () => {
+    await assertSucceeds(
+      as(EDITOR).collection('documents').where('memberEmails', 'array-contains', 'editor@example.com').get()
+    );
+    await assertFails(
+      as(STRANGER).collection('documents').where('memberEmails', 'array-contains', 'editor@example.com').get()
+    );
+    await assertFails(
+      as(VIEWER).collection('documents').where('sharedWith', 'array-contains', 'viewer@example.com').get()
+    );
+  });
+
+  it('should serve viewers only the player copy, written by people who can edit', async () => {
+    const copies = (user: { uid: string; email: string }) => as(user).collection('playerCopies');
+
+    await assertSucceeds(copies(EDITOR).doc('doc1').set(playerCopy));
+    await assertFails(copies(VIEWER).doc('doc1').set(playerCopy));
+    await assertFails(copies(OWNER).doc('doc1').set({ ...playerCopy, viewers: ['stranger@example.com'] }));
+
+    await assertSucceeds(copies(VIEWER).doc('doc1').get());
+    await assertSucceeds(copies(VIEWER).where('viewers', 'array-contains', 'viewer@example.com').get());
+    await assertFails(copies(STRANGER).doc('doc1').get());
+    await assertFails(copies(COMMENTER).doc('doc1').get());
+
+    await assertFails(copies(VIEWER).doc('doc1').delete());
+    await assertSucceeds(copies(OWNER).doc('doc1').delete());
+  });
+
+  it('should let editors change content but not viewers or commenters', async () => {
+    await assertSucceeds(as(EDITOR).collection('documents').doc('doc1').update({ content: '<p>Edited</p>' }));
+    await assertFails(as(VIEWER).collection('documents').doc('doc1').update({ content: '<p>Nope</p>' }));
+    await assertFails(as(COMMENTER).collection('documents').doc('doc1').update({ content: '<p>Nope</p>' }));
+  });
+
+  it('should keep sharing, privacy, ownership and the trash owner-only', async () => {
+    const editorDb = as(EDITOR);
+    await assertFails(editorDb.collection('documents').doc('doc1').update({
+      shareRoles: { ...sharedDocument.shareRoles, 'stranger@example.com': 'editor' }
+    }));
+    await assertFails(editorDb.collection('documents').doc('doc1').update({ privacy: 'public' }));
+    await assertFails(editorDb.collection('documents').doc('doc1').update({ viewerEmails: ['stranger@example.com'] }));
+    await assertFails(editorDb.collection('documents').doc('doc1').update({ userId: EDITOR.uid }));
+    await assertFails(editorDb.collection('documents').doc('doc1').delete());
+    await assertFails(editorDb.collection('documents').doc('doc1').update({ status: 'trashed' }));
+
+    await assertSucceeds(as(OWNER).collection('documents').doc('doc1').update({
+      sharedWith: ['editor@example.com'],
+      shareRoles: { 'editor@example.com': 'editor' }
+    }));
+  });
+
+  it('should let editors snapshot versions and keep viewers out of them', async () => {
+    await assertSucceeds(
+      as(EDITOR).collection('documents').doc('doc1').collection('versions').add({ content: '<p>v1</p>' })
+    );
+    await assertFails(
+      as(VIEWER).collection('documents').doc('doc1').collection('versions').add({ content: '<p>v2</p>' })
+    );
+    await assertSucceeds(as(COMMENTER).collection('documents').doc('doc1').collection('versions').get());
+    await assertFails(as(VIEWER).collection('documents').doc('doc1').collection('versions').get());
+  });
+
+  it('should let commenters start and resolve threads but keep viewers out', async () => {
+    const comments = (user: { uid: string; email: string }) =>
+      as(user).collection('documents').doc('doc1').collection('comments');
+    const comment = { anchor: { quote: 'lich', prefix: 'The ', suffix: ' waits', start: 4 }, body: 'Too obvious?', resolved: false };
+
+    await assertSucceeds(comments(COMMENTER).doc('c1').set({ ...comment, authorId: COMMENTER.uid }));
+    await assertFails(comments(COMMENTER).doc('c2').set({ ...comment, authorId: OWNER.uid }));
+    await assertFails(comments(VIEWER).doc('c3').set({ ...comment, authorId: VIEWER.uid }));
+    await assertFails(comments(VIEWER).get());
+
+    await assertSucceeds(comments(EDITOR).doc('c1').update({ resolved: true }));
+    await assertFails(comments(EDITOR).doc('c1').update({ body: 'Rewritten' }));
+    await assertSucceeds(comments(COMMENTER).doc('c1').update({ body: 'Too obvious? Maybe.' }));
+
+    await assertFails(comments(EDITOR).doc('c1').delete());
+    await assertSucceeds(comments(OWNER).doc('c1').delete());
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Document sharing service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Invites people to a document by email with a viewer, commenter or editor
+ * role, and lists the documents other users have shared with the current user.
+ * Roles are enforced server-side by firestore.rules. Viewers are players: they
+ * never read the document itself, only its player copy (see player-copies).
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  limit,
+  serverTimestamp,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { Document, DocumentRole, DocumentShare } from '@/types/document';
+import { isGuestUser, convertFirestoreDocument, playerCopyToDocument } from './documents';
+import { getPlayerCopiesFor, syncPlayerCopy } from './player-copies';
+
+/**
+ * Maximum number of people a document can be shared with
+ */
+export const MAX_DOCUMENT_SHARES = 25;
+
+/**
+ * Basic email shape check for invites
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Normalize an email so it matches Firebase Auth token emails in rules
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Validate an invite email address
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+/**
+ * List the people a document is shared with
+ */
+export function getDocumentShares(document: Document): DocumentShare[] {
+  return Object.entries(document.shareRoles || {})
+    .map(([email, role]) => ({ email, role }))
+    .sort((a, b) => a.email.localeCompare(b.email));
+}
+
+/**
+ * Load a document and verify the caller owns it
+ */
+async function getOwnedDocument(documentId: string, userId: string): Promise<Document> {
+  const docSnap = await getDoc(doc(db, 'documents', documentId));
+  if (!docSnap.exists()) {
+    throw new Error('Document not found');
+  }
+
+  const document = convertFirestoreDocument(docSnap as QueryDocumentSnapshot<DocumentData>);
+  if (document.userId !== userId) {
+    throw new Error('Permission denied - only the document owner can manage sharing');
+  }
+  return document;
+}
+
+/**
+ * Write the share map, keeping the queryable email lists and the viewers'
+ * player copy in step with it
+ */
+async function writeShares(
+  document: Document,
+  shareRoles: Record<string, DocumentRole>
+): Promise<Document> {
+  const sharedWith = Object.keys(shareRoles);
+  const memberEmails = sharedWith.filter(email => shareRoles[email] !== 'viewer');
+  const viewerEmails = sharedWith.filter(email => shareRoles[email] === 'viewer');
+  const privacy = sharedWith.length > 0
+    ? (document.privacy === 'public' ? 'public' : 'shared')
+    : (document.privacy === 'shared' ? 'private' : document.privacy);
+
+  await updateDoc(doc(db, 'documents', document.id), {
+    shareRoles,
+    sharedWith,
+    memberEmails,
+    viewerEmails,
+    privacy,
+    updatedAt: serverTimestamp()
+  });
+
+  const updatedDocument: Document = { ...document, shareRoles, sharedWith, memberEmails, viewerEmails, privacy, updatedAt: new Date() };
+  // Rules only accept a copy whose viewers match the document, so this follows the share update
+  if (viewerEmails.length > 0 || document.viewerEmails?.length) {
+    await syncPlayerCopy(updatedDocument);
+  }
+  return updatedDocument;
+}
+
+/**
+ * Share a document with someone, or change their role
+ *
+ * @param documentId - Document to share
+ * @param userId - Owner's user ID
+ * @param email - Invitee's email address
+ * @param role - Access to grant
+ * @returns The updated document
+ */
+export async function shareDocument(
+  documentId: string,
+  userId: string,
+  email: string,
+  role: DocumentRole
+): Promise<Document> {
+  if (isGuestUser(userId)) {
+    throw new Error('Sign in to share documents');
+  }
+  if (!isValidEmail(email)) {
+    throw new Error('Please enter a valid email address');
+  }
+
+  try {
+    const document = await getOwnedDocument(documentId, userId);
+    const normalizedEmail = normalizeEmail(email);
+    const shareRoles = { ...(document.shareRoles || {}) };
+
+    if (!shareRoles[normalizedEmail] && Object.keys(shareRoles).length >= MAX_DOCUMENT_SHARES) {
+      throw new Error(`Documents can be shared with at most ${MAX_DOCUMENT_SHARES} people`);
+    }
+
+    shareRoles[normalizedEmail] = role;
+    const updatedDocument = await writeShares(document, shareRoles);
+
+    console.log('🔗 Document shared:', documentId, normalizedEmail, role);
+    return updatedDocument;
+  } catch (error) {
+    console.error('Error sharing document:', error);
+    throw error instanceof Error ? error : new Error('Failed to share document');
+  }
+}
+
+/**
+ * Stop sharing a document with someone
+ */
+export async function removeDocumentShare(
+  documentId: string,
+  userId: string,
+  email: string
+): Promise<Document> {
+  try {
+    const document = await getOwnedDocument(documentId, userId);
+    const shareRoles = { ...(document.shareRoles || {}) };
+    delete shareRoles[normalizeEmail(email)];
+
+    return await writeShares(document, shareRoles);
+  } catch (error) {
+    console.error('Error removing document share:', error);
+    throw new Error('Failed to remove access');
+  }
+}
+
+/**
+ * Get documents other users have shared with the current user
+ *
+ * @param userId - Current user's ID
+ * @param email - Current user's email (shares are keyed by email)
+ */
+export async function getSharedWithMe(
+  userId: string,
+  email: string | null,
+  docLimit: number = 50
+): Promise<Document[]> {
+  if (isGuestUser(userId) || !email) {
+    return [];
+  }
+
+  try {
+    const normalizedEmail = normalizeEmail(email);
+    const q = query(
+      collection(db, 'documents'),
+      where('memberEmails', 'array-contains', normalizedEmail),
+      limit(docLimit)
+    );
+
+    const [querySnapshot, playerCopies] = await Promise.all([
+      getDocs(q),
+      getPlayerCopiesFor(normalizedEmail, docLimit)
+    ]);
+    return [
+      ...querySnapshot.docs.map(convertFirestoreDocument),
+      ...playerCopies.map(copy => playerCopyToDocument(copy, normalizedEmail))
+    ]
+      .filter(document => document.userId !== userId && document.status !== 'trashed')
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, docLimit);
+  } catch (error) {
+    console.error('Error getting shared documents:', error);
+    throw new Error('Failed to get shared documents');
+  }
+}
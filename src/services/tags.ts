@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Tag registry service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * A user's tags with usage counts, colors, and renaming or merging tags across
+ * all of their documents. Counts and spellings come from the documents; only
+ * chosen colors are stored, in Firestore for authenticated users and in
+ * IndexedDB for guests. Documents in the trash keep the tags they had.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { createRecordStore } from '@/lib/indexed-db';
+import { summarizeTags, tagKey, type TagColor, type TagSummary } from '@/lib/document-tags';
+import { bulkUpdateDocuments, getAllUserDocuments, isGuestUser } from './documents';
+import type { BulkDocumentResult } from '@/types/document';
+
+/**
+ * Collection names
+ */
+const COLLECTIONS = {
+  TAGS: 'tags'
+} as const;
+
+/**
+ * Stored settings for one of a user's tags
+ */
+interface TagRecord {
+  id: string; // `${userId}_${key}`, URI-encoded
+  userId: string;
+  key: string;
+  color: TagColor;
+}
+
+/**
+ * Local tag storage for guest users
+ */
+const guestTagStore = createRecordStore<TagRecord>({
+  databaseName: 'dungeons-and-drafting-guest-tags',
+  storeName: 'tags',
+  indexes: ['userId']
+});
+
+/**
+ * ID of a user's record for a tag
+ */
+function getTagRecordId(userId: string, tag: string): string {
+  return encodeURIComponent(`${userId}_${tagKey(tag)}`);
+}
+
+/**
+ * Get the colors a user picked, by tag key
+ */
+async function getTagColors(userId: string): Promise<Record<string, TagColor>> {
+  const records = isGuestUser(userId)
+    ? await guestTagStore.getAll({ field: 'userId', value: userId })
+    : (await getDocs(query(collection(db, COLLECTIONS.TAGS), where('userId', '==', userId))))
+        .docs.map(docSnap => docSnap.data() as TagRecord);
+
+  return Object.fromEntries(records.map(record => [record.key, record.color]));
+}
+
+/**
+ * Get every tag on a user's documents with how many documents use it
+ */
+export async function getUserTags(userId: string): Promise<TagSummary[]> {
+  try {
+    const [documents, colors] = await Promise.all([
+      getAllUserDocuments(userId),
+      getTagColors(userId)
+    ]);
+    return summarizeTags(documents, colors);
+  } catch (error) {
+    console.error('Error getting tags:', error);
+    throw new Error('Failed to get tags');
+  }
+}
+
+/**
+ * Pick the color a tag is shown in
+ */
+export async function setTagColor(userId: string, tag: string, color: TagColor): Promise<void> {
+  const record: TagRecord = { id: getTagRecordId(userId, tag), userId, key: tagKey(tag), color };
+
+  if (isGuestUser(userId)) {
+    await guestTagStore.put(record);
+    return;
+  }
+
+  try {
+    const { id, ...data } = record;
+    await setDoc(doc(db, COLLECTIONS.TAGS, id), data);
+  } catch (error) {
+    console.error('Error saving tag color:', error);
+    throw new Error('Failed to save tag color');
+  }
+}
+
+/**
+ * Forget a tag's color
+ */
+async function clearTagColor(userId: string, tag: string): Promise<void> {
+  const id = getTagRecordId(userId, tag);
+  if (isGuestUser(userId)) {
+    await guestTagStore.delete(id);
+  } else {
+    await deleteDoc(doc(db, COLLECTIONS.TAGS, id));
+  }
+}
+
+/**
+ * Replace tags with one tag on every document that has any of them
+ *
+ * The target keeps its color, or takes the color of the first source tag
+ * that had one.
+ *
+ * @param fromTags - Tags to replace, in any spelling
+ * @param toTag - Tag they become
+ */
+export async function mergeTags(userId: string, fromTags: string[], toTag: string): Promise<BulkDocumentResult> {
+  const target = toTag.trim();
+  if (!target) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  const fromKeys = new Set(fromTags.map(tagKey));
+  const documents = await getAllUserDocuments(userId);
+  const tagged = documents.filter(document =>
+    document.userId === userId && document.tags.some(tag => fromKeys.has(tagKey(tag)))
+  );
+
+  const result = await bulkUpdateDocuments(tagged.map(document => document.id), userId, {
+    replaceTags: { from: fromTags, to: target }
+  });
+
+  // Carry a color over, then drop colors of tags no longer in use
+  try {
+    const colors = await getTagColors(userId);
+    const carried = colors[tagKey(target)] ?? fromTags.map(tag => colors[tagKey(tag)]).find(Boolean);
+    if (carried) {
+      await setTagColor(userId, target, carried);
+    }
+    if (result.failures.length === 0) {
+      for (const key of fromKeys) {
+        if (key !== tagKey(target) && colors[key]) {
+          await clearTagColor(userId, key);
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('Error moving tag colors:', error);
+  }
+
+  console.log('🔄 Tags merged into', target, '-', result.succeededIds.length, 'documents updated');
+  return result;
+}
+
+/**
+ * Rename a tag on every document that has it
+ */
+export async function renameTag(userId: string, fromTag: string, toTag: string): Promise<BulkDocumentResult> {
+  return mergeTags(userId, [fromTag], toTag);
+}
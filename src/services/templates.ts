@@ -0,0 +1,375 @@
+/**
+ * @fileoverview Document template service
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Serves the built-in templates plus templates users save from their own
+ * documents. Template content may contain `{{field}}` placeholders that are
+ * filled in when a document is created from it. Authenticated users keep
+ * templates in Firestore, guest users in IndexedDB.
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+  serverTimestamp,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { createRecordStore } from '@/lib/indexed-db';
+import { fillTemplateFields } from '@/lib/template-fields';
+import { withoutTrackedChanges } from '@/lib/tracked-changes';
+import { createDocument, isGuestUser } from './documents';
+import type {
+  CreateDocumentData,
+  CreateTemplateData,
+  Document,
+  DocumentTemplate
+} from '@/types/document';
+
+/**
+ * Collection names
+ */
+const COLLECTIONS = {
+  TEMPLATES: 'templates'
+} as const;
+
+/**
+ * Longest template name accepted
+ */
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+/**
+ * Category for templates saved without one
+ */
+const DEFAULT_CATEGORY = 'My Templates';
+
+/**
+ * Templates that ship with the app
+ */
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: 'builtin_one_shot',
+    name: 'One-Shot Outline',
+    description: 'A complete adventure for a single session: hook, three acts and rewards.',
+    type: 'campaign',
+    category: 'Adventures',
+    isDefault: true,
+    tags: ['one-shot'],
+    content: [
+      '<h1>{{adventureName}}</h1>',
+      '<p><strong>Party level:</strong> {{partyLevel}} • <strong>Players:</strong> {{playerCount}} • <strong>Length:</strong> {{sessionLength}}</p>',
+      '<h2>Hook</h2>',
+      '<p>How the party is drawn in, and who asks for their help.</p>',
+      '<h2>Act I: The Call</h2>',
+      '<p>Opening scene in {{startingLocation}}. What do the characters see, hear and learn?</p>',
+      '<h2>Act II: Complications</h2>',
+      '<ul><li>Encounter:</li><li>Clue:</li><li>Twist:</li></ul>',
+      '<h2>Act III: Showdown</h2>',
+      '<p>The final confrontation with {{villain}}. Terrain, tactics and what happens if the party fails.</p>',
+      '<h2>Rewards</h2>',
+      '<ul><li>Treasure:</li><li>Experience:</li><li>Story consequences:</li></ul>'
+    ].join('')
+  },
+  {
+    id: 'builtin_session_recap',
+    name: 'Session Recap',
+    description: 'Notes to read back at the start of the next session.',
+    type: 'campaign',
+    category: 'Sessions',
+    isDefault: true,
+    tags: ['session notes'],
+    content: [
+      '<h1>Session {{sessionNumber}} Recap</h1>',
+      '<p><strong>Date played:</strong> {{datePlayed}}</p>',
+      '<h2>Previously</h2>',
+      '<p>What happened, in a few sentences the players will remember.</p>',
+      '<h2>Key Events</h2>',
+      '<ul><li></li></ul>',
+      '<h2>NPCs Met</h2>',
+      '<ul><li></li></ul>',
+      '<h2>Loot and Rewards</h2>',
+      '<ul><li></li></ul>',
+      '<h2>Open Threads</h2>',
+      '<ul><li></li></ul>',
+      '<h2>Next Session</h2>',
+      '<p>Where the party is headed and what to prepare.</p>'
+    ].join('')
+  },
+  {
+    id: 'builtin_npc_sheet',
+    name: 'NPC Sheet',
+    description: 'Appearance, personality, motivations and secrets for one character.',
+    type: 'backgrounds',
+    category: 'Characters',
+    isDefault: true,
+    tags: ['npc'],
+    content: [
+      '<h1>{{npcName}}</h1>',
+      '<p><em>{{race}} {{occupation}}, found in {{location}}</em></p>',
+      '<h2>Appearance</h2>',
+      '<p></p>',
+      '<h2>Personality</h2>',
+      '<ul><li><strong>Trait:</strong> </li><li><strong>Ideal:</strong> </li><li><strong>Bond:</strong> </li><li><strong>Flaw:</strong> </li></ul>',
+      '<h2>Voice and Mannerisms</h2>',
+      '<p></p>',
+      '<h2>Wants</h2>',
+      '<p></p>',
+      '<h2>Secret</h2>',
+      '<p>What {{npcName}} will not admit to the party.</p>'
+    ].join('')
+  },
+  {
+    id: 'builtin_tavern',
+    name: 'Tavern',
+    description: 'An inn or tavern with staff, patrons, menu and rumors.',
+    type: 'other',
+    category: 'Locations',
+    isDefault: true,
+    tags: ['tavern', 'location'],
+    content: [
+      '<h1>{{tavernName}}</h1>',
+      '<p><em>A tavern in {{town}}, run by {{innkeeper}}.</em></p>',
+      '<h2>Description</h2>',
+      '<p>Sights, sounds and smells as the party walks in.</p>',
+      '<h2>Staff</h2>',
+      '<ul><li><strong>{{innkeeper}}</strong>, innkeeper:</li><li></li></ul>',
+      '<h2>Patrons</h2>',
+      '<ul><li></li><li></li></ul>',
+      '<h2>Menu</h2>',
+      '<ul><li>Ale (4 cp)</li><li>Hearty stew (1 sp)</li><li>Room for the night ({{roomPrice}})</li></ul>',
+      '<h2>Rumors</h2>',
+      '<ol><li></li><li></li><li></li></ol>'
+    ].join('')
+  },
+  {
+    id: 'builtin_dungeon_room_key',
+    name: 'Dungeon Room Key',
+    description: 'Numbered room entries for a dungeon map.',
+    type: 'campaign',
+    category: 'Locations',
+    isDefault: true,
+    tags: ['dungeon'],
+    content: [
+      '<h1>{{dungeonName}}</h1>',
+      '<p><strong>Party level:</strong> {{partyLevel}} • <strong>Wandering monsters:</strong> check every {{wanderingCheck}}</p>',
+      '<h2>1. Entrance</h2>',
+      '<p><em>Read aloud:</em> </p>',
+      '<ul><li><strong>Creatures:</strong> </li><li><strong>Traps:</strong> </li><li><strong>Treasure:</strong> </li><li><strong>Exits:</strong> </li></ul>',
+      '<h2>2. </h2>',
+      '<p><em>Read aloud:</em> </p>',
+      '<ul><li><strong>Creatures:</strong> </li><li><strong>Traps:</strong> </li><li><strong>Treasure:</strong> </li><li><strong>Exits:</strong> </li></ul>',
+      '<h2>3. </h2>',
+      '<p><em>Read aloud:</em> </p>',
+      '<ul><li><strong>Creatures:</strong> </li><li><strong>Traps:</strong> </li><li><strong>Treasure:</strong> </li><li><strong>Exits:</strong> </li></ul>'
+    ].join('')
+  }
+];
+
+/**
+ * Local template storage for guest users
+ */
+const guestTemplateStore = createRecordStore<DocumentTemplate>({
+  databaseName: 'dungeons-and-drafting-guest-templates',
+  storeName: 'templates',
+  indexes: ['userId']
+});
+let guestTemplateCounter = 1;
+
+/**
+ * Convert Firestore template document to DocumentTemplate type
+ */
+function convertFirestoreTemplate(docSnap: QueryDocumentSnapshot<DocumentData>): DocumentTemplate {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    name: data.name || 'Untitled Template',
+    description: data.description || '',
+    type: data.type || 'other',
+    content: data.content || '',
+    isDefault: false,
+    category: data.category || DEFAULT_CATEGORY,
+    tags: data.tags || [],
+    userId: data.userId,
+    createdAt: data.createdAt instanceof Timestamp
+      ? data.createdAt.toDate()
+      : new Date(data.createdAt ?? Date.now())
+  };
+}
+
+/**
+ * Validate and trim a template name
+ */
+function normalizeName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Template name cannot be empty');
+  }
+  if (trimmed.length > MAX_TEMPLATE_NAME_LENGTH) {
+    throw new Error(`Template names are limited to ${MAX_TEMPLATE_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Get the templates a user has saved, newest first
+ */
+export async function getUserTemplates(userId: string): Promise<DocumentTemplate[]> {
+  const byNewest = (a: DocumentTemplate, b: DocumentTemplate) =>
+    (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+
+  if (isGuestUser(userId)) {
+    const templates = await guestTemplateStore.getAll({ field: 'userId', value: userId });
+    return templates.sort(byNewest);
+  }
+
+  try {
+    const querySnapshot = await getDocs(
+      query(collection(db, COLLECTIONS.TEMPLATES), where('userId', '==', userId))
+    );
+    return querySnapshot.docs.map(convertFirestoreTemplate).sort(byNewest);
+  } catch (error) {
+    console.error('Error getting templates:', error);
+    throw new Error('Failed to get templates');
+  }
+}
+
+/**
+ * Get every template available to a user: built-ins first, then their own
+ */
+export async function getTemplates(userId: string): Promise<DocumentTemplate[]> {
+  return [...BUILT_IN_TEMPLATES, ...await getUserTemplates(userId)];
+}
+
+/**
+ * Save a copy of a document's content as a user template
+ *
+ * Pending suggestions are left out; the template keeps the document's type
+ * and tags.
+ */
+export async function saveDocumentAsTemplate(
+  document: Document,
+  userId: string,
+  data: CreateTemplateData
+): Promise<DocumentTemplate> {
+  const templateData = {
+    name: normalizeName(data.name),
+    description: data.description?.trim() || '',
+    type: document.type,
+    content: withoutTrackedChanges(document.content || ''),
+    category: data.category?.trim() || DEFAULT_CATEGORY,
+    tags: document.tags,
+    userId
+  };
+
+  if (isGuestUser(userId)) {
+    const template: DocumentTemplate = {
+      id: `guest_template_${guestTemplateCounter++}_${Date.now()}`,
+      ...templateData,
+      isDefault: false,
+      createdAt: new Date()
+    };
+    await guestTemplateStore.add(template);
+    console.log('🔄 Guest template saved locally:', template.id);
+    return template;
+  }
+
+  try {
+    const docRef = await addDoc(collection(db, COLLECTIONS.TEMPLATES), {
+      ...templateData,
+      createdAt: serverTimestamp()
+    });
+    return { id: docRef.id, ...templateData, isDefault: false, createdAt: new Date() };
+  } catch (error) {
+    console.error('Error saving template:', error);
+    throw new Error('Failed to save template');
+  }
+}
+
+/**
+ * Delete one of the user's templates; built-ins can't be deleted
+ */
+export async function deleteTemplate(templateId: string, userId: string): Promise<void> {
+  if (BUILT_IN_TEMPLATES.some(template => template.id === templateId)) {
+    throw new Error('Built-in templates cannot be deleted');
+  }
+
+  if (isGuestUser(userId)) {
+    const template = await guestTemplateStore.get(templateId);
+    if (!template || template.userId !== userId) {
+      throw new Error('Template not found');
+    }
+    await guestTemplateStore.delete(templateId);
+    return;
+  }
+
+  try {
+    const docRef = doc(db, COLLECTIONS.TEMPLATES, templateId);
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists() || docSnap.data().userId !== userId) {
+      throw new Error('Template not found');
+    }
+    await deleteDoc(docRef);
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    throw new Error('Failed to delete template');
+  }
+}
+
+/**
+ * Create a document from a template, filling in its fields
+ *
+ * The document takes the template's type and tags unless `data` sets its own.
+ *
+ * @param values - Field values by key; blank fields stay as `{{field}}`
+ */
+export async function createDocumentFromTemplate(
+  userId: string,
+  template: DocumentTemplate,
+  values: Record<string, string>,
+  data: CreateDocumentData
+): Promise<Document> {
+  return createDocument(userId, {
+    ...data,
+    type: data.type ?? template.type,
+    tags: data.tags?.length ? data.tags : template.tags ?? [],
+    content: fillTemplateFields(template.content, values)
+  });
+}
+
+/**
+ * Move a guest's templates into a signed-in user's account
+ *
+ * @returns How many templates were left behind
+ */
+export async function migrateGuestTemplates(guestId: string, userId: string): Promise<number> {
+  if (!isGuestUser(guestId) || isGuestUser(userId)) {
+    return 0;
+  }
+
+  let failedCount = 0;
+  const guestTemplates = await guestTemplateStore.getAll({ field: 'userId', value: guestId });
+  for (const guestTemplate of guestTemplates) {
+    try {
+      const { id, isDefault, createdAt, ...templateData } = guestTemplate;
+      await addDoc(collection(db, COLLECTIONS.TEMPLATES), {
+        ...templateData,
+        userId,
+        createdAt: createdAt ?? serverTimestamp()
+      });
+      await guestTemplateStore.delete(id);
+    } catch (error) {
+      console.error('Error migrating guest template:', guestTemplate.id, error);
+      failedCount++;
+    }
+  }
+  return failedCount;
+}
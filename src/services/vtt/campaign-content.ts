@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Campaign content shared by the tabletop exporters
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Reads a generated campaign into the pieces both tabletops need: creatures
+ * with parsed stat blocks, HTML for the generator's plain text fields, and
+ * ids that stay the same each time a campaign is exported, so re-importing
+ * updates documents instead of duplicating them.
+ */
+
+import { escapeHTML, findElements, parseHTML } from '@/lib/html-tree';
+import {
+  getStatBlockProperty,
+  isStatBlockElement,
+  parseChallengeRating,
+  parseCreatureMeta,
+  parseHitPoints,
+  parseSpeeds,
+  parseStatBlock,
+  parseStatBlockMarkdown,
+  type StatBlock
+} from '@/lib/stat-block';
+import type { CampaignEncounter, GeneratedCampaign } from '@/services/ai/campaign-generator';
+
+/**
+ * A creature to export: each NPC, and each stat block no NPC uses
+ */
+export interface CampaignCreature {
+  key: string; // Stable across exports, for deriving ids
+  name: string;
+  kind: 'monster' | 'npc';
+  statBlockId?: string;
+  statBlock: StatBlock | null; // Null when the stats couldn't be read
+  challengeRating: string;
+  biography: string; // HTML
+}
+
+/**
+ * Game statistics for a creature, as numbers where the tabletops want them
+ */
+export interface CreatureStats {
+  size: string; // Lower case, e.g. "medium"
+  type: string;
+  subtype: string;
+  alignment: string;
+  armorClass: number;
+  armorType: string; // e.g. "natural armor"
+  hitPoints: number;
+  hitDice: string; // e.g. "2d8 + 2"
+  speed: string;
+  speeds: Record<string, number>; // Feet by movement type
+  abilities: number[]; // ABILITY_NAMES order
+  challenge: string; // As written, e.g. "1/4"
+  challengeRating: number;
+  senses: string;
+  languages: string;
+}
+
+/**
+ * Statistics used when a creature's stat block can't be read: the commoner's,
+ * as a starting point for the DM
+ */
+const COMMONER_STATS = {
+  armorClass: '10',
+  hitPoints: '4 (1d8)',
+  speed: '30 ft.',
+  abilities: [10, 10, 10, 10, 10, 10]
+};
+
+/**
+ * Read a campaign stat block, written either as stat block HTML or as
+ * Markdown text; null when it has no armor class or hit points to use
+ */
+export function readCampaignStatBlock(stats: string): StatBlock | null {
+  const element = findElements(parseHTML(stats), isStatBlockElement)[0];
+  const statBlock = element ? parseStatBlock(element) : parseStatBlockMarkdown(stats);
+  const hasStats = getStatBlockProperty(statBlock, 'Armor Class') !== undefined
+    || getStatBlockProperty(statBlock, 'Hit Points') !== undefined;
+  return hasStats ? statBlock : null;
+}
+
+/**
+ * Creatures in a campaign: NPCs first, with the stat block they link to
+ */
+export function getCampaignCreatures(campaign: GeneratedCampaign): CampaignCreature[] {
+  const statBlocks = campaign.statBlocks ?? [];
+  const linkedIds = new Set(campaign.npcs.map(npc => npc.statBlockId).filter(Boolean));
+
+  const npcs = campaign.npcs.map((npc): CampaignCreature => {
+    const linked = statBlocks.find(statBlock => statBlock.id === npc.statBlockId);
+    return {
+      key: `npc:${npc.id}`,
+      name: npc.name,
+      kind: 'npc',
+      ...(linked && { statBlockId: linked.id }),
+      statBlock: linked ? readCampaignStatBlock(linked.stats) : null,
+      challengeRating: linked?.challengeRating ?? '0',
+      biography: [
+        `<p><strong>Race:</strong> ${escapeHTML(npc.race)} | <strong>Role:</strong> ${escapeHTML(npc.role)}</p>`,
+        `<p><strong>Personality:</strong> ${escapeHTML(npc.personality)}</p>`,
+        `<p><strong>Motivation:</strong> ${escapeHTML(npc.motivation)}</p>`,
+        textToHTML(npc.description)
+      ].join('')
+    };
+  });
+
+  const monsters = statBlocks
+    .filter(statBlock => !linkedIds.has(statBlock.id))
+    .map((statBlock): CampaignCreature => ({
+      key: `stat-block:${statBlock.id}`,
+      name: statBlock.name,
+      kind: statBlock.type === 'npc' ? 'npc' : 'monster',
+      statBlockId: statBlock.id,
+      statBlock: readCampaignStatBlock(statBlock.stats),
+      challengeRating: statBlock.challengeRating,
+      biography: statBlock.aideddUrl
+        ? `<p><a href="${escapeHTML(statBlock.aideddUrl)}">${escapeHTML(statBlock.name)} on aidedd.org</a></p>`
+        : ''
+    }));
+
+  return [...npcs, ...monsters];
+}
+
+/**
+ * Statistics for a creature, filling gaps with the commoner's
+ */
+export function getCreatureStats(creature: CampaignCreature): CreatureStats {
+  const { statBlock } = creature;
+  const property = (label: string) => (statBlock && getStatBlockProperty(statBlock, label)) ?? '';
+  const meta = statBlock ? parseCreatureMeta(statBlock.meta) : null;
+  const armorClass = property('Armor Class') || COMMONER_STATS.armorClass;
+  const hitPoints = parseHitPoints(property('Hit Points') || COMMONER_STATS.hitPoints);
+  const speed = property('Speed') || COMMONER_STATS.speed;
+  const challenge = (property('Challenge') || creature.challengeRating).replace(/\s*\(.*$/, '').trim();
+
+  return {
+    size: meta?.size.toLowerCase() ?? 'medium',
+    type: meta?.type.toLowerCase() ?? '',
+    subtype: meta?.subtype ?? '',
+    alignment: meta?.alignment ?? '',
+    armorClass: parseInt(armorClass, 10) || 10,
+    armorType: armorClass.match(/\(([^)]+)\)/)?.[1] ?? '',
+    hitPoints: hitPoints.average ?? 4,
+    hitDice: hitPoints.formula,
+    speed,
+    speeds: parseSpeeds(speed),
+    abilities: statBlock?.abilities ?? COMMONER_STATS.abilities,
+    challenge,
+    challengeRating: parseChallengeRating(challenge) ?? 0,
+    senses: property('Senses'),
+    languages: property('Languages').replace(/^[—-]$/, '')
+  };
+}
+
+/**
+ * Creatures an encounter lists by stat block id
+ */
+export function getEncounterCreatures(
+  encounter: CampaignEncounter,
+  creatures: CampaignCreature[]
+): CampaignCreature[] {
+  return (encounter.statBlockIds ?? [])
+    .map(id => creatures.find(creature => creature.statBlockId === id))
+    .filter((creature): creature is CampaignCreature => creature !== undefined);
+}
+
+/**
+ * Encounters in play order
+ */
+export function getOrderedEncounters(campaign: GeneratedCampaign): CampaignEncounter[] {
+  return [...campaign.encounters].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * HTML paragraphs for generator text; blank lines separate paragraphs
+ */
+export function textToHTML(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHTML(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Id derived from a seed, the same on every export
+ */
+export function createStableId(seed: string, length: number, alphabet: string = ALPHANUMERIC): string {
+  let hash = 0x811c9dc5;
+  let id = '';
+  for (let round = 0; id.length < length; round++) {
+    // FNV-1a, carried over between rounds
+    for (const char of `${round}:${seed}`) {
+      hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+    }
+    let value = hash;
+    for (let i = 0; i < 4 && id.length < length; i++) {
+      id += alphabet[value % alphabet.length];
+      value = Math.floor(value / alphabet.length);
+    }
+  }
+  return id;
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Foundry VTT export for generated campaigns
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Builds a Foundry Adventure document for the dnd5e system: a journal entry
+ * for the overview, each location and each encounter, and an NPC actor for
+ * each creature. Encounters and locations link to each other and to their
+ * actors with @UUID links, which resolve once the adventure is imported.
+ */
+
+import { escapeHTML } from '@/lib/html-tree';
+import type { StatBlockEntry } from '@/lib/stat-block';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
+import {
+  createStableId,
+  getCampaignCreatures,
+  getCreatureStats,
+  getEncounterCreatures,
+  getOrderedEncounters,
+  textToHTML,
+  type CampaignCreature
+} from './campaign-content';
+import {
+  foundryAdventureSchema,
+  type FoundryActor,
+  type FoundryAdventure,
+  type FoundryFolder,
+  type FoundryItem,
+  type FoundryJournalEntry
+} from './schemas';
+
+/**
+ * Foundry size keys by stat block size
+ */
+const SIZES: Record<string, FoundryActor['system']['traits']['size']> = {
+  tiny: 'tiny',
+  small: 'sm',
+  medium: 'med',
+  large: 'lg',
+  huge: 'huge',
+  gargantuan: 'grg'
+};
+
+/**
+ * Activation for entries under each stat block section
+ */
+const SECTION_ACTIVATIONS: Record<string, FoundryItem['system']['activation']['type']> = {
+  'actions': 'action',
+  'bonus actions': 'bonus',
+  'reactions': 'reaction',
+  'legendary actions': 'legendary',
+  'lair actions': 'lair'
+};
+
+/**
+ * Sort spacing Foundry uses between sibling documents
+ */
+const SORT_STEP = 100000;
+
+/**
+ * Build a Foundry adventure from a campaign
+ */
+export function campaignToFoundryAdventure(campaign: GeneratedCampaign): FoundryAdventure {
+  const idFor = (key: string) => createStableId(`${campaign.id}:${key}`, 16);
+  const creatures = getCampaignCreatures(campaign);
+  const encounters = getOrderedEncounters(campaign);
+
+  const folder = (key: string, name: string, type: FoundryFolder['type'], index: number): FoundryFolder => ({
+    _id: idFor(`folder:${key}`),
+    name,
+    type,
+    folder: null,
+    sorting: 'm',
+    sort: (index + 1) * SORT_STEP,
+    color: null,
+    flags: {}
+  });
+  const folders = [
+    folder('locations', 'Locations', 'JournalEntry', 0),
+    folder('encounters', 'Encounters', 'JournalEntry', 1),
+    folder('npcs', 'NPCs', 'Actor', 0),
+    folder('monsters', 'Monsters', 'Actor', 1)
+  ];
+  const [locationsFolder, encountersFolder, npcsFolder, monstersFolder] = folders.map(f => f._id);
+
+  const actorLink = (creature: CampaignCreature) =>
+    `@UUID[Actor.${idFor(creature.key)}]{${escapeHTML(creature.name)}}`;
+  const encounterLink = (id: string) => {
+    const encounter = campaign.encounters.find(e => e.id === id);
+    return encounter ? `@UUID[JournalEntry.${idFor(`encounter:${encounter.id}`)}]{${escapeHTML(encounter.title)}}` : null;
+  };
+  const linkList = (links: Array<string | null>) => {
+    const items = links.filter((link): link is string => link !== null);
+    return items.length ? `<ul>${items.map(link => `<li>${link}</li>`).join('')}</ul>` : '';
+  };
+
+  const journal: FoundryJournalEntry[] = [];
+  const addEntry = (key: string, name: string, folderId: string | null, pages: Array<[string, string]>) => {
+    // Entries need at least one page, even when there's nothing to say
+    const filled = pages.filter(([, content]) => content);
+    if (filled.length === 0) filled.push([name, '']);
+    journal.push({
+      _id: idFor(key),
+      name,
+      pages: filled.map(([title, content], index) => ({
+        _id: idFor(`${key}:page:${index}`),
+        name: title,
+        type: 'text',
+        title: { show: true, level: 1 },
+        text: { content, format: 1 },
+        sort: (index + 1) * SORT_STEP
+      })),
+      folder: folderId,
+      sort: (journal.filter(entry => entry.folder === folderId).length + 1) * SORT_STEP,
+      ownership: { default: 0 },
+      flags: {}
+    });
+  };
+
+  addEntry('overview', campaign.title, null, [
+    ['Introduction', textToHTML(campaign.introduction)],
+    ['Plot Hooks', campaign.plotHooks.length
+      ? `<ul>${campaign.plotHooks.map(hook => `<li>${escapeHTML(hook)}</li>`).join('')}</ul>`
+      : ''],
+    ...(campaign.handouts ?? []).map((handout, index): [string, string] => [`Handout ${index + 1}`, textToHTML(handout)]),
+    ['Conclusion', textToHTML(campaign.conclusion)]
+  ]);
+
+  campaign.locations.forEach(location => {
+    addEntry(`location:${location.id}`, location.name, locationsFolder!, [
+      ['Description', `<p><strong>Type:</strong> ${escapeHTML(location.type)}</p>${textToHTML(location.description)}`],
+      ['Encounters', linkList((location.encounters ?? []).map(encounterLink))],
+      ['DM Notes', textToHTML(location.notes ?? '')]
+    ]);
+  });
+
+  encounters.forEach((encounter, index) => {
+    const details = `<p><strong>Type:</strong> ${escapeHTML(encounter.type)} | `
+      + `<strong>Duration:</strong> ${encounter.estimatedDuration} minutes | `
+      + `<strong>Difficulty:</strong> ${encounter.difficultyLevel}/10</p>`;
+    const location = campaign.locations.find(l => l.encounters?.includes(encounter.id));
+    const locationLink = location
+      ? `<p><strong>Location:</strong> @UUID[JournalEntry.${idFor(`location:${location.id}`)}]{${escapeHTML(location.name)}}</p>`
+      : '';
+
+    addEntry(`encounter:${encounter.id}`, `${index + 1}. ${encounter.title}`, encountersFolder!, [
+      ['Overview', `${details}${locationLink}${textToHTML(encounter.description)}`],
+      ['Creatures', linkList(getEncounterCreatures(encounter, creatures).map(actorLink))],
+      ['DM Notes', textToHTML(encounter.notes ?? '')]
+    ]);
+  });
+
+  const actors = creatures.map((creature, index) =>
+    creatureToActor(creature, idFor, creature.kind === 'npc' ? npcsFolder! : monstersFolder!, index));
+
+  return foundryAdventureSchema.parse({
+    name: campaign.title,
+    caption: `A ${campaign.difficultyRating} adventure for ${campaign.parameters.playerCount} level ${campaign.parameters.characterLevel} characters`,
+    description: textToHTML(campaign.introduction),
+    folders,
+    journal,
+    actors,
+    scenes: [],
+    items: [],
+    tables: [],
+    macros: [],
+    cards: [],
+    playlists: [],
+    combats: [],
+    sort: 0,
+    flags: {}
+  });
+}
+
+/**
+ * Build a dnd5e NPC actor; creatures without readable stats get commoner
+ * statistics for the DM to fill in
+ */
+function creatureToActor(
+  creature: CampaignCreature,
+  idFor: (key: string) => string,
+  folderId: string,
+  index: number
+): FoundryActor {
+  const { statBlock } = creature;
+  const stats = getCreatureStats(creature);
+  const [str, dex, con, int, wis, cha] = stats.abilities;
+
+  const items: FoundryItem[] = [];
+  const addItem = (entry: StatBlockEntry, fallbackName: string, activation: FoundryItem['system']['activation']['type']) => {
+    items.push({
+      _id: idFor(`${creature.key}:item:${items.length}`),
+      name: entry.name || fallbackName,
+      type: 'feat',
+      system: {
+        description: { value: `<p>${entry.description}</p>` },
+        activation: { type: activation, cost: activation && activation !== 'lair' ? 1 : null }
+      },
+      sort: (items.length + 1) * SORT_STEP,
+      flags: {}
+    });
+  };
+  statBlock?.traits.forEach(trait => addItem(trait, 'Trait', ''));
+  statBlock?.sections.forEach(section => section.entries.forEach(entry =>
+    addItem(entry, section.title, SECTION_ACTIVATIONS[section.title.toLowerCase()] ?? '')));
+
+  return {
+    _id: idFor(creature.key),
+    name: creature.name,
+    type: 'npc',
+    folder: folderId,
+    system: {
+      abilities: {
+        str: { value: str! },
+        dex: { value: dex! },
+        con: { value: con! },
+        int: { value: int! },
+        wis: { value: wis! },
+        cha: { value: cha! }
+      },
+      attributes: {
+        ac: { calc: 'flat', flat: stats.armorClass },
+        hp: { value: stats.hitPoints, max: stats.hitPoints, formula: stats.hitDice },
+        movement: {
+          walk: stats.speeds.walk ?? 0,
+          burrow: stats.speeds.burrow ?? 0,
+          climb: stats.speeds.climb ?? 0,
+          fly: stats.speeds.fly ?? 0,
+          swim: stats.speeds.swim ?? 0,
+          units: 'ft',
+          hover: /\bhover\b/i.test(stats.speed)
+        },
+        senses: { special: stats.senses }
+      },
+      details: {
+        cr: stats.challengeRating,
+        type: { value: stats.type, subtype: stats.subtype, custom: '' },
+        alignment: stats.alignment,
+        biography: { value: creature.biography }
+      },
+      traits: {
+        size: SIZES[stats.size] ?? 'med',
+        languages: { value: [], custom: stats.languages }
+      }
+    },
+    items,
+    prototypeToken: {
+      name: creature.name,
+      actorLink: creature.kind === 'npc',
+      disposition: creature.kind === 'npc' ? 0 : -1
+    },
+    sort: (index + 1) * SORT_STEP,
+    ownership: { default: 0 },
+    flags: {}
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Roll20 export for generated campaigns
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Builds handouts for the overview, locations, encounters and the campaign's
+ * own handouts, and NPC characters for the D&D 5E by Roll20 sheet. Handouts
+ * start GM-only; DM notes go in each handout's GM notes. Characters use the
+ * character JSON layout the VTT Enhancement Suite imports.
+ */
+
+import { escapeHTML, getTextContent, parseHTML } from '@/lib/html-tree';
+import type { StatBlockEntry } from '@/lib/stat-block';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
+import {
+  createStableId,
+  getCampaignCreatures,
+  getCreatureStats,
+  getEncounterCreatures,
+  getOrderedEncounters,
+  textToHTML,
+  type CampaignCreature
+} from './campaign-content';
+import {
+  roll20CampaignSchema,
+  type Roll20Attribute,
+  type Roll20Campaign,
+  type Roll20Character,
+  type Roll20Handout
+} from './schemas';
+
+/**
+ * Characters Roll20 uses in object ids
+ */
+const ROLL20_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Sheet attribute names for each ability, in ABILITY_NAMES order
+ */
+const ABILITY_ATTRIBUTES = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
+/**
+ * Sheet repeating sections for entries under each stat block section
+ */
+const SECTION_REPEATING: Record<string, string> = {
+  'actions': 'npcaction',
+  'bonus actions': 'npcbonusaction',
+  'reactions': 'npcreaction',
+  'legendary actions': 'npcaction-l'
+};
+
+/**
+ * Build a Roll20 import from a campaign
+ */
+export function campaignToRoll20(campaign: GeneratedCampaign): Roll20Campaign {
+  const creatures = getCampaignCreatures(campaign);
+
+  const handout = (name: string, notes: string, gmnotes: string, tag: string): Roll20Handout => ({
+    name,
+    notes,
+    gmnotes,
+    avatar: '',
+    tags: JSON.stringify([tag]),
+    inplayerjournals: '',
+    archived: false
+  });
+  const nameList = (names: string[]) =>
+    names.length ? `<ul>${names.map(name => `<li>${escapeHTML(name)}</li>`).join('')}</ul>` : '';
+
+  const handouts: Roll20Handout[] = [
+    handout(
+      campaign.title,
+      textToHTML(campaign.introduction)
+        + (campaign.plotHooks.length ? `<h2>Plot Hooks</h2>${nameList(campaign.plotHooks)}` : ''),
+      `<h2>Conclusion</h2>${textToHTML(campaign.conclusion)}`,
+      'overview'
+    ),
+    ...campaign.locations.map(location => {
+      const encounters = campaign.encounters.filter(e => location.encounters?.includes(e.id));
+      return handout(
+        location.name,
+        `<p><strong>Type:</strong> ${escapeHTML(location.type)}</p>${textToHTML(location.description)}`,
+        textToHTML(location.notes ?? '')
+          + (encounters.length ? `<h2>Encounters</h2>${nameList(encounters.map(e => e.title))}` : ''),
+        'location'
+      );
+    }),
+    ...getOrderedEncounters(campaign).map((encounter, index) => {
+      const encounterCreatures = getEncounterCreatures(encounter, creatures);
+      return handout(
+        `${index + 1}. ${encounter.title}`,
+        `<p><strong>Type:</strong> ${escapeHTML(encounter.type)} | `
+          + `<strong>Duration:</strong> ${encounter.estimatedDuration} minutes | `
+          + `<strong>Difficulty:</strong> ${encounter.difficultyLevel}/10</p>`
+          + textToHTML(encounter.description),
+        textToHTML(encounter.notes ?? '')
+          + (encounterCreatures.length ? `<h2>Creatures</h2>${nameList(encounterCreatures.map(c => c.name))}` : ''),
+        'encounter'
+      );
+    }),
+    ...(campaign.handouts ?? []).map((text, index) => handout(`Handout ${index + 1}`, textToHTML(text), '', 'handout'))
+  ];
+
+  return roll20CampaignSchema.parse({
+    schema_version: 2,
+    name: campaign.title,
+    handouts,
+    characters: creatures.map(creature => creatureToCharacter(creature, campaign.id))
+  });
+}
+
+/**
+ * Build an NPC character; creatures without readable stats get commoner
+ * statistics for the DM to fill in
+ */
+function creatureToCharacter(creature: CampaignCreature, campaignId: string): Roll20Character {
+  const { statBlock } = creature;
+  const stats = getCreatureStats(creature);
+  const idFor = (key: string) => `-${createStableId(`${campaignId}:${creature.key}:${key}`, 19, ROLL20_ID_ALPHABET)}`;
+
+  const attribs: Roll20Attribute[] = [];
+  const set = (name: string, current: string | number, max: string | number = '') => {
+    attribs.push({ name, current, max, id: idFor(`attr:${name}`) });
+  };
+
+  set('npc', 1);
+  set('npc_name', creature.name);
+  set('npc_type', statBlock?.meta ?? '');
+  set('npc_ac', stats.armorClass);
+  set('npc_actype', stats.armorType);
+  set('hp', stats.hitPoints, stats.hitPoints);
+  set('npc_hpformula', stats.hitDice);
+  set('npc_speed', stats.speed);
+  stats.abilities.forEach((score, index) => set(ABILITY_ATTRIBUTES[index]!, score));
+  set('npc_challenge', stats.challenge);
+  set('npc_senses', stats.senses);
+  set('npc_languages', stats.languages);
+
+  const addRow = (section: string, entry: StatBlockEntry, fallbackName: string) => {
+    const rowId = idFor(`row:${attribs.length}`);
+    set(`repeating_${section}_${rowId}_name`, entry.name || fallbackName);
+    set(`repeating_${section}_${rowId}_description`, getTextContent(parseHTML(entry.description)).trim());
+  };
+  statBlock?.traits.forEach(trait => addRow('npctrait', trait, 'Trait'));
+  statBlock?.sections.forEach(section => section.entries.forEach(entry =>
+    addRow(SECTION_REPEATING[section.title.toLowerCase()] ?? 'npctrait', entry, section.title)));
+
+  return {
+    schema_version: 2,
+    type: 'character',
+    character: {
+      name: creature.name,
+      avatar: '',
+      bio: creature.biography,
+      gmnotes: '',
+      defaulttoken: '',
+      tags: JSON.stringify([creature.kind]),
+      controlledby: '',
+      inplayerjournals: '',
+      archived: false,
+      attribs,
+      abilities: []
+    }
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Vitest tests for the tabletop exporters against their import schemas
+ * @author WordWise AI Team
+ * @version 1.0.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GeneratedCampaign } from '@/services/ai/campaign-generator';
+import { campaignToFoundryAdventure } from './foundry';
+import { campaignToRoll20 } from './roll20';
+import { foundryAdventureSchema, roll20CampaignSchema } from './schemas';
+
+const GOBLIN = `<div class="stat-block">
+<h3 class="stat-block-name">Goblin</h3>
+<p class="stat-block-meta"><em>Small humanoid (goblinoid), neutral evil</em></p>
+<p><strong>Armor Class</strong> 15 (Leather Armor, Shield)</p>
+<p><strong>Hit Points</strong> 7 (2d6)</p>
+<p><strong>Speed</strong> 30 ft.</p>
+<table class="stat-block-abilities">
+<tr><th>STR</th><th>DEX</th><th>CON</th><th>INT</th><th>WIS</th><th>CHA</th></tr>
+<tr><td>8 (-1)</td><td>14 (+2)</td><td>10 (+0)</td><td>10 (+0)</td><td>8 (-1)</td><td>8 (-1)</td></tr>
+</table>
+<p><strong>Challenge</strong> 1/4 (50 XP)</p>
+<p><strong>Nimble Escape.</strong> Disengages as a bonus action.</p>
+<h4>Actions</h4>
+<p><strong>Scimitar.</strong> <em>Melee Weapon Attack:</em> +4 to hit.</p>
+</div>`;
+
+const CAPTAIN = `**Captain Marcus Ironvale**
+*Medium humanoid (human), lawful good*
+
+**Armor Class** 16 (Chain Mail)
+**Hit Points** 52 (8d8 + 16)
+**Speed** 30 ft.
+
+**STR** 16 (+3) **DEX** 12 (+1) **CON** 14 (+2) **INT** 13 (+1) **WIS** 14 (+2) **CHA** 15 (+2)
+
+**Challenge** 2 (450 XP)
+
+**Actions**
+*Longsword.* Melee Weapon Attack: +5 to hit.`;
+
+const campaign: GeneratedCampaign = {
+  id: 'campaign-1',
+  title: 'The Sunken Keep',
+  parameters: {
+    duration: 3,
+    playerCount: 4,
+    characterLevel: 2,
+    setting: 'dungeon',
+    theme: 'adventure',
+    tone: 'heroic',
+    combatBalance: 'moderate',
+    roleplayBalance: 'moderate',
+    explorationBalance: 'moderate'
+  },
+  introduction: 'Salt water fills the lower halls.\n\nThe captain needs help.',
+  plotHooks: ['A map washes ashore'],
+  encounters: [
+    {
+      id: 'enc-2', title: 'Goblin Ambush', type: 'combat', description: 'Goblins strike.',
+      estimatedDuration: 30, difficultyLevel: 4, statBlockIds: ['stat-1', 'stat-2'], order: 2
+    },
+    {
+      id: 'enc-1', title: 'Meeting the Captain', type: 'social', description: 'The captain waits.',
+      estimatedDuration: 20, difficultyLevel: 2, statBlockIds: ['stat-npc'], notes: 'He lies about the map.', order: 1
+    }
+  ],
+  conclusion: 'The keep rises again.',
+  npcs: [
+    {
+      id: 'npc-1', name: 'Captain Marcus Ironvale', race: 'Human', role: 'Harbor captain',
+      personality: 'Gruff', motivation: 'Reclaim the keep', description: 'Scarred and tired.', statBlockId: 'stat-npc'
+    }
+  ],
+  locations: [
+    { id: 'loc-1', name: 'Flooded Hall', type: 'dungeon', description: 'Knee-deep water.', encounters: ['enc-2'] }
+  ],
+  statBlocks: [
+    { id: 'stat-1', name: 'Goblin', type: 'monster', challengeRating: '1/4', stats: GOBLIN },
+    { id: 'stat-2', name: 'Sea Hag', type: 'monster', challengeRating: '2', stats: '<div class="stat-block"><h3>Sea Hag</h3><p class="stat-block-meta"><em>Stat block not available</em></p></div>' },
+    { id: 'stat-npc', name: 'Captain', type: 'npc', challengeRating: '2', stats: CAPTAIN }
+  ],
+  estimatedDuration: 180,
+  difficultyRating: 'medium',
+  generatedAt: new Date('2024-01-01')
+};
+
+describe('campaignToFoundryAdventure', () => {
+  const adventure = campaignToFoundryAdventure(campaign);
+
+  it('matches the Foundry adventure schema', () => {
+    expect(foundryAdventureSchema.safeParse(adventure).success).toBe(true);
+  });
+
+  it('writes journal entries for the overview, locations and encounters in play order', () => {
+    expect(adventure.journal.map(entry => entry.name)).toEqual([
+      'The Sunken Keep', 'Flooded Hall', '1. Meeting the Captain', '2. Goblin Ambush'
+    ]);
+    const ambush = adventure.journal[3]!;
+    const goblin = adventure.actors.find(actor => actor.name === 'Goblin')!;
+    expect(ambush.pages.map(page => page.name)).toEqual(['Overview', 'Creatures']);
+    expect(ambush.pages[1]!.text.content).toContain(`@UUID[Actor.${goblin._id}]{Goblin}`);
+  });
+
+  it('writes actors with stats read from HTML and Markdown stat blocks', () => {
+    const [captain, goblin, hag] = adventure.actors;
+    expect(captain!.name).toBe('Captain Marcus Ironvale');
+    expect(captain!.system.attributes.hp).toEqual({ value: 52, max: 52, formula: '8d8 + 16' });
+    expect(captain!.prototypeToken.disposition).toBe(0);
+    expect(goblin!.system.abilities.dex.value).toBe(14);
+    expect(goblin!.system.traits.size).toBe('sm');
+    expect(goblin!.system.details.cr).toBe(0.25);
+    expect(goblin!.items.map(item => [item.name, item.system.activation.type])).toEqual([
+      ['Nimble Escape', ''], ['Scimitar', 'action']
+    ]);
+    expect(hag!.system.attributes.ac.flat).toBe(10);
+    expect(hag!.system.details.cr).toBe(2);
+  });
+
+  it('keeps ids stable between exports', () => {
+    expect(campaignToFoundryAdventure(campaign).actors.map(actor => actor._id))
+      .toEqual(adventure.actors.map(actor => actor._id));
+  });
+});
+
+describe('campaignToRoll20', () => {
+  const roll20 = campaignToRoll20(campaign);
+
+  it('matches the Roll20 import schema', () => {
+    expect(roll20CampaignSchema.safeParse(roll20).success).toBe(true);
+  });
+
+  it('writes GM-only handouts with DM notes kept in GM notes', () => {
+    const meeting = roll20.handouts.find(handout => handout.name === '1. Meeting the Captain')!;
+    expect(meeting.inplayerjournals).toBe('');
+    expect(meeting.notes).toContain('The captain waits.');
+    expect(meeting.gmnotes).toContain('He lies about the map.');
+    expect(meeting.gmnotes).toContain('<li>Captain Marcus Ironvale</li>');
+  });
+
+  it('writes NPC sheet attributes and repeating actions', () => {
+    const goblin = roll20.characters.find(c => c.character.name === 'Goblin')!.character;
+    const attribute = (name: string) => goblin.attribs.find(a => a.name === name)?.current;
+    expect(attribute('npc_ac')).toBe(15);
+    expect(attribute('npc_actype')).toBe('Leather Armor, Shield');
+    expect(attribute('dexterity')).toBe(14);
+    expect(attribute('npc_challenge')).toBe('1/4');
+    const action = goblin.attribs.find(a => /^repeating_npcaction_.+_name$/.test(a.name));
+    expect(action?.current).toBe('Scimitar');
+  });
+});
+
+describe('tabletop schemas', () => {
+  it('reject malformed documents', () => {
+    const adventure = campaignToFoundryAdventure(campaign);
+    expect(foundryAdventureSchema.safeParse({ ...adventure, actors: [{ ...adventure.actors[0], _id: 'short' }] }).success)
+      .toBe(false);
+    expect(roll20CampaignSchema.safeParse({ schema_version: 1, name: 'x', handouts: [], characters: [] }).success)
+      .toBe(false);
+  });
+});
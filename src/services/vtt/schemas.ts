@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Virtual tabletop import formats
+ * @author WordWise AI Team
+ * @version 1.0.0
+ *
+ * Schemas for the JSON our campaign exporters write, covering the fields
+ * each tabletop reads on import:
+ * - Foundry VTT: an Adventure document (v11+, dnd5e system) for "Import Data"
+ *   on an adventure compendium entry
+ * - Roll20: handouts and characters in the character JSON layout of the
+ *   VTT Enhancement Suite importer, for the D&D 5E by Roll20 sheet
+ *
+ * Exporters validate their output against these before handing it out.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Foundry document id: 16 alphanumeric characters
+ */
+const foundryIdSchema = z.string().regex(/^[a-zA-Z0-9]{16}$/);
+
+/**
+ * Permission levels by user id; `default` applies to everyone else
+ */
+const foundryOwnershipSchema = z.record(z.number().int().min(-1).max(3));
+
+const foundryFolderSchema = z.object({
+  _id: foundryIdSchema,
+  name: z.string().min(1),
+  type: z.enum(['JournalEntry', 'Actor']),
+  folder: foundryIdSchema.nullable(),
+  sorting: z.enum(['a', 'm']),
+  sort: z.number().int(),
+  color: z.string().nullable(),
+  flags: z.record(z.unknown())
+});
+
+const foundryJournalPageSchema = z.object({
+  _id: foundryIdSchema,
+  name: z.string().min(1),
+  type: z.literal('text'),
+  title: z.object({ show: z.boolean(), level: z.number().int().min(1).max(6) }),
+  text: z.object({ content: z.string(), format: z.literal(1) }), // 1 = HTML
+  sort: z.number().int()
+});
+
+const foundryJournalEntrySchema = z.object({
+  _id: foundryIdSchema,
+  name: z.string().min(1),
+  pages: z.array(foundryJournalPageSchema).min(1),
+  folder: foundryIdSchema.nullable(),
+  sort: z.number().int(),
+  ownership: foundryOwnershipSchema,
+  flags: z.record(z.unknown())
+});
+
+const foundryItemSchema = z.object({
+  _id: foundryIdSchema,
+  name: z.string().min(1),
+  type: z.literal('feat'),
+  system: z.object({
+    description: z.object({ value: z.string() }),
+    activation: z.object({
+      type: z.enum(['', 'action', 'bonus', 'reaction', 'legendary', 'lair']),
+      cost: z.number().int().nullable()
+    })
+  }),
+  sort: z.number().int(),
+  flags: z.record(z.unknown())
+});
+
+const foundryAbilitySchema = z.object({ value: z.number().int().min(1).max(30) });
+
+const foundryActorSchema = z.object({
+  _id: foundryIdSchema,
+  name: z.string().min(1),
+  type: z.literal('npc'),
+  folder: foundryIdSchema.nullable(),
+  system: z.object({
+    abilities: z.object({
+      str: foundryAbilitySchema,
+      dex: foundryAbilitySchema,
+      con: foundryAbilitySchema,
+      int: foundryAbilitySchema,
+      wis: foundryAbilitySchema,
+      cha: foundryAbilitySchema
+    }),
+    attributes: z.object({
+      ac: z.object({ calc: z.literal('flat'), flat: z.number().int().min(0) }),
+      hp: z.object({ value: z.number().int().min(0), max: z.number().int().min(0), formula: z.string() }),
+      movement: z.object({
+        walk: z.number().min(0),
+        burrow: z.number().min(0),
+        climb: z.number().min(0),
+        fly: z.number().min(0),
+        swim: z.number().min(0),
+        units: z.literal('ft'),
+        hover: z.boolean()
+      }),
+      senses: z.object({ special: z.string() })
+    }),
+    details: z.object({
+      cr: z.number().min(0).max(30),
+      type: z.object({ value: z.string(), subtype: z.string(), custom: z.string() }),
+      alignment: z.string(),
+      biography: z.object({ value: z.string() })
+    }),
+    traits: z.object({
+      size: z.enum(['tiny', 'sm', 'med', 'lg', 'huge', 'grg']),
+      languages: z.object({ value: z.array(z.string()), custom: z.string() })
+    })
+  }),
+  items: z.array(foundryItemSchema),
+  prototypeToken: z.object({
+    name: z.string().min(1),
+    actorLink: z.boolean(),
+    disposition: z.number().int().min(-1).max(1) // -1 hostile, 0 neutral, 1 friendly
+  }),
+  sort: z.number().int(),
+  ownership: foundryOwnershipSchema,
+  flags: z.record(z.unknown())
+});
+
+export const foundryAdventureSchema = z.object({
+  name: z.string().min(1),
+  caption: z.string(),
+  description: z.string(),
+  folders: z.array(foundryFolderSchema),
+  journal: z.array(foundryJournalEntrySchema),
+  actors: z.array(foundryActorSchema),
+  // Documents we don't write, present so the import has every collection
+  scenes: z.array(z.never()),
+  items: z.array(z.never()),
+  tables: z.array(z.never()),
+  macros: z.array(z.never()),
+  cards: z.array(z.never()),
+  playlists: z.array(z.never()),
+  combats: z.array(z.never()),
+  sort: z.number().int(),
+  flags: z.record(z.unknown())
+});
+
+export type FoundryAdventure = z.infer<typeof foundryAdventureSchema>;
+export type FoundryFolder = z.infer<typeof foundryFolderSchema>;
+export type FoundryJournalEntry = z.infer<typeof foundryJournalEntrySchema>;
+export type FoundryActor = z.infer<typeof foundryActorSchema>;
+export type FoundryItem = z.infer<typeof foundryItemSchema>;
+
+/**
+ * Roll20 object id: a dash and 19 URL-safe characters
+ */
+const roll20IdSchema = z.string().regex(/^-[A-Za-z0-9_-]{19}$/);
+
+const roll20AttributeSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/),
+  current: z.union([z.string(), z.number()]),
+  max: z.union([z.string(), z.number()]),
+  id: roll20IdSchema
+});
+
+const roll20AbilitySchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  istokenaction: z.boolean(),
+  action: z.string(),
+  order: z.number().int()
+});
+
+export const roll20CharacterSchema = z.object({
+  schema_version: z.literal(2),
+  type: z.literal('character'),
+  character: z.object({
+    name: z.string().min(1),
+    avatar: z.string(),
+    bio: z.string(),
+    gmnotes: z.string(),
+    defaulttoken: z.string(),
+    tags: z.string(),
+    controlledby: z.string(),
+    inplayerjournals: z.string(),
+    archived: z.boolean(),
+    attribs: z.array(roll20AttributeSchema),
+    abilities: z.array(roll20AbilitySchema)
+  })
+});
+
+const roll20HandoutSchema = z.object({
+  name: z.string().min(1),
+  notes: z.string(),
+  gmnotes: z.string(),
+  avatar: z.string(),
+  tags: z.string(),
+  inplayerjournals: z.string(), // "all" or player ids; empty keeps it GM-only
+  archived: z.boolean()
+});
+
+export const roll20CampaignSchema = z.object({
+  schema_version: z.literal(2),
+  name: z.string().min(1),
+  handouts: z.array(roll20HandoutSchema),
+  characters: z.array(roll20CharacterSchema)
+});
+
+export type Roll20Campaign = z.infer<typeof roll20CampaignSchema>;
+export type Roll20Character = z.infer<typeof roll20CharacterSchema>;
+export type Roll20Attribute = z.infer<typeof roll20AttributeSchema>;
+export type Roll20Handout = z.infer<typeof roll20HandoutSchema>;
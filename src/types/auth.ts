@@ -102,6 +102,9 @@ export interface UserPreferences {
   
   /** Default document sharing settings */
   defaultPrivacy: 'private' | 'public' | 'unlisted';
+  
+  /** Days trashed documents are kept before being deleted for good */
+  trashRetentionDays?: number;
 }
 
 /**
@@ -6,15 +6,27 @@
  * TypeScript types for document management and storage.
  */
 
+import type { TextAnchor } from '@/lib/text-anchor';
+
 /**
  * Document privacy levels
  */
 export type DocumentPrivacy = 'private' | 'shared' | 'public';
 
 /**
- * Document status
+ * Role granted to someone a document is shared with
+ */
+export type DocumentRole = 'viewer' | 'commenter' | 'editor';
+
+/**
+ * Effective access a user has to a document
+ */
+export type DocumentAccessRole = 'owner' | DocumentRole;
+
+/**
+ * Document status; trashed documents are hidden everywhere except the trash
  */
-export type DocumentStatus = 'draft' | 'published' | 'archived';
+export type DocumentStatus = 'draft' | 'published' | 'archived' | 'trashed';
 
 /**
  * Document type/category
@@ -60,6 +72,10 @@ export interface Document {
   // Metadata
   description?: string;
   tags: string[];
+  binderId?: string | null; // Binder holding the document; unfiled when missing
+  binderOrder?: number; // Position within the binder, ascending
+  trashedAt?: Date; // When the document was moved to the trash
+  statusBeforeTrash?: DocumentStatus; // Status to restore
   
   // Statistics
   stats: DocumentStats;
@@ -70,11 +86,14 @@ export interface Document {
   updatedAt: Date;
   lastAccessedAt: Date;
   
-  // Collaboration (future)
-  sharedWith?: string[]; // User IDs
-  collaborators?: string[]; // User IDs with edit access
+  // Collaboration
+  sharedWith?: string[]; // Lowercased emails with any role
+  memberEmails?: string[]; // Commenters and editors, who may read the document itself
+  viewerEmails?: string[]; // Viewers, who only get the player copy
+  shareRoles?: Record<string, DocumentRole>; // Lowercased email -> role
+  collaborators?: string[]; // Legacy - access comes from shareRoles
   
-  // Version control (future)
+  // Version control
   version: number;
   isAutoSaveEnabled: boolean;
 }
@@ -91,6 +110,15 @@ export interface CreateDocumentData {
   tags?: string[];
 }
 
+/**
+ * Document read from an imported file (Markdown, Word), ready to create
+ */
+export interface ImportedDocument {
+  title: string;
+  content: string; // Editor HTML
+  tags: string[];
+}
+
 /**
  * Document update data
  */
@@ -102,6 +130,10 @@ export interface UpdateDocumentData {
   status?: DocumentStatus;
   description?: string;
   tags?: string[];
+  binderId?: string | null; // null takes the document out of its binder
+  binderOrder?: number;
+  trashedAt?: Date | null; // null when restoring
+  statusBeforeTrash?: DocumentStatus | null;
   stats?: Partial<DocumentStats>;
   suggestions?: Partial<DocumentSuggestions>;
 }
@@ -112,10 +144,11 @@ export interface UpdateDocumentData {
 export interface DocumentFilters {
   type?: DocumentType;
   privacy?: DocumentPrivacy;
-  status?: DocumentStatus;
+  status?: DocumentStatus; // Without one, every status except 'trashed'
   tags?: string[];
-  searchQuery?: string;
-  dateRange?: {
+  binderId?: string;
+  searchQuery?: string; // Matched against title, description and tags while paging
+  dateRange?: { // Filters on updatedAt, and sorts by it
     start: Date;
     end: Date;
   };
@@ -136,7 +169,16 @@ export interface DocumentQueryOptions {
   filters?: DocumentFilters;
   sort?: DocumentSortOptions;
   limit?: number;
-  offset?: number;
+  cursor?: DocumentCursor | null; // Continue after this document
+}
+
+/**
+ * Position in a sorted document list: the sort value and ID of the last
+ * document on the previous page
+ */
+export interface DocumentCursor {
+  id: string;
+  value: string | number; // Dates as milliseconds
 }
 
 /**
@@ -144,8 +186,67 @@ export interface DocumentQueryOptions {
  */
 export interface DocumentListResponse {
   documents: Document[];
-  total: number;
+  total: number; // Documents matching the filters, before searchQuery
   hasMore: boolean;
+  nextCursor: DocumentCursor | null;
+}
+
+/**
+ * Change applied to every document in a bulk action
+ */
+export interface BulkDocumentChange {
+  type?: DocumentType;
+  status?: Exclude<DocumentStatus, 'trashed'>;
+  privacy?: Exclude<DocumentPrivacy, 'shared'>; // 'private' keeps documents with shares 'shared'
+  addTags?: string[];
+  removeTags?: string[];
+  replaceTags?: { from: string[]; to: string }; // Rename or merge tags, keeping their position
+}
+
+/**
+ * Outcome of a bulk action: which documents succeeded and why the others failed
+ */
+export interface BulkOperationResult {
+  succeededIds: string[];
+  failures: Array<{ documentId: string; error: string }>;
+}
+
+/**
+ * Outcome of a bulk action that changes or creates documents
+ */
+export interface BulkDocumentResult extends BulkOperationResult {
+  documents: Document[]; // Updated documents, or the new copies when duplicating
+}
+
+/**
+ * Campaign binder grouping related documents, like session notes, NPC lists
+ * and monster sheets. Documents point at their binder with `binderId`.
+ */
+export interface Binder {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  order: number; // Position among the user's binders, ascending
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Binder creation data
+ */
+export interface CreateBinderData {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Binder update data
+ */
+export interface UpdateBinderData {
+  name?: string;
+  description?: string;
+  order?: number;
 }
 
 /**
@@ -160,6 +261,92 @@ export interface RecentDocument {
   updatedAt: Date;
 }
 
+/**
+ * A person a document is shared with
+ */
+export interface DocumentShare {
+  email: string;
+  role: DocumentRole;
+}
+
+/**
+ * Sanitized, read-only copy of a public document for player view links
+ */
+export interface PublicDocument {
+  id: string; // Same ID as the source document
+  title: string;
+  content: string; // Sanitized HTML
+  type: DocumentType;
+  ownerId: string;
+  publishedAt: Date;
+}
+
+/**
+ * Copy of a shared document served to its viewers (players)
+ *
+ * Viewers can't read the source document, its versions or its comments; this
+ * copy holds the content without DM secrets or pending suggestions.
+ */
+export interface PlayerCopy {
+  id: string; // Same ID as the source document
+  title: string;
+  content: string; // Player HTML
+  type: DocumentType;
+  status: DocumentStatus;
+  ownerId: string;
+  viewers: string[]; // Lowercased viewer emails, as on the source document
+  updatedAt: Date;
+}
+
+/**
+ * Why a version snapshot was recorded
+ */
+export type DocumentVersionReason = 'manual' | 'autosave' | 'checkpoint' | 'restore';
+
+/**
+ * Snapshot of a document's content at a point in time
+ */
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  version: number; // Document.version at the time of the snapshot
+  title: string;
+  content: string; // HTML content from TipTap
+  wordCount: number;
+  reason: DocumentVersionReason;
+  createdBy: string; // User ID
+  createdAt: Date;
+}
+
+/**
+ * Reply in a comment thread
+ */
+export interface CommentReply {
+  id: string;
+  body: string;
+  authorId: string;
+  authorName: string;
+  createdAt: Date;
+}
+
+/**
+ * Inline comment anchored to a range of document text
+ */
+export interface DocumentComment {
+  id: string;
+  documentId: string;
+  anchor: TextAnchor; // Where the thread is attached
+  body: string;
+  authorId: string;
+  authorName: string;
+  replies: CommentReply[];
+  resolved: boolean;
+  resolvedBy?: string; // User ID
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Document template
  */
@@ -168,7 +355,19 @@ export interface DocumentTemplate {
   name: string;
   description: string;
   type: DocumentType;
-  content: string; // HTML template content
-  isDefault: boolean;
+  content: string; // HTML template content, with {{field}} placeholders
+  isDefault: boolean; // Built-in template, the same for everyone
   category: string;
+  tags?: string[]; // Given to documents created from the template
+  userId?: string; // Owner of a user template
+  createdAt?: Date;
+}
+
+/**
+ * Data for saving a document as a template
+ */
+export interface CreateTemplateData {
+  name: string;
+  description?: string;
+  category?: string;
 } 
\ No newline at end of file